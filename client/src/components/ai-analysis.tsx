@@ -1,13 +1,43 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Sparkles, CheckCircle2, AlertCircle, Lightbulb, ShieldAlert, Building2, FileText, XCircle, AlertTriangle } from "lucide-react";
-import type { BankCreditReport } from "@shared/schema";
+import { Progress } from "@/components/ui/progress";
+import { FinancialStabilityBadge } from "@/components/financial-stability-badge";
+import { Sparkles, CheckCircle2, AlertCircle, Lightbulb, ShieldAlert, Building2, FileText, XCircle, AlertTriangle, ScanSearch, Loader2 } from "lucide-react";
+import type { AnalysisJobPreview, BankCreditReport, CreditReportDraft, CreditReportSection } from "@shared/schema";
 
-interface AIAnalysisProps {
-  analysis: BankCreditReport;
+// The saved report, or the preview of a running analysis job with the sections the model has written so far
+type AIAnalysisProps =
+  | { analysis: BankCreditReport; preview?: undefined }
+  | { analysis?: undefined; preview: AnalysisJobPreview };
+
+const SECTION_LABELS: Record<CreditReportSection, string> = {
+  industrySector: "Состояние отрасли",
+  liquidity: "Ликвидность",
+  stability: "Финансовая устойчивость",
+  profitability: "Рентабельность",
+  strengths: "Сильные стороны",
+  weaknesses: "Слабые стороны",
+  recommendations: "Рекомендации",
+};
+
+const REPLACE_REASON_LABELS = {
+  invalid: "ответ модели не прошел проверку структуры",
+  facts: "в тексте модели слишком много неподтвержденных чисел",
+} as const;
+
+function reportSections(analysis: BankCreditReport): CreditReportDraft {
+  return {
+    industrySector: analysis.industrySector,
+    liquidity: analysis.financialCondition.liquidity,
+    stability: analysis.financialCondition.stability,
+    profitability: analysis.financialCondition.profitability,
+    strengths: analysis.strengths,
+    weaknesses: analysis.weaknesses,
+    recommendations: analysis.recommendations,
+  };
 }
 
-export function AIAnalysis({ analysis }: AIAnalysisProps) {
+export function AIAnalysis({ analysis, preview }: AIAnalysisProps) {
   const getRiskColor = (level: "low" | "medium" | "high") => {
     switch (level) {
       case "low":
@@ -30,6 +60,17 @@ export function AIAnalysis({ analysis }: AIAnalysisProps) {
     }
   };
 
+  const getGradeColor = (level: "low" | "medium" | "high") => {
+    switch (level) {
+      case "low":
+        return "text-emerald-600 dark:text-emerald-400";
+      case "medium":
+        return "text-amber-600 dark:text-amber-400";
+      case "high":
+        return "text-red-600 dark:text-red-400";
+    }
+  };
+
   const getCreditDecisionData = (decision: string) => {
     const isApproved = decision.toLowerCase().includes("одобр") && !decision.toLowerCase().includes("откл");
     const isDeclined = decision.toLowerCase().includes("откл");
@@ -43,6 +84,43 @@ export function AIAnalysis({ analysis }: AIAnalysisProps) {
     }
   };
 
+  const sections = analysis ? reportSections(analysis) : preview.reportSections;
+  // Rating, risk level and credit decision are calculated, so they are known before the report is written
+  const creditRating = analysis ? analysis.creditRating : preview.creditRating;
+  const stabilityType = analysis
+    ? analysis.financialCondition.stability.stabilityType
+    : preview.result.periods?.[0]?.financialStability?.type;
+  const validation = analysis?.validation;
+  const writtenCount = Object.values(sections).filter(section => section !== undefined).length;
+  const totalCount = Object.keys(SECTION_LABELS).length;
+
+  // Placeholder of a section the model has not finished yet
+  const renderPending = (section: CreditReportSection) => (
+    <p
+      className="flex items-center gap-2 text-sm text-muted-foreground"
+      data-testid={`placeholder-section-${section}`}
+    >
+      <Loader2 className="h-4 w-4 animate-spin" />
+      Формируется...
+    </p>
+  );
+
+  // Marks a section taken from the rule-based report instead of the AI text
+  const renderReplacedBadge = (section: CreditReportSection) => {
+    const replaced = validation?.replacedSections.find(item => item.section === section);
+    if (!replaced) return null;
+    return (
+      <Badge
+        variant="outline"
+        className="bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20"
+        title={`Заменено расчетным текстом: ${REPLACE_REASON_LABELS[replaced.reason]}`}
+        data-testid={`badge-replaced-${section}`}
+      >
+        Расчетный текст
+      </Badge>
+    );
+  };
+
   return (
     <Card className="border-2" data-testid="card-ai-analysis">
       <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-6">
@@ -56,30 +134,44 @@ export function AIAnalysis({ analysis }: AIAnalysisProps) {
         </div>
         <Badge
           variant="outline"
-          className={getRiskColor(analysis.riskLevel)}
+          className={getRiskColor(creditRating.riskLevel)}
           data-testid="badge-risk-level"
         >
           <ShieldAlert className="h-3 w-3 mr-1" />
-          {getRiskLabel(analysis.riskLevel)}
+          {getRiskLabel(creditRating.riskLevel)}
         </Badge>
       </CardHeader>
       
       <CardContent className="space-y-8">
+        {/* Progress of the report while the model is writing it */}
+        {!analysis && (
+          <div className="space-y-2" data-testid="section-report-progress">
+            <p className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="text-report-progress">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              AI формирует отчет: готово разделов {writtenCount} из {totalCount}
+            </p>
+            <Progress value={(writtenCount / totalCount) * 100} className="h-1.5" />
+          </div>
+        )}
+
         {/* 1. Industry Sector Analysis */}
         <div className="space-y-4 p-4 rounded-lg bg-indigo-500/5 border border-indigo-500/20">
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
             <Building2 className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
             <h3 className="text-lg font-semibold">1. Состояние отрасли</h3>
+            {renderReplacedBadge("industrySector")}
           </div>
           
-          <div className="space-y-3 text-sm">
-            <p className="leading-relaxed">{analysis.industrySector.description}</p>
-            {analysis.industrySector.marketConditions && (
-              <p className="leading-relaxed text-muted-foreground">
-                {analysis.industrySector.marketConditions}
-              </p>
-            )}
-          </div>
+          {sections.industrySector ? (
+            <div className="space-y-3 text-sm">
+              <p className="leading-relaxed">{sections.industrySector.description}</p>
+              {sections.industrySector.marketConditions && (
+                <p className="leading-relaxed text-muted-foreground">
+                  {sections.industrySector.marketConditions}
+                </p>
+              )}
+            </div>
+          ) : renderPending("industrySector")}
         </div>
 
         {/* 2. Financial Condition */}
@@ -91,95 +183,129 @@ export function AIAnalysis({ analysis }: AIAnalysisProps) {
 
           {/* Liquidity */}
           <div className="space-y-3 p-4 rounded-md bg-card border">
-            <h4 className="font-semibold text-base">Ликвидность</h4>
-            <p className="text-sm leading-relaxed">{analysis.financialCondition.liquidity.analysis}</p>
-            <div className="pt-2 border-t">
-              <p className="text-sm font-medium italic text-muted-foreground">
-                Вывод: {analysis.financialCondition.liquidity.conclusion}
-              </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <h4 className="font-semibold text-base">Ликвидность</h4>
+              {renderReplacedBadge("liquidity")}
             </div>
+            {sections.liquidity ? (
+              <>
+                <p className="text-sm leading-relaxed">{sections.liquidity.analysis}</p>
+                <div className="pt-2 border-t">
+                  <p className="text-sm font-medium italic text-muted-foreground">
+                    Вывод: {sections.liquidity.conclusion}
+                  </p>
+                </div>
+              </>
+            ) : renderPending("liquidity")}
           </div>
 
           {/* Stability */}
           <div className="space-y-3 p-4 rounded-md bg-card border">
-            <h4 className="font-semibold text-base">Финансовая устойчивость</h4>
-            <p className="text-sm leading-relaxed">{analysis.financialCondition.stability.analysis}</p>
-            <div className="pt-2 border-t">
-              <p className="text-sm font-medium italic text-muted-foreground">
-                Вывод: {analysis.financialCondition.stability.conclusion}
-              </p>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <h4 className="font-semibold text-base">Финансовая устойчивость</h4>
+                {renderReplacedBadge("stability")}
+              </div>
+              {stabilityType && (
+                <FinancialStabilityBadge type={stabilityType} />
+              )}
             </div>
+            {sections.stability ? (
+              <>
+                <p className="text-sm leading-relaxed">{sections.stability.analysis}</p>
+                <div className="pt-2 border-t">
+                  <p className="text-sm font-medium italic text-muted-foreground">
+                    Вывод: {sections.stability.conclusion}
+                  </p>
+                </div>
+              </>
+            ) : renderPending("stability")}
           </div>
 
           {/* Profitability */}
           <div className="space-y-3 p-4 rounded-md bg-card border">
-            <h4 className="font-semibold text-base">Рентабельность</h4>
-            <p className="text-sm leading-relaxed">{analysis.financialCondition.profitability.analysis}</p>
-            <div className="pt-2 border-t">
-              <p className="text-sm font-medium italic text-muted-foreground">
-                Вывод: {analysis.financialCondition.profitability.conclusion}
-              </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <h4 className="font-semibold text-base">Рентабельность</h4>
+              {renderReplacedBadge("profitability")}
             </div>
+            {sections.profitability ? (
+              <>
+                <p className="text-sm leading-relaxed">{sections.profitability.analysis}</p>
+                <div className="pt-2 border-t">
+                  <p className="text-sm font-medium italic text-muted-foreground">
+                    Вывод: {sections.profitability.conclusion}
+                  </p>
+                </div>
+              </>
+            ) : renderPending("profitability")}
           </div>
         </div>
 
         {/* 3. Strengths */}
-        {analysis.strengths.length > 0 && (
+        {(!sections.strengths || sections.strengths.length > 0) && (
           <div className="space-y-3">
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center gap-2">
               <CheckCircle2 className="h-5 w-5 text-emerald-600 dark:text-emerald-400" />
               <h3 className="text-lg font-semibold">3. Сильные стороны</h3>
+              {renderReplacedBadge("strengths")}
             </div>
-            <ul className="space-y-2" data-testid="list-strengths">
-              {analysis.strengths.map((strength, index) => (
-                <li
-                  key={index}
-                  className="flex items-start gap-3 p-3 rounded-md bg-emerald-500/5 border border-emerald-500/10"
-                >
-                  <CheckCircle2 className="h-4 w-4 text-emerald-600 dark:text-emerald-400 mt-0.5 flex-shrink-0" />
-                  <span className="text-sm">{strength}</span>
-                </li>
-              ))}
-            </ul>
+            {sections.strengths ? (
+              <ul className="space-y-2" data-testid="list-strengths">
+                {sections.strengths.map((strength, index) => (
+                  <li
+                    key={index}
+                    className="flex items-start gap-3 p-3 rounded-md bg-emerald-500/5 border border-emerald-500/10"
+                  >
+                    <CheckCircle2 className="h-4 w-4 text-emerald-600 dark:text-emerald-400 mt-0.5 flex-shrink-0" />
+                    <span className="text-sm">{strength}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : renderPending("strengths")}
           </div>
         )}
 
         {/* 4. Weaknesses */}
-        {analysis.weaknesses.length > 0 && (
+        {(!sections.weaknesses || sections.weaknesses.length > 0) && (
           <div className="space-y-3">
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center gap-2">
               <AlertCircle className="h-5 w-5 text-amber-600 dark:text-amber-400" />
               <h3 className="text-lg font-semibold">4. Слабые стороны</h3>
+              {renderReplacedBadge("weaknesses")}
             </div>
-            <ul className="space-y-2" data-testid="list-weaknesses">
-              {analysis.weaknesses.map((weakness, index) => (
-                <li
-                  key={index}
-                  className="flex items-start gap-3 p-3 rounded-md bg-amber-500/5 border border-amber-500/10"
-                >
-                  <AlertCircle className="h-4 w-4 text-amber-600 dark:text-amber-400 mt-0.5 flex-shrink-0" />
-                  <span className="text-sm">{weakness}</span>
-                </li>
-              ))}
-            </ul>
+            {sections.weaknesses ? (
+              <ul className="space-y-2" data-testid="list-weaknesses">
+                {sections.weaknesses.map((weakness, index) => (
+                  <li
+                    key={index}
+                    className="flex items-start gap-3 p-3 rounded-md bg-amber-500/5 border border-amber-500/10"
+                  >
+                    <AlertCircle className="h-4 w-4 text-amber-600 dark:text-amber-400 mt-0.5 flex-shrink-0" />
+                    <span className="text-sm">{weakness}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : renderPending("weaknesses")}
           </div>
         )}
 
         {/* 5. Recommendations & Credit Decision */}
         <div className="space-y-4 p-5 rounded-lg bg-blue-500/5 border-2 border-blue-500/20">
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
             <Lightbulb className="h-5 w-5 text-blue-600 dark:text-blue-400" />
             <h3 className="text-lg font-semibold">5. Рекомендации и заключение</h3>
+            {renderReplacedBadge("recommendations")}
           </div>
           
           {/* Recommendations */}
-          {analysis.recommendations.items.length > 0 && (
+          {!sections.recommendations && renderPending("recommendations")}
+          {sections.recommendations && sections.recommendations.items.length > 0 && (
             <div className="space-y-2">
               <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
                 Рекомендации:
               </h4>
               <ul className="space-y-2">
-                {analysis.recommendations.items.map((item, index) => (
+                {sections.recommendations.items.map((item, index) => (
                   <li
                     key={index}
                     className="flex items-start gap-2 text-sm"
@@ -192,31 +318,110 @@ export function AIAnalysis({ analysis }: AIAnalysisProps) {
             </div>
           )}
           
+          {/* Credit Rating */}
+          <div className="pt-4 mt-4 border-t border-blue-500/20 space-y-3" data-testid="section-credit-rating">
+            <div className="flex items-center justify-between gap-3">
+              <div className="space-y-1">
+                <h4 className="font-semibold text-base">Кредитный рейтинг</h4>
+                <p className="text-xs text-muted-foreground">
+                  {creditRating.scale.find(item => item.grade === creditRating.grade)?.description}
+                </p>
+              </div>
+              <div className="flex items-baseline gap-2">
+                <span
+                  className={`text-3xl font-bold ${getGradeColor(creditRating.riskLevel)}`}
+                  data-testid="text-credit-rating-grade"
+                >
+                  {creditRating.grade}
+                </span>
+                <span className="text-sm font-mono text-muted-foreground" data-testid="text-credit-rating-score">
+                  {creditRating.score.toFixed(1)} / 100
+                </span>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {creditRating.factors.map(factor => (
+                <div key={factor.id} className="space-y-1" data-testid={`credit-factor-${factor.id}`}>
+                  <div className="flex items-center justify-between gap-3 text-sm">
+                    <span className="font-medium">
+                      {factor.name} <span className="text-muted-foreground">(вес {(factor.weight * 100).toFixed(0)}%)</span>
+                    </span>
+                    <span className="font-mono">
+                      {factor.score.toFixed(0)} → +{factor.contribution.toFixed(1)}
+                    </span>
+                  </div>
+                  <Progress value={factor.score} className="h-1.5" />
+                  <p className="text-xs text-muted-foreground">{factor.explanation}</p>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Шкала: {creditRating.scale.map(item => `${item.grade} ≥ ${item.minScore}`).join(", ")}
+            </p>
+          </div>
+
           {/* Credit Decision */}
           <div className="pt-4 mt-4 border-t border-blue-500/20 space-y-3">
             <div className="flex items-center gap-3">
               {(() => {
-                const { Icon, color } = getCreditDecisionData(analysis.recommendations.creditDecision);
+                const { Icon, color } = getCreditDecisionData(creditRating.creditDecision);
                 return <Icon className={`h-6 w-6 ${color} flex-shrink-0`} />;
               })()}
               <div className="space-y-1">
                 <h4 className="font-semibold text-base">Кредитное решение</h4>
                 <p className="text-sm font-medium text-blue-700 dark:text-blue-300">
-                  {analysis.recommendations.creditDecision}
+                  {creditRating.creditDecision}
                 </p>
               </div>
             </div>
             
-            {analysis.recommendations.comment && (
+            {sections.recommendations?.comment && (
               <div className="pt-2">
                 <p className="text-sm leading-relaxed text-muted-foreground">
                   <span className="font-semibold">Комментарий: </span>
-                  {analysis.recommendations.comment}
+                  {sections.recommendations.comment}
                 </p>
               </div>
             )}
           </div>
         </div>
+
+        {/* Validation of the AI response */}
+        {validation && (
+          <div className="space-y-3 p-4 rounded-lg bg-amber-500/5 border border-amber-500/20" data-testid="section-report-validation">
+            <div className="flex items-center gap-2">
+              <ScanSearch className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+              <h3 className="text-lg font-semibold">Проверка отчета</h3>
+            </div>
+            <p className="text-sm text-muted-foreground" data-testid="text-validation-summary">
+              Проверено чисел: {validation.checkedNumbers}, не подтверждено расчетом: {validation.mismatches.length}
+              {validation.repairAttempts > 0 && `, повторных запросов к модели: ${validation.repairAttempts}`}
+            </p>
+
+            {validation.mismatches.length > 0 && (
+              <ul className="space-y-2" data-testid="list-fact-mismatches">
+                {validation.mismatches.map((mismatch, index) => (
+                  <li
+                    key={index}
+                    className="text-sm p-2 rounded-md bg-amber-500/10 border border-amber-500/10"
+                    data-testid={`fact-mismatch-${index}`}
+                  >
+                    <span className="font-mono font-semibold text-amber-700 dark:text-amber-400">{mismatch.cited}</span>
+                    <span className="text-muted-foreground"> · {SECTION_LABELS[mismatch.section]}: «…{mismatch.context}…»</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {validation.replacedSections.length > 0 && (
+              <p className="text-xs text-muted-foreground" data-testid="text-replaced-sections">
+                Заменены расчетным текстом: {validation.replacedSections.map(item => `${SECTION_LABELS[item.section]} (${REPLACE_REASON_LABELS[item.reason]})`).join("; ")}
+              </p>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
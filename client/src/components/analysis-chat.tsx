@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MessageSquare, Calculator, Send, Trash2, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AnalysisChatEvent, AnalysisChatMessage, AnalysisChatToolCall } from "@shared/schema";
+
+interface AnalysisChatProps {
+  analysisId: string;
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  recalculate_ratios: "Пересчет коэффициентов",
+  stress_test_loan: "Стресс-тест кредита",
+};
+
+const EXAMPLE_QUESTIONS = [
+  "Почему рейтинг не выше?",
+  "Что будет с ликвидностью, если погасить половину краткосрочных кредитов за счет денежных средств?",
+  "Выдержит ли компания кредит на 10 млн на 3 года под 18%?",
+];
+
+/**
+ * Read the Server-Sent Events of POST /api/analysis/:id/chat (EventSource cannot send a POST body)
+ */
+async function readChatEvents(response: Response, onEvent: (event: AnalysisChatEvent) => void): Promise<void> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() ?? "";
+    blocks.forEach(block => {
+      const data = block.split("\n").find(line => line.startsWith("data: "));
+      if (data) onEvent(JSON.parse(data.slice("data: ".length)) as AnalysisChatEvent);
+    });
+  }
+}
+
+function ToolCallBadges({ toolCalls, testIdPrefix }: { toolCalls: AnalysisChatToolCall[]; testIdPrefix: string }) {
+  return (
+    <div className="mt-2 space-y-1">
+      {toolCalls.map((toolCall, index) => (
+        <div
+          key={index}
+          className="flex items-start gap-2 text-xs text-muted-foreground"
+          data-testid={`${testIdPrefix}-${index}`}
+        >
+          <Badge variant="outline" className="shrink-0 gap-1 bg-primary/5">
+            <Calculator className="h-3 w-3" />
+            {TOOL_LABELS[toolCall.name] ?? toolCall.name}
+          </Badge>
+          <span className="pt-0.5">{toolCall.summary}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function AnalysisChat({ analysisId }: AnalysisChatProps) {
+  const [question, setQuestion] = useState("");
+  // Question being answered and the answer as it streams in
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [streamingText, setStreamingText] = useState("");
+  const [streamingTools, setStreamingTools] = useState<AnalysisChatToolCall[]>([]);
+  const { toast } = useToast();
+
+  const historyKey = ["/api/analysis", analysisId, "chat"];
+  const { data: history } = useQuery<{ success: boolean; messages: AnalysisChatMessage[] }>({
+    queryKey: historyKey,
+  });
+  const messages = history?.messages ?? [];
+  // Without an AI provider the history stays readable but new questions cannot be answered
+  const { data: health } = useQuery<{ aiProvider: string | null }>({
+    queryKey: ["/api/health"],
+  });
+  const aiAvailable = health?.aiProvider !== null;
+
+  const askMutation = useMutation({
+    mutationFn: async (message: string) => {
+      setPendingQuestion(message);
+      setStreamingText("");
+      setStreamingTools([]);
+
+      const response = await fetch(`/api/analysis/${analysisId}/chat`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ message }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error([data.error, ...(data.details ?? [])].filter(Boolean).join("\n") || "Ошибка запроса");
+      }
+
+      let error: string | undefined;
+      await readChatEvents(response, event => {
+        if (event.type === "delta") setStreamingText(text => text + event.text);
+        if (event.type === "tool") setStreamingTools(toolCalls => [...toolCalls, event.toolCall]);
+        if (event.type === "error") error = event.error;
+      });
+      if (error) throw new Error(error);
+    },
+    onSuccess: () => {
+      setQuestion("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Не удалось получить ответ",
+        description: error instanceof Error ? error.message : "Попробуйте задать вопрос еще раз",
+        variant: "destructive",
+        className: "whitespace-pre-line",
+      });
+    },
+    onSettled: async () => {
+      // Only answered questions are saved; a failed one stays in the input to ask again
+      await queryClient.invalidateQueries({ queryKey: historyKey });
+      setPendingQuestion(null);
+      setStreamingText("");
+      setStreamingTools([]);
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/analysis/${analysisId}/chat`);
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(historyKey, { success: true, messages: [] });
+    },
+  });
+
+  const submitQuestion = () => {
+    const message = question.trim();
+    if (message && !askMutation.isPending) {
+      askMutation.mutate(message);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    submitQuestion();
+  };
+
+  return (
+    <Card data-testid="card-analysis-chat">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0 pb-2">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <MessageSquare className="h-4 w-4 text-primary" />
+          </div>
+          <CardTitle className="text-xl font-semibold">
+            Вопросы по анализу
+          </CardTitle>
+        </div>
+        {messages.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => clearMutation.mutate()}
+            disabled={clearMutation.isPending || askMutation.isPending}
+            data-testid="button-clear-chat"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Очистить
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Ассистент отвечает по результатам этого анализа. Сценарии «что если» и новый кредит пересчитываются
+          калькулятором платформы, а не моделью.
+        </p>
+
+        {!aiAvailable && (
+          <p className="text-sm text-amber-700 dark:text-amber-400" data-testid="text-chat-unavailable">
+            AI-провайдер не настроен: задать вопрос по анализу нельзя.
+          </p>
+        )}
+
+        {aiAvailable && messages.length === 0 && !pendingQuestion && (
+          <div className="flex flex-wrap gap-2" data-testid="list-example-questions">
+            {EXAMPLE_QUESTIONS.map((example, index) => (
+              <Button
+                key={index}
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-auto whitespace-normal text-left"
+                onClick={() => setQuestion(example)}
+                data-testid={`button-example-question-${index}`}
+              >
+                {example}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {(messages.length > 0 || pendingQuestion) && (
+          <div className="space-y-3 max-h-[32rem] overflow-y-auto pr-1" data-testid="list-chat-messages">
+            {messages.map(message => (
+              <div
+                key={message.id}
+                className={message.role === "user"
+                  ? "ml-auto max-w-[85%] rounded-lg bg-primary/10 px-4 py-2 text-sm"
+                  : "max-w-[85%] rounded-lg border bg-muted/40 px-4 py-2 text-sm"}
+                data-testid={`chat-message-${message.id}`}
+              >
+                <p className="whitespace-pre-line">{message.content}</p>
+                {message.toolCalls && message.toolCalls.length > 0 && (
+                  <ToolCallBadges toolCalls={message.toolCalls} testIdPrefix={`chat-tool-${message.id}`} />
+                )}
+              </div>
+            ))}
+            {pendingQuestion && (
+              <>
+                <div className="ml-auto max-w-[85%] rounded-lg bg-primary/10 px-4 py-2 text-sm" data-testid="chat-message-pending">
+                  <p className="whitespace-pre-line">{pendingQuestion}</p>
+                </div>
+                <div className="max-w-[85%] rounded-lg border bg-muted/40 px-4 py-2 text-sm" data-testid="chat-message-streaming">
+                  {streamingText ? (
+                    <p className="whitespace-pre-line">{streamingText}</p>
+                  ) : (
+                    <p className="flex items-center gap-2 text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Готовим ответ...
+                    </p>
+                  )}
+                  {streamingTools.length > 0 && (
+                    <ToolCallBadges toolCalls={streamingTools} testIdPrefix="chat-tool-streaming" />
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Textarea
+            value={question}
+            onChange={(event) => setQuestion(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" && !event.shiftKey) {
+                event.preventDefault();
+                submitQuestion();
+              }
+            }}
+            disabled={!aiAvailable}
+            placeholder="Например: что будет с рейтингом, если выручка снизится на 20%?"
+            maxLength={2000}
+            rows={2}
+            className="resize-none"
+            data-testid="input-chat-question"
+          />
+          <Button
+            type="submit"
+            disabled={!aiAvailable || !question.trim() || askMutation.isPending}
+            data-testid="button-send-question"
+          >
+            {askMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
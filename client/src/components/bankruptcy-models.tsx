@@ -0,0 +1,103 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ShieldAlert } from "lucide-react";
+import type { BankruptcyModelResult, BankruptcyProbability } from "@shared/schema";
+import { FractionFormula } from "./fraction-formula";
+
+interface BankruptcyModelsProps {
+  models: BankruptcyModelResult[];
+}
+
+export function BankruptcyModels({ models }: BankruptcyModelsProps) {
+  const getProbabilityColor = (probability: BankruptcyProbability) => {
+    switch (probability) {
+      case "minimal":
+        return "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/20";
+      case "low":
+        return "bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20";
+      case "medium":
+        return "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20";
+      case "high":
+      case "very_high":
+        return "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20";
+    }
+  };
+
+  const getProbabilityLabel = (probability: BankruptcyProbability) => {
+    switch (probability) {
+      case "minimal":
+        return "Минимальная вероятность";
+      case "low":
+        return "Низкая вероятность";
+      case "medium":
+        return "Средняя вероятность";
+      case "high":
+        return "Высокая вероятность";
+      case "very_high":
+        return "Очень высокая вероятность";
+    }
+  };
+
+  const distressCount = models.filter(model => model.zone === "distress").length;
+
+  return (
+    <Card data-testid="card-bankruptcy-models">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-2">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <ShieldAlert className="h-4 w-4 text-primary" />
+          </div>
+          <CardTitle className="text-xl font-semibold">
+            Модели прогнозирования банкротства
+          </CardTitle>
+        </div>
+        <span className="text-sm text-muted-foreground" data-testid="text-bankruptcy-distress-count">
+          В зоне риска: {distressCount} из {models.length}
+        </span>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {models.map(model => (
+            <div
+              key={model.id}
+              className="rounded-md border border-border p-4 space-y-3"
+              data-testid={`bankruptcy-model-${model.id}`}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <div className="font-semibold">{model.name}</div>
+                  <div className="text-xs text-muted-foreground">{model.description}</div>
+                </div>
+                <div className="text-right">
+                  <div className="text-2xl font-bold font-mono" data-testid={`text-bankruptcy-score-${model.id}`}>
+                    {model.score.toFixed(3)}
+                  </div>
+                  <Badge variant="outline" className={getProbabilityColor(model.probability)}>
+                    {getProbabilityLabel(model.probability)}
+                  </Badge>
+                </div>
+              </div>
+
+              <FractionFormula formula={model.formula} className="text-muted-foreground" />
+
+              <div className="space-y-1.5">
+                {model.inputs.map(input => (
+                  <div
+                    key={input.code}
+                    className="flex items-center justify-between gap-3 text-sm"
+                    title={input.label}
+                  >
+                    <FractionFormula formula={input.formula} />
+                    <span className="font-mono">{input.value.toFixed(3)}</span>
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-xs text-muted-foreground">{model.thresholds}</p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,14 +1,17 @@
 import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { ChevronDown, ChevronRight } from "lucide-react";
-import type { FinancialData } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { ChevronDown, ChevronRight, ScanText } from "lucide-react";
+import type { FinancialData, HorizontalVerticalAnalysis } from "@shared/schema";
+import { StatementDynamics } from "./statement-dynamics";
 
 interface DataPreviewProps {
   data: FinancialData;
+  dynamics?: HorizontalVerticalAnalysis;
 }
 
-export function DataPreview({ data }: DataPreviewProps) {
+export function DataPreview({ data, dynamics }: DataPreviewProps) {
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set());
 
   const toggleSection = (sectionKey: string) => {
@@ -177,7 +180,28 @@ export function DataPreview({ data }: DataPreviewProps) {
     });
   }
 
-  const allSections = [...balanceSheet, ...incomeStatement];
+  // Отчёт о движении денежных средств (если есть Форма 4)
+  const cashFlowStatement = [];
+  if (data.operatingCashFlow !== undefined || data.netCashFlow !== undefined) {
+    cashFlowStatement.push({
+      section: "ОТЧЁТ О ДВИЖЕНИИ ДЕНЕЖНЫХ СРЕДСТВ",
+      items: [
+        data.operatingCashFlow !== undefined ? { label: "Сальдо денежных потоков от текущих операций", value: data.operatingCashFlow, indent: 0, bold: true } : null,
+        data.investingCashFlow !== undefined ? { label: "Сальдо денежных потоков от инвестиционных операций", value: data.investingCashFlow, indent: 0 } : null,
+        data.capitalExpenditures ? { label: "в т.ч. приобретение внеоборотных активов", value: -data.capitalExpenditures, indent: 1 } : null,
+        data.financingCashFlow !== undefined ? { label: "Сальдо денежных потоков от финансовых операций", value: data.financingCashFlow, indent: 0 } : null,
+        data.netCashFlow !== undefined ? { label: "Сальдо денежных потоков за отчетный период", value: data.netCashFlow, indent: 0, bold: true, highlight: true } : null,
+      ].filter(Boolean)
+    });
+  }
+
+  const allSections = [...balanceSheet, ...incomeStatement, ...cashFlowStatement];
+
+  // Средняя уверенность OCR по распознанным страницам (для сканированных PDF)
+  const ocrPages = data.ocrPages || [];
+  const ocrConfidence = ocrPages.length > 0
+    ? ocrPages.reduce((sum, page) => sum + page.confidence, 0) / ocrPages.length
+    : null;
 
   return (
     <Card data-testid="card-data-preview">
@@ -185,6 +209,21 @@ export function DataPreview({ data }: DataPreviewProps) {
         <CardTitle className="text-xl font-semibold">
           Бухгалтерский баланс
         </CardTitle>
+        {ocrConfidence !== null && (
+          <Badge
+            variant="outline"
+            className={`flex items-center gap-1 ${
+              ocrConfidence >= 80
+                ? "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/20"
+                : "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20"
+            }`}
+            title={ocrPages.map(page => `Стр. ${page.page}: ${page.confidence.toFixed(1)}%`).join("\n")}
+            data-testid="badge-ocr-confidence"
+          >
+            <ScanText className="h-3 w-3" />
+            OCR: {ocrPages.length} стр., уверенность {ocrConfidence.toFixed(0)}%
+          </Badge>
+        )}
       </CardHeader>
       <CardContent>
         <ScrollArea className="h-[500px] pr-4">
@@ -262,6 +301,13 @@ export function DataPreview({ data }: DataPreviewProps) {
             ))}
           </div>
         </ScrollArea>
+
+        {/* Изменение строк между периодами и их доля в валюте баланса / выручке */}
+        {dynamics && dynamics.lines.length > 0 && (
+          <div className="mt-6 pt-6 border-t">
+            <StatementDynamics analysis={dynamics} />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,129 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Landmark, AlertTriangle, CheckCircle2 } from "lucide-react";
+import type { CapitalMovement, EquityStatementAnalysis } from "@shared/schema";
+
+interface EquityStatementProps {
+  statement: EquityStatementAnalysis;
+}
+
+export function EquityStatement({ statement }: EquityStatementProps) {
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("ru-RU", {
+      style: "decimal",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const formatOptional = (value: number | undefined) =>
+    value !== undefined ? formatCurrency(value) : "—";
+
+  // Строки таблицы движения капитала (дивиденды показываются как уменьшение капитала)
+  const rows: { label: string; getValue: (movement: CapitalMovement) => number | undefined; bold?: boolean }[] = [
+    { label: "Капитал на начало года", getValue: m => m.openingEquity, bold: true },
+    { label: "Чистая прибыль (убыток)", getValue: m => m.netIncome },
+    { label: "Дивиденды", getValue: m => (m.dividends > 0 ? -m.dividends : 0) },
+    { label: "Взносы в капитал", getValue: m => m.capitalContributions },
+    { label: "Переоценка", getValue: m => m.revaluation },
+    { label: "Прочие изменения", getValue: m => m.other },
+    { label: "Капитал на конец года", getValue: m => m.closingEquity, bold: true },
+  ];
+
+  const hasReconciliation = statement.movements.some(m => m.balanceSheetChange !== undefined);
+
+  return (
+    <Card data-testid="card-equity-statement">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-2">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <Landmark className="h-4 w-4 text-primary" />
+          </div>
+          <CardTitle className="text-xl font-semibold">
+            Движение капитала
+          </CardTitle>
+        </div>
+        {statement.dividendsExceedNetIncome && (
+          <Badge
+            variant="outline"
+            className="flex items-center gap-1 bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20"
+            data-testid="badge-dividends-exceed"
+          >
+            <AlertTriangle className="h-3 w-3" />
+            Дивиденды превышают чистую прибыль
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Показатель</TableHead>
+              {statement.movements.map(movement => (
+                <TableHead key={movement.year} className="text-right">
+                  {movement.year} год
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, rowIndex) => (
+              <TableRow key={row.label} data-testid={`row-equity-${rowIndex}`}>
+                <TableCell className={row.bold ? "font-semibold" : "text-sm"}>{row.label}</TableCell>
+                {statement.movements.map(movement => (
+                  <TableCell
+                    key={movement.year}
+                    className={`text-right font-mono ${row.bold ? "font-semibold" : ""} ${
+                      row.label === "Дивиденды" && movement.dividendsExceedNetIncome
+                        ? "text-red-600 dark:text-red-400"
+                        : ""
+                    }`}
+                  >
+                    {formatOptional(row.getValue(movement))}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+            {hasReconciliation && (
+              <TableRow className="bg-muted/50" data-testid="row-equity-reconciliation">
+                <TableCell className="font-semibold">Изменение строки 1300 баланса</TableCell>
+                {statement.movements.map(movement => (
+                  <TableCell key={movement.year} className="text-right">
+                    {movement.balanceSheetChange !== undefined ? (
+                      <div className="flex items-center justify-end gap-2">
+                        <span className="font-mono">{formatCurrency(movement.balanceSheetChange)}</span>
+                        {movement.reconciled ? (
+                          <CheckCircle2
+                            className="h-4 w-4 text-emerald-600 dark:text-emerald-400"
+                            data-testid={`icon-reconciled-${movement.year}`}
+                          />
+                        ) : (
+                          <span title={`Расхождение: ${formatCurrency(movement.reconciliationDifference ?? 0)}`}>
+                            <AlertTriangle
+                              className="h-4 w-4 text-amber-600 dark:text-amber-400"
+                              data-testid={`icon-not-reconciled-${movement.year}`}
+                            />
+                          </span>
+                        )}
+                      </div>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        {statement.netAssets !== undefined && (
+          <div className="flex justify-between items-center py-2.5 px-4 rounded-md bg-primary/10 border border-primary/20">
+            <span className="font-semibold">Чистые активы (стр. 3600)</span>
+            <span className="font-mono font-semibold">{formatCurrency(statement.netAssets)}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
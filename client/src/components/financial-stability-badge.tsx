@@ -0,0 +1,38 @@
+import { Badge } from "@/components/ui/badge";
+import type { FinancialStabilityType } from "@shared/schema";
+
+interface FinancialStabilityBadgeProps {
+  type: FinancialStabilityType;
+  indicator?: number[]; // S = (S1, S2, S3)
+  testId?: string;
+}
+
+const stabilityTypes: Record<FinancialStabilityType, { label: string; className: string }> = {
+  absolute: {
+    label: "Абсолютная устойчивость",
+    className: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/20",
+  },
+  normal: {
+    label: "Нормальная устойчивость",
+    className: "bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20",
+  },
+  unstable: {
+    label: "Неустойчивое состояние",
+    className: "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20",
+  },
+  crisis: {
+    label: "Кризисное состояние",
+    className: "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20",
+  },
+};
+
+export function FinancialStabilityBadge({ type, indicator, testId = "badge-financial-stability" }: FinancialStabilityBadgeProps) {
+  const stability = stabilityTypes[type];
+
+  return (
+    <Badge variant="outline" className={stability.className} data-testid={testId}>
+      {stability.label}
+      {indicator && <span className="ml-1 font-mono">S = ({indicator.join(", ")})</span>}
+    </Badge>
+  );
+}
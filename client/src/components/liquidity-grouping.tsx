@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Scale, CheckCircle2, XCircle } from "lucide-react";
+import type { LiquidityBalanceType, LiquidityGroupingPeriod } from "@shared/schema";
+
+interface LiquidityGroupingProps {
+  periods: LiquidityGroupingPeriod[];
+}
+
+const assetGroups = [
+  { code: "А1", label: "Наиболее ликвидные активы", lines: "1240 + 1250" },
+  { code: "А2", label: "Быстрореализуемые активы", lines: "1230" },
+  { code: "А3", label: "Медленно реализуемые активы", lines: "1210 + 1220 + 1260" },
+  { code: "А4", label: "Труднореализуемые активы", lines: "1100" },
+];
+
+const liabilityGroups = [
+  { code: "П1", label: "Наиболее срочные обязательства", lines: "1520" },
+  { code: "П2", label: "Краткосрочные пассивы", lines: "1510 + 1550" },
+  { code: "П3", label: "Долгосрочные пассивы", lines: "1400 + 1540" },
+  { code: "П4", label: "Постоянные пассивы", lines: "1300 + 1530" },
+];
+
+const balanceTypes: Record<LiquidityBalanceType, { label: string; className: string }> = {
+  absolute: {
+    label: "Абсолютно ликвидный баланс",
+    className: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/20",
+  },
+  normal: {
+    label: "Нормальная ликвидность",
+    className: "bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20",
+  },
+  insufficient: {
+    label: "Недостаточная ликвидность",
+    className: "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20",
+  },
+  crisis: {
+    label: "Кризисное состояние",
+    className: "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20",
+  },
+};
+
+export function LiquidityGrouping({ periods }: LiquidityGroupingProps) {
+  const [selectedYear, setSelectedYear] = useState(periods[0].year);
+  const period = periods.find(item => item.year === selectedYear) ?? periods[0];
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("ru-RU", {
+      style: "decimal",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const getAmountColor = (value: number) =>
+    value >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400";
+
+  const balanceType = balanceTypes[period.balanceType];
+
+  return (
+    <Card data-testid="card-liquidity-grouping">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0 pb-2">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <Scale className="h-4 w-4 text-primary" />
+          </div>
+          <CardTitle className="text-xl font-semibold">
+            Ликвидность баланса
+          </CardTitle>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {periods.length > 1 && periods.map(item => (
+            <Button
+              key={item.year}
+              variant={item.year === period.year ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setSelectedYear(item.year)}
+              data-testid={`button-liquidity-year-${item.year}`}
+            >
+              {item.year}
+            </Button>
+          ))}
+          <Badge variant="outline" className={balanceType.className} data-testid="badge-liquidity-balance-type">
+            {balanceType.label}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Актив</TableHead>
+              <TableHead className="text-right">Сумма</TableHead>
+              <TableHead>Пассив</TableHead>
+              <TableHead className="text-right">Сумма</TableHead>
+              <TableHead className="text-right">Излишек / недостаток</TableHead>
+              <TableHead className="text-center">Условие</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {assetGroups.map((asset, index) => {
+              const liability = liabilityGroups[index];
+              const holds = period.inequalities[index];
+              return (
+                <TableRow key={asset.code} data-testid={`row-liquidity-group-${index + 1}`}>
+                  <TableCell>
+                    <div className="font-medium">{asset.code}. {asset.label}</div>
+                    <div className="text-xs text-muted-foreground">стр. {asset.lines}</div>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{formatCurrency(period.assets[index])}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{liability.code}. {liability.label}</div>
+                    <div className="text-xs text-muted-foreground">стр. {liability.lines}</div>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{formatCurrency(period.liabilities[index])}</TableCell>
+                  <TableCell className={`text-right font-mono ${index < 3 ? getAmountColor(period.surplus[index]) : ""}`}>
+                    {formatCurrency(period.surplus[index])}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <div
+                      className={`inline-flex items-center gap-1 text-sm ${holds ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400"}`}
+                      data-testid={`text-liquidity-inequality-${index + 1}`}
+                    >
+                      {holds ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                      {asset.code} {index === 3 ? "≤" : "≥"} {liability.code}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          <div className="rounded-md border p-3">
+            <div className="text-muted-foreground">Текущая ликвидность</div>
+            <div className="text-xs text-muted-foreground">(А1 + А2) − (П1 + П2)</div>
+            <div className={`font-mono font-semibold mt-1 ${getAmountColor(period.currentLiquidity)}`} data-testid="text-current-liquidity">
+              {formatCurrency(period.currentLiquidity)}
+            </div>
+          </div>
+          <div className="rounded-md border p-3">
+            <div className="text-muted-foreground">Перспективная ликвидность</div>
+            <div className="text-xs text-muted-foreground">А3 − П3</div>
+            <div className={`font-mono font-semibold mt-1 ${getAmountColor(period.prospectiveLiquidity)}`} data-testid="text-prospective-liquidity">
+              {formatCurrency(period.prospectiveLiquidity)}
+            </div>
+          </div>
+          <div className="rounded-md border p-3">
+            <div className="text-muted-foreground">Общий показатель ликвидности</div>
+            <div className="text-xs text-muted-foreground">норматив ≥ 1</div>
+            <div
+              className={`font-mono font-semibold mt-1 ${
+                period.generalLiquidityRatio === undefined
+                  ? ""
+                  : period.generalLiquidityRatio >= 1
+                    ? "text-emerald-600 dark:text-emerald-400"
+                    : "text-red-600 dark:text-red-400"
+              }`}
+              data-testid="text-general-liquidity-ratio"
+            >
+              {period.generalLiquidityRatio !== undefined ? period.generalLiquidityRatio.toFixed(2) : "—"}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
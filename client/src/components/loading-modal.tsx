@@ -7,14 +7,16 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
 
 interface LoadingModalProps {
   isOpen: boolean;
   stage: string;
   progress: number;
+  onCancel?: () => void;
 }
 
-export function LoadingModal({ isOpen, stage, progress }: LoadingModalProps) {
+export function LoadingModal({ isOpen, stage, progress, onCancel }: LoadingModalProps) {
   return (
     <Dialog open={isOpen}>
       <DialogContent
@@ -44,17 +46,32 @@ export function LoadingModal({ isOpen, stage, progress }: LoadingModalProps) {
           </div>
 
           <div className="space-y-1 text-xs text-muted-foreground">
-            <p>✓ Парсинг файла</p>
-            <p className={progress >= 30 ? "" : "opacity-50"}>
-              {progress >= 30 ? "✓" : "○"} Расчёт финансовых коэффициентов
+            <p className={progress >= 20 ? "" : "opacity-50"}>
+              {progress >= 20 ? "✓" : "○"} Парсинг файла
             </p>
-            <p className={progress >= 60 ? "" : "opacity-50"}>
-              {progress >= 60 ? "✓" : "○"} Генерация AI анализа
+            <p className={progress >= 55 ? "" : "opacity-50"}>
+              {progress >= 55 ? "✓" : "○"} Расчёт финансовых коэффициентов
             </p>
-            <p className={progress >= 90 ? "" : "opacity-50"}>
-              {progress >= 90 ? "✓" : "○"} Подготовка результатов
+            <p className={progress >= 85 ? "" : "opacity-50"}>
+              {progress >= 85 ? "✓" : "○"} Генерация AI анализа
+            </p>
+            <p className={progress >= 100 ? "" : "opacity-50"}>
+              {progress >= 100 ? "✓" : "○"} Подготовка результатов
             </p>
           </div>
+
+          {onCancel && (
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onCancel}
+                data-testid="button-cancel-analysis"
+              >
+                Отменить
+              </Button>
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
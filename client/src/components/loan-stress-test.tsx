@@ -0,0 +1,387 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Landmark, CheckCircle2, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  FinancialAnalysisResult,
+  LoanAmortizationType,
+  LoanPurpose,
+  LoanStressTestRequest,
+  LoanStressTestResult,
+  RatioStatus,
+} from "@shared/schema";
+
+interface LoanStressTestProps {
+  analysisId: string;
+}
+
+type RatioKey = keyof FinancialAnalysisResult["ratios"];
+
+// Ratios compared before and after the loan
+const comparedRatios: { key: RatioKey; label: string }[] = [
+  { key: "currentRatio", label: "Коэффициент текущей ликвидности" },
+  { key: "equityRatio", label: "Коэффициент автономии" },
+  { key: "debtToEquityRatio", label: "Соотношение долга к капиталу" },
+  { key: "netDebtToEbitda", label: "Чистый долг / EBITDA" },
+  { key: "interestCoverage", label: "Покрытие процентов (ICR)" },
+  { key: "debtServiceCoverage", label: "Покрытие обслуживания долга (DSCR)" },
+];
+
+const amortizationLabels: Record<LoanAmortizationType, string> = {
+  annuity: "Аннуитетные платежи",
+  linear: "Дифференцированные платежи",
+  bullet: "Погашение в конце срока",
+};
+
+const purposeLabels: Record<LoanPurpose, string> = {
+  workingCapital: "Пополнение оборотных средств",
+  investment: "Инвестиции во внеоборотные активы",
+};
+
+const statusColors: Record<RatioStatus, string> = {
+  excellent: "text-emerald-600 dark:text-emerald-400",
+  good: "text-blue-600 dark:text-blue-400",
+  warning: "text-amber-600 dark:text-amber-400",
+  critical: "text-red-600 dark:text-red-400",
+};
+
+export function LoanStressTest({ analysisId }: LoanStressTestProps) {
+  const [amount, setAmount] = useState("");
+  const [termMonths, setTermMonths] = useState("36");
+  const [annualRate, setAnnualRate] = useState("18");
+  const [amortization, setAmortization] = useState<LoanAmortizationType>("annuity");
+  const [purpose, setPurpose] = useState<LoanPurpose>("workingCapital");
+  // Empty covenant fields use the benchmark profile norms
+  const [minDebtServiceCoverage, setMinDebtServiceCoverage] = useState("");
+  const [maxNetDebtToEbitda, setMaxNetDebtToEbitda] = useState("");
+  const [minInterestCoverage, setMinInterestCoverage] = useState("");
+  const { toast } = useToast();
+
+  const stressTestMutation = useMutation({
+    mutationFn: async (request: LoanStressTestRequest) => {
+      const response = await fetch(`/api/analysis/${analysisId}/stress-test`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(request),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error([data.error, ...(data.details ?? [])].filter(Boolean).join("\n") || "Ошибка стресс-теста");
+      }
+      return data.result as LoanStressTestResult;
+    },
+    onError: (error) => {
+      toast({
+        title: "Ошибка стресс-теста",
+        description: error instanceof Error ? error.message : "Не удалось выполнить стресс-тест кредита",
+        variant: "destructive",
+        className: "whitespace-pre-line",
+      });
+    },
+  });
+  const result = stressTestMutation.data;
+
+  const parseOptional = (value: string) => {
+    const number = parseFloat(value.replace(",", "."));
+    return Number.isFinite(number) ? number : undefined;
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    stressTestMutation.mutate({
+      amount: parseOptional(amount) ?? 0,
+      termMonths: Math.round(parseOptional(termMonths) ?? 0),
+      annualRate: parseOptional(annualRate) ?? 0,
+      amortization,
+      purpose,
+      covenants: {
+        minDebtServiceCoverage: parseOptional(minDebtServiceCoverage),
+        maxNetDebtToEbitda: parseOptional(maxNetDebtToEbitda),
+        minInterestCoverage: parseOptional(minInterestCoverage),
+      },
+    });
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("ru-RU", {
+      style: "decimal",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const formatOptionalRatio = (value: number | undefined) =>
+    value !== undefined ? value.toFixed(2) : "—";
+
+  return (
+    <Card data-testid="card-loan-stress-test">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0 pb-2">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <Landmark className="h-4 w-4 text-primary" />
+          </div>
+          <CardTitle className="text-xl font-semibold">
+            Стресс-тест нового кредита
+          </CardTitle>
+        </div>
+        {result && (
+          <Badge
+            variant="outline"
+            className={result.passed
+              ? "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/20"
+              : "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20"}
+            data-testid="badge-loan-covenants"
+          >
+            {result.passed ? "Ковенанты соблюдены" : "Ковенанты нарушены"}
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="loan-amount">Сумма кредита</Label>
+              <Input
+                id="loan-amount"
+                inputMode="decimal"
+                value={amount}
+                onChange={event => setAmount(event.target.value)}
+                placeholder="10 000"
+                data-testid="input-loan-amount"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="loan-term">Срок, мес.</Label>
+              <Input
+                id="loan-term"
+                inputMode="numeric"
+                value={termMonths}
+                onChange={event => setTermMonths(event.target.value)}
+                data-testid="input-loan-term"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="loan-rate">Ставка, % годовых</Label>
+              <Input
+                id="loan-rate"
+                inputMode="decimal"
+                value={annualRate}
+                onChange={event => setAnnualRate(event.target.value)}
+                data-testid="input-loan-rate"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Погашение</Label>
+              <Select value={amortization} onValueChange={value => setAmortization(value as LoanAmortizationType)}>
+                <SelectTrigger data-testid="select-loan-amortization">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(amortizationLabels) as LoanAmortizationType[]).map(type => (
+                    <SelectItem key={type} value={type}>{amortizationLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Цель кредита</Label>
+              <Select value={purpose} onValueChange={value => setPurpose(value as LoanPurpose)}>
+                <SelectTrigger data-testid="select-loan-purpose">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(purposeLabels) as LoanPurpose[]).map(type => (
+                    <SelectItem key={type} value={type}>{purposeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="covenant-dscr">Мин. DSCR</Label>
+              <Input
+                id="covenant-dscr"
+                inputMode="decimal"
+                value={minDebtServiceCoverage}
+                onChange={event => setMinDebtServiceCoverage(event.target.value)}
+                placeholder="по нормативу отрасли"
+                data-testid="input-covenant-dscr"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="covenant-net-debt">Макс. чистый долг / EBITDA</Label>
+              <Input
+                id="covenant-net-debt"
+                inputMode="decimal"
+                value={maxNetDebtToEbitda}
+                onChange={event => setMaxNetDebtToEbitda(event.target.value)}
+                placeholder="по нормативу отрасли"
+                data-testid="input-covenant-net-debt"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="covenant-icr">Мин. покрытие процентов</Label>
+              <Input
+                id="covenant-icr"
+                inputMode="decimal"
+                value={minInterestCoverage}
+                onChange={event => setMinInterestCoverage(event.target.value)}
+                placeholder="по нормативу отрасли"
+                data-testid="input-covenant-icr"
+              />
+            </div>
+          </div>
+
+          <Button
+            type="submit"
+            disabled={stressTestMutation.isPending || !amount}
+            data-testid="button-run-stress-test"
+          >
+            {stressTestMutation.isPending ? "Расчёт..." : "Рассчитать"}
+          </Button>
+        </form>
+
+        {result && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground">Максимальный кредит на этих условиях</div>
+                <div className="font-mono font-semibold text-lg mt-1" data-testid="text-max-sustainable-loan">
+                  {formatCurrency(result.maxSustainableLoan)}
+                </div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground">EBITDA</div>
+                <div className="font-mono font-semibold text-lg mt-1" data-testid="text-stress-test-ebitda">
+                  {formatCurrency(result.ebitda)}
+                </div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground">Минимальный DSCR по графику</div>
+                <div className="font-mono font-semibold text-lg mt-1" data-testid="text-min-dscr">
+                  {formatOptionalRatio(result.minDebtServiceCoverage)}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Ковенанты</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ковенант</TableHead>
+                    <TableHead className="text-right">Ограничение</TableHead>
+                    <TableHead className="text-right">Значение</TableHead>
+                    <TableHead className="text-center">Выполнен</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.covenantChecks.map(check => (
+                    <TableRow key={check.covenant} data-testid={`row-covenant-${check.covenant}`}>
+                      <TableCell className="font-medium">{check.label}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {check.covenant === "maxNetDebtToEbitda" ? "≤" : "≥"} {check.limit.toFixed(2)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatOptionalRatio(check.value)}</TableCell>
+                      <TableCell className="text-center">
+                        {check.passed
+                          ? <CheckCircle2 className="h-4 w-4 inline text-emerald-600 dark:text-emerald-400" />
+                          : <XCircle className="h-4 w-4 inline text-red-600 dark:text-red-400" />}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Показатели до и после кредита</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Показатель</TableHead>
+                    <TableHead className="text-right">Текущее значение</TableHead>
+                    <TableHead className="text-right">С новым кредитом</TableHead>
+                    <TableHead className="text-right">Норматив</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comparedRatios.map(({ key, label }) => {
+                    const before = result.baseRatios[key];
+                    const after = result.proFormaRatios[key];
+                    if (!before && !after) return null;
+                    return (
+                      <TableRow key={key} data-testid={`row-stress-ratio-${key}`}>
+                        <TableCell className="font-medium">{label}</TableCell>
+                        <TableCell className={`text-right font-mono ${before ? statusColors[before.status] : ""}`}>
+                          {formatOptionalRatio(before?.value)}
+                        </TableCell>
+                        <TableCell className={`text-right font-mono font-semibold ${after ? statusColors[after.status] : ""}`}>
+                          {formatOptionalRatio(after?.value)}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground">{(after ?? before)?.benchmark}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">График погашения по годам</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Год</TableHead>
+                    <TableHead className="text-right">Основной долг</TableHead>
+                    <TableHead className="text-right">Проценты</TableHead>
+                    <TableHead className="text-right">Платеж</TableHead>
+                    <TableHead className="text-right">Остаток</TableHead>
+                    <TableHead className="text-right">DSCR</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.schedule.map(year => (
+                    <TableRow key={year.year} data-testid={`row-loan-schedule-${year.year}`}>
+                      <TableCell className="font-medium">{year.year}</TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(year.principal)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(year.interest)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(year.payment)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(year.balance)}</TableCell>
+                      <TableCell
+                        className={`text-right font-mono ${
+                          year.debtServiceCoverage === undefined
+                            ? ""
+                            : year.debtServiceCoverage >= result.covenants.minDebtServiceCoverage
+                              ? "text-emerald-600 dark:text-emerald-400"
+                              : "text-red-600 dark:text-red-400"
+                        }`}
+                      >
+                        {formatOptionalRatio(year.debtServiceCoverage)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="text-sm text-muted-foreground">
+                DSCR = EBITDA / (проценты по текущему долгу + платеж по новому кредиту). Текущие краткосрочные кредиты считаются рефинансированными, EBITDA - на уровне отчетного года.
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,115 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Coins, AlertTriangle, CheckCircle2, XCircle } from "lucide-react";
+import type { NetAssetsPeriod, NetAssetsStatus } from "@shared/schema";
+
+interface NetAssetsProps {
+  periods: NetAssetsPeriod[];
+}
+
+export function NetAssets({ periods }: NetAssetsProps) {
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("ru-RU", {
+      style: "decimal",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const formatOptional = (value: number | undefined) =>
+    value !== undefined ? formatCurrency(value) : "—";
+
+  const getStatusData = (status: NetAssetsStatus) => {
+    switch (status) {
+      case "good":
+        return {
+          Icon: CheckCircle2,
+          label: "Соответствует",
+          className: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/20",
+        };
+      case "warning":
+        return {
+          Icon: AlertTriangle,
+          label: "Ниже уставного капитала",
+          className: "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20",
+        };
+      case "critical":
+        return {
+          Icon: XCircle,
+          label: "Нарушение",
+          className: "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20",
+        };
+    }
+  };
+
+  const current = periods[0];
+  const currentStatus = getStatusData(current.status);
+
+  return (
+    <Card data-testid="card-net-assets">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-2">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <Coins className="h-4 w-4 text-primary" />
+          </div>
+          <CardTitle className="text-xl font-semibold">
+            Чистые активы и уставный капитал
+          </CardTitle>
+        </div>
+        <Badge
+          variant="outline"
+          className={`flex items-center gap-1 ${currentStatus.className}`}
+          data-testid="badge-net-assets-status"
+        >
+          <currentStatus.Icon className="h-3 w-3" />
+          {currentStatus.label}
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Год</TableHead>
+              <TableHead className="text-right">Чистые активы</TableHead>
+              <TableHead className="text-right">Уставный капитал</TableHead>
+              <TableHead className="text-right">Превышение / недостаток</TableHead>
+              <TableHead>Статус</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {periods.map(period => {
+              const status = getStatusData(period.status);
+              return (
+                <TableRow key={period.year} data-testid={`row-net-assets-${period.year}`}>
+                  <TableCell className="font-medium">{period.year}</TableCell>
+                  <TableCell className="text-right font-mono font-semibold">{formatCurrency(period.netAssets)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatOptional(period.authorizedCapital)}</TableCell>
+                  <TableCell
+                    className={`text-right font-mono ${
+                      period.excess === undefined
+                        ? ""
+                        : period.excess >= 0
+                          ? "text-emerald-600 dark:text-emerald-400"
+                          : "text-red-600 dark:text-red-400"
+                    }`}
+                  >
+                    {formatOptional(period.excess)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={status.className}>
+                      {status.label}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        <p className="text-sm text-muted-foreground" data-testid="text-net-assets-message">
+          {current.message}. Чистые активы = Активы (1600) − Долгосрочные обязательства (1400) − Краткосрочные обязательства (1500) + Доходы будущих периодов (1530).
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Briefcase, Droplets, Landmark } from "lucide-react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import type { PortfolioBorrower, PortfolioSummary as PortfolioSummaryData } from "@shared/schema";
+
+interface PortfolioSummaryProps {
+  summary: PortfolioSummaryData;
+}
+
+export function PortfolioSummary({ summary }: PortfolioSummaryProps) {
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("ru-RU", {
+      style: "decimal",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  const getRiskColor = (level: PortfolioBorrower["riskLevel"]) => {
+    switch (level) {
+      case "low":
+        return "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/20";
+      case "medium":
+        return "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20";
+      case "high":
+        return "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20";
+    }
+  };
+
+  const riskLabels: Record<PortfolioBorrower["riskLevel"], string> = {
+    low: "Низкий риск",
+    medium: "Средний риск",
+    high: "Высокий риск",
+  };
+
+  const exposureItems = [
+    { label: "Активы заемщиков", value: formatCurrency(summary.exposure.totalAssets) },
+    { label: "Обязательства", value: formatCurrency(summary.exposure.totalLiabilities) },
+    { label: "Собственный капитал", value: formatCurrency(summary.exposure.totalEquity) },
+    { label: "Заемные средства", value: formatCurrency(summary.exposure.totalDebt) },
+    { label: "Выручка", value: formatCurrency(summary.exposure.totalRevenue) },
+    { label: "Совокупный коэффициент задолженности", value: formatPercent(summary.exposure.debtRatio) },
+    { label: "Доля долга заемщиков с высоким риском", value: formatPercent(summary.exposure.highRiskDebtShare) },
+  ];
+
+  return (
+    <div className="space-y-6" data-testid="section-portfolio-summary">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Заемщиков</p>
+            <p className="text-3xl font-bold" data-testid="text-portfolio-borrowers">{summary.borrowers}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Средний балл рейтинга</p>
+            <p className="text-3xl font-bold" data-testid="text-portfolio-average-score">
+              {summary.averageScore !== undefined ? summary.averageScore.toFixed(1) : "—"}
+            </p>
+          </CardContent>
+        </Card>
+        {(["low", "high"] as const).map(level => (
+          <Card key={level}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{riskLabels[level]}</p>
+              <p className="text-3xl font-bold" data-testid={`text-portfolio-risk-${level}`}>
+                {summary.riskDistribution[level]}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card data-testid="card-rating-distribution">
+          <CardHeader className="flex flex-row items-center gap-3 space-y-0 pb-2">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <Briefcase className="h-4 w-4 text-primary" />
+            </div>
+            <CardTitle className="text-xl font-semibold">Распределение по рейтингу</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart data={summary.ratingDistribution}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="grade" className="text-xs" />
+                <YAxis allowDecimals={false} className="text-xs" />
+                <Tooltip
+                  formatter={(value: number) => [value, "Заемщиков"]}
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--popover))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "6px",
+                  }}
+                />
+                <Bar dataKey="count" fill="hsl(var(--chart-1))" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        <Card data-testid="card-portfolio-exposure">
+          <CardHeader className="flex flex-row items-center gap-3 space-y-0 pb-2">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <Landmark className="h-4 w-4 text-primary" />
+            </div>
+            <CardTitle className="text-xl font-semibold">Совокупные показатели</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {exposureItems.map(item => (
+                <div key={item.label} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="text-muted-foreground">{item.label}</span>
+                  <span className="font-mono font-medium">{item.value}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card data-testid="card-worst-liquidity">
+        <CardHeader className="flex flex-row items-center gap-3 space-y-0 pb-2">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <Droplets className="h-4 w-4 text-primary" />
+          </div>
+          <CardTitle className="text-xl font-semibold">Заемщики с наименьшей ликвидностью</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {summary.worstLiquidity.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Нет завершённых анализов</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Заемщик</TableHead>
+                  <TableHead className="text-right">Текущая ликвидность</TableHead>
+                  <TableHead className="text-right">Быстрая ликвидность</TableHead>
+                  <TableHead className="text-right">Заемные средства</TableHead>
+                  <TableHead>Рейтинг</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.worstLiquidity.map(borrower => (
+                  <TableRow key={borrower.analysisId} data-testid={`row-worst-liquidity-${borrower.analysisId}`}>
+                    <TableCell>
+                      <div className="font-medium">{borrower.companyName || borrower.fileName}</div>
+                      {borrower.inn && <div className="text-xs text-muted-foreground">ИНН {borrower.inn}</div>}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{borrower.currentRatio.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono">{borrower.quickRatio.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(borrower.totalDebt)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={getRiskColor(borrower.riskLevel)}>
+                        {borrower.creditGrade ?? riskLabels[borrower.riskLevel]}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -9,15 +9,19 @@ interface RatioCardProps {
   ratio: RatioWithStatus;
   trend?: "up" | "down" | "stable";
   isPercentage?: boolean;
+  isDays?: boolean;
+  isCurrency?: boolean;
 }
 
-export function RatioCard({ title, ratio, trend, isPercentage = false }: RatioCardProps) {
-  const isWorkingCapital = title.toLowerCase().includes("оборотный капитал");
+export function RatioCard({ title, ratio, trend, isPercentage = false, isDays = false, isCurrency = false }: RatioCardProps) {
+  const isMonetary = isCurrency || title.toLowerCase().includes("оборотный капитал");
   
   const formatValue = (value: number) => {
     if (isPercentage) {
       return `${(value * 100).toFixed(2)}%`;
-    } else if (isWorkingCapital) {
+    } else if (isDays) {
+      return `${value.toFixed(0)} дн.`;
+    } else if (isMonetary) {
       return `${value.toLocaleString('ru-RU', { maximumFractionDigits: 0 })} ₽`;
     } else {
       return value.toFixed(2);
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowDownWideNarrow, ListOrdered } from "lucide-react";
+import type { HorizontalVerticalAnalysis, LineItemChange, LineItemDynamics } from "@shared/schema";
+
+interface StatementDynamicsProps {
+  analysis: HorizontalVerticalAnalysis;
+}
+
+type SortMode = "statement" | "percent" | "absolute";
+
+export function StatementDynamics({ analysis }: StatementDynamicsProps) {
+  const [sortMode, setSortMode] = useState<SortMode>("statement");
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("ru-RU", {
+      style: "decimal",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const formatShare = (value: number | undefined) =>
+    value !== undefined ? `${(value * 100).toFixed(1)}%` : "—";
+
+  const formatSigned = (value: number, text: string) => `${value > 0 ? "+" : ""}${text}`;
+
+  // Growth of assets, revenue and profit is favorable, growth of liabilities and expenses is not
+  const getChangeColor = (line: LineItemDynamics, change: LineItemChange) => {
+    if (change.absolute === 0) return "text-muted-foreground";
+    const favorable = line.adverseGrowth ? change.absolute < 0 : change.absolute > 0;
+    return favorable ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400";
+  };
+
+  // Sorting by the latest change; lines without a change (or without a relative change) go last
+  const sortedLines = (() => {
+    if (sortMode === "statement") return analysis.lines;
+    const magnitude = (line: LineItemDynamics) => {
+      const change = line.changes[0];
+      if (!change) return -1;
+      if (sortMode === "percent") return change.percent !== undefined ? Math.abs(change.percent) : -1;
+      return Math.abs(change.absolute);
+    };
+    return [...analysis.lines].sort((a, b) => magnitude(b) - magnitude(a));
+  })();
+
+  const changeColumns = analysis.years.slice(0, -1).map((year, index) => ({
+    label: `${analysis.years[index + 1]} → ${year}`,
+    fromYear: analysis.years[index + 1],
+  }));
+
+  const sortOptions: { mode: SortMode; label: string }[] = [
+    { mode: "statement", label: "По строкам отчётности" },
+    { mode: "percent", label: "По изменению, %" },
+    { mode: "absolute", label: "По изменению, сумма" },
+  ];
+
+  return (
+    <div className="space-y-3" data-testid="section-statement-dynamics">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+          Горизонтальный и вертикальный анализ
+        </div>
+        {changeColumns.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {sortOptions.map(option => (
+              <Button
+                key={option.mode}
+                variant={sortMode === option.mode ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setSortMode(option.mode)}
+                data-testid={`button-sort-${option.mode}`}
+              >
+                {option.mode === "statement" ? (
+                  <ListOrdered className="h-4 w-4 mr-1" />
+                ) : (
+                  <ArrowDownWideNarrow className="h-4 w-4 mr-1" />
+                )}
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Показатель</TableHead>
+            {analysis.years.map(year => (
+              <TableHead key={year} className="text-right">{year}</TableHead>
+            ))}
+            {changeColumns.map(column => (
+              <TableHead key={column.label} className="text-right">{column.label}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sortedLines.map(line => (
+            <TableRow key={line.key} data-testid={`row-dynamics-${line.key}`}>
+              <TableCell className={line.bold ? "font-semibold" : ""}>
+                {line.label}
+                <span className="ml-1 text-xs text-muted-foreground">({line.code})</span>
+              </TableCell>
+              {line.values.map((value, index) => (
+                <TableCell key={analysis.years[index]} className="text-right">
+                  <div className="font-mono">{value !== undefined ? formatCurrency(value) : "—"}</div>
+                  <div className="text-xs text-muted-foreground" title={line.statement === "balance" ? "Доля в валюте баланса" : "Доля в выручке"}>
+                    {formatShare(line.shares[index])}
+                  </div>
+                </TableCell>
+              ))}
+              {changeColumns.map(column => {
+                const change = line.changes.find(item => item.fromYear === column.fromYear);
+                return (
+                  <TableCell key={column.label} className="text-right">
+                    {change ? (
+                      <div className={getChangeColor(line, change)} data-testid={`text-change-${line.key}-${column.fromYear}`}>
+                        <div className="font-mono">{formatSigned(change.absolute, formatCurrency(change.absolute))}</div>
+                        <div className="text-xs">
+                          {change.percent !== undefined ? formatSigned(change.percent, `${(change.percent * 100).toFixed(1)}%`) : "—"}
+                        </div>
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
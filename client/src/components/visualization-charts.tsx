@@ -1,5 +1,8 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { BarChart3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { FinancialStabilityBadge } from "@/components/financial-stability-badge";
+import { BarChart3, Banknote, Timer, Layers } from "lucide-react";
 import {
   BarChart,
   Bar,
@@ -15,14 +18,18 @@ import {
   PolarRadiusAxis,
   Radar,
   ReferenceLine,
+  Cell,
 } from "recharts";
-import type { FinancialAnalysisResult } from "@shared/schema";
+import type { FinancialAnalysisResult, ReportingPeriod } from "@shared/schema";
 
 interface VisualizationChartsProps {
-  result: FinancialAnalysisResult;
+  // Charts use only calculated data, so they are shown while the AI report is still being written
+  result: Omit<FinancialAnalysisResult, "aiAnalysis" | "timestamp">;
 }
 
 export function VisualizationCharts({ result }: VisualizationChartsProps) {
+  const [duPontModel, setDuPontModel] = useState<"three" | "five">("five");
+
   // Extract and filter periods to handle sparse/partial arrays safely
   const periods = result.periods?.slice(0, 3).filter(Boolean) || [];
   const hasHistoricalData = periods.length >= 2;
@@ -91,6 +98,18 @@ export function VisualizationCharts({ result }: VisualizationChartsProps) {
           ...(periods[1]?.ratios?.financialLeverageRatio && { [periods[1].year]: periods[1].ratios.financialLeverageRatio.value }),
           ...(periods[2]?.ratios?.financialLeverageRatio && { [periods[2].year]: periods[2].ratios.financialLeverageRatio.value }),
         },
+        ...(periods[0]?.ratios?.workingCapitalSufficiency ? [{
+          name: "Обеспеченность СОС",
+          ...(periods[0]?.ratios?.workingCapitalSufficiency && { [periods[0].year]: periods[0].ratios.workingCapitalSufficiency.value }),
+          ...(periods[1]?.ratios?.workingCapitalSufficiency && { [periods[1].year]: periods[1].ratios.workingCapitalSufficiency.value }),
+          ...(periods[2]?.ratios?.workingCapitalSufficiency && { [periods[2].year]: periods[2].ratios.workingCapitalSufficiency.value }),
+        }] : []),
+        ...(periods[0]?.ratios?.equityManeuverability ? [{
+          name: "Маневренность СК",
+          ...(periods[0]?.ratios?.equityManeuverability && { [periods[0].year]: periods[0].ratios.equityManeuverability.value }),
+          ...(periods[1]?.ratios?.equityManeuverability && { [periods[1].year]: periods[1].ratios.equityManeuverability.value }),
+          ...(periods[2]?.ratios?.equityManeuverability && { [periods[2].year]: periods[2].ratios.equityManeuverability.value }),
+        }] : []),
       ]
     : [
         {
@@ -108,8 +127,24 @@ export function VisualizationCharts({ result }: VisualizationChartsProps) {
           value: result.ratios.financialLeverageRatio.value,
           benchmark: 1.0,
         },
+        ...(result.ratios.workingCapitalSufficiency ? [{
+          name: "Обеспеченность СОС",
+          value: result.ratios.workingCapitalSufficiency.value,
+          benchmark: 0.1,
+        }] : []),
+        ...(result.ratios.equityManeuverability ? [{
+          name: "Маневренность СК",
+          value: result.ratios.equityManeuverability.value,
+          benchmark: 0.2,
+        }] : []),
       ];
 
+  // Three-component type of financial stability of every year (not stored for earlier analyses)
+  const stabilityTypes = (result.periods ?? [])
+    .slice(0, 3)
+    .filter(period => period?.financialStability)
+    .map(period => ({ year: period.year, assessment: period.financialStability! }));
+
   // Radar data - use current year data only
   const radarData = [
     {
@@ -209,6 +244,113 @@ export function VisualizationCharts({ result }: VisualizationChartsProps) {
 
   const hasProfitabilityData = profitabilityData.length > 0;
 
+  // Activity data - turnover periods in days, only periods where they could be calculated
+  const activityPeriods = periods.filter(period => period.ratios.daysSalesOutstanding !== undefined);
+  const hasActivityHistory = activityPeriods.length >= 2;
+  const activityMetrics: { name: string; key: "daysSalesOutstanding" | "daysInventoryOutstanding" | "daysPayablesOutstanding" | "cashConversionCycle" }[] = [
+    { name: "Оборот ДЗ (DSO)", key: "daysSalesOutstanding" },
+    { name: "Оборот запасов (DIO)", key: "daysInventoryOutstanding" },
+    { name: "Оборот КЗ (DPO)", key: "daysPayablesOutstanding" },
+    { name: "Финансовый цикл", key: "cashConversionCycle" },
+  ];
+  const activityData = activityMetrics
+    .filter(metric => result.ratios[metric.key] !== undefined)
+    .map(metric => {
+      if (!hasActivityHistory) {
+        return { name: metric.name, value: result.ratios[metric.key]!.value };
+      }
+      const row: Record<string, string | number> = { name: metric.name };
+      activityPeriods.forEach(period => {
+        const ratio = period.ratios[metric.key];
+        if (ratio) {
+          row[period.year] = ratio.value;
+        }
+      });
+      return row;
+    });
+  const hasActivityData = activityData.length > 0;
+
+  // Cash flow data (Form 4) - only periods that have a cash flow statement
+  const cashFlowPeriods = periods.filter(period => period.data.operatingCashFlow !== undefined);
+  const hasCashFlowHistory = cashFlowPeriods.length >= 2;
+  const hasCashFlowData = result.data.operatingCashFlow !== undefined;
+
+  const buildCashFlowRow = (name: string, getValue: (period: ReportingPeriod) => number | undefined, currentValue: number | undefined) => {
+    if (!hasCashFlowHistory) {
+      return { name, value: currentValue ?? 0 };
+    }
+    const row: Record<string, string | number> = { name };
+    cashFlowPeriods.forEach(period => {
+      const value = getValue(period);
+      if (value !== undefined) {
+        row[period.year] = value;
+      }
+    });
+    return row;
+  };
+
+  const cashFlowData = hasCashFlowData
+    ? [
+        buildCashFlowRow("Текущие операции", p => p.data.operatingCashFlow, result.data.operatingCashFlow),
+        buildCashFlowRow("Инвестиционные операции", p => p.data.investingCashFlow, result.data.investingCashFlow),
+        buildCashFlowRow("Финансовые операции", p => p.data.financingCashFlow, result.data.financingCashFlow),
+        buildCashFlowRow("Свободный денежный поток", p => p.ratios.freeCashFlow?.value, result.ratios.freeCashFlow?.value),
+      ]
+    : [];
+
+  const cashFlowRatioData = [
+    ...(result.ratios.operatingCashFlowRatio
+      ? [buildCashFlowRow("Покрытие КО", p => p.ratios.operatingCashFlowRatio?.value, result.ratios.operatingCashFlowRatio.value)]
+      : []),
+    ...(result.ratios.cashDebtCoverage
+      ? [buildCashFlowRow("Покрытие долга", p => p.ratios.cashDebtCoverage?.value, result.ratios.cashDebtCoverage.value)]
+      : []),
+    ...(result.ratios.qualityOfEarnings
+      ? [buildCashFlowRow("Качество прибыли", p => p.ratios.qualityOfEarnings?.value, result.ratios.qualityOfEarnings.value)]
+      : []),
+  ];
+
+  const formatAmount = (value: number) =>
+    new Intl.NumberFormat("ru-RU", { maximumFractionDigits: 0 }).format(value);
+
+  // DuPont waterfall: ROE of the previous year, effect of every factor, ROE of the reporting year
+  const duPont = result.duPontAnalysis;
+  const duPontChange = duPont?.changes[0];
+  const duPontEffects = duPontChange
+    ? (duPontModel === "five" && duPontChange.fiveFactor) || duPontChange.threeFactor
+    : [];
+  const formatPoints = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)} п.п.`;
+
+  const duPontWaterfallData = (() => {
+    if (!duPont || !duPontChange) return [];
+    const roeFrom = duPont.periods.find(period => period.year === duPontChange.fromYear)!.roe * 100;
+    const roeTo = duPont.periods.find(period => period.year === duPontChange.toYear)!.roe * 100;
+
+    let running = roeFrom;
+    const steps = duPontEffects.map(effect => {
+      const start = running;
+      running += effect.effect * 100;
+      return {
+        name: effect.label,
+        range: [Math.min(start, running), Math.max(start, running)],
+        delta: effect.effect * 100,
+        kind: effect.effect >= 0 ? "up" : "down",
+      };
+    });
+
+    return [
+      { name: `ROE ${duPontChange.fromYear}`, range: [Math.min(0, roeFrom), Math.max(0, roeFrom)], delta: roeFrom, kind: "total" },
+      ...steps,
+      { name: `ROE ${duPontChange.toYear}`, range: [Math.min(0, roeTo), Math.max(0, roeTo)], delta: roeTo, kind: "total" },
+    ];
+  })();
+
+  const waterfallColors: Record<string, string> = {
+    total: "hsl(var(--chart-1))",
+    up: "hsl(var(--chart-2))",
+    down: "hsl(var(--destructive))",
+  };
+
   return (
     <div className="space-y-6">
       {/* Liquidity Chart */}
@@ -274,7 +416,22 @@ export function VisualizationCharts({ result }: VisualizationChartsProps) {
             Показатели финансовой устойчивости
           </CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {stabilityTypes.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm" data-testid="section-stability-types">
+              <span className="text-muted-foreground">Тип устойчивости:</span>
+              {stabilityTypes.map(({ year, assessment }) => (
+                <div key={year} className="flex items-center gap-1">
+                  <span className="text-muted-foreground">{year}</span>
+                  <FinancialStabilityBadge
+                    type={assessment.type}
+                    indicator={assessment.indicator}
+                    testId={`badge-financial-stability-${year}`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
           <ResponsiveContainer width="100%" height={300}>
             <BarChart data={stabilityData}>
               <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
@@ -369,6 +526,237 @@ export function VisualizationCharts({ result }: VisualizationChartsProps) {
         </Card>
       )}
 
+      {/* DuPont Waterfall - только если ROE раскладывается за два года */}
+      {duPont && duPontChange && (
+        <Card data-testid="card-dupont-chart">
+          <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <Layers className="h-4 w-4 text-primary" />
+              </div>
+              <CardTitle className="text-xl font-semibold">
+                Факторный анализ ROE (модель Дюпона)
+              </CardTitle>
+            </div>
+            {duPontChange.fiveFactor && (
+              <div className="flex gap-1">
+                <Button
+                  variant={duPontModel === "three" ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setDuPontModel("three")}
+                  data-testid="button-dupont-three"
+                >
+                  3 фактора
+                </Button>
+                <Button
+                  variant={duPontModel === "five" ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setDuPontModel("five")}
+                  data-testid="button-dupont-five"
+                >
+                  5 факторов
+                </Button>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground" data-testid="text-dupont-change">
+              Изменение ROE {duPontChange.fromYear} → {duPontChange.toYear}: {formatPoints(duPontChange.roeChange * 100)} (метод цепных подстановок)
+            </p>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={duPontWaterfallData}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                <XAxis
+                  dataKey="name"
+                  className="text-xs"
+                  tick={{ fill: "hsl(var(--muted-foreground))" }}
+                />
+                <YAxis
+                  tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  label={{ value: '%', angle: -90, position: 'insideLeft' }}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--card))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "0.5rem",
+                  }}
+                  formatter={(_value, _name, item) =>
+                    item.payload.kind === "total"
+                      ? [`${item.payload.delta.toFixed(2)}%`, "ROE"]
+                      : [formatPoints(item.payload.delta), "Влияние фактора"]
+                  }
+                />
+                <ReferenceLine y={0} stroke="hsl(var(--border))" />
+                <Bar dataKey="range" name="ROE">
+                  {duPontWaterfallData.map(entry => (
+                    <Cell key={entry.name} fill={waterfallColors[entry.kind]} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+              {duPont.periods.map(period => (
+                <div key={period.year} className="rounded-md border p-3" data-testid={`text-dupont-${period.year}`}>
+                  <div className="font-medium">{period.year}: ROE {(period.roe * 100).toFixed(2)}%</div>
+                  <div className="text-xs text-muted-foreground font-mono">
+                    {(period.netProfitMargin * 100).toFixed(2)}% × {period.assetTurnover.toFixed(2)} × {period.equityMultiplier.toFixed(2)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Activity Chart - только если есть выручка */}
+      {hasActivityData && (
+        <Card data-testid="card-activity-chart">
+          <CardHeader className="flex flex-row items-center gap-3 space-y-0">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <Timer className="h-4 w-4 text-primary" />
+            </div>
+            <CardTitle className="text-xl font-semibold">
+              Деловая активность
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={activityData}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                <XAxis
+                  dataKey="name"
+                  className="text-xs"
+                  tick={{ fill: "hsl(var(--muted-foreground))" }}
+                />
+                <YAxis
+                  tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  label={{ value: 'дн.', angle: -90, position: 'insideLeft' }}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--card))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "0.5rem",
+                  }}
+                  formatter={(value: number) => [`${value.toFixed(0)} дн.`, 'Период']}
+                />
+                <Legend />
+                <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                {hasActivityHistory ? (
+                  <>
+                    {activityPeriods.map((period, idx) => (
+                      <Bar
+                        key={period.year}
+                        dataKey={period.year}
+                        fill={chartColors[idx]}
+                        name={`${period.year} год`}
+                      />
+                    ))}
+                  </>
+                ) : (
+                  <Bar dataKey="value" fill="hsl(var(--chart-3))" name="Период (дней)" />
+                )}
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Cash Flow Chart - только если есть Форма 4 */}
+      {hasCashFlowData && (
+        <Card data-testid="card-cash-flow-chart">
+          <CardHeader className="flex flex-row items-center gap-3 space-y-0">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <Banknote className="h-4 w-4 text-primary" />
+            </div>
+            <CardTitle className="text-xl font-semibold">
+              Денежные потоки
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={cashFlowData}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                <XAxis
+                  dataKey="name"
+                  className="text-xs"
+                  tick={{ fill: "hsl(var(--muted-foreground))" }}
+                />
+                <YAxis
+                  tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  tickFormatter={formatAmount}
+                  width={90}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--card))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "0.5rem",
+                  }}
+                  formatter={(value: number) => [formatAmount(value), 'Сальдо']}
+                />
+                <Legend />
+                <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                {hasCashFlowHistory ? (
+                  <>
+                    {cashFlowPeriods.map((period, idx) => (
+                      <Bar
+                        key={period.year}
+                        dataKey={period.year}
+                        fill={chartColors[idx]}
+                        name={`${period.year} год`}
+                      />
+                    ))}
+                  </>
+                ) : (
+                  <Bar dataKey="value" fill="hsl(var(--chart-1))" name="Сальдо денежных потоков" />
+                )}
+              </BarChart>
+            </ResponsiveContainer>
+
+            {cashFlowRatioData.length > 0 && (
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={cashFlowRatioData}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                  <XAxis
+                    dataKey="name"
+                    className="text-xs"
+                    tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  />
+                  <YAxis tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "0.5rem",
+                    }}
+                    formatter={(value: number) => [value.toFixed(2), 'Значение']}
+                  />
+                  <Legend />
+                  <ReferenceLine y={0.4} stroke="hsl(var(--destructive))" strokeDasharray="3 3" label="Норматив (КО)" />
+                  <ReferenceLine y={1.0} stroke="hsl(var(--destructive))" strokeDasharray="3 3" label="Норматив (Качество)" />
+                  {hasCashFlowHistory ? (
+                    <>
+                      {cashFlowPeriods.map((period, idx) => (
+                        <Bar
+                          key={period.year}
+                          dataKey={period.year}
+                          fill={chartColors[idx]}
+                          name={`${period.year} год`}
+                        />
+                      ))}
+                    </>
+                  ) : (
+                    <Bar dataKey="value" fill="hsl(var(--chart-2))" name="Фактическое значение" />
+                  )}
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Radar Chart */}
       <Card data-testid="card-radar-chart">
         <CardHeader className="flex flex-row items-center gap-3 space-y-0">
@@ -1,84 +1,101 @@
 import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { FileUpload } from "@/components/file-upload";
 import { DataPreview } from "@/components/data-preview";
+import { EquityStatement } from "@/components/equity-statement";
+import { LiquidityGrouping } from "@/components/liquidity-grouping";
+import { NetAssets } from "@/components/net-assets";
+import { LoanStressTest } from "@/components/loan-stress-test";
+import { BankruptcyModels } from "@/components/bankruptcy-models";
 import { RatioCard } from "@/components/ratio-card";
 import { AIAnalysis } from "@/components/ai-analysis";
+import { AnalysisChat } from "@/components/analysis-chat";
 import { VisualizationCharts } from "@/components/visualization-charts";
 import { LoadingModal } from "@/components/loading-modal";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { Button } from "@/components/ui/button";
-import { Download, RotateCcw, TrendingUp } from "lucide-react";
+import { Briefcase, Download, Loader2, RotateCcw, TrendingUp, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { FinancialAnalysisResult } from "@shared/schema";
+import type { AnalysisJob, AnalysisJobPreview, FinancialAnalysisResult } from "@shared/schema";
 
 export default function Home() {
-  const [analysisResult, setAnalysisResult] = useState<FinancialAnalysisResult | null>(null);
+  const [finalResult, setFinalResult] = useState<FinancialAnalysisResult | null>(null);
+  // Calculated part of a running analysis and the AI report sections written so far
+  const [preview, setPreview] = useState<AnalysisJobPreview | null>(null);
+  const [analysisId, setAnalysisId] = useState<string | null>(null);
   const [processingStage, setProcessingStage] = useState("");
   const [progress, setProgress] = useState(0);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
   const { toast } = useToast();
+  const analysisResult = finalResult ?? preview?.result ?? null;
+
+  // Follow the analysis job over Server-Sent Events until it is completed, failed or cancelled
+  const waitForJob = (jobId: string) =>
+    new Promise<AnalysisJob>((resolve, reject) => {
+      const events = new EventSource(`/api/jobs/${jobId}/events`);
+
+      const handleUpdate = (event: MessageEvent) => {
+        const job = JSON.parse(event.data) as AnalysisJob;
+        setProgress(job.progress);
+        setProcessingStage(job.stageLabel);
+        if (job.preview) setPreview(job.preview);
+
+        if (job.status === "completed" && job.result) {
+          events.close();
+          resolve(job);
+        } else if (job.status === "failed" || job.status === "cancelled") {
+          events.close();
+          reject(new Error(job.error || "Ошибка обработки файла"));
+        }
+      };
+
+      ["queued", "running", "completed", "failed", "cancelled"].forEach(status =>
+        events.addEventListener(status, handleUpdate as EventListener)
+      );
+
+      events.onerror = () => {
+        // EventSource reconnects by itself; a closed stream means the job is gone
+        if (events.readyState === EventSource.CLOSED) {
+          reject(new Error("Соединение с сервером потеряно. Попробуйте снова."));
+        }
+      };
+    });
 
   const analysisMutation = useMutation({
     mutationFn: async (file: File) => {
       const formData = new FormData();
       formData.append("file", file);
 
-      setProgress(10);
+      setProgress(0);
       setProcessingStage("Отправка файла на сервер...");
 
-      // Create AbortController for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 120000); // 2 minutes timeout
-
-      try {
-        const response = await fetch("/api/analyze", {
-          method: "POST",
-          body: formData,
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-
-        setProgress(30);
-        setProcessingStage("Парсинг данных из документа...");
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || "Ошибка обработки файла");
-        }
-
-        setProgress(50);
-        setProcessingStage("Расчёт финансовых коэффициентов...");
-
-        const data = await response.json();
-
-        if (!data.success || !data.result) {
-          throw new Error("Неверный формат ответа от сервера");
-        }
-
-        setProgress(70);
-        setProcessingStage("Генерация AI анализа...");
-
-        await new Promise(resolve => setTimeout(resolve, 800));
-
-        setProgress(90);
-        setProcessingStage("Подготовка результатов...");
+      const response = await fetch("/api/analyze", {
+        method: "POST",
+        body: formData,
+      });
 
-        await new Promise(resolve => setTimeout(resolve, 500));
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Ошибка обработки файла");
+      }
 
-        setProgress(100);
+      const { jobId } = await response.json();
+      if (!jobId) {
+        throw new Error("Неверный формат ответа от сервера");
+      }
+      setActiveJobId(jobId);
 
-        return data.result as FinancialAnalysisResult;
-      } catch (error) {
-        clearTimeout(timeoutId);
-        if (error instanceof Error && error.name === 'AbortError') {
-          throw new Error('Превышено время ожидания ответа от сервера. Попробуйте снова.');
-        }
-        throw error;
+      try {
+        return await waitForJob(jobId);
+      } finally {
+        setActiveJobId(null);
       }
     },
-    onSuccess: (result) => {
-      setAnalysisResult(result);
+    onSuccess: (job) => {
+      setFinalResult(job.result!);
+      setPreview(null);
+      setAnalysisId(job.analysisId ?? null);
       toast({
         title: "Анализ завершён",
         description: "Финансовые показатели успешно рассчитаны с помощью AI",
@@ -98,6 +115,7 @@ export default function Home() {
         className: "whitespace-pre-line",
       });
 
+      setPreview(null);
       setProgress(0);
       setProcessingStage("");
     },
@@ -109,14 +127,26 @@ export default function Home() {
     analysisMutation.mutate(file);
   };
 
+  const handleCancel = async () => {
+    if (!activeJobId) return;
+
+    try {
+      await fetch(`/api/jobs/${activeJobId}/cancel`, { method: "POST" });
+    } catch (error) {
+      console.error("Error cancelling analysis:", error);
+    }
+  };
+
   const handleReset = () => {
-    setAnalysisResult(null);
+    setFinalResult(null);
+    setPreview(null);
+    setAnalysisId(null);
     setProgress(0);
     setProcessingStage("");
   };
 
   const handleDownloadReport = async () => {
-    if (!analysisResult) return;
+    if (!finalResult) return;
 
     try {
       const response = await fetch("/api/download-report", {
@@ -124,7 +154,7 @@ export default function Home() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(analysisResult),
+        body: JSON.stringify(finalResult),
       });
 
       if (!response.ok) {
@@ -174,7 +204,7 @@ export default function Home() {
             </div>
 
             <div className="flex items-center gap-2">
-              {analysisResult && (
+              {finalResult && (
                 <Button
                   variant="outline"
                   size="sm"
@@ -186,6 +216,17 @@ export default function Home() {
                   Новый анализ
                 </Button>
               )}
+              <Link href="/portfolio">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  data-testid="link-portfolio"
+                  className="hover-elevate active-elevate-2"
+                >
+                  <Briefcase className="h-4 w-4 mr-2" />
+                  Портфель
+                </Button>
+              </Link>
               <ThemeToggle />
             </div>
           </div>
@@ -221,27 +262,82 @@ export default function Home() {
                 <h2 className="text-3xl font-bold tracking-tight">
                   Результаты анализа
                 </h2>
-                <p className="text-muted-foreground mt-1">
-                  Анализ завершён {new Date(analysisResult.timestamp).toLocaleString("ru-RU")}
-                </p>
+                {finalResult ? (
+                  <p className="text-muted-foreground mt-1">
+                    Анализ завершён {new Date(finalResult.timestamp).toLocaleString("ru-RU")}
+                  </p>
+                ) : (
+                  <p className="flex items-center gap-2 text-muted-foreground mt-1" data-testid="text-report-generating">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Показатели рассчитаны, AI-отчет формируется...
+                  </p>
+                )}
+                {(analysisResult.data.companyName || analysisResult.data.inn) && (
+                  <p className="text-sm text-muted-foreground mt-1" data-testid="text-company">
+                    {analysisResult.data.companyName}
+                    {analysisResult.data.inn && ` · ИНН ${analysisResult.data.inn}`}
+                    {analysisResult.data.ogrn && ` · ОГРН ${analysisResult.data.ogrn}`}
+                  </p>
+                )}
               </div>
-              <Button
-                variant="default"
-                onClick={handleDownloadReport}
-                data-testid="button-download"
-                className="hover-elevate active-elevate-2"
-              >
-                <Download className="h-4 w-4 mr-2" />
-                Скачать отчёт
-              </Button>
+              {finalResult ? (
+                <Button
+                  variant="default"
+                  onClick={handleDownloadReport}
+                  data-testid="button-download"
+                  className="hover-elevate active-elevate-2"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Скачать отчёт
+                </Button>
+              ) : activeJobId && (
+                <Button
+                  variant="outline"
+                  onClick={handleCancel}
+                  data-testid="button-cancel-report"
+                  className="hover-elevate active-elevate-2"
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  Отменить анализ
+                </Button>
+              )}
             </div>
 
             {/* Data Preview */}
-            <DataPreview data={analysisResult.data} />
+            <DataPreview data={analysisResult.data} dynamics={analysisResult.horizontalVerticalAnalysis} />
+
+            {/* Capital Movement (Form 3) */}
+            {analysisResult.equityStatement && (
+              <EquityStatement statement={analysisResult.equityStatement} />
+            )}
+
+            {/* Net Assets vs Authorized Capital */}
+            {analysisResult.netAssets && analysisResult.netAssets.length > 0 && (
+              <NetAssets periods={analysisResult.netAssets} />
+            )}
+
+            {/* Liquidity Balance Grouping (A1–A4 / P1–P4) */}
+            {analysisResult.liquidityGrouping && analysisResult.liquidityGrouping.length > 0 && (
+              <LiquidityGrouping periods={analysisResult.liquidityGrouping} />
+            )}
 
             {/* Financial Ratios Grid */}
             <div className="space-y-6">
-              <h3 className="text-2xl font-semibold">Финансовые показатели</h3>
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h3 className="text-2xl font-semibold">Финансовые показатели</h3>
+                {analysisResult.benchmarkProfile && (
+                  <span className="text-sm text-muted-foreground" data-testid="text-benchmark-profile">
+                    Нормативы: {analysisResult.benchmarkProfile.name}
+                    {analysisResult.benchmarkProfile.overridden && " (изменены)"}
+                    {" · версия "}{analysisResult.benchmarkProfile.version}
+                    {analysisResult.benchmarkProfile.okved && (
+                      <span className="block" title={analysisResult.benchmarkProfile.okved.name} data-testid="text-okved-activity">
+                        ОКВЭД {analysisResult.benchmarkProfile.okved.code}: {analysisResult.benchmarkProfile.okved.name}
+                      </span>
+                    )}
+                  </span>
+                )}
+              </div>
 
               {/* Liquidity Ratios */}
               <div className="space-y-4">
@@ -283,6 +379,25 @@ export default function Home() {
                     title="Финансовый рычаг"
                     ratio={analysisResult.ratios.financialLeverageRatio}
                   />
+                  {analysisResult.ratios.ownWorkingCapital && (
+                    <RatioCard
+                      title="Собственные оборотные средства"
+                      ratio={analysisResult.ratios.ownWorkingCapital}
+                      isCurrency={true}
+                    />
+                  )}
+                  {analysisResult.ratios.workingCapitalSufficiency && (
+                    <RatioCard
+                      title="Коэффициент обеспеченности СОС"
+                      ratio={analysisResult.ratios.workingCapitalSufficiency}
+                    />
+                  )}
+                  {analysisResult.ratios.equityManeuverability && (
+                    <RatioCard
+                      title="Коэффициент маневренности"
+                      ratio={analysisResult.ratios.equityManeuverability}
+                    />
+                  )}
                 </div>
               </div>
 
@@ -304,6 +419,40 @@ export default function Home() {
                 </div>
               </div>
 
+              {/* Debt Service Ratios */}
+              {analysisResult.ratios.ebitda && (
+                <div className="space-y-4">
+                  <h4 className="text-lg font-medium text-muted-foreground uppercase tracking-wide">
+                    Долговая нагрузка
+                  </h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    <RatioCard
+                      title="EBITDA"
+                      ratio={analysisResult.ratios.ebitda}
+                      isCurrency={true}
+                    />
+                    {analysisResult.ratios.netDebtToEbitda && (
+                      <RatioCard
+                        title="Чистый долг / EBITDA"
+                        ratio={analysisResult.ratios.netDebtToEbitda}
+                      />
+                    )}
+                    {analysisResult.ratios.interestCoverage && (
+                      <RatioCard
+                        title="Покрытие процентов (ICR)"
+                        ratio={analysisResult.ratios.interestCoverage}
+                      />
+                    )}
+                    {analysisResult.ratios.debtServiceCoverage && (
+                      <RatioCard
+                        title="Покрытие обслуживания долга (DSCR)"
+                        ratio={analysisResult.ratios.debtServiceCoverage}
+                      />
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Profitability Ratios */}
               {(analysisResult.ratios.roa || analysisResult.ratios.roe || analysisResult.ratios.grossProfitMargin || analysisResult.ratios.operatingProfitMargin || analysisResult.ratios.netProfitMargin) && (
                 <div className="space-y-4">
@@ -356,10 +505,90 @@ export default function Home() {
                   </div>
                 </div>
               )}
+
+              {/* Activity Ratios */}
+              {(analysisResult.ratios.assetTurnover || analysisResult.ratios.receivablesTurnover || analysisResult.ratios.inventoryTurnover || analysisResult.ratios.cashConversionCycle) && (
+                <div className="space-y-4">
+                  <h4 className="text-lg font-medium text-muted-foreground uppercase tracking-wide">
+                    Деловая активность
+                  </h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {analysisResult.ratios.assetTurnover && (
+                      <RatioCard
+                        title="Оборачиваемость активов"
+                        ratio={analysisResult.ratios.assetTurnover}
+                      />
+                    )}
+                    {analysisResult.ratios.receivablesTurnover && (
+                      <RatioCard
+                        title="Оборачиваемость дебиторской задолженности"
+                        ratio={analysisResult.ratios.receivablesTurnover}
+                      />
+                    )}
+                    {analysisResult.ratios.inventoryTurnover && (
+                      <RatioCard
+                        title="Оборачиваемость запасов"
+                        ratio={analysisResult.ratios.inventoryTurnover}
+                      />
+                    )}
+                    {analysisResult.ratios.payablesTurnover && (
+                      <RatioCard
+                        title="Оборачиваемость кредиторской задолженности"
+                        ratio={analysisResult.ratios.payablesTurnover}
+                      />
+                    )}
+                    {analysisResult.ratios.daysSalesOutstanding && (
+                      <RatioCard
+                        title="Период оборота дебиторской задолженности (DSO)"
+                        ratio={analysisResult.ratios.daysSalesOutstanding}
+                        isDays={true}
+                      />
+                    )}
+                    {analysisResult.ratios.daysInventoryOutstanding && (
+                      <RatioCard
+                        title="Период оборота запасов (DIO)"
+                        ratio={analysisResult.ratios.daysInventoryOutstanding}
+                        isDays={true}
+                      />
+                    )}
+                    {analysisResult.ratios.daysPayablesOutstanding && (
+                      <RatioCard
+                        title="Период оборота кредиторской задолженности (DPO)"
+                        ratio={analysisResult.ratios.daysPayablesOutstanding}
+                        isDays={true}
+                      />
+                    )}
+                    {analysisResult.ratios.cashConversionCycle && (
+                      <RatioCard
+                        title="Финансовый цикл (CCC)"
+                        ratio={analysisResult.ratios.cashConversionCycle}
+                        isDays={true}
+                      />
+                    )}
+                  </div>
+                </div>
+              )}
             </div>
 
+            {/* Proposed Loan Stress Test (needs the saved analysis and EBITDA) */}
+            {analysisId && analysisResult.ratios.ebitda && (
+              <LoanStressTest analysisId={analysisId} />
+            )}
+
+            {/* Bankruptcy Prediction Models */}
+            {analysisResult.bankruptcyModels && analysisResult.bankruptcyModels.length > 0 && (
+              <BankruptcyModels models={analysisResult.bankruptcyModels} />
+            )}
+
             {/* AI Analysis */}
-            <AIAnalysis analysis={analysisResult.aiAnalysis} />
+            {finalResult ? (
+              <AIAnalysis analysis={finalResult.aiAnalysis} />
+            ) : preview && (
+              <AIAnalysis preview={preview} />
+            )}
+
+            {/* Q&A chat over the saved analysis */}
+            {analysisId && <AnalysisChat analysisId={analysisId} />}
 
             {/* Visualizations */}
             <div className="space-y-6">
@@ -378,6 +607,15 @@ export default function Home() {
                   <div><span className="font-mono font-semibold">КФВ</span> — Краткосрочные финансовые вложения</div>
                   <div><span className="font-mono font-semibold">СК</span> — Собственный капитал</div>
                   <div><span className="font-mono font-semibold">СОК</span> — Собственный оборотный капитал</div>
+                  <div><span className="font-mono font-semibold">ДЗ</span> — Дебиторская задолженность</div>
+                  <div><span className="font-mono font-semibold">КЗ</span> — Кредиторская задолженность</div>
+                  <div><span className="font-mono font-semibold">ЦДС</span> — Цикл денежных средств (финансовый цикл)</div>
+                  <div><span className="font-mono font-semibold">ВА</span> — Внеоборотные активы</div>
+                  <div><span className="font-mono font-semibold">EBIT</span> — Прибыль до уплаты процентов и налогов</div>
+                  <div><span className="font-mono font-semibold">EBITDA</span> — EBIT до вычета амортизации</div>
+                  <div><span className="font-mono font-semibold">ЧД</span> — Чистый долг (заемные средства − ДС − КФВ)</div>
+                  <div><span className="font-mono font-semibold">ICR</span> — Коэффициент покрытия процентов</div>
+                  <div><span className="font-mono font-semibold">DSCR</span> — Коэффициент покрытия обслуживания долга</div>
                 </div>
               </div>
             )}
@@ -417,9 +655,10 @@ export default function Home() {
 
       {/* Loading Modal */}
       <LoadingModal
-        isOpen={analysisMutation.isPending}
+        isOpen={analysisMutation.isPending && !preview}
         stage={processingStage}
         progress={progress}
+        onCancel={activeJobId ? handleCancel : undefined}
       />
     </div>
   );
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { PortfolioSummary } from "@/components/portfolio-summary";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, FolderUp, TrendingUp } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { AnalysisJobStatus, BatchAnalysis } from "@shared/schema";
+
+export default function Portfolio() {
+  const [files, setFiles] = useState<File[]>([]);
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const batchMutation = useMutation({
+    mutationFn: async (selected: File[]) => {
+      const formData = new FormData();
+      selected.forEach(file => formData.append("files", file));
+
+      const response = await fetch("/api/batch-analyze", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Ошибка загрузки файлов");
+      }
+
+      const data = await response.json();
+      return data.batchId as string;
+    },
+    onSuccess: (id) => {
+      setBatchId(id);
+      setFiles([]);
+    },
+    onError: (error) => {
+      toast({
+        title: "Ошибка загрузки",
+        description: error instanceof Error ? error.message : "Не удалось загрузить файлы",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Poll the batch until every file is analyzed
+  const { data } = useQuery<{ success: boolean; batch: BatchAnalysis }>({
+    queryKey: ["/api/batches", batchId],
+    enabled: batchId !== null,
+    staleTime: 0,
+    refetchInterval: query => (query.state.data?.batch.status === "completed" ? false : 2000),
+  });
+  const batch = data?.batch;
+
+  const finishedCount = batch?.files.filter(file => file.status !== "queued" && file.status !== "running").length ?? 0;
+
+  const getStatusBadge = (status: AnalysisJobStatus) => {
+    switch (status) {
+      case "completed":
+        return { label: "Готово", className: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/20" };
+      case "failed":
+        return { label: "Ошибка", className: "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20" };
+      case "cancelled":
+        return { label: "Отменён", className: "bg-muted text-muted-foreground" };
+      case "running":
+        return { label: "Анализ", className: "bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20" };
+      case "queued":
+        return { label: "В очереди", className: "bg-muted text-muted-foreground" };
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <TrendingUp className="h-6 w-6 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold">Financial Analytics</h1>
+                <p className="text-xs text-muted-foreground">
+                  Анализ кредитного портфеля
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Link href="/">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  data-testid="link-home"
+                  className="hover-elevate active-elevate-2"
+                >
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Один документ
+                </Button>
+              </Link>
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+        <div className="space-y-2">
+          <h2 className="text-3xl font-bold tracking-tight">Портфельный анализ</h2>
+          <p className="text-muted-foreground">
+            Загрузите отчётность нескольких заемщиков или ZIP-архив с ней: каждый файл
+            анализируется отдельно, по завершённым анализам строится сводка портфеля
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6 flex flex-col md:flex-row md:items-center gap-4">
+            <input
+              type="file"
+              multiple
+              accept=".xlsx,.xls,.docx,.pdf,.xml,.json,.zip"
+              onChange={event => setFiles(Array.from(event.target.files ?? []))}
+              className="text-sm file:mr-4 file:rounded-md file:border-0 file:bg-primary/10 file:px-4 file:py-2 file:text-sm file:font-medium file:text-primary"
+              data-testid="input-batch-files"
+            />
+            <Button
+              onClick={() => batchMutation.mutate(files)}
+              disabled={files.length === 0 || batchMutation.isPending}
+              data-testid="button-batch-analyze"
+              className="hover-elevate active-elevate-2"
+            >
+              <FolderUp className="h-4 w-4 mr-2" />
+              Анализировать {files.length > 0 ? `(${files.length})` : ""}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {batch && (
+          <>
+            <Card data-testid="card-batch-files">
+              <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-2">
+                <CardTitle className="text-xl font-semibold">Файлы пакета</CardTitle>
+                <span className="text-sm text-muted-foreground" data-testid="text-batch-progress">
+                  Обработано {finishedCount} из {batch.files.length}
+                </span>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Progress value={batch.files.length > 0 ? (finishedCount / batch.files.length) * 100 : 0} className="h-2" />
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Файл</TableHead>
+                      <TableHead>Заемщик</TableHead>
+                      <TableHead>Статус</TableHead>
+                      <TableHead>Рейтинг</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {batch.files.map((file, index) => {
+                      const status = getStatusBadge(file.status);
+                      return (
+                        <TableRow key={file.jobId ?? `${file.fileName}-${index}`} data-testid={`row-batch-file-${index}`}>
+                          <TableCell className="font-medium break-all">{file.fileName}</TableCell>
+                          <TableCell>
+                            {file.companyName ?? "—"}
+                            {file.inn && <div className="text-xs text-muted-foreground">ИНН {file.inn}</div>}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={status.className}>
+                              {status.label}{file.status === "running" ? ` ${file.progress}%` : ""}
+                            </Badge>
+                            {file.error && <div className="text-xs text-red-600 dark:text-red-400 mt-1">{file.error}</div>}
+                          </TableCell>
+                          <TableCell className="font-semibold">{file.creditGrade ?? "—"}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {batch.summary.borrowers > 0 && <PortfolioSummary summary={batch.summary} />}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
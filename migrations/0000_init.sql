@@ -0,0 +1,52 @@
+CREATE TABLE "ai_reports" (
+	"analysis_id" varchar PRIMARY KEY NOT NULL,
+	"risk_level" text NOT NULL,
+	"credit_grade" text,
+	"credit_score" double precision,
+	"report" jsonb NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "analyses" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_name" text,
+	"okved" text,
+	"data" jsonb NOT NULL,
+	"benchmark_profile" jsonb,
+	"bankruptcy_models" jsonb,
+	"equity_statement" jsonb,
+	"timestamp" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "analysis_periods" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"analysis_id" varchar NOT NULL,
+	"position" integer NOT NULL,
+	"year" integer NOT NULL,
+	"data" jsonb NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "analysis_ratios" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"analysis_id" varchar NOT NULL,
+	"period_id" integer,
+	"key" text NOT NULL,
+	"value" double precision NOT NULL,
+	"status" text NOT NULL,
+	"benchmark" text NOT NULL,
+	"description" text NOT NULL,
+	"formula" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "benchmark_overrides" (
+	"id" text PRIMARY KEY NOT NULL,
+	"profile" jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ai_reports" ADD CONSTRAINT "ai_reports_analysis_id_analyses_id_fk" FOREIGN KEY ("analysis_id") REFERENCES "public"."analyses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "analysis_periods" ADD CONSTRAINT "analysis_periods_analysis_id_analyses_id_fk" FOREIGN KEY ("analysis_id") REFERENCES "public"."analyses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "analysis_ratios" ADD CONSTRAINT "analysis_ratios_analysis_id_analyses_id_fk" FOREIGN KEY ("analysis_id") REFERENCES "public"."analyses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "analysis_ratios" ADD CONSTRAINT "analysis_ratios_period_id_analysis_periods_id_fk" FOREIGN KEY ("period_id") REFERENCES "public"."analysis_periods"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "analysis_periods_analysis_id_idx" ON "analysis_periods" USING btree ("analysis_id");--> statement-breakpoint
+CREATE INDEX "analysis_ratios_analysis_id_idx" ON "analysis_ratios" USING btree ("analysis_id");
\ No newline at end of file
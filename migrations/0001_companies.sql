@@ -0,0 +1,13 @@
+CREATE TABLE "companies" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"inn" text,
+	"ogrn" text,
+	"name" text,
+	"okved" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "companies_inn_unique" UNIQUE("inn"),
+	CONSTRAINT "companies_ogrn_unique" UNIQUE("ogrn")
+);
+--> statement-breakpoint
+ALTER TABLE "analyses" ADD COLUMN "company_id" varchar;--> statement-breakpoint
+ALTER TABLE "analyses" ADD CONSTRAINT "analyses_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "analyses" ADD COLUMN "horizontal_vertical_analysis" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "analyses" ADD COLUMN "liquidity_grouping" jsonb;
\ No newline at end of file
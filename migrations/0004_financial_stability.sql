@@ -0,0 +1 @@
+ALTER TABLE "analysis_periods" ADD COLUMN "financial_stability" jsonb;
\ No newline at end of file
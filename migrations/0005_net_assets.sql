@@ -0,0 +1 @@
+ALTER TABLE "analyses" ADD COLUMN "net_assets" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "analyses" ADD COLUMN "dupont_analysis" jsonb;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "analysis_chat_messages" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"analysis_id" varchar NOT NULL,
+	"role" text NOT NULL,
+	"content" text NOT NULL,
+	"tool_calls" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "analysis_chat_messages" ADD CONSTRAINT "analysis_chat_messages_analysis_id_analyses_id_fk" FOREIGN KEY ("analysis_id") REFERENCES "public"."analyses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "analysis_chat_messages_analysis_id_idx" ON "analysis_chat_messages" USING btree ("analysis_id");
\ No newline at end of file
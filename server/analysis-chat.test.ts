@@ -0,0 +1,43 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { answerAnalysisQuestion } from "./analysis-chat";
+import { runAnalysisPipeline } from "./analysis-pipeline";
+import { FixtureProvider, setAnalysisProvider } from "./analysis-provider";
+import { storage } from "./storage";
+import type { FinancialAnalysisResult } from "@shared/schema";
+
+describe("analysis chat history", () => {
+  let analysisId: string;
+  let analysis: FinancialAnalysisResult;
+
+  before(async () => {
+    setAnalysisProvider(null);
+    const buffer = fs.readFileSync(path.join(import.meta.dirname, "fixtures", "fns-report.xml"));
+    ({ id: analysisId, result: analysis } = await runAnalysisPipeline({ originalname: "fns-report.xml", mimetype: "application/xml", size: buffer.length, buffer }));
+  });
+
+  after(() => {
+    setAnalysisProvider(null);
+  });
+
+  it("saves the question together with the answer", async () => {
+    setAnalysisProvider(new FixtureProvider({ "analysis-chat": "Рейтинг указан в отчёте" }));
+    const answer = await answerAnalysisQuestion(analysisId, analysis, "Какой рейтинг?", () => {});
+
+    assert.equal(answer.content, "Рейтинг указан в отчёте");
+    assert.deepEqual((await storage.getChatMessages(analysisId)).map(message => message.role), ["user", "assistant"]);
+  });
+
+  it("keeps no unanswered question when the answer fails or is cancelled", async () => {
+    // Empty fixture: the model returns no text
+    setAnalysisProvider(new FixtureProvider({ "analysis-chat": "" }));
+    await assert.rejects(answerAnalysisQuestion(analysisId, analysis, "Какая выручка?", () => {}), /Модель не вернула ответ/);
+
+    setAnalysisProvider(new FixtureProvider());
+    await assert.rejects(answerAnalysisQuestion(analysisId, analysis, "Какая выручка?", () => {}, AbortSignal.abort()));
+
+    assert.deepEqual((await storage.getChatMessages(analysisId)).map(message => message.role), ["user", "assistant"]);
+  });
+});
@@ -0,0 +1,454 @@
+import { z } from "zod";
+import type {
+  AnalysisChatEvent,
+  AnalysisChatMessage,
+  AnalysisChatToolCall,
+  CreditRating,
+  FinancialAnalysisResult,
+  FinancialData,
+  RatioThresholds,
+  ReportingPeriod,
+} from "@shared/schema";
+import { loanStressTestSchema } from "@shared/schema";
+import { getAnalysisProvider, type ChatMessage, type ToolCall, type ToolDefinition } from "./analysis-provider";
+import { resolveBenchmarkProfile } from "./benchmarks";
+import { calculateCreditRating, STATUS_LABELS } from "./credit-rating";
+import { calculateFinancialRatios, evaluateRatios, FINANCIAL_STABILITY_LABELS } from "./financial-calculator";
+import { runLoanStressTest } from "./loan-stress-test";
+import { describeOkved, lookupOkved } from "./okved";
+import { storage } from "./storage";
+
+// Q&A chat over a saved analysis: the model answers from the stored results and asks for local
+// recalculations (what-if changes of the statements, a proposed loan) instead of computing numbers itself
+
+type RatioKey = keyof FinancialAnalysisResult["ratios"];
+
+const RATIO_LABELS: Record<RatioKey, string> = {
+  currentRatio: "Текущая ликвидность",
+  quickRatio: "Быстрая ликвидность",
+  cashRatio: "Абсолютная ликвидность",
+  debtToEquityRatio: "Заемный / собственный капитал",
+  equityRatio: "Коэффициент автономии",
+  debtRatio: "Доля заемных средств",
+  financialLeverageRatio: "Финансовый рычаг",
+  workingCapital: "Оборотный капитал",
+  ownWorkingCapital: "Собственные оборотные средства",
+  workingCapitalSufficiency: "Обеспеченность собственными оборотными средствами",
+  equityManeuverability: "Маневренность собственного капитала",
+  roa: "ROA",
+  roe: "ROE",
+  ros: "ROS",
+  grossProfitMargin: "Валовая рентабельность",
+  operatingProfitMargin: "Операционная рентабельность",
+  netProfitMargin: "Чистая рентабельность",
+  assetTurnover: "Оборачиваемость активов",
+  receivablesTurnover: "Оборачиваемость дебиторской задолженности",
+  inventoryTurnover: "Оборачиваемость запасов",
+  payablesTurnover: "Оборачиваемость кредиторской задолженности",
+  daysSalesOutstanding: "Период оборота дебиторской задолженности, дней",
+  daysInventoryOutstanding: "Период оборота запасов, дней",
+  daysPayablesOutstanding: "Период оборота кредиторской задолженности, дней",
+  cashConversionCycle: "Финансовый цикл, дней",
+  operatingCashFlowRatio: "Покрытие краткосрочных обязательств денежным потоком",
+  freeCashFlow: "Свободный денежный поток",
+  cashDebtCoverage: "Покрытие заемных средств денежным потоком",
+  qualityOfEarnings: "Качество прибыли",
+  ebitda: "EBITDA",
+  netDebtToEbitda: "Чистый долг / EBITDA",
+  interestCoverage: "Покрытие процентов",
+  debtServiceCoverage: "DSCR",
+};
+
+const PERCENT_RATIOS: RatioKey[] = ["roa", "roe", "ros", "grossProfitMargin", "operatingProfitMargin", "netProfitMargin"];
+const AMOUNT_RATIOS: RatioKey[] = ["workingCapital", "ownWorkingCapital", "freeCashFlow", "ebitda"];
+
+// Ratios shown in the summary of a what-if recalculation
+const SUMMARY_RATIOS: RatioKey[] = ["currentRatio", "equityRatio", "debtServiceCoverage"];
+
+// Statement lines the what-if tool may change and the totals a change of the line rolls into
+type ChangeSection = "currentAsset" | "nonCurrentAsset" | "equity" | "longTermLiability" | "currentLiability" | "flow";
+
+const CHANGEABLE_FIELDS = {
+  revenue: { label: "Выручка", section: "flow" },
+  costOfSales: { label: "Себестоимость продаж", section: "flow" },
+  operatingIncome: { label: "Прибыль от продаж", section: "flow" },
+  profitBeforeTax: { label: "Прибыль до налогообложения", section: "flow" },
+  netIncome: { label: "Чистая прибыль", section: "flow" },
+  interestExpense: { label: "Проценты к уплате", section: "flow" },
+  depreciation: { label: "Амортизация", section: "flow" },
+  operatingCashFlow: { label: "Денежный поток от текущих операций", section: "flow" },
+  cashAndEquivalents: { label: "Денежные средства", section: "currentAsset" },
+  shortTermInvestments: { label: "Краткосрочные финансовые вложения", section: "currentAsset" },
+  accountsReceivable: { label: "Дебиторская задолженность", section: "currentAsset" },
+  inventory: { label: "Запасы", section: "currentAsset" },
+  fixedAssets: { label: "Основные средства", section: "nonCurrentAsset" },
+  equity: { label: "Капитал и резервы", section: "equity" },
+  longTermDebt: { label: "Долгосрочные обязательства", section: "longTermLiability" },
+  shortTermDebt: { label: "Краткосрочные заемные средства", section: "currentLiability" },
+  accountsPayable: { label: "Кредиторская задолженность", section: "currentLiability" },
+} satisfies Record<string, { label: string; section: ChangeSection }>;
+
+type ChangeableField = keyof typeof CHANGEABLE_FIELDS;
+
+const CHANGEABLE_FIELD_KEYS = Object.keys(CHANGEABLE_FIELDS) as [ChangeableField, ...ChangeableField[]];
+
+const whatIfArgumentsSchema = z.object({
+  changes: z.array(z.object({
+    field: z.enum(CHANGEABLE_FIELD_KEYS),
+    value: z.number().optional(),
+    changePercent: z.number().min(-100).optional(),
+  }).refine(change => (change.value === undefined) !== (change.changePercent === undefined), "Укажите value или changePercent")).min(1).max(10),
+  balanceWith: z.enum(["equity", "cashAndEquivalents", "none"]).default("none"),
+});
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: "recalculate_ratios",
+    description: "Пересчитать коэффициенты и кредитный рейтинг отчетного периода после изменения строк отчетности " +
+      "(сценарий «что если»). Строки не связаны между собой: рост выручки не меняет прибыль, укажите все изменения сценария. " +
+      "Изменение статьи баланса переносится в итоги раздела и валюту баланса; чтобы баланс сошелся, укажите balanceWith.",
+    parameters: {
+      type: "object",
+      properties: {
+        changes: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              field: { type: "string", enum: CHANGEABLE_FIELD_KEYS },
+              value: { type: "number", description: "Новое значение в единицах отчетности" },
+              changePercent: { type: "number", description: "Изменение в процентах, например -20" },
+            },
+            required: ["field"],
+          },
+        },
+        balanceWith: {
+          type: "string",
+          enum: ["equity", "cashAndEquivalents", "none"],
+          description: "Статья, которой закрывается расхождение актива и пассива",
+        },
+      },
+      required: ["changes"],
+    },
+  },
+  {
+    name: "stress_test_loan",
+    description: "Проверить новый кредит: график платежей, pro forma коэффициенты, выполнение ковенантов отраслевого профиля " +
+      "и максимальная сумма кредита на тех же условиях. Нужна прибыль до налогообложения.",
+    parameters: {
+      type: "object",
+      properties: {
+        amount: { type: "number", description: "Сумма кредита в единицах отчетности" },
+        termMonths: { type: "integer", description: "Срок в месяцах, 1-360" },
+        annualRate: { type: "number", description: "Ставка, % годовых" },
+        amortization: { type: "string", enum: ["annuity", "linear", "bullet"] },
+        purpose: { type: "string", enum: ["workingCapital", "investment"] },
+      },
+      required: ["amount", "termMonths", "annualRate", "amortization"],
+    },
+  },
+];
+
+// The model may call the tools this many times before it has to answer
+const MAX_TOOL_ROUNDS = 3;
+
+// Earlier messages sent with a question (the rest of the history is only shown in the chat)
+const MAX_HISTORY_MESSAGES = 20;
+
+const ANSWER_MAX_TOKENS = 2048;
+
+function formatAmount(value: number): string {
+  return Math.round(value).toLocaleString("ru-RU");
+}
+
+// Profitability is kept as a share like its norms ("≥ 0.10"), the percent is added for the text
+function formatRatioValue(key: RatioKey, value: number): string {
+  if (PERCENT_RATIOS.includes(key)) return `${value.toFixed(4)} (${(value * 100).toFixed(2)}%)`;
+  if (AMOUNT_RATIOS.includes(key)) return formatAmount(value);
+  return value.toFixed(2);
+}
+
+/**
+ * Compact text of the saved analysis for the system prompt: data, ratios with norms, rating and the report conclusions
+ */
+function buildAnalysisContext(analysis: FinancialAnalysisResult): string {
+  const { data, ratios, aiAnalysis } = analysis;
+  const okved = data.okved ? lookupOkved(data.okved) : undefined;
+  const rating = aiAnalysis.creditRating;
+
+  const dataLines = (Object.keys(CHANGEABLE_FIELDS) as ChangeableField[])
+    .filter(field => data[field] !== undefined)
+    .map(field => `- ${CHANGEABLE_FIELDS[field].label}: ${formatAmount(data[field]!)}`);
+  dataLines.push(
+    `- Оборотные активы: ${formatAmount(data.currentAssets)}`,
+    `- Валюта баланса: ${formatAmount(data.totalAssets)}`,
+    `- Краткосрочные обязательства: ${formatAmount(data.currentLiabilities)}`,
+  );
+
+  const ratioLines = (Object.keys(RATIO_LABELS) as RatioKey[])
+    .filter(key => ratios[key] !== undefined)
+    .map(key => {
+      const ratio = ratios[key]!;
+      return `- ${RATIO_LABELS[key]}: ${formatRatioValue(key, ratio.value)} (норма ${ratio.benchmark}, ${STATUS_LABELS[ratio.status]})`;
+    });
+
+  const periodLines = (analysis.periods ?? []).map(period =>
+    `- ${period.year}: выручка ${period.data.revenue !== undefined ? formatAmount(period.data.revenue) : "н/д"}, ` +
+    `чистая прибыль ${period.data.netIncome !== undefined ? formatAmount(period.data.netIncome) : "н/д"}, ` +
+    `текущая ликвидность ${period.ratios.currentRatio.value.toFixed(2)}, автономия ${period.ratios.equityRatio.value.toFixed(2)}`
+  );
+
+  const stability = aiAnalysis.financialCondition.stability.stabilityType;
+
+  return [
+    data.companyName ? `Компания: ${data.companyName}` : undefined,
+    okved ? describeOkved(okved) : data.okved ? `ОКВЭД ${data.okved}` : undefined,
+    analysis.benchmarkProfile ? `Отраслевой профиль нормативов: ${analysis.benchmarkProfile.name}` : undefined,
+    `\nДАННЫЕ ОТЧЕТНОГО ПЕРИОДА (в единицах отчетности):\n${dataLines.join("\n")}`,
+    `\nКОЭФФИЦИЕНТЫ:\n${ratioLines.join("\n")}`,
+    periodLines.length > 0 ? `\nДИНАМИКА ПО ПЕРИОДАМ:\n${periodLines.join("\n")}` : undefined,
+    stability ? `\nТип финансовой устойчивости: ${FINANCIAL_STABILITY_LABELS[stability]}` : undefined,
+    rating
+      ? `\nКРЕДИТНЫЙ РЕЙТИНГ: ${rating.grade} (${rating.score.toFixed(1)} из 100), риск ${rating.riskLevel}, решение: ${rating.creditDecision}` +
+        rating.factors.map(factor => `\n- ${factor.name}: ${factor.score.toFixed(0)} баллов — ${factor.explanation}`).join("")
+      : undefined,
+    `\nВЫВОДЫ ОТЧЕТА:`,
+    `- Ликвидность: ${aiAnalysis.financialCondition.liquidity.conclusion}`,
+    `- Устойчивость: ${aiAnalysis.financialCondition.stability.conclusion}`,
+    `- Рентабельность: ${aiAnalysis.financialCondition.profitability.conclusion}`,
+    `- Сильные стороны: ${aiAnalysis.strengths.join("; ")}`,
+    `- Слабые стороны: ${aiAnalysis.weaknesses.join("; ")}`,
+  ].filter((line): line is string => line !== undefined).join("\n");
+}
+
+function buildSystemPrompt(analysis: FinancialAnalysisResult): string {
+  return `Вы кредитный аналитик банка и отвечаете на вопросы по уже выполненному анализу финансовой отчетности компании.
+Отвечайте на русском языке, кратко и по существу, опираясь только на приведенные данные.
+Не вычисляйте коэффициенты и рейтинг самостоятельно: для сценариев «что если» вызывайте recalculate_ratios, для нового кредита - stress_test_loan, и приводите полученные значения.
+Если данных для ответа нет, так и скажите.
+
+${buildAnalysisContext(analysis)}`;
+}
+
+// Rating and ratios of the reporting period recalculated for other data; earlier periods stay as saved
+function recalculate(analysis: FinancialAnalysisResult, data: FinancialData, thresholds: RatioThresholds) {
+  const periods = analysis.periods ?? [];
+  const ratios = evaluateRatios(calculateFinancialRatios(data, periods[1]?.data), thresholds);
+  const recalculatedPeriods: ReportingPeriod[] = periods.length > 0
+    ? [{ ...periods[0], data, ratios }, ...periods.slice(1)]
+    : [];
+  return { ratios, creditRating: calculateCreditRating(ratios, recalculatedPeriods) };
+}
+
+function formatRating(rating: CreditRating): string {
+  return `${rating.grade} (${rating.score.toFixed(1)})`;
+}
+
+/**
+ * What-if recalculation: apply the changes, roll them into the section totals and recalculate ratios and rating
+ */
+function runWhatIf(
+  analysis: FinancialAnalysisResult,
+  args: z.infer<typeof whatIfArgumentsSchema>,
+  thresholds: RatioThresholds
+): { result: object; summary: string } {
+  const { yearlyData, reportingYearData, ocrPages, ...base } = analysis.data;
+  const data: FinancialData = { ...base };
+  const imbalanceBefore = base.totalAssets - base.equity - base.totalLiabilities;
+
+  const applied = args.changes.map(change => {
+    const { label, section } = CHANGEABLE_FIELDS[change.field];
+    const before = data[change.field] ?? 0;
+    const after = change.value ?? before * (1 + change.changePercent! / 100);
+    if (after < 0 && section !== "flow" && section !== "equity") {
+      throw new Error(`${label} не может быть отрицательной величиной`);
+    }
+
+    const delta = after - before;
+    data[change.field] = after;
+    if (section === "currentAsset") {
+      data.currentAssets += delta;
+      data.totalAssets += delta;
+    } else if (section === "nonCurrentAsset") {
+      data.totalAssets += delta;
+    } else if (section === "currentLiability") {
+      data.currentLiabilities += delta;
+      data.totalLiabilities += delta;
+    } else if (section === "longTermLiability") {
+      data.totalLiabilities += delta;
+    }
+    return { field: change.field, label, before, after };
+  });
+
+  // Difference the changes made between the asset and the liability side (the saved balance may be off by rounding)
+  let imbalance = data.totalAssets - data.equity - data.totalLiabilities - imbalanceBefore;
+  if (Math.abs(imbalance) >= 1 && args.balanceWith !== "none") {
+    if (args.balanceWith === "equity") {
+      data.equity += imbalance;
+    } else {
+      data.cashAndEquivalents -= imbalance;
+      data.currentAssets -= imbalance;
+      data.totalAssets -= imbalance;
+      if (data.cashAndEquivalents < 0) {
+        throw new Error("Денежных средств недостаточно, чтобы сбалансировать изменения");
+      }
+    }
+    imbalance = 0;
+  }
+  if (data.currentAssets <= 0 || data.totalAssets <= 0) {
+    throw new Error("После изменений оборотные активы и валюта баланса должны оставаться положительными");
+  }
+
+  const before = recalculate(analysis, base, thresholds);
+  const after = recalculate(analysis, data, thresholds);
+
+  const ratioChanges = (Object.keys(RATIO_LABELS) as RatioKey[])
+    .filter(key => before.ratios[key] !== undefined || after.ratios[key] !== undefined)
+    .map(key => ({
+      ratio: RATIO_LABELS[key],
+      before: before.ratios[key] ? formatRatioValue(key, before.ratios[key]!.value) : "н/д",
+      after: after.ratios[key] ? formatRatioValue(key, after.ratios[key]!.value) : "н/д",
+      statusAfter: after.ratios[key] ? STATUS_LABELS[after.ratios[key]!.status] : undefined,
+    }));
+
+  const summaryRatios = SUMMARY_RATIOS
+    .filter(key => before.ratios[key] && after.ratios[key])
+    .map(key => `${RATIO_LABELS[key]} ${formatRatioValue(key, before.ratios[key]!.value)} → ${formatRatioValue(key, after.ratios[key]!.value)}`);
+
+  return {
+    result: {
+      changes: applied,
+      balanceWith: args.balanceWith,
+      unbalancedAmount: Math.abs(imbalance) >= 1 ? Math.round(imbalance) : 0,
+      ratios: ratioChanges,
+      creditRating: {
+        before: formatRating(before.creditRating),
+        after: formatRating(after.creditRating),
+        creditDecisionAfter: after.creditRating.creditDecision,
+      },
+    },
+    summary: [
+      applied.map(change => `${change.label}: ${formatAmount(change.before)} → ${formatAmount(change.after)}`).join(", "),
+      ...summaryRatios,
+      `рейтинг ${formatRating(before.creditRating)} → ${formatRating(after.creditRating)}`,
+    ].join("; "),
+  };
+}
+
+function runLoanCheck(
+  analysis: FinancialAnalysisResult,
+  args: z.infer<typeof loanStressTestSchema>,
+  thresholds: RatioThresholds
+): { result: object; summary: string } {
+  const test = runLoanStressTest(analysis.data, analysis.periods?.[1]?.data, args, thresholds);
+  return {
+    result: {
+      loan: test.loan,
+      passed: test.passed,
+      maxSustainableLoan: Math.round(test.maxSustainableLoan),
+      minDebtServiceCoverage: test.minDebtServiceCoverage,
+      covenantChecks: test.covenantChecks.map(check => ({
+        covenant: check.label,
+        limit: check.limit,
+        value: check.value,
+        passed: check.passed,
+      })),
+      schedule: test.schedule,
+    },
+    summary: `Кредит ${formatAmount(args.amount)} на ${args.termMonths} мес. под ${args.annualRate}%: ` +
+      `${test.passed ? "ковенанты выполняются" : "ковенанты нарушаются"}, максимальная сумма ${formatAmount(test.maxSustainableLoan)}`,
+  };
+}
+
+/**
+ * Run a tool call of the model; invalid arguments and calculation errors go back to the model as the result
+ */
+function runTool(call: ToolCall, analysis: FinancialAnalysisResult, thresholds: RatioThresholds): { toolCall: AnalysisChatToolCall; result: object } {
+  let args: Record<string, unknown> = {};
+  try {
+    args = JSON.parse(call.arguments || "{}");
+    const parser = call.name === "recalculate_ratios" ? whatIfArgumentsSchema : call.name === "stress_test_loan" ? loanStressTestSchema : undefined;
+    if (!parser) {
+      throw new Error(`Неизвестная функция ${call.name}`);
+    }
+
+    const parsed = parser.safeParse(args);
+    if (!parsed.success) {
+      throw new Error(`Некорректные параметры: ${parsed.error.errors.map(issue => `${issue.path.join(".") || "параметры"} - ${issue.message}`).join("; ")}`);
+    }
+    const { result, summary } = call.name === "recalculate_ratios"
+      ? runWhatIf(analysis, parsed.data as z.infer<typeof whatIfArgumentsSchema>, thresholds)
+      : runLoanCheck(analysis, parsed.data as z.infer<typeof loanStressTestSchema>, thresholds);
+    console.log(`✓ Chat tool ${call.name}: ${summary}`);
+    return { toolCall: { name: call.name, arguments: args, summary }, result };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Ошибка расчета";
+    console.warn(`⚠️ Chat tool ${call.name} failed: ${message}`);
+    return { toolCall: { name: call.name, arguments: args, summary: `Ошибка расчета: ${message}` }, result: { error: message } };
+  }
+}
+
+/**
+ * Answer a question about a saved analysis, streaming the text and the local calculations through onEvent
+ * The question is added to the chat history of the analysis together with the answer: a failed or
+ * cancelled request leaves no unanswered question, so user and assistant turns always alternate
+ * @returns The saved answer
+ */
+export async function answerAnalysisQuestion(
+  analysisId: string,
+  analysis: FinancialAnalysisResult,
+  question: string,
+  onEvent: (event: AnalysisChatEvent) => void,
+  signal?: AbortSignal
+): Promise<AnalysisChatMessage> {
+  const provider = getAnalysisProvider();
+  if (!provider) {
+    throw new Error("AI-провайдер не настроен");
+  }
+
+  const { thresholds } = await resolveBenchmarkProfile(analysis.data.okved);
+  const history = (await storage.getChatMessages(analysisId)).slice(-MAX_HISTORY_MESSAGES);
+
+  const messages: ChatMessage[] = [
+    { role: "system", content: buildSystemPrompt(analysis) },
+    ...history.map(message => ({ role: message.role, content: message.content })),
+    { role: "user", content: question },
+  ];
+
+  let content = "";
+  const toolCalls: AnalysisChatToolCall[] = [];
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    // The last round goes without tools so the model has to answer with what it has
+    const completion = await provider.stream({
+      task: "analysis-chat",
+      messages,
+      maxTokens: ANSWER_MAX_TOKENS,
+      tools: round < MAX_TOOL_ROUNDS ? TOOLS : undefined,
+    }, text => {
+      content += text;
+      onEvent({ type: "delta", text });
+    }, signal);
+
+    if (completion.toolCalls.length === 0) break;
+
+    messages.push({ role: "assistant", content: completion.content, toolCalls: completion.toolCalls });
+    completion.toolCalls.forEach(call => {
+      const { toolCall, result } = runTool(call, analysis, thresholds);
+      toolCalls.push(toolCall);
+      onEvent({ type: "tool", toolCall });
+      messages.push({ role: "tool", toolCallId: call.id, content: JSON.stringify(result) });
+    });
+  }
+
+  if (!content.trim()) {
+    throw new Error("Модель не вернула ответ");
+  }
+
+  console.log(`✓ Chat answer for analysis ${analysisId} (${toolCalls.length} calculations)`);
+  await storage.addChatMessage(analysisId, { role: "user", content: question });
+  return storage.addChatMessage(analysisId, {
+    role: "assistant",
+    content: content.trim(),
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+  });
+}
@@ -0,0 +1,85 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import * as XLSX from "xlsx";
+import { runAnalysisPipeline } from "./analysis-pipeline";
+import { FixtureProvider, setAnalysisProvider } from "./analysis-provider";
+
+// Standard form layout with two periods: 1510 is reported for 2024 and blank for 2023
+function buildTwoYearWorkbook(): Buffer {
+  const rows = [
+    ["Наименование показателя", "Код", "На 31 декабря 2024 г.", "На 31 декабря 2023 г."],
+    ["Основные средства", "1150", 900, 900],
+    ["Итого по разделу I", "1100", 900, 900],
+    ["Запасы", "1210", 200, 150],
+    ["Дебиторская задолженность", "1230", 150, 100],
+    ["Денежные средства и денежные эквиваленты", "1250", 50, 50],
+    ["Итого по разделу II", "1200", 400, 300],
+    ["БАЛАНС", "1600", 1300, 1200],
+    ["Уставный капитал", "1310", 10, 10],
+    ["Итого по разделу III", "1300", 600, 600],
+    ["Заемные средства", "1410", 400, 400],
+    ["Итого по разделу IV", "1400", 400, 400],
+    ["Заемные средства", "1510", 100, null],
+    ["Кредиторская задолженность", "1520", 200, 200],
+    ["Итого по разделу V", "1500", 300, 200],
+    ["Выручка", "2110", 2000, 1800],
+    ["Чистая прибыль (убыток)", "2400", 160, 120],
+  ];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), "Баланс");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+describe("analysis pipeline periods", () => {
+  before(() => {
+    // Rule-based report, no AI requests from tests
+    setAnalysisProvider(null);
+  });
+
+  it("reads a blank prior-year line of a coded layout as 0", async () => {
+    const buffer = buildTwoYearWorkbook();
+    const { result } = await runAnalysisPipeline({
+      originalname: "balance.xlsx",
+      mimetype: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      size: buffer.length,
+      buffer,
+    });
+
+    assert.deepEqual(result.periods?.map(period => period.year), [2024, 2023]);
+    assert.equal(result.periods?.[0].data.shortTermDebt, 100);
+    assert.equal(result.periods?.[1].data.shortTermDebt, 0);
+    assert.equal(result.periods?.[1].data.currentAssets, 300);
+  });
+});
+
+// ГИР БО DOCX export: "Вид экономической деятельности по ОКВЭД 2" with the code 71.12.2 on the next line
+describe("activity code of a ГИР БО export", () => {
+  const provider = new FixtureProvider();
+
+  before(() => {
+    setAnalysisProvider(provider);
+  });
+
+  after(() => {
+    setAnalysisProvider(null);
+  });
+
+  it("passes the resolved OKVED code to the benchmarks, the prompt and the saved analysis", async () => {
+    const buffer = fs.readFileSync(path.join(import.meta.dirname, "fixtures", "girbo-report.docx"));
+    const { result } = await runAnalysisPipeline({
+      originalname: "girbo-report.docx",
+      mimetype: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      size: buffer.length,
+      buffer,
+    });
+
+    assert.equal(result.data.okved, "71.12.2");
+    assert.equal(result.benchmarkProfile?.okved?.code, "71.12");
+
+    const prompt = provider.requests.find(request => request.task === "credit-report")?.messages.map(message => message.content).join("\n");
+    assert.match(prompt ?? "", /ОКВЭД 71\.12\.2 \(входит в 71\.12 - Деятельность в области инженерных изысканий/);
+    assert.doesNotMatch(prompt ?? "", /код не найден в справочнике/);
+  });
+});
@@ -0,0 +1,334 @@
+import { storage } from "./storage";
+import { normalizeKey, parseExcelFile } from "./excel-parser";
+import { parseDocumentFile } from "./document-parser";
+import { parseFnsReportFile } from "./fns-parser";
+import { analyzeEquityStatement } from "./equity-statement";
+import { analyzeHorizontalVertical } from "./horizontal-vertical-analysis";
+import { analyzeLiquidityGrouping } from "./liquidity-grouping";
+import { analyzeNetAssets } from "./net-assets";
+import { analyzeDuPont } from "./dupont-analysis";
+import { calculateBankruptcyModels } from "./bankruptcy-models";
+import { calculateCreditRating } from "./credit-rating";
+import { matchCompany } from "./companies";
+import { resolveBenchmarkProfile } from "./benchmarks";
+import { calculateFinancialRatios, evaluateRatios, validateAndNormalizeFinancialData } from "./financial-calculator";
+import { generateFinancialAnalysis } from "./openai";
+import type { AnalysisJobPreview, AnalysisJobStage, Company, FinancialAnalysisResult, ReportingPeriod, FinancialData } from "@shared/schema";
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface AnalysisOutcome {
+  id: string;
+  company?: Company;
+  result: FinancialAnalysisResult;
+}
+
+// Thrown between pipeline stages once the job is cancelled
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super("Анализ отменён пользователем");
+    this.name = "AnalysisCancelledError";
+  }
+}
+
+function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new AnalysisCancelledError();
+  }
+}
+
+/**
+ * Run the full analysis of an uploaded statement: parse, normalize, build periods, calculate ratios,
+ * rating and models, write the AI report, then save the result
+ * @param onStage - Called when a stage starts (progress reporting of analysis jobs)
+ * @param signal - Cancellation: checked between stages and passed to the AI request
+ * @param onPreview - Called with the calculated part of the result before the AI report,
+ *                    then again every time the model finishes a report section
+ */
+export async function runAnalysisPipeline(
+  file: UploadedFile,
+  onStage?: (stage: AnalysisJobStage) => void,
+  signal?: AbortSignal,
+  onPreview?: (preview: AnalysisJobPreview) => void
+): Promise<AnalysisOutcome> {
+  const reportProgress = (stage: AnalysisJobStage) => onStage?.(stage);
+
+  console.log(`Processing file: ${file.originalname} (${file.size} bytes, ${file.mimetype})`);
+
+  // Step 1: Parse file based on type
+  reportProgress("parsing");
+  let financialData;
+
+  if (
+    file.mimetype === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
+    file.mimetype === "application/vnd.ms-excel"
+  ) {
+    financialData = parseExcelFile(file.buffer);
+    console.log("✓ Excel file parsed successfully");
+  } else if (
+    file.mimetype === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
+    file.mimetype === "application/pdf"
+  ) {
+    financialData = await parseDocumentFile(file.buffer, file.mimetype);
+    console.log("✓ Document file parsed successfully");
+  } else if (
+    file.mimetype === "application/xml" ||
+    file.mimetype === "text/xml" ||
+    file.mimetype === "application/json"
+  ) {
+    financialData = parseFnsReportFile(file.buffer, file.mimetype);
+    console.log("✓ FNS statement file parsed successfully");
+  } else {
+    throw new Error("Неподдерживаемый формат файла");
+  }
+
+  // Step 2: Validate and normalize financial data
+  throwIfCancelled(signal);
+  reportProgress("normalizing");
+  const normalizedData = validateAndNormalizeFinancialData(financialData);
+  console.log("✓ Financial data validated and normalized");
+
+  // Step 3: Build historical periods from parsed multi-year data
+  reportProgress("periods");
+  // (ratios are calculated afterwards, so activity ratios can use average balances)
+  const periodData: { year: number; data: FinancialData }[] = [];
+
+  // Use parsed years from document headers, or fallback to current year calculation
+  const parsedYears = financialData.parsedYears;
+  const fallbackYear = new Date().getFullYear();
+  
+  // Get years for each period (from document or calculated)
+  const getYearForPeriod = (periodIndex: number): number => {
+    if (parsedYears && parsedYears[periodIndex] !== undefined) {
+      return parsedYears[periodIndex];
+    }
+    return fallbackYear - periodIndex;
+  };
+
+  // Check if we have multi-year data from the parser
+  // yearlyData contains ONLY historical years (current year excluded in parser)
+  // So yearlyData.length >= 1 means we have current + 1 historical = 2 years minimum
+  const hasMultiYearData = financialData.yearlyData && financialData.yearlyData.length >= 1;
+  
+  if (hasMultiYearData) {
+    console.log(`Found multi-year data: ${financialData.yearlyData!.length} additional years`);
+    if (parsedYears) {
+      console.log(`Using parsed years from document: ${parsedYears.join(', ')}`);
+    }
+    
+    // Create periods for each year (current + up to 2 previous years available in yearlyData)
+    const periodCount = Math.min(3, financialData.yearlyData!.length + 1);
+    for (let i = 0; i < periodCount; i++) {
+      const year = getYearForPeriod(i);
+      let yearData: FinancialData;
+      
+      if (i === 0) {
+        // Current year - use normalized data
+        yearData = normalizedData;
+      } else {
+        // Previous years - build from yearlyData maps
+        const yearMap = financialData.yearlyData![i - 1];
+        
+        // Helper to get value from yearMap with same normalization as parser
+        // Returns undefined if not found (not 0, to distinguish from actual 0 values)
+        const getYearValue = (keys: string[]): number | undefined => {
+          for (const key of keys) {
+            const normalizedKey = normalizeKey(key);
+            if (yearMap.has(normalizedKey)) {
+              return yearMap.get(normalizedKey)!;
+            }
+          }
+          return undefined;
+        };
+        
+        // Helper to get balance sheet value with fallback to current year
+        // (balance sheet items can use fallback as they're cumulative); in a coded layout
+        // a blank line of a prior year is 0, not the reporting year value
+        const getBalanceValue = (keys: string[], fallback: number): number => {
+          const value = getYearValue(keys);
+          if (value !== undefined) return value;
+          return financialData.codedLayout ? 0 : fallback;
+        };
+        
+        // Helper to get P&L value WITHOUT fallback (each year should have its own P&L)
+        const getPnLValue = (keys: string[]): number | undefined => {
+          return getYearValue(keys);
+        };
+        
+        // Build FinancialData for this year using yearMap
+        // Balance sheet items use fallback, P&L items do NOT use fallback
+        yearData = {
+          okved: normalizedData.okved,
+          companyName: normalizedData.companyName,
+          // Balance sheet items - use fallback to current year if not found
+          currentAssets: getBalanceValue(["итого по разделу ii", "оборотные активы"], normalizedData.currentAssets),
+          cashAndEquivalents: getBalanceValue(["денежные средства и денежные эквиваленты", "денежные средства"], normalizedData.cashAndEquivalents),
+          // Line 1240 (short-term); plain "финансовые вложения" is the key of 1170 (long-term)
+          shortTermInvestments: getBalanceValue(["финансовые вложения исключая денежные эквиваленты", "краткосрочные финансовые вложения"], normalizedData.shortTermInvestments),
+          accountsReceivable: getBalanceValue(["дебиторская задолженность"], normalizedData.accountsReceivable),
+          inventory: getBalanceValue(["запасы"], normalizedData.inventory),
+          totalAssets: getBalanceValue(["баланс", "активы"], normalizedData.totalAssets),
+          currentLiabilities: getBalanceValue(["итого по разделу v", "краткосрочные обязательства"], normalizedData.currentLiabilities),
+          shortTermDebt: getBalanceValue(["заемные средства краткосрочные", "заемные средства"], normalizedData.shortTermDebt),
+          borrowedFundsLongTerm: getYearValue(["заемные средства долгосрочные"]),
+          totalLiabilities: getBalanceValue(["обязательства"], normalizedData.totalLiabilities),
+          equity: getBalanceValue(["итого по разделу iii", "капитал и резервы"], normalizedData.equity),
+          longTermDebt: getBalanceValue(["итого по разделу iv", "долгосрочные обязательства"], normalizedData.longTermDebt),
+          // P&L items - do NOT use fallback (each year has its own P&L values)
+          // Include all normalized variants to match document-parser storage
+          revenue: getPnLValue(["выручка", "выручка от продаж"]) ?? 0,
+          netIncome: getPnLValue(["чистая прибыль убыток", "чистая прибыль", "net income"]) ?? 0,
+          operatingIncome: getPnLValue(["прибыль убыток от продаж", "прибыль от продаж", "операционная прибыль", "operating income"]) ?? 0,
+          grossProfit: getPnLValue(["валовая прибыль убыток", "валовая прибыль", "gross profit"]) ?? 0,
+          profitBeforeTax: getPnLValue(["прибыль убыток до налогообложения", "прибыль до налогообложения", "profit before tax"]) ?? 0,
+          // Activity ratio inputs - no fallback, so averages are not distorted by current-year values
+          accountsPayable: getYearValue(["кредиторская задолженность"]),
+          // Net assets inputs - no fallback, the net assets check falls back to the reporting year capital itself
+          authorizedCapital: getYearValue(["уставный капитал складочный капитал уставный фонд вклады товарищей", "уставный капитал"]),
+          deferredIncome: getYearValue(["доходы будущих периодов"]),
+          // Cash flow items (Form 4) - no fallback, left undefined when absent for the year
+          operatingCashFlow: getPnLValue(["сальдо денежных потоков от текущих операций"]),
+          investingCashFlow: getPnLValue(["сальдо денежных потоков от инвестиционных операций"]),
+          financingCashFlow: getPnLValue(["сальдо денежных потоков от финансовых операций"]),
+          netCashFlow: getPnLValue(["сальдо денежных потоков за отчетный период", "сальдо денежных потоков за отчетный год"]),
+        };
+        const yearCostOfSales = getPnLValue(["себестоимость продаж"]);
+        if (yearCostOfSales !== undefined) {
+          yearData.costOfSales = Math.abs(yearCostOfSales);
+        }
+        const yearInterestExpense = getPnLValue(["проценты к уплате"]);
+        if (yearInterestExpense !== undefined) {
+          yearData.interestExpense = Math.abs(yearInterestExpense);
+        }
+        const yearDepreciation = getPnLValue(["амортизация"]);
+        if (yearDepreciation !== undefined) {
+          yearData.depreciation = Math.abs(yearDepreciation);
+        }
+        const yearCapex = getPnLValue(["в связи с приобретением созданием модернизацией реконструкцией и подготовкой к использованию внеоборотных активов"]);
+        if (yearCapex !== undefined) {
+          yearData.capitalExpenditures = Math.abs(yearCapex);
+        }
+        
+        console.log(`Year ${year} data: revenue=${yearData.revenue}, netIncome=${yearData.netIncome}, grossProfit=${yearData.grossProfit}, operatingIncome=${yearData.operatingIncome}`);
+      }
+
+      periodData.push({
+        year,
+        data: validateAndNormalizeFinancialData(yearData),
+      });
+    }
+  } else {
+    console.log('No multi-year data found, creating single-year period');
+    // If no multi-year data, create just one period for the most recent year from document
+    periodData.push({
+      year: getYearForPeriod(0),
+      data: validateAndNormalizeFinancialData(normalizedData),
+    });
+  }
+
+  // Step 4: Calculate financial ratios (previous period balances are used for averages)
+  throwIfCancelled(signal);
+  reportProgress("ratios");
+  const previousPeriodData = periodData[1]?.data;
+  const ratios = calculateFinancialRatios(normalizedData, previousPeriodData);
+  console.log(`✓ Financial ratios calculated${previousPeriodData ? " (average balances)" : ""}`);
+
+  // Step 5: Evaluate ratios and assign status against the industry benchmark profile (by OKVED)
+  const benchmark = await resolveBenchmarkProfile(normalizedData.okved);
+  const evaluatedRatios = evaluateRatios(ratios, benchmark.thresholds);
+  console.log("✓ Ratios evaluated");
+
+  const periods: ReportingPeriod[] = periodData.map((period, idx) => {
+    const periodRatios = calculateFinancialRatios(period.data, periodData[idx + 1]?.data);
+    return {
+      year: period.year,
+      data: period.data,
+      ratios: evaluateRatios(periodRatios, benchmark.thresholds),
+      financialStability: periodRatios.financialStability,
+    };
+  });
+  console.log(`✓ Financial stability type: ${ratios.financialStability.type}`);
+
+  // Rule-based credit rating: the AI report takes its risk level and decision from it
+  const creditRating = calculateCreditRating(evaluatedRatios, periods);
+
+  // Net assets against the authorized capital (the AI report lists a shortfall as a weakness)
+  const netAssets = analyzeNetAssets(periods);
+
+  // Step 6: Models and statement analyses (calculated before the AI report, so the client can show them meanwhile)
+  throwIfCancelled(signal);
+  reportProgress("models");
+
+  // Bankruptcy prediction models (previous period sets the normative value of the Зайцева model)
+  const bankruptcyModels = calculateBankruptcyModels(normalizedData, previousPeriodData);
+  if (bankruptcyModels) {
+    console.log(`✓ Bankruptcy models calculated: ${bankruptcyModels.length}`);
+  }
+
+  // Capital movement from Form 3, reconciled with line 1300 of the periods
+  const equityStatement = analyzeEquityStatement(normalizedData, periods, getYearForPeriod(0));
+  if (equityStatement) {
+    console.log(`✓ Capital movement analyzed: ${equityStatement.movements.length} years`);
+  }
+
+  // Change of every line between periods and its share of total assets / revenue
+  const horizontalVerticalAnalysis = analyzeHorizontalVertical(periods, [financialData.reportingYearData, ...(financialData.yearlyData ?? [])], financialData.codedLayout);
+
+  // Asset groups A1–A4 against liability groups P1–P4
+  const liquidityGrouping = analyzeLiquidityGrouping(periods);
+
+  // ROE drivers and their contribution to the ROE change between years
+  const duPontAnalysis = analyzeDuPont(periods);
+
+  const calculatedResult: AnalysisJobPreview["result"] = {
+    data: normalizedData,
+    ratios: evaluatedRatios,
+    periods, // Add historical periods for visualization
+    benchmarkProfile: benchmark.profile,
+    bankruptcyModels,
+    equityStatement,
+    horizontalVerticalAnalysis,
+    liquidityGrouping,
+    netAssets,
+    duPontAnalysis,
+  };
+
+  // Step 7: Generate AI analysis, publishing the report sections as the model writes them
+  throwIfCancelled(signal);
+  reportProgress("ai");
+  onPreview?.({ result: calculatedResult, creditRating, reportSections: {} });
+  const aiAnalysis = await generateFinancialAnalysis(
+    normalizedData,
+    ratios,
+    creditRating,
+    { evaluatedRatios, netAssets },
+    signal,
+    onPreview && (reportSections => onPreview({ result: calculatedResult, creditRating, reportSections }))
+  );
+  throwIfCancelled(signal);
+  console.log("✓ AI analysis generated");
+
+  // Step 8: Save analysis to storage (the last point where the job can still be cancelled)
+  throwIfCancelled(signal);
+  reportProgress("saving");
+
+  // Link the upload to the borrower company (by ИНН, ОГРН or name) only once the analysis succeeded,
+  // so failed and cancelled jobs do not register companies
+  const company = await matchCompany(normalizedData);
+
+  const analysisResult: FinancialAnalysisResult = {
+    ...calculatedResult,
+    companyId: company?.id,
+    aiAnalysis,
+    timestamp: new Date().toISOString(),
+  };
+  const saved = await storage.saveAnalysis(analysisResult);
+  console.log(`✓ Analysis saved with ID: ${saved.id}`);
+
+  return { id: saved.id, company, result: analysisResult };
+}
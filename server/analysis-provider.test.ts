@@ -0,0 +1,68 @@
+import { after, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { FinancialData } from "@shared/schema";
+import { calculateFinancialRatios, evaluateRatios } from "./financial-calculator";
+import { calculateCreditRating } from "./credit-rating";
+import { generateFinancialAnalysis } from "./openai";
+import { FixtureProvider, setAnalysisProvider } from "./analysis-provider";
+
+const data: FinancialData = {
+  companyName: 'ООО "Ромашка"',
+  okved: "47.11",
+  currentAssets: 400,
+  cashAndEquivalents: 50,
+  shortTermInvestments: 0,
+  accountsReceivable: 150,
+  inventory: 200,
+  totalAssets: 1300,
+  currentLiabilities: 300,
+  shortTermDebt: 100,
+  totalLiabilities: 700,
+  equity: 600,
+  longTermDebt: 400,
+  revenue: 2000,
+  netIncome: 160,
+};
+
+const ratios = calculateFinancialRatios(data);
+const evaluatedRatios = evaluateRatios(ratios);
+const creditRating = calculateCreditRating(evaluatedRatios, [{ year: 2024, data, ratios: evaluatedRatios, financialStability: ratios.financialStability }]);
+
+describe("fixture provider", () => {
+  after(() => {
+    setAnalysisProvider(null);
+  });
+
+  it("answers the credit report request with the default fixture", async () => {
+    const provider = new FixtureProvider();
+    setAnalysisProvider(provider);
+    const warn = mock.method(console, "warn");
+    const analysis = await generateFinancialAnalysis(data, ratios, creditRating, { evaluatedRatios }).finally(() => warn.mock.restore());
+
+    assert.equal(provider.requests.length, 1);
+    assert.equal(provider.requests[0].task, "credit-report");
+    assert.match(provider.requests[0].messages[1].content, /ОКВЭД 47\.11/);
+    assert.equal(analysis.industrySector.description, "Описание отрасли из тестового набора ответов");
+    assert.deepEqual(analysis.validation?.replacedSections, []);
+    // The fixture carries no rating, the report takes it from the calculation
+    assert.equal(analysis.riskLevel, creditRating.riskLevel);
+    assert.equal(analysis.recommendations.creditDecision, creditRating.creditDecision);
+    assert.ok(warn.mock.calls.every(call => !String(call.arguments[0]).includes("disagreed with the credit rating")));
+  });
+
+  it("streams the fixture word by word and keeps only the latest requests", async () => {
+    const provider = new FixtureProvider({ "analysis-chat": "Рейтинг указан в отчёте" });
+    const pieces: string[] = [];
+    const { content, toolCalls } = await provider.stream({ task: "analysis-chat", messages: [], maxTokens: 100 }, text => pieces.push(text));
+
+    assert.equal(content, "Рейтинг указан в отчёте");
+    assert.deepEqual(pieces, ["Рейтинг ", "указан ", "в ", "отчёте"]);
+    assert.deepEqual(toolCalls, []);
+
+    for (let i = 0; i < 25; i++) {
+      await provider.complete({ task: "analysis-chat", messages: [{ role: "user", content: `Вопрос ${i}` }], maxTokens: 100 });
+    }
+    assert.equal(provider.requests.length, 20);
+    assert.equal(provider.requests[19].messages[0].content, "Вопрос 24");
+  });
+});
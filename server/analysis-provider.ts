@@ -0,0 +1,262 @@
+import fs from "fs";
+import OpenAI from "openai";
+
+// LLM provider layer: the AI report and the analysis chat send chat completions through an AnalysisProvider
+// OpenAIProvider calls the OpenAI API, OpenAICompatibleProvider any server with the same API (llama.cpp, Ollama,
+// the in-house gateway), FixtureProvider answers with fixed responses for tests (see createAnalysisProvider)
+
+// What the completion is for: the fixture provider answers by it, the log shows it
+export type CompletionTask = "credit-report" | "analysis-chat";
+
+// Local function the model may ask to call; parameters are a JSON schema of the arguments
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON text as written by the model
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  toolCalls?: ToolCall[]; // Assistant message asking for local calculations
+  toolCallId?: string; // Tool message: result of the call with this id
+}
+
+export interface CompletionRequest {
+  task: CompletionTask;
+  messages: ChatMessage[];
+  maxTokens: number;
+  json?: boolean; // The response must be a JSON object
+  tools?: ToolDefinition[];
+}
+
+// Streamed answer: the text (already passed to onText) and the calls the model asked for instead of or after it
+export interface StreamedCompletion {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
+export interface AnalysisProvider {
+  readonly name: string;
+  readonly model: string;
+  // Text of the first choice; null when the model returned nothing
+  complete(request: CompletionRequest, signal?: AbortSignal): Promise<string | null>;
+  // Same request with the text passed to onText piece by piece as the model writes it
+  stream(request: CompletionRequest, onText: (text: string) => void, signal?: AbortSignal): Promise<StreamedCompletion>;
+}
+
+// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+const DEFAULT_OPENAI_MODEL = "gpt-5";
+
+export class OpenAIProvider implements AnalysisProvider {
+  readonly name: string = "openai";
+
+  constructor(protected client: OpenAI, readonly model: string) {}
+
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<string | null> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: toOpenAIMessages(request.messages),
+      ...(request.json && { response_format: { type: "json_object" as const } }),
+      ...this.tokenLimit(request.maxTokens),
+    }, { signal });
+
+    return response.choices[0]?.message?.content?.trim() || null;
+  }
+
+  async stream(request: CompletionRequest, onText: (text: string) => void, signal?: AbortSignal): Promise<StreamedCompletion> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: toOpenAIMessages(request.messages),
+      stream: true,
+      ...(request.tools?.length && { tools: request.tools.map(tool => ({ type: "function" as const, function: tool })) }),
+      ...this.tokenLimit(request.maxTokens),
+    }, { signal });
+
+    let content = "";
+    // Tool calls arrive in pieces addressed by index: the id and name first, then the arguments text
+    const toolCalls: ToolCall[] = [];
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        onText(delta.content);
+      }
+      delta.tool_calls?.forEach(part => {
+        const call = toolCalls[part.index] ?? (toolCalls[part.index] = { id: "", name: "", arguments: "" });
+        if (part.id) call.id = part.id;
+        if (part.function?.name) call.name += part.function.name;
+        if (part.function?.arguments) call.arguments += part.function.arguments;
+      });
+    }
+
+    return { content, toolCalls: toolCalls.filter(call => call && call.name) };
+  }
+
+  // Reasoning models only accept max_completion_tokens
+  protected tokenLimit(maxTokens: number): { max_completion_tokens?: number; max_tokens?: number } {
+    return { max_completion_tokens: maxTokens };
+  }
+}
+
+function toOpenAIMessages(messages: ChatMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return messages.map((message): OpenAI.Chat.ChatCompletionMessageParam => {
+    if (message.role === "tool") {
+      return { role: "tool", content: message.content, tool_call_id: message.toolCallId ?? "" };
+    }
+    if (message.role === "assistant" && message.toolCalls?.length) {
+      return {
+        role: "assistant",
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: "function" as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API at AI_BASE_URL
+ * Local servers know the older max_tokens parameter only and usually need no key
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = "openai-compatible";
+
+  constructor(baseURL: string, model: string, apiKey?: string) {
+    super(new OpenAI({ baseURL, apiKey: apiKey || "not-needed" }), model);
+  }
+
+  protected tokenLimit(maxTokens: number): { max_completion_tokens?: number; max_tokens?: number } {
+    return { max_tokens: maxTokens };
+  }
+}
+
+// Responses of the fixture provider by task
+const DEFAULT_FIXTURES: Record<CompletionTask, string> = {
+  "credit-report": JSON.stringify({
+    industrySector: {
+      description: "Описание отрасли из тестового набора ответов",
+      marketConditions: "",
+    },
+    financialCondition: {
+      liquidity: {
+        analysis: "Анализ ликвидности из тестового набора ответов",
+        conclusion: "Вывод о ликвидности из тестового набора ответов",
+      },
+      stability: {
+        analysis: "Анализ финансовой устойчивости из тестового набора ответов",
+        conclusion: "Вывод о финансовой устойчивости из тестового набора ответов",
+      },
+      profitability: {
+        analysis: "Анализ рентабельности из тестового набора ответов",
+        conclusion: "Вывод о рентабельности из тестового набора ответов",
+      },
+    },
+    strengths: ["Сильная сторона из тестового набора ответов"],
+    weaknesses: ["Слабая сторона из тестового набора ответов"],
+    recommendations: {
+      items: ["Рекомендация из тестового набора ответов"],
+      comment: "Комментарий к кредитному решению из тестового набора ответов",
+    },
+  }),
+  "analysis-chat": "Ответ на вопрос по анализу из тестового набора ответов",
+};
+
+// Offline runs of the server share one provider, so only the latest requests are kept
+const MAX_RECORDED_REQUESTS = 20;
+
+/**
+ * Deterministic stand-in for tests and offline runs: the same request always gets the same response
+ * and no network is used. Responses can be replaced per task with a JSON file (AI_FIXTURE_FILE);
+ * the latest requests are kept in `requests` so tests can check the prompts
+ */
+export class FixtureProvider implements AnalysisProvider {
+  readonly name = "fixture";
+  readonly model = "fixture";
+  readonly requests: CompletionRequest[] = [];
+  private fixtures: Record<CompletionTask, string>;
+
+  constructor(fixtures: Partial<Record<CompletionTask, string | object>> = {}) {
+    this.fixtures = { ...DEFAULT_FIXTURES };
+    (Object.keys(fixtures) as CompletionTask[]).forEach(task => {
+      const fixture = fixtures[task]!;
+      this.fixtures[task] = typeof fixture === "string" ? fixture : JSON.stringify(fixture);
+    });
+  }
+
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<string | null> {
+    signal?.throwIfAborted();
+    this.requests.push(request);
+    if (this.requests.length > MAX_RECORDED_REQUESTS) {
+      this.requests.splice(0, this.requests.length - MAX_RECORDED_REQUESTS);
+    }
+    return this.fixtures[request.task] || null;
+  }
+
+  // The fixture is passed on word by word; the fixture provider never asks for tool calls
+  async stream(request: CompletionRequest, onText: (text: string) => void, signal?: AbortSignal): Promise<StreamedCompletion> {
+    const content = (await this.complete(request, signal)) ?? "";
+    (content.match(/\S+\s*/g) ?? []).forEach(onText);
+    return { content, toolCalls: [] };
+  }
+}
+
+/**
+ * Select the provider by environment:
+ * AI_PROVIDER=openai            - OpenAI API with OPENAI_API_KEY (default when the key is set)
+ * AI_PROVIDER=openai-compatible - server with the OpenAI API at AI_BASE_URL, model AI_MODEL, optional AI_API_KEY
+ * AI_PROVIDER=fixture           - fixed responses (AI_FIXTURE_FILE replaces them by task)
+ * AI_PROVIDER=none              - no provider: the report is always rule-based (default without OPENAI_API_KEY)
+ * AI_MODEL overrides the OpenAI model as well
+ */
+function createAnalysisProvider(): AnalysisProvider | null {
+  const driver = process.env.AI_PROVIDER || (process.env.OPENAI_API_KEY ? "openai" : "none");
+
+  switch (driver) {
+    case "openai":
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error("AI_PROVIDER=openai requires OPENAI_API_KEY");
+      }
+      return new OpenAIProvider(new OpenAI({ apiKey: process.env.OPENAI_API_KEY }), process.env.AI_MODEL || DEFAULT_OPENAI_MODEL);
+    case "openai-compatible":
+      if (!process.env.AI_BASE_URL || !process.env.AI_MODEL) {
+        throw new Error("AI_PROVIDER=openai-compatible requires AI_BASE_URL and AI_MODEL");
+      }
+      console.log(`Using OpenAI-compatible AI provider at ${process.env.AI_BASE_URL} (${process.env.AI_MODEL})`);
+      return new OpenAICompatibleProvider(process.env.AI_BASE_URL, process.env.AI_MODEL, process.env.AI_API_KEY);
+    case "fixture":
+      console.log("Using fixture AI provider - responses are fixed");
+      return new FixtureProvider(process.env.AI_FIXTURE_FILE
+        ? JSON.parse(fs.readFileSync(process.env.AI_FIXTURE_FILE, "utf-8"))
+        : {});
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${driver}": expected openai, openai-compatible, fixture or none`);
+  }
+}
+
+let provider: AnalysisProvider | null = createAnalysisProvider();
+
+export function getAnalysisProvider(): AnalysisProvider | null {
+  return provider;
+}
+
+/**
+ * Replace the provider (tests use a FixtureProvider with their own responses); null disables the AI
+ */
+export function setAnalysisProvider(next: AnalysisProvider | null): void {
+  provider = next;
+}
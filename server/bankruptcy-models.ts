@@ -0,0 +1,461 @@
+import type {
+  BankruptcyModelInput,
+  BankruptcyModelResult,
+  BankruptcyProbability,
+  BankruptcyZone,
+  FinancialData,
+} from "@shared/schema";
+
+// Safe division: models treat a missing denominator as a zero factor
+const divide = (numerator: number, denominator: number): number =>
+  denominator !== 0 ? numerator / denominator : 0;
+
+// Weighted sum of the model factors
+const weightedSum = (weights: number[], inputs: BankruptcyModelInput[]): number =>
+  weights.reduce((sum, weight, index) => sum + weight * inputs[index].value, 0);
+
+/**
+ * Figures shared by the models, derived once from the balance sheet and income statement
+ */
+interface ModelBase {
+  totalAssets: number;
+  currentAssets: number;
+  nonCurrentAssets: number;
+  currentLiabilities: number;
+  totalLiabilities: number;
+  equity: number;
+  workingCapital: number;
+  retainedEarnings: number;
+  revenue: number;
+  netIncome: number;
+  profitBeforeTax: number;
+  ebit: number;
+  expenses: number; // Cost of sales + selling + administrative expenses
+}
+
+function buildBase(data: FinancialData): ModelBase {
+  const revenue = data.revenue ?? 0;
+  const profitBeforeTax = data.profitBeforeTax ?? 0;
+  // Sales profit (2200) = revenue minus cost of sales, selling and administrative expenses
+  const expenses = data.operatingIncome !== undefined
+    ? revenue - data.operatingIncome
+    : data.costOfSales ?? 0;
+
+  return {
+    totalAssets: data.totalAssets,
+    currentAssets: data.currentAssets,
+    nonCurrentAssets: data.totalAssets - data.currentAssets,
+    currentLiabilities: data.currentLiabilities,
+    totalLiabilities: data.totalLiabilities,
+    equity: data.equity,
+    workingCapital: data.currentAssets - data.currentLiabilities,
+    retainedEarnings: data.retainedEarnings ?? 0,
+    revenue,
+    netIncome: data.netIncome ?? 0,
+    profitBeforeTax,
+    ebit: profitBeforeTax + (data.interestExpense ?? 0),
+    expenses,
+  };
+}
+
+// Altman's zones map to a three-level probability class
+const zoneProbability: Record<BankruptcyZone, BankruptcyProbability> = {
+  safe: "low",
+  grey: "medium",
+  distress: "high",
+};
+
+function classifyByZones(score: number, safeFrom: number, distressBelow: number): BankruptcyZone {
+  if (score > safeFrom) return "safe";
+  if (score >= distressBelow) return "grey";
+  return "distress";
+}
+
+/**
+ * Altman Z-score family: the original model for public manufacturing companies (1968),
+ * Z' for private companies (book value of equity instead of market value)
+ * and Z'' for non-manufacturing companies (without the asset turnover factor)
+ */
+function altmanModels(base: ModelBase): BankruptcyModelResult[] {
+  const x1: BankruptcyModelInput = {
+    code: "X1",
+    label: "Оборотный капитал к активам",
+    value: divide(base.workingCapital, base.totalAssets),
+    formula: "X1 = (ОА - КО) / Активы",
+  };
+  const x2: BankruptcyModelInput = {
+    code: "X2",
+    label: "Нераспределённая прибыль к активам",
+    value: divide(base.retainedEarnings, base.totalAssets),
+    formula: "X2 = Нераспр. прибыль / Активы",
+  };
+  const x3: BankruptcyModelInput = {
+    code: "X3",
+    label: "Прибыль до процентов и налогов к активам",
+    value: divide(base.ebit, base.totalAssets),
+    formula: "X3 = EBIT / Активы",
+  };
+  // Market value of equity is not available for non-listed companies - book value is used instead
+  const x4: BankruptcyModelInput = {
+    code: "X4",
+    label: "Собственный капитал к обязательствам",
+    value: divide(base.equity, base.totalLiabilities),
+    formula: "X4 = Собств. капитал / Обязательства",
+  };
+  const x5: BankruptcyModelInput = {
+    code: "X5",
+    label: "Выручка к активам",
+    value: divide(base.revenue, base.totalAssets),
+    formula: "X5 = Выручка / Активы",
+  };
+
+  const original = weightedSum([1.2, 1.4, 3.3, 0.6, 1.0], [x1, x2, x3, x4, x5]);
+  const originalZone = classifyByZones(original, 2.99, 1.81);
+
+  const privateScore = weightedSum([0.717, 0.847, 3.107, 0.42, 0.998], [x1, x2, x3, x4, x5]);
+  const privateZone = classifyByZones(privateScore, 2.9, 1.23);
+
+  const nonManufacturing = weightedSum([6.56, 3.26, 6.72, 1.05], [x1, x2, x3, x4]);
+  const nonManufacturingZone = classifyByZones(nonManufacturing, 2.6, 1.1);
+
+  return [
+    {
+      id: "altman",
+      name: "Альтман (Z, 1968)",
+      description: "Исходная пятифакторная модель для публичных производственных компаний",
+      score: original,
+      formula: "Z = 1.2·X1 + 1.4·X2 + 3.3·X3 + 0.6·X4 + 1.0·X5",
+      thresholds: "Z > 2.99 — безопасная зона; 1.81–2.99 — серая зона; Z < 1.81 — зона банкротства",
+      zone: originalZone,
+      probability: zoneProbability[originalZone],
+      inputs: [x1, x2, x3, x4, x5],
+    },
+    {
+      id: "altmanPrivate",
+      name: "Альтман (Z', частные компании)",
+      description: "Модель для непубличных компаний: рыночная стоимость капитала заменена балансовой",
+      score: privateScore,
+      formula: "Z' = 0.717·X1 + 0.847·X2 + 3.107·X3 + 0.42·X4 + 0.998·X5",
+      thresholds: "Z' > 2.9 — безопасная зона; 1.23–2.9 — серая зона; Z' < 1.23 — зона банкротства",
+      zone: privateZone,
+      probability: zoneProbability[privateZone],
+      inputs: [x1, x2, x3, x4, x5],
+    },
+    {
+      id: "altmanNonManufacturing",
+      name: "Альтман (Z'', непроизводственные компании)",
+      description: "Четырёхфакторная модель без оборачиваемости активов для торговли и услуг",
+      score: nonManufacturing,
+      formula: "Z'' = 6.56·X1 + 3.26·X2 + 6.72·X3 + 1.05·X4",
+      thresholds: "Z'' > 2.6 — безопасная зона; 1.1–2.6 — серая зона; Z'' < 1.1 — зона банкротства",
+      zone: nonManufacturingZone,
+      probability: zoneProbability[nonManufacturingZone],
+      inputs: [x1, x2, x3, x4],
+    },
+  ];
+}
+
+/**
+ * Taffler model (1977) for UK companies
+ */
+function tafflerModel(base: ModelBase): BankruptcyModelResult {
+  const inputs: BankruptcyModelInput[] = [
+    {
+      code: "X1",
+      label: "Прибыль до налогообложения к краткосрочным обязательствам",
+      value: divide(base.profitBeforeTax, base.currentLiabilities),
+      formula: "X1 = Прибыль до налога / КО",
+    },
+    {
+      code: "X2",
+      label: "Оборотные активы к обязательствам",
+      value: divide(base.currentAssets, base.totalLiabilities),
+      formula: "X2 = ОА / Обязательства",
+    },
+    {
+      code: "X3",
+      label: "Краткосрочные обязательства к активам",
+      value: divide(base.currentLiabilities, base.totalAssets),
+      formula: "X3 = КО / Активы",
+    },
+    {
+      code: "X4",
+      label: "Выручка к активам",
+      value: divide(base.revenue, base.totalAssets),
+      formula: "X4 = Выручка / Активы",
+    },
+  ];
+  const score = weightedSum([0.53, 0.13, 0.18, 0.16], inputs);
+  const zone = classifyByZones(score, 0.3, 0.2);
+
+  return {
+    id: "taffler",
+    name: "Таффлер",
+    description: "Четырёхфакторная модель Таффлера и Тишоу",
+    score,
+    formula: "T = 0.53·X1 + 0.13·X2 + 0.18·X3 + 0.16·X4",
+    thresholds: "T > 0.3 — низкая вероятность банкротства; 0.2–0.3 — неопределённость; T < 0.2 — высокая вероятность",
+    zone,
+    probability: zoneProbability[zone],
+    inputs,
+  };
+}
+
+/**
+ * Springate model (1978) with the single cut-off value 0.862
+ */
+function springateModel(base: ModelBase): BankruptcyModelResult {
+  const inputs: BankruptcyModelInput[] = [
+    {
+      code: "A",
+      label: "Оборотный капитал к активам",
+      value: divide(base.workingCapital, base.totalAssets),
+      formula: "A = (ОА - КО) / Активы",
+    },
+    {
+      code: "B",
+      label: "Прибыль до процентов и налогов к активам",
+      value: divide(base.ebit, base.totalAssets),
+      formula: "B = EBIT / Активы",
+    },
+    {
+      code: "C",
+      label: "Прибыль до налогообложения к краткосрочным обязательствам",
+      value: divide(base.profitBeforeTax, base.currentLiabilities),
+      formula: "C = Прибыль до налога / КО",
+    },
+    {
+      code: "D",
+      label: "Выручка к активам",
+      value: divide(base.revenue, base.totalAssets),
+      formula: "D = Выручка / Активы",
+    },
+  ];
+  const score = weightedSum([1.03, 3.07, 0.66, 0.4], inputs);
+  const zone: BankruptcyZone = score < 0.862 ? "distress" : "safe";
+
+  return {
+    id: "springate",
+    name: "Спрингейт",
+    description: "Четырёхфакторная модель Спрингейта",
+    score,
+    formula: "S = 1.03·A + 3.07·B + 0.66·C + 0.4·D",
+    thresholds: "S ≥ 0.862 — финансово устойчивое предприятие; S < 0.862 — потенциальный банкрот",
+    zone,
+    probability: zoneProbability[zone],
+    inputs,
+  };
+}
+
+/**
+ * Зайцева model: the actual complex coefficient is compared with the normative one,
+ * which depends on the asset load factor of the previous year
+ */
+function zaitsevaModel(data: FinancialData, base: ModelBase, previousData?: FinancialData): BankruptcyModelResult {
+  const loss = Math.max(-base.netIncome, 0);
+  // Without line 1520 trade payables are estimated as current liabilities less short-term borrowings
+  const accountsPayable = data.accountsPayable ?? Math.max(data.currentLiabilities - data.shortTermDebt, 0);
+  const mostLiquidAssets = data.cashAndEquivalents + data.shortTermInvestments;
+
+  const inputs: BankruptcyModelInput[] = [
+    {
+      code: "Куп",
+      label: "Убыточность капитала",
+      value: divide(loss, base.equity),
+      formula: "Куп = Чистый убыток / Собств. капитал",
+    },
+    {
+      code: "Кз",
+      label: "Соотношение кредиторской и дебиторской задолженности",
+      value: divide(accountsPayable, data.accountsReceivable),
+      formula: "Кз = КЗ / ДЗ",
+    },
+    {
+      code: "Кс",
+      label: "Краткосрочные обязательства к наиболее ликвидным активам",
+      value: divide(base.currentLiabilities, mostLiquidAssets),
+      formula: "Кс = КО / (ДС + КФВ)",
+    },
+    {
+      code: "Кур",
+      label: "Убыточность реализации",
+      value: divide(loss, base.revenue),
+      formula: "Кур = Чистый убыток / Выручка",
+    },
+    {
+      code: "Кфр",
+      label: "Соотношение заёмного и собственного капитала",
+      value: divide(base.totalLiabilities, base.equity),
+      formula: "Кфр = Заёмный капитал / Собств. капитал",
+    },
+    {
+      code: "Кзаг",
+      label: "Коэффициент загрузки активов",
+      value: divide(base.totalAssets, base.revenue),
+      formula: "Кзаг = Активы / Выручка",
+    },
+  ];
+  const score = weightedSum([0.25, 0.1, 0.2, 0.25, 0.1, 0.1], inputs);
+
+  // Normative: Куп = 0, Кз = 1, Кс = 7, Кур = 0, Кфр = 0.7, Кзаг = previous year value
+  const previousLoad = previousData?.revenue
+    ? divide(previousData.totalAssets, previousData.revenue)
+    : inputs[5].value;
+  const normative = 1.57 + 0.1 * previousLoad;
+  const zone: BankruptcyZone = score > normative ? "distress" : "safe";
+
+  return {
+    id: "zaitseva",
+    name: "Зайцева",
+    description: "Шестифакторная модель О.П. Зайцевой: фактический комплексный коэффициент сравнивается с нормативным",
+    score,
+    formula: "Кфакт = 0.25·Куп + 0.1·Кз + 0.2·Кс + 0.25·Кур + 0.1·Кфр + 0.1·Кзаг",
+    thresholds: `Кфакт > Кн = ${normative.toFixed(2)} — высокая вероятность банкротства; иначе — низкая`,
+    zone,
+    probability: zone === "distress" ? "high" : "low",
+    inputs,
+  };
+}
+
+/**
+ * Савицкая model for agricultural and industrial companies
+ */
+function savitskayaModel(base: ModelBase): BankruptcyModelResult {
+  const inputs: BankruptcyModelInput[] = [
+    {
+      code: "X1",
+      label: "Доля собственного оборотного капитала в оборотных активах",
+      value: divide(base.equity - base.nonCurrentAssets, base.currentAssets),
+      formula: "X1 = (СК - ВА) / ОА",
+    },
+    {
+      code: "X2",
+      label: "Оборотный капитал к основному",
+      value: divide(base.currentAssets, base.nonCurrentAssets),
+      formula: "X2 = ОА / ВА",
+    },
+    {
+      code: "X3",
+      label: "Оборачиваемость активов",
+      value: divide(base.revenue, base.totalAssets),
+      formula: "X3 = Выручка / Активы",
+    },
+    {
+      code: "X4",
+      label: "Рентабельность активов",
+      value: divide(base.netIncome, base.totalAssets),
+      formula: "X4 = Чистая прибыль / Активы",
+    },
+    {
+      code: "X5",
+      label: "Коэффициент финансовой независимости",
+      value: divide(base.equity, base.totalAssets),
+      formula: "X5 = Собств. капитал / Активы",
+    },
+  ];
+  const score = weightedSum([0.111, 13.239, 1.676, 0.515, 3.8], inputs);
+
+  let probability: BankruptcyProbability;
+  if (score > 8) probability = "minimal";
+  else if (score > 5) probability = "low";
+  else if (score > 3) probability = "medium";
+  else if (score > 1) probability = "high";
+  else probability = "very_high";
+
+  return {
+    id: "savitskaya",
+    name: "Савицкая",
+    description: "Пятифакторная модель Г.В. Савицкой",
+    score,
+    formula: "Z = 0.111·X1 + 13.239·X2 + 1.676·X3 + 0.515·X4 + 3.8·X5",
+    thresholds: "Z > 8 — риск отсутствует; 5–8 — небольшой; 3–5 — средний; 1–3 — большой; Z ≤ 1 — наивысший",
+    zone: score > 5 ? "safe" : score > 3 ? "grey" : "distress",
+    probability,
+    inputs,
+  };
+}
+
+/**
+ * ИГЭА model (Давыдова-Беликов, Иркутская государственная экономическая академия)
+ */
+function igeaModel(base: ModelBase): BankruptcyModelResult {
+  const inputs: BankruptcyModelInput[] = [
+    {
+      code: "K1",
+      label: "Оборотный капитал к активам",
+      value: divide(base.workingCapital, base.totalAssets),
+      formula: "K1 = (ОА - КО) / Активы",
+    },
+    {
+      code: "K2",
+      label: "Рентабельность собственного капитала",
+      value: divide(base.netIncome, base.equity),
+      formula: "K2 = Чистая прибыль / Собств. капитал",
+    },
+    {
+      code: "K3",
+      label: "Оборачиваемость активов",
+      value: divide(base.revenue, base.totalAssets),
+      formula: "K3 = Выручка / Активы",
+    },
+    {
+      code: "K4",
+      label: "Чистая прибыль к затратам",
+      value: divide(base.netIncome, base.expenses),
+      formula: "K4 = Чистая прибыль / Затраты",
+    },
+  ];
+  const score = weightedSum([8.38, 1, 0.054, 0.63], inputs);
+
+  let probability: BankruptcyProbability;
+  if (score > 0.42) probability = "minimal";
+  else if (score > 0.32) probability = "low";
+  else if (score > 0.18) probability = "medium";
+  else if (score >= 0) probability = "high";
+  else probability = "very_high";
+
+  return {
+    id: "igea",
+    name: "ИГЭА (Давыдова-Беликов)",
+    description: "Четырёхфакторная модель Иркутской государственной экономической академии",
+    score,
+    formula: "R = 8.38·K1 + K2 + 0.054·K3 + 0.63·K4",
+    thresholds: "R > 0.42 — минимальная (до 10%); 0.32–0.42 — низкая (15–20%); 0.18–0.32 — средняя (35–50%); 0–0.18 — высокая (60–80%); R < 0 — максимальная (90–100%)",
+    zone: score > 0.32 ? "safe" : score > 0.18 ? "grey" : "distress",
+    probability,
+    inputs,
+  };
+}
+
+/**
+ * Calculate bankruptcy prediction models: Altman (Z, Z', Z''), Taffler, Springate,
+ * Зайцева, Савицкая and ИГЭА
+ * @param data - Financial data for the reporting period
+ * @param previousData - Data of the previous period (used for the normative value of the Зайцева model)
+ * @returns Model results, or undefined when there is no income statement (all models need revenue)
+ */
+export function calculateBankruptcyModels(
+  data: FinancialData,
+  previousData?: FinancialData
+): BankruptcyModelResult[] | undefined {
+  if (!data.revenue || data.revenue <= 0 || data.totalAssets <= 0) {
+    return undefined;
+  }
+
+  const base = buildBase(data);
+  const models = [
+    ...altmanModels(base),
+    tafflerModel(base),
+    springateModel(base),
+    zaitsevaModel(data, base, previousData),
+    savitskayaModel(base),
+    igeaModel(base),
+  ];
+
+  const distressCount = models.filter(model => model.zone === "distress").length;
+  if (distressCount > 0) {
+    console.warn(`⚠️ Модели банкротства: ${distressCount} из ${models.length} указывают на зону риска`);
+  }
+
+  return models;
+}
@@ -0,0 +1,120 @@
+import type {
+  AppliedBenchmarkProfile,
+  BenchmarkProfile,
+  BenchmarkProfileOverride,
+  RatioThresholds,
+} from "@shared/schema";
+import benchmarkFile from "./benchmark-profiles.json";
+import { storage } from "./storage";
+import { lookupOkved } from "./okved";
+
+const DEFAULT_PROFILE_ID = "default";
+
+// Profiles shipped with the application; the file version is reported with every analysis
+const fileProfiles = benchmarkFile.profiles as BenchmarkProfile[];
+export const BENCHMARK_PROFILES_VERSION: string = benchmarkFile.version;
+
+// The default profile of the file lists every ratio and is the base for all other profiles
+export const DEFAULT_THRESHOLDS = fileProfiles.find(profile => profile.id === DEFAULT_PROFILE_ID)!.thresholds as RatioThresholds;
+
+/**
+ * List benchmark profiles: profiles from the JSON file with API overrides applied,
+ * followed by custom profiles created through the API
+ */
+export async function listBenchmarkProfiles(): Promise<(BenchmarkProfile & { overridden: boolean })[]> {
+  const overrides = new Map<string, BenchmarkProfile>();
+  (await storage.getBenchmarkOverrides()).forEach(profile => overrides.set(profile.id, profile));
+
+  const profiles = fileProfiles.map(profile => ({
+    ...(overrides.get(profile.id) ?? profile),
+    overridden: overrides.has(profile.id),
+  }));
+  const custom = Array.from(overrides.values())
+    .filter(profile => !fileProfiles.some(fileProfile => fileProfile.id === profile.id))
+    .map(profile => ({ ...profile, overridden: true }));
+
+  return [...profiles, ...custom];
+}
+
+/**
+ * Override a benchmark profile. Fields that are not sent keep their current values,
+ * thresholds are merged ratio by ratio. An unknown id creates a custom profile (name is required)
+ */
+export async function overrideBenchmarkProfile(id: string, override: BenchmarkProfileOverride): Promise<BenchmarkProfile> {
+  const current = (await listBenchmarkProfiles()).find(profile => profile.id === id);
+  if (!current && !override.name) {
+    throw new Error(`Для нового профиля "${id}" необходимо указать название`);
+  }
+
+  const profile: BenchmarkProfile = {
+    id,
+    name: override.name ?? current!.name,
+    description: override.description ?? current?.description,
+    okvedSections: override.okvedSections ?? current?.okvedSections ?? [],
+    okvedClasses: override.okvedClasses ?? current?.okvedClasses ?? [],
+    thresholds: { ...current?.thresholds, ...override.thresholds },
+  };
+
+  console.log(`✓ Benchmark profile "${id}" overridden`);
+  return storage.saveBenchmarkOverride(profile);
+}
+
+/**
+ * Remove an API override: file profiles return to the version from the JSON file, custom profiles are deleted
+ */
+export async function resetBenchmarkProfile(id: string): Promise<boolean> {
+  return storage.deleteBenchmarkOverride(id);
+}
+
+/**
+ * Select the benchmark profile for a company by its OKVED code, resolved in the OKVED 2 directory
+ * A class match ("62.01" before "62") takes priority over a section match; without a match,
+ * without OKVED or with a code missing from the directory the default profile is used.
+ * Returns the thresholds merged with the default profile
+ */
+export async function resolveBenchmarkProfile(okved?: string): Promise<{
+  profile: AppliedBenchmarkProfile;
+  thresholds: RatioThresholds;
+}> {
+  const profiles = await listBenchmarkProfiles();
+  const defaultProfile = profiles.find(profile => profile.id === DEFAULT_PROFILE_ID)!;
+
+  const lookup = okved ? lookupOkved(okved) : undefined;
+  if (okved && !lookup) {
+    console.warn(`⚠️ ОКВЭД ${okved} не найден в справочнике ОКВЭД 2, применяются общие нормативы`);
+  }
+
+  let selected: (BenchmarkProfile & { overridden: boolean }) | undefined;
+  if (lookup) {
+    const { code } = lookup;
+    let bestClassLength = 0;
+    profiles.forEach(profile => {
+      profile.okvedClasses.forEach(okvedClass => {
+        const matches = code === okvedClass || code.startsWith(`${okvedClass}.`);
+        if (matches && okvedClass.length > bestClassLength) {
+          bestClassLength = okvedClass.length;
+          selected = profile;
+        }
+      });
+    });
+
+    if (!selected) {
+      const section = lookup.path[0].code;
+      selected = profiles.find(profile => profile.okvedSections.includes(section));
+    }
+  }
+
+  const applied = selected ?? defaultProfile;
+  console.log(`✓ Benchmark profile: ${applied.name}${lookup ? ` (ОКВЭД ${lookup.code}, раздел ${lookup.path[0].code})` : ""}`);
+
+  return {
+    profile: {
+      id: applied.id,
+      name: applied.name,
+      version: BENCHMARK_PROFILES_VERSION,
+      overridden: applied.overridden,
+      okved: lookup?.entry,
+    },
+    thresholds: { ...DEFAULT_THRESHOLDS, ...defaultProfile.thresholds, ...applied.thresholds } as RatioThresholds,
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { FinancialData } from "@shared/schema";
+import { matchCompany } from "./companies";
+
+const balance: FinancialData = {
+  currentAssets: 400,
+  cashAndEquivalents: 50,
+  shortTermInvestments: 0,
+  accountsReceivable: 150,
+  inventory: 200,
+  totalAssets: 1300,
+  currentLiabilities: 300,
+  shortTermDebt: 100,
+  totalLiabilities: 700,
+  equity: 600,
+  longTermDebt: 400,
+};
+
+// matchCompany works with the default in-memory storage
+describe("company matching", () => {
+  it("links uploads with the same ИНН and keeps different ИНН apart", async () => {
+    const first = await matchCompany({ ...balance, inn: "7842155505", companyName: 'АО "Газстройпром"' });
+    const second = await matchCompany({ ...balance, inn: "7842155505" });
+    const other = await matchCompany({ ...balance, inn: "4703124060", companyName: 'АО "Газстройпром"' });
+
+    assert.ok(first);
+    assert.equal(second?.id, first.id);
+    assert.notEqual(other?.id, first.id);
+  });
+
+  it("registers a new company for every upload without ИНН and ОГРН", async () => {
+    const first = await matchCompany({ ...balance, companyName: 'ООО "Ромашка"' });
+    const second = await matchCompany({ ...balance, companyName: "ООО Ромашка" });
+
+    assert.ok(first && second);
+    assert.notEqual(second.id, first.id);
+  });
+
+  it("fills in the identifiers of a company known by name", async () => {
+    const named = await matchCompany({ ...balance, companyName: 'ООО "Василёк"' });
+    const identified = await matchCompany({ ...balance, companyName: "Василек", ogrn: "1027700132195" });
+
+    assert.equal(identified?.id, named?.id);
+    assert.equal(identified?.ogrn, "1027700132195");
+  });
+});
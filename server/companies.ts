@@ -0,0 +1,84 @@
+import type { Company, FinancialAnalysisResult, FinancialData, ReportingPeriod } from "@shared/schema";
+import { storage } from "./storage";
+
+/**
+ * Normalize a company name for matching: lowercase, without quotes, legal form and extra spaces
+ * ("ООО «Ромашка»" and "Общество с ограниченной ответственностью Ромашка" give the same key)
+ */
+function normalizeCompanyName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .replace(/["'«»“”„]/g, " ")
+    .replace(/общество с ограниченной ответственностью|публичное акционерное общество|непубличное акционерное общество|акционерное общество|индивидуальный предприниматель/g, " ")
+    .replace(/(^|\s)(ооо|пао|нао|оао|зао|ао|ип)(?=\s|$)/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Find the company of an uploaded statement or register a new one
+ * Matching order: ИНН, then ОГРН, then the normalized name (only when the identifiers do not contradict).
+ * An upload without ИНН and ОГРН always registers a new company: a name alone (or a name misread from
+ * a form label) would merge different borrowers. Identifiers, name and OKVED missing in the company
+ * are filled in from the upload.
+ * Returns undefined when the statement has neither identifiers nor a company name
+ */
+export async function matchCompany(data: FinancialData): Promise<Company | undefined> {
+  const { inn, ogrn, companyName, okved } = data;
+  if (!inn && !ogrn && !companyName) return undefined;
+
+  let company = await storage.findCompanyByIdentifiers({ inn, ogrn });
+
+  if (!company && companyName && (inn || ogrn)) {
+    const nameKey = normalizeCompanyName(companyName);
+    company = nameKey
+      ? (await storage.getAllCompanies()).find(candidate =>
+          candidate.name !== undefined
+          && normalizeCompanyName(candidate.name) === nameKey
+          && !(inn && candidate.inn && candidate.inn !== inn)
+          && !(ogrn && candidate.ogrn && candidate.ogrn !== ogrn))
+      : undefined;
+  }
+
+  if (!company) {
+    const created = await storage.createCompany({ inn, ogrn, name: companyName, okved });
+    console.log(`✓ Company registered: ${created.name ?? created.inn ?? created.ogrn}${created.inn ? ` (ИНН ${created.inn})` : ""}`);
+    return created;
+  }
+
+  const changes: Partial<Omit<Company, "id" | "createdAt">> = {};
+  if (inn && !company.inn) changes.inn = inn;
+  if (ogrn && !company.ogrn) changes.ogrn = ogrn;
+  if (companyName && !company.name) changes.name = companyName;
+  if (okved && !company.okved) changes.okved = okved;
+
+  if (Object.keys(changes).length > 0) {
+    company = (await storage.updateCompany(company.id, changes)) ?? company;
+  }
+
+  console.log(`✓ Analysis linked to company: ${company.name ?? company.inn ?? company.ogrn}`);
+  return company;
+}
+
+/**
+ * Build the multi-year timeline of a company from all its analyses
+ * Periods of the same year are taken from the latest upload (corrected statements replace earlier ones).
+ * Returns periods sorted from the most recent year, like ReportingPeriod[] of a single analysis
+ */
+export function buildCompanyTimeline(
+  analyses: { id: string; analysis: FinancialAnalysisResult }[]
+): (ReportingPeriod & { analysisId: string; timestamp: string })[] {
+  const byYear = new Map<number, ReportingPeriod & { analysisId: string; timestamp: string }>();
+
+  analyses.forEach(({ id, analysis }) => {
+    (analysis.periods ?? []).forEach(period => {
+      const existing = byYear.get(period.year);
+      if (!existing || analysis.timestamp >= existing.timestamp) {
+        byYear.set(period.year, { ...period, analysisId: id, timestamp: analysis.timestamp });
+      }
+    });
+  });
+
+  return Array.from(byYear.values()).sort((a, b) => b.year - a.year);
+}
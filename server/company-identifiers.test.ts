@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findCompanyIdentifiers, findCompanyName, isValidInn, isValidOgrn } from "./company-identifiers";
+
+// Header of a ГИР БО DOCX export: labels and values on separate lines, the auditor's details below
+const girboHeader = [
+  "Настоящая выгрузка содержит информацию о юридическом лице:",
+  "Полное наименование юридического лица",
+  'Акционерное общество "ЛСР. Базовые материалы"',
+  "ИНН",
+  "4703124060",
+  "КПП",
+  "785050001",
+  "Наименование аудиторской организации/ФИО индивидуального аудитора",
+  'ООО "Аудит-сервис СПб"',
+  "ИНН",
+  "7838031176",
+  "ОГРН/ОГРНИП",
+  "1147847556592",
+  "Бухгалтерский баланс",
+  "Наименование показателя",
+];
+
+describe("company identifiers", () => {
+  it("validates check digits", () => {
+    assert.ok(isValidInn("7707083893"));
+    assert.ok(!isValidInn("7707083894"));
+    assert.ok(isValidOgrn("1027700132195"));
+    assert.ok(!isValidOgrn("1027700132196"));
+  });
+
+  it("reads the value on the label line", () => {
+    assert.deepEqual(findCompanyIdentifiers(["ИНН/КПП 7707083893/770701001", "ОГРН: 1027700132195"]), { inn: "7707083893", ogrn: "1027700132195" });
+  });
+
+  it("reads the value on the line after the label and skips the auditor", () => {
+    assert.deepEqual(findCompanyIdentifiers(girboHeader), { inn: "4703124060", ogrn: undefined });
+  });
+
+  it("searches the whole text", () => {
+    const lines = [...Array(40).fill("Бухгалтерский баланс"), "ИНН   7842155505"];
+    assert.equal(findCompanyIdentifiers(lines).inn, "7842155505");
+  });
+});
+
+describe("company name", () => {
+  it("takes the name after the label, not the label text", () => {
+    assert.equal(findCompanyName(girboHeader), "Акционерное общество ЛСР. Базовые материалы");
+  });
+
+  it("reads the name on the label line", () => {
+    assert.equal(findCompanyName(["Организация: ООО «Ромашка»"]), "ООО Ромашка");
+  });
+
+  it("does not take form labels or the auditor as the name", () => {
+    assert.equal(findCompanyName(["Наименование показателя", "Код"]), undefined);
+    assert.equal(findCompanyName(["Наименование аудиторской организации", 'ООО "Аудит-сервис СПб"']), undefined);
+  });
+});
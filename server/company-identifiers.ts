@@ -0,0 +1,153 @@
+/**
+ * Russian company identifiers: ИНН (taxpayer number) and ОГРН (state registration number)
+ * Both contain check digits, so numbers recognized from a header (or OCR) are validated
+ * before they are used to match uploads to a company
+ */
+
+const innWeights10 = [2, 4, 10, 3, 5, 9, 4, 6, 8];
+const innWeights12First = [7, 2, 4, 10, 3, 5, 9, 4, 6, 8];
+const innWeights12Second = [3, 7, 2, 4, 10, 3, 5, 9, 4, 6, 8];
+
+function innCheckDigit(digits: number[], weights: number[]): number {
+  const sum = weights.reduce((total, weight, index) => total + weight * digits[index], 0);
+  return (sum % 11) % 10;
+}
+
+/**
+ * Validate ИНН: 10 digits for organizations, 12 digits for individual entrepreneurs
+ */
+export function isValidInn(inn: string): boolean {
+  if (!/^(\d{10}|\d{12})$/.test(inn)) return false;
+  const digits = inn.split("").map(Number);
+
+  if (digits.length === 10) {
+    return innCheckDigit(digits, innWeights10) === digits[9];
+  }
+  return innCheckDigit(digits, innWeights12First) === digits[10]
+    && innCheckDigit(digits, innWeights12Second) === digits[11];
+}
+
+/**
+ * Validate ОГРН (13 digits) or ОГРНИП (15 digits): the last digit is the remainder
+ * of the preceding number divided by 11 (ОГРН) or 13 (ОГРНИП), taken modulo 10
+ */
+export function isValidOgrn(ogrn: string): boolean {
+  if (!/^(\d{13}|\d{15})$/.test(ogrn)) return false;
+  const divisor = ogrn.length === 13 ? 11 : 13;
+  // The number does not fit into a double - compute the remainder digit by digit
+  let remainder = 0;
+  for (let i = 0; i < ogrn.length - 1; i++) {
+    remainder = (remainder * 10 + Number(ogrn[i])) % divisor;
+  }
+  return remainder % 10 === Number(ogrn[ogrn.length - 1]);
+}
+
+/**
+ * Find ИНН and ОГРН in a header line: "ИНН 7707083893", "ИНН/КПП 7707083893/770701001",
+ * "ОГРН: 1027700132195". Numbers with wrong check digits are ignored
+ */
+export function extractCompanyIdentifiers(line: string): { inn?: string; ogrn?: string } {
+  const result: { inn?: string; ogrn?: string } = {};
+
+  const innMatch = line.match(/инн(?:\s*\/\s*кпп)?[\s:№]*(\d{10,12})/i);
+  if (innMatch && isValidInn(innMatch[1])) {
+    result.inn = innMatch[1];
+  }
+
+  const ogrnMatch = line.match(/огрн(?:ип)?[\s:№]*(\d{13,15})/i);
+  if (ogrnMatch && isValidOgrn(ogrnMatch[1])) {
+    result.ogrn = ogrnMatch[1];
+  }
+
+  return result;
+}
+
+// Label on its own line, the value is on the next one (ГИР БО exports: "ИНН" then "7842155505")
+const identifierLabelPattern = /^(?:инн(?:\s*\/\s*кпп)?|огрн(?:ип)?(?:\s*\/\s*огрнип)?)[\s:№]*$/i;
+
+// The auditor's details follow its name: "Наименование аудиторской организации", then its ИНН and ОГРН
+const AUDITOR_BLOCK_LINES = 5;
+
+/**
+ * Find the company ИНН and ОГРН in the lines of a statement: on the label line or on the line after
+ * the label. The whole text is searched, the first valid number of each kind wins; identifiers of
+ * the auditor are skipped
+ */
+export function findCompanyIdentifiers(lines: string[]): { inn?: string; ogrn?: string } {
+  const result: { inn?: string; ogrn?: string } = {};
+  let auditorBlockEnd = -1;
+
+  for (let i = 0; i < lines.length && !(result.inn && result.ogrn); i++) {
+    const line = lines[i].trim();
+    if (/аудитор/i.test(line)) {
+      auditorBlockEnd = i + AUDITOR_BLOCK_LINES;
+      continue;
+    }
+    if (i <= auditorBlockEnd) continue;
+
+    const text = identifierLabelPattern.test(line) && i + 1 < lines.length ? `${line} ${lines[i + 1].trim()}` : line;
+    const identifiers = extractCompanyIdentifiers(text);
+    result.inn ??= identifiers.inn;
+    result.ogrn ??= identifiers.ogrn;
+  }
+
+  return result;
+}
+
+// Label with the name on the next line: "Полное наименование юридического лица" (ГИР БО), "Организация"
+const nameLabelPattern = /^(?:(?:полное|сокращенное)\s+)?наименование(?:\s+(?:юридического\s+лица|организации))?[\s:]*$|^(?:организация|компания|предприятие)[\s:]*$/i;
+
+// Words of the form labels - a "name" made only of them is a label, not a company
+const nameLabelWords = new Set([
+  "полное", "сокращенное", "наименование", "юридического", "лица", "организации", "организация",
+  "компании", "компания", "предприятия", "предприятие", "показателя", "экономического", "субъекта",
+]);
+
+function isLabelText(text: string): boolean {
+  const words = text.toLowerCase().split(/[^а-яёa-z]+/).filter(word => word);
+  return words.every(word => nameLabelWords.has(word));
+}
+
+// Company details are at the top of a statement
+const NAME_SEARCH_LINES = 30;
+
+/**
+ * Find the company name in the header lines of a statement: "Организация: ООО Ромашка",
+ * a name label with the name on the next line, or quoted text ("ООО «Ромашка»").
+ * Label text ("юридического лица", "показателя") and the auditor's name are not taken as the name
+ */
+export function findCompanyName(lines: string[]): string | undefined {
+  const headerLines = lines.slice(0, NAME_SEARCH_LINES).map(line => line.trim());
+
+  for (let i = 0; i < headerLines.length; i++) {
+    const line = headerLines[i];
+    if (/аудитор/i.test(line)) {
+      i++; // The auditor's name is on the next line
+      continue;
+    }
+
+    if (nameLabelPattern.test(line)) {
+      const next = headerLines[i + 1];
+      if (next && !isLabelText(next) && !/^[\d\s.,:/№-]+$/.test(next)) {
+        return next.replace(/["«»]/g, "").trim();
+      }
+      continue;
+    }
+
+    const labelMatch = line.match(/(?:организация|наименование|компания|предприятие)[:\s]+(.+)/i);
+    if (labelMatch) {
+      if (!isLabelText(labelMatch[1])) {
+        return labelMatch[1].trim().replace(/["«»]/g, "");
+      }
+      continue;
+    }
+
+    // Quoted text as the company name
+    const quotedMatch = line.match(/["«]([^"»]+)["»]/);
+    if (quotedMatch && quotedMatch[1].length > 3 && quotedMatch[1].length < 100) {
+      return quotedMatch[1].trim();
+    }
+  }
+
+  return undefined;
+}
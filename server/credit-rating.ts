@@ -0,0 +1,197 @@
+import type {
+  CreditRating,
+  CreditRatingFactor,
+  CreditRatingGrade,
+  FinancialAnalysisResult,
+  RatioStatus,
+  RatioWithStatus,
+  ReportingPeriod,
+} from "@shared/schema";
+
+type EvaluatedRatios = FinancialAnalysisResult["ratios"];
+
+// Rating scale: the borrower gets the first grade whose lower boundary the score reaches
+const RATING_SCALE: CreditRating["scale"] = [
+  { grade: "A+", minScore: 85, description: "Отличная кредитоспособность" },
+  { grade: "A", minScore: 75, description: "Высокая кредитоспособность" },
+  { grade: "B+", minScore: 65, description: "Хорошая кредитоспособность" },
+  { grade: "B", minScore: 55, description: "Удовлетворительная кредитоспособность" },
+  { grade: "C+", minScore: 45, description: "Кредитоспособность ниже средней" },
+  { grade: "C", minScore: 35, description: "Слабая кредитоспособность" },
+  { grade: "D", minScore: 0, description: "Высокий кредитный риск" },
+];
+
+// Base factor weights; factors without data are excluded and the rest are re-weighted
+const FACTOR_WEIGHTS: Record<CreditRatingFactor["id"], number> = {
+  liquidity: 0.3,
+  stability: 0.3,
+  profitability: 0.2,
+  activity: 0.1,
+  trend: 0.1,
+};
+
+// Points for a ratio status (thresholds come from evaluateRatios)
+const STATUS_POINTS: Record<RatioStatus, number> = {
+  excellent: 100,
+  good: 75,
+  warning: 40,
+  critical: 0,
+};
+
+export const STATUS_LABELS: Record<RatioStatus, string> = {
+  excellent: "отлично",
+  good: "хорошо",
+  warning: "внимание",
+  critical: "критично",
+};
+
+interface Indicator {
+  label: string;
+  ratio?: RatioWithStatus;
+  format: "ratio" | "percent" | "days";
+}
+
+function formatIndicatorValue(value: number, format: Indicator["format"]): string {
+  if (format === "percent") return `${(value * 100).toFixed(2)}%`;
+  if (format === "days") return `${value.toFixed(0)} дн.`;
+  return value.toFixed(2);
+}
+
+/**
+ * Score a factor as the average status points of its available ratios
+ */
+function scoreByStatus(
+  id: CreditRatingFactor["id"],
+  name: string,
+  indicators: Indicator[]
+): Omit<CreditRatingFactor, "weight" | "contribution"> | null {
+  const available = indicators.filter(indicator => indicator.ratio !== undefined);
+  if (available.length === 0) return null;
+
+  const score = available.reduce((sum, indicator) => sum + STATUS_POINTS[indicator.ratio!.status], 0) / available.length;
+  const explanation = available
+    .map(indicator => `${indicator.label} ${formatIndicatorValue(indicator.ratio!.value, indicator.format)} (${STATUS_LABELS[indicator.ratio!.status]})`)
+    .join("; ");
+
+  return { id, name, score, explanation };
+}
+
+/**
+ * Score the dynamics between the reporting and the previous period:
+ * improvement gives 100 points, a stable value (within the tolerance) 60, deterioration 20
+ */
+function scoreTrend(periods: ReportingPeriod[]): Omit<CreditRatingFactor, "weight" | "contribution"> | null {
+  if (periods.length < 2) return null;
+  const [current, previous] = periods;
+
+  const changes: { label: string; change: number; tolerance: number; unit: "%" | "п.п." }[] = [];
+  const relativeChange = (currentValue: number, previousValue: number) =>
+    (currentValue - previousValue) / Math.abs(previousValue);
+
+  if (current.data.revenue && previous.data.revenue && previous.data.revenue > 0) {
+    changes.push({ label: "Выручка", change: relativeChange(current.data.revenue, previous.data.revenue), tolerance: 0.05, unit: "%" });
+  }
+  if (previous.ratios.currentRatio.value > 0) {
+    changes.push({ label: "Текущая ликвидность", change: relativeChange(current.ratios.currentRatio.value, previous.ratios.currentRatio.value), tolerance: 0.05, unit: "%" });
+  }
+  if (previous.ratios.equityRatio.value !== 0) {
+    changes.push({ label: "Коэффициент автономии", change: relativeChange(current.ratios.equityRatio.value, previous.ratios.equityRatio.value), tolerance: 0.05, unit: "%" });
+  }
+  // Profitability may cross zero, so ROA is compared in percentage points
+  if (current.ratios.roa && previous.ratios.roa) {
+    changes.push({ label: "ROA", change: current.ratios.roa.value - previous.ratios.roa.value, tolerance: 0.005, unit: "п.п." });
+  }
+
+  if (changes.length === 0) return null;
+
+  const points = (change: number, tolerance: number) => (change > tolerance ? 100 : change >= -tolerance ? 60 : 20);
+  const score = changes.reduce((sum, item) => sum + points(item.change, item.tolerance), 0) / changes.length;
+  const explanation = changes
+    .map(item => `${item.label} ${item.change >= 0 ? "+" : ""}${(item.change * 100).toFixed(1)}${item.unit === "%" ? "%" : " п.п."}`)
+    .join("; ");
+
+  return {
+    id: "trend",
+    name: "Динамика",
+    score,
+    explanation: `${previous.year} → ${current.year}: ${explanation}`,
+  };
+}
+
+function gradeForScore(score: number): CreditRatingGrade {
+  const entry = RATING_SCALE.find(item => score >= item.minScore);
+  return entry ? entry.grade : "D";
+}
+
+function riskLevelForGrade(grade: CreditRatingGrade): CreditRating["riskLevel"] {
+  if (grade === "A+" || grade === "A" || grade === "B+") return "low";
+  if (grade === "B" || grade === "C+") return "medium";
+  return "high";
+}
+
+const CREDIT_DECISIONS: Record<CreditRating["riskLevel"], string> = {
+  low: "Одобрить",
+  medium: "Условно одобрить",
+  high: "Отклонить",
+};
+
+/**
+ * Calculate the rule-based credit rating
+ * Liquidity, stability, profitability and activity factors are scored from the ratio statuses,
+ * the trend factor from the change against the previous period. The weighted score (0-100)
+ * is mapped to the A+…D scale, which also determines the risk level and the credit decision
+ * @param ratios - Evaluated ratios of the reporting period
+ * @param periods - Reporting periods, most recent first (the trend factor needs at least two)
+ */
+export function calculateCreditRating(ratios: EvaluatedRatios, periods: ReportingPeriod[]): CreditRating {
+  const candidates = [
+    scoreByStatus("liquidity", "Ликвидность", [
+      { label: "Текущая ликвидность", ratio: ratios.currentRatio, format: "ratio" },
+      { label: "Быстрая ликвидность", ratio: ratios.quickRatio, format: "ratio" },
+      { label: "Абсолютная ликвидность", ratio: ratios.cashRatio, format: "ratio" },
+      { label: "Покрытие КО денежным потоком", ratio: ratios.operatingCashFlowRatio, format: "ratio" },
+    ]),
+    scoreByStatus("stability", "Финансовая устойчивость", [
+      { label: "Коэффициент автономии", ratio: ratios.equityRatio, format: "ratio" },
+      { label: "Коэффициент задолженности", ratio: ratios.debtRatio, format: "ratio" },
+      { label: "Долг / капитал", ratio: ratios.debtToEquityRatio, format: "ratio" },
+      { label: "Покрытие долга денежным потоком", ratio: ratios.cashDebtCoverage, format: "ratio" },
+    ]),
+    scoreByStatus("profitability", "Рентабельность", [
+      { label: "ROA", ratio: ratios.roa, format: "percent" },
+      { label: "ROE", ratio: ratios.roe, format: "percent" },
+      { label: "Рентабельность по прибыли от продаж", ratio: ratios.operatingProfitMargin, format: "percent" },
+      { label: "Рентабельность по чистой прибыли", ratio: ratios.netProfitMargin, format: "percent" },
+    ]),
+    scoreByStatus("activity", "Деловая активность", [
+      { label: "Оборачиваемость активов", ratio: ratios.assetTurnover, format: "ratio" },
+      { label: "Оборачиваемость ДЗ", ratio: ratios.receivablesTurnover, format: "ratio" },
+      { label: "Оборачиваемость запасов", ratio: ratios.inventoryTurnover, format: "ratio" },
+      { label: "Финансовый цикл", ratio: ratios.cashConversionCycle, format: "days" },
+    ]),
+    scoreTrend(periods),
+  ];
+
+  const scored = candidates.filter((factor): factor is NonNullable<typeof factor> => factor !== null);
+  const totalWeight = scored.reduce((sum, factor) => sum + FACTOR_WEIGHTS[factor.id], 0);
+
+  const factors: CreditRatingFactor[] = scored.map(factor => {
+    const weight = FACTOR_WEIGHTS[factor.id] / totalWeight;
+    return { ...factor, weight, contribution: weight * factor.score };
+  });
+
+  const score = factors.reduce((sum, factor) => sum + factor.contribution, 0);
+  const grade = gradeForScore(score);
+  const riskLevel = riskLevelForGrade(grade);
+
+  console.log(`✓ Credit rating: ${grade} (${score.toFixed(1)} points)`);
+
+  return {
+    grade,
+    score,
+    riskLevel,
+    creditDecision: CREDIT_DECISIONS[riskLevel],
+    factors,
+    scale: RATING_SCALE,
+  };
+}
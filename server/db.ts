@@ -0,0 +1,48 @@
+import path from "path";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Migrations generated by drizzle-kit (npm run db:generate) are applied on startup; the folder is
+// resolved from this module (server/ in development, dist/ in the production bundle), not the working directory
+const migrationsFolder = path.resolve(import.meta.dirname, "..", "migrations");
+
+/**
+ * Connect to PostgreSQL by DATABASE_URL (Neon serverless driver) and apply migrations
+ */
+export async function connectPostgres(): Promise<Database> {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+
+  const { Pool, neonConfig } = await import("@neondatabase/serverless");
+  const { drizzle } = await import("drizzle-orm/neon-serverless");
+  const { migrate } = await import("drizzle-orm/neon-serverless/migrator");
+  const ws = (await import("ws")).default;
+
+  neonConfig.webSocketConstructor = ws;
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  const db = drizzle({ client: pool, schema });
+
+  await migrate(db, { migrationsFolder });
+  console.log("✓ PostgreSQL storage connected");
+  return db;
+}
+
+/**
+ * Start an embedded PGlite database - a local PostgreSQL stand-in for development and tests
+ * @param dataDir - Directory for the data files; the database is kept in memory when not set
+ */
+export async function connectPglite(dataDir?: string): Promise<Database> {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const { migrate } = await import("drizzle-orm/pglite/migrator");
+
+  const client = new PGlite(dataDir);
+  const db = drizzle({ client, schema });
+
+  await migrate(db, { migrationsFolder });
+  console.log(`✓ Embedded PGlite storage started${dataDir ? ` (${dataDir})` : " (in memory)"}`);
+  return db;
+}
@@ -0,0 +1,70 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { parseDocumentFile, setOcrWorkerFactory } from "./document-parser";
+
+// A single blank page without a text layer - the parser treats it as a scan
+const scannedPage = fs.readFileSync(path.join(import.meta.dirname, "fixtures", "scanned-page.pdf"));
+
+// What Tesseract returns for a scanned balance sheet: one row per line, codes and values inline
+const recognizedText = `Бухгалтерский баланс
+Наименование показателя Код На 31 декабря 2024 г. На 31 декабря 2023 г.
+Основные средства 1150 900 850
+Итого по разделу I 1100 900 850
+Запасы 1210 200 180
+Дебиторская задолженность 1230 150 140
+Финансовые вложения (за исключением денежных эквивалентов) 1240 20 20
+Денежные средства и денежные эквиваленты 1250 50 40
+Итого по разделу II 1200 400 360
+БАЛАНС 1600 1300 1210
+Уставный капитал 1310 10 10
+Итого по разделу III 1300 600 520
+Итого по разделу IV 1400 400 390
+Заемные средства 1510 100 110
+Кредиторская задолженность 1520 200 190
+Итого по разделу V 1500 300 300
+БАЛАНС 1700 1300 1210`;
+
+describe("scanned PDF", () => {
+  afterEach(() => {
+    setOcrWorkerFactory(null);
+    delete process.env.TESSDATA_PATH;
+  });
+
+  it("parses the recognized text and keeps the confidence of each page", async () => {
+    let terminated = false;
+    setOcrWorkerFactory(async () => ({
+      recognize: async () => ({ data: { text: recognizedText, confidence: 87.5 } }),
+      terminate: async () => { terminated = true; },
+    }));
+
+    const data = await parseDocumentFile(scannedPage, "application/pdf");
+
+    assert.deepEqual(data.ocrPages, [{ page: 1, confidence: 87.5, characters: recognizedText.length }]);
+    assert.equal(data.totalAssets, 1300);
+    assert.equal(data.equity, 600);
+    assert.equal(data.totalLiabilities, 700); // sections IV + V
+    assert.deepEqual(data.parsedYears, [2024, 2023]);
+    assert.ok(terminated);
+  });
+
+  it("explains that OCR is unavailable without the language data", async () => {
+    process.env.TESSDATA_PATH = fs.mkdtempSync(path.join(os.tmpdir(), "tessdata-"));
+
+    await assert.rejects(parseDocumentFile(scannedPage, "application/pdf"), /OCR.*rus\.traineddata/s);
+  });
+});
+
+describe("ГИР БО DOCX export", () => {
+  it("reads the company details from the labels and the lines after them", async () => {
+    const buffer = fs.readFileSync(path.join(import.meta.dirname, "fixtures", "girbo-report.docx"));
+    const data = await parseDocumentFile(buffer, "application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+
+    assert.equal(data.companyName, "АКЦИОНЕРНОЕ ОБЩЕСТВО ГАЗСТРОЙПРОМ");
+    assert.equal(data.inn, "7842155505");
+    assert.equal(data.ogrn, undefined); // the empty auditor ОГРН is not the company's
+    assert.equal(data.okved, "71.12.2");
+  });
+});
@@ -1,8 +1,13 @@
 import mammoth from "mammoth";
 import * as pdfjsLib from "pdfjs-dist/legacy/build/pdf.mjs";
 import Tesseract from "tesseract.js";
-import type { FinancialData } from "@shared/schema";
+import fs from "fs";
+import path from "path";
+import type { FinancialData, OcrPageResult } from "@shared/schema";
 import { financialDataSchema } from "@shared/schema";
+import { codeToFieldMap, codedLineKeys, equityStatementCodes } from "./reporting-codes";
+import { findCompanyIdentifiers, findCompanyName } from "./company-identifiers";
+import { findOkvedCode } from "./okved";
 
 /**
  * Normalize a key by removing extra spaces, punctuation, and converting to lowercase
@@ -23,54 +28,105 @@ async function extractTextFromDocx(buffer: Buffer): Promise<string> {
   return result.value;
 }
 
+/**
+ * Directory with Tesseract traineddata files (rus.traineddata, eng.traineddata).
+ * Language data is fetched once at setup (npm run tessdata:fetch), so OCR works without network access.
+ */
+function getTessdataPath(): string {
+  return process.env.TESSDATA_PATH || path.resolve(import.meta.dirname, "..", "tessdata");
+}
+const OCR_LANGUAGES = ["rus", "eng"];
+
+// The part of a Tesseract worker the parser uses
+export interface OcrWorker {
+  recognize(image: Buffer): Promise<{ data: { text: string; confidence: number } }>;
+  terminate(): Promise<unknown>;
+}
+
+// Render scale for OCR: 2.0 ≈ 144 DPI, enough for small digits in РСБУ forms
+const OCR_RENDER_SCALE = 2.0;
+
+/**
+ * Create a Tesseract worker with Russian + English language data from local files
+ * Fails with a readable reason when the language data is not installed
+ */
+async function createTesseractWorker(): Promise<OcrWorker> {
+  const tessdataPath = getTessdataPath();
+  const missing = OCR_LANGUAGES
+    .map(language => `${language}.traineddata`)
+    .filter(file => !fs.existsSync(path.join(tessdataPath, file)));
+  if (missing.length > 0) {
+    throw new Error(`не найдены языковые данные Tesseract (${missing.join(', ')}) в каталоге ${tessdataPath}. Загрузите их командой npm run tessdata:fetch или укажите каталог в TESSDATA_PATH`);
+  }
+
+  return Tesseract.createWorker(OCR_LANGUAGES, Tesseract.OEM.LSTM_ONLY, {
+    langPath: tessdataPath,
+    cacheMethod: "none",
+    gzip: false,
+  });
+}
+
+let createOcrWorker: () => Promise<OcrWorker> = createTesseractWorker;
+
+/**
+ * Replace the OCR engine (tests recognize pages with a stub); null restores Tesseract
+ */
+export function setOcrWorkerFactory(factory: (() => Promise<OcrWorker>) | null): void {
+  createOcrWorker = factory ?? createTesseractWorker;
+}
+
 /**
  * Extract text from a PDF page using OCR (Tesseract)
+ * Rasterizes the page with the pdfjs Node canvas factory and recognizes the PNG image
  */
 async function extractTextFromPdfPageWithOCR(
+  pdf: any,
   page: any,
-  pageNum: number
-): Promise<string> {
+  pageNum: number,
+  worker: OcrWorker
+): Promise<{ text: string; result: OcrPageResult } | null> {
+  let canvasAndContext: any = null;
   try {
     console.log(`Using OCR for page ${pageNum}...`);
 
-    // Render page to canvas
-    const viewport = page.getViewport({ scale: 2.0 }); // Higher scale for better OCR
-
-    // Create canvas - note: in Node.js we need to handle this differently
-    // We'll render to an image buffer that Tesseract can process
-    const canvas = {
-      width: viewport.width,
-      height: viewport.height,
-      getContext: () => ({
-        fillStyle: '',
-        fillRect: () => {},
-        save: () => {},
-        restore: () => {},
-        transform: () => {},
-        setTransform: () => {},
-        drawImage: () => {},
-        getImageData: (x: number, y: number, w: number, h: number) => ({
-          data: new Uint8ClampedArray(w * h * 4),
-          width: w,
-          height: h
-        })
-      })
+    // Render page to canvas (@napi-rs/canvas under Node.js)
+    const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+    canvasAndContext = pdf.canvasFactory.create(
+      Math.ceil(viewport.width),
+      Math.ceil(viewport.height)
+    );
+
+    // Scanned pages may have transparent background - fill with white for Tesseract
+    canvasAndContext.context.fillStyle = "#ffffff";
+    canvasAndContext.context.fillRect(0, 0, canvasAndContext.canvas.width, canvasAndContext.canvas.height);
+
+    await page.render({
+      canvas: null,
+      canvasContext: canvasAndContext.context,
+      viewport,
+    }).promise;
+
+    const image: Buffer = canvasAndContext.canvas.toBuffer("image/png");
+    const { data } = await worker.recognize(image);
+    const text = data.text.trim();
+
+    console.log(`OCR page ${pageNum}: ${text.length} characters, confidence ${data.confidence.toFixed(1)}%`);
+
+    return {
+      text,
+      result: {
+        page: pageNum,
+        confidence: data.confidence,
+        characters: text.length,
+      },
     };
-
-    const renderContext = {
-      canvasContext: canvas.getContext(),
-      viewport: viewport,
-    };
-
-    await page.render(renderContext).promise;
-
-    // For now, we'll skip OCR on scanned PDFs and return empty
-    // Full OCR implementation would require canvas library (node-canvas)
-    console.log(`OCR skipped for page ${pageNum} - requires additional setup`);
-    return '';
   } catch (error) {
     console.error(`OCR failed for page ${pageNum}:`, error);
-    return '';
+    return null;
+  } finally {
+    if (canvasAndContext) {
+      pdf.canvasFactory.destroy(canvasAndContext);
+    }
   }
 }
 
@@ -79,7 +135,9 @@ async function extractTextFromPdfPageWithOCR(
  * Groups text items by their Y-coordinate to preserve line structure
  * Falls back to OCR for scanned PDFs
  */
-async function extractTextFromPdf(buffer: Buffer): Promise<string> {
+async function extractTextFromPdf(buffer: Buffer): Promise<{ text: string; ocrPages: OcrPageResult[] }> {
+  let ocrWorker: OcrWorker | null = null;
+  let ocrError: string | null = null; // Why OCR could not be started (set once, other pages are skipped)
   try {
     // Convert Buffer to Uint8Array
     const data = new Uint8Array(buffer);
@@ -92,6 +150,7 @@ async function extractTextFromPdf(buffer: Buffer): Promise<string> {
 
     // Extract text from all pages
     const allPages: string[] = [];
+    const ocrPages: OcrPageResult[] = [];
     let totalTextItems = 0;
 
     for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
@@ -102,9 +161,21 @@ async function extractTextFromPdf(buffer: Buffer): Promise<string> {
 
       // If no text items, this might be a scanned PDF - try OCR
       if (textContent.items.length === 0) {
-        const ocrText = await extractTextFromPdfPageWithOCR(page, pageNum);
-        if (ocrText) {
-          allPages.push(ocrText);
+        // Worker is created lazily and shared across pages (language data loads once)
+        if (!ocrWorker && !ocrError) {
+          try {
+            ocrWorker = await createOcrWorker();
+          } catch (error) {
+            ocrError = error instanceof Error ? error.message : String(error);
+            console.warn(`⚠️ OCR is unavailable, scanned pages are skipped: ${ocrError}`);
+          }
+        }
+        if (ocrWorker) {
+          const ocr = await extractTextFromPdfPageWithOCR(pdf, page, pageNum, ocrWorker);
+          if (ocr && ocr.text) {
+            allPages.push(ocr.text);
+            ocrPages.push(ocr.result);
+          }
         }
         continue;
       }
@@ -137,24 +208,39 @@ async function extractTextFromPdf(buffer: Buffer): Promise<string> {
     }
 
     console.log(`Extracted text from ${totalTextItems} text items across ${pdf.numPages} pages`);
+    if (ocrPages.length > 0) {
+      console.log(`OCR recognized ${ocrPages.length} scanned pages`);
+    }
 
     const finalText = allPages.join('\n\n');
 
-    // If PDF appears to be scanned (very little text), show helpful message
-    if (totalTextItems === 0) {
+    // Scanned PDF and OCR is not available on the server
+    if (totalTextItems === 0 && ocrError) {
       throw new Error(
-        'Загруженный PDF-файл является отсканированным документом (содержит только изображения без текстового слоя).\n\n' +
-        'Автоматическое распознавание текста (OCR) на данный момент недоступно из-за технических ограничений платформы.\n\n' +
-        'РЕШЕНИЕ: Загрузите документ в одном из поддерживаемых форматов:\n' +
-        '  • Excel (.xlsx или .xls) — рекомендуется для лучших результатов\n' +
-        '  • Word (.docx) — с текстовым содержимым\n\n' +
-        'Если у вас есть только сканированный PDF, запросите оригинальный файл в формате Excel у бухгалтерии или финансового отдела.'
+        `Загруженный PDF-файл является отсканированным документом, но распознавание текста (OCR) на сервере недоступно: ${ocrError}.\n\n` +
+        'РЕШЕНИЕ:\n' +
+        '  • Обратитесь к администратору для установки языковых данных OCR\n' +
+        '  • Или загрузите документ в формате Excel (.xlsx или .xls) или Word (.docx)'
       );
     }
 
-    return finalText;
+    // Scanned PDF where OCR could not recognize anything - show helpful message
+    if (totalTextItems === 0 && ocrPages.length === 0) {
+      throw new Error(
+        'Загруженный PDF-файл является отсканированным документом (содержит только изображения без текстового слоя), и распознать текст (OCR) не удалось.\n\n' +
+        'РЕШЕНИЕ:\n' +
+        '  • Загрузите скан лучшего качества (не менее 300 DPI, без перекоса страниц)\n' +
+        '  • Или загрузите документ в формате Excel (.xlsx или .xls) или Word (.docx)'
+      );
+    }
+
+    return { text: finalText, ocrPages };
   } catch (error) {
     throw new Error(`PDF parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    if (ocrWorker) {
+      await ocrWorker.terminate();
+    }
   }
 }
 
@@ -199,6 +285,58 @@ function parseNumericValue(str: string): number | null {
   return (isNegative || hasNegativeSign) ? -value : value;
 }
 
+/**
+ * Extract the statement of changes in equity (Form 3) from document lines
+ * Section 1 rows have one value per capital component with "Итого" last, so the last value is taken;
+ * line 3600 (net assets) has date columns and the first value is taken
+ * Supports "Name 3311 - - 150 150" on one line and a code followed by values on separate lines
+ */
+function parseEquityStatementLines(nonEmptyLines: string[]): Record<string, number> {
+  const lines: Record<string, number> = {};
+  const dashPattern = /^[-–—]$/;
+  const valueTokenPattern = /^(?:[-–—]|\(?-?[\d\s,.\u00A0]+\)?)$/;
+
+  const parseToken = (token: string): number | null =>
+    dashPattern.test(token) ? 0 : parseNumericValue(token);
+
+  const storeLine = (code: string, values: number[]) => {
+    if (values.length === 0 || lines[code] !== undefined) return;
+    lines[code] = code === '3600' ? values[0] : values[values.length - 1];
+  };
+
+  for (let i = 0; i < nonEmptyLines.length; i++) {
+    const line = nonEmptyLines[i];
+
+    // Multi-line: row name, code on its own line, values on the following lines (up to 6 columns + total)
+    // A code must follow a row name - a standalone number after another number is a value
+    if (equityStatementCodes.has(line) && i > 0 && !valueTokenPattern.test(nonEmptyLines[i - 1])) {
+      const values: number[] = [];
+      for (let j = i + 1; j < nonEmptyLines.length && values.length < 7; j++) {
+        const valueStr = nonEmptyLines[j];
+        if (equityStatementCodes.has(valueStr) || valueStr.length > 20 || !valueTokenPattern.test(valueStr)) break;
+        const value = parseToken(valueStr);
+        if (value === null) break;
+        values.push(value);
+      }
+      storeLine(line, values);
+      continue;
+    }
+
+    // Single-line: optional name, code, then values separated by whitespace
+    // (the text before the code must not end with a number, otherwise it is a value column)
+    const match = line.match(/^(.*?)\s*(3[1-6]\d{2})\s+([\d\s,.()\-–—]+)$/);
+    if (match && equityStatementCodes.has(match[2]) && !/[\d)\-–—]$/.test(match[1])) {
+      const values = match[3].split(/\s+/)
+        .filter(token => token)
+        .map(parseToken)
+        .filter((value): value is number => value !== null);
+      storeLine(match[2], values);
+    }
+  }
+
+  return lines;
+}
+
 /**
  * Parse financial data from text content
  * Supports two document layouts:
@@ -216,40 +354,20 @@ function parseFinancialDataFromText(text: string): FinancialData {
     }
   }
 
-  // Extract OKVED code and company name from document header (first 30 lines)
-  let okved: string | undefined;
-  let companyName: string | undefined;
-
-  const headerLines = nonEmptyLines.slice(0, 30);
-  for (const line of headerLines) {
-    // Search for OKVED code: "ОКВЭД: 46.51", "Код по ОКВЭД: 46.51", etc.
-    if (!okved) {
-      const okvedMatch = line.match(/(?:оквэд|okved)[:\s]+([0-9.]+)/i);
-      if (okvedMatch) {
-        okved = okvedMatch[1].trim();
-        console.log(`Found OKVED: ${okved}`);
-      }
-    }
-
-    // Search for company name: "Организация:", "Наименование:", lines with quotes, etc.
-    if (!companyName) {
-      const companyMatch = line.match(/(?:организация|наименование|компания|предприятие)[:\s]+(.+)/i);
-      if (companyMatch) {
-        companyName = companyMatch[1].trim().replace(/[\"«»]/g, '');
-        console.log(`Found company name: ${companyName}`);
-      } else if (line.includes('"') || line.includes('«')) {
-        // Try to extract quoted text as company name
-        const quotedMatch = line.match(/[\"«]([^\"»]+)[\"»]/);
-        if (quotedMatch && quotedMatch[1].length > 3 && quotedMatch[1].length < 100) {
-          companyName = quotedMatch[1].trim();
-          console.log(`Found company name from quotes: ${companyName}`);
-        }
-      }
-    }
+  // OKVED code of the header: the label may be anywhere above the statements, the code on the next line
+  const okved = findOkvedCode(nonEmptyLines);
+  if (okved) {
+    console.log(`Found OKVED: ${okved}`);
+  }
 
-    // Stop early if both found
-    if (okved && companyName) break;
+  // Company name from the header, ИНН and ОГРН from the whole text (label and value may be on separate lines)
+  const companyName = findCompanyName(nonEmptyLines);
+  if (companyName) {
+    console.log(`Found company name: ${companyName}`);
   }
+  const { inn, ogrn } = findCompanyIdentifiers(nonEmptyLines);
+  if (inn) console.log(`Found INN: ${inn}`);
+  if (ogrn) console.log(`Found OGRN: ${ogrn}`);
 
   // Create maps to store found values for each year
   // dataMap stores the most recent year (first value)
@@ -261,6 +379,8 @@ function parseFinancialDataFromText(text: string): FinancialData {
     new Map<string, number>(), // Year 3
   ];
   const foundKeys: string[] = [];
+  // Set when a line was read together with its line code (standard form layout)
+  let readByCode = false;
 
   // Pattern to detect 4-digit codes (used to identify multi-line structure)
   const codePattern = /^\d{4}$/;
@@ -285,7 +405,8 @@ function parseFinancialDataFromText(text: string): FinancialData {
     }
 
     // Check if next line is a code (4 digits)
-    if (i + 2 < nonEmptyLines.length && codePattern.test(nonEmptyLines[i + 1])) {
+    // Form 3 rows hold capital components, not periods - they are read by parseEquityStatementLines
+    if (i + 2 < nonEmptyLines.length && codePattern.test(nonEmptyLines[i + 1]) && !equityStatementCodes.has(nonEmptyLines[i + 1])) {
       // Try to extract up to 3 values after the code
       const values: (number | null)[] = [];
       
@@ -314,6 +435,7 @@ function parseFinancialDataFromText(text: string): FinancialData {
         if (normalizedCurrent) {
           dataMap.set(normalizedCurrent, values[0]);
           foundKeys.push(currentLine);
+          readByCode = true;
           
           // Store all extracted values in yearMaps
           values.forEach((val, idx) => {
@@ -332,8 +454,8 @@ function parseFinancialDataFromText(text: string): FinancialData {
 
     for (const line of nonEmptyLines) {
       // Try each single-line pattern
-      for (const pattern of singleLinePatterns) {
-        const match = line.match(pattern);
+      for (let patternIndex = 0; patternIndex < singleLinePatterns.length; patternIndex++) {
+        const match = line.match(singleLinePatterns[patternIndex]);
         if (match) {
           const itemName = match[1].trim();
           
@@ -352,6 +474,7 @@ function parseFinancialDataFromText(text: string): FinancialData {
             if (normalizedKey) {
               dataMap.set(normalizedKey, values[0]);
               foundKeys.push(itemName);
+              readByCode ||= patternIndex === 0;
               
               // Store values for each year
               values.forEach((val, idx) => {
@@ -368,54 +491,7 @@ function parseFinancialDataFromText(text: string): FinancialData {
   }
 
   // Strategy 3: Parse by standard balance sheet codes (fallback for broken text)
-  // Map of standard Russian balance sheet codes to field names
-  const codeToFieldMap = new Map<string, string>([
-    // Balance sheet codes (Form 1)
-    ['1250', 'денежные средства и денежные эквиваленты'],
-    ['1240', 'финансовые вложения исключая денежные эквиваленты'],
-    ['1230', 'финансовые вложения'],
-    ['1220', 'налог на добавленную стоимость'],
-    ['1210', 'запасы'],
-    ['1260', 'прочие оборотные активы'],
-    ['1200', 'итого по разделу ii'],
-    ['1100', 'итого по разделу i'],
-    ['1110', 'нематериальные активы'],
-    ['1120', 'результаты исследований и разработок'],
-    ['1130', 'нематериальные поисковые активы'],
-    ['1140', 'материальные поисковые активы'],
-    ['1150', 'основные средства'],
-    ['1160', 'доходные вложения в материальные ценности'],
-    ['1170', 'финансовые вложения'],
-    ['1180', 'отложенные налоговые активы'],
-    ['1190', 'прочие внеоборотные активы'],
-    ['1300', 'итого по разделу iii'],
-    ['1310', 'уставный капитал'],
-    ['1360', 'резервный капитал'],
-    ['1370', 'нераспределенная прибыль'],
-    ['1400', 'итого по разделу iv'],
-    ['1410', 'заемные средства'],
-    ['1420', 'отложенные налоговые обязательства'],
-    ['1500', 'итого по разделу v'],
-    ['1510', 'заемные средства'],
-    ['1520', 'кредиторская задолженность'],
-    ['1600', 'баланс'],
-    ['1700', 'баланс'],
-    // Income statement codes (Form 2) - P&L items
-    ['2110', 'выручка'],
-    ['2120', 'себестоимость продаж'],
-    ['2100', 'валовая прибыль убыток'],
-    ['2210', 'коммерческие расходы'],
-    ['2220', 'управленческие расходы'],
-    ['2200', 'прибыль убыток от продаж'],
-    ['2310', 'доходы от участия в других организациях'],
-    ['2320', 'проценты к получению'],
-    ['2330', 'проценты к уплате'],
-    ['2340', 'прочие доходы'],
-    ['2350', 'прочие расходы'],
-    ['2300', 'прибыль убыток до налогообложения'],
-    ['2410', 'текущий налог на прибыль'],
-    ['2400', 'чистая прибыль убыток'],
-  ]);
+  // (see codeToFieldMap in reporting-codes.ts)
 
   // Strategy 3a: Parse single-line format "code value1 value2 value3" or "code value1 value2"
   const singleLineCodePattern = /^(\d{4})\s+([\d\s,.()\-+]+)$/;
@@ -445,6 +521,7 @@ function parseFinancialDataFromText(text: string): FinancialData {
           if (normalizedKey && !dataMap.has(normalizedKey)) {
             dataMap.set(normalizedKey, values[0]);
             foundKeys.push(`${fieldName} (код ${code}, single-line)`);
+            readByCode = true;
             console.log(`Strategy 3a: Added ${fieldName} = ${values.join(', ')} from single-line`);
             
             values.forEach((val, idx) => {
@@ -495,6 +572,7 @@ function parseFinancialDataFromText(text: string): FinancialData {
           if (normalizedKey && !dataMap.has(normalizedKey)) {
             dataMap.set(normalizedKey, values[0]);
             foundKeys.push(`${fieldName} (код ${code})`);
+            readByCode = true;
             console.log(`Strategy 3b: Added ${fieldName} = ${values[0]}`);
             
             // Store all extracted values in yearMaps for historical data
@@ -534,9 +612,13 @@ function parseFinancialDataFromText(text: string): FinancialData {
     // Company information
     okved,
     companyName,
+    inn,
+    ogrn,
 
     // Store additional years data if available (year1, year2)
     yearlyData: yearMaps.slice(1).filter(m => m.size > 0),
+    reportingYearData: dataMap,
+    codedLayout: readByCode,
 
     currentAssets: findValue(dataMap, foundKeys, [
       "итого по разделу ii",
@@ -590,6 +672,7 @@ function parseFinancialDataFromText(text: string): FinancialData {
       "текущие обязательства",
     ]),
     shortTermDebt: findValue(dataMap, foundKeys, [
+      "заемные средства краткосрочные",
       "заемные средства",
       "краткосрочные заемные средства",
       "краткосрочный долг",
@@ -603,7 +686,7 @@ function parseFinancialDataFromText(text: string): FinancialData {
       "обязательства",
       "пассивы",
       "итого обязательств"
-    ]),
+    ], true),
     equity: findValue(dataMap, foundKeys, [
       "итого по разделу iii",
       "iii капитал и резервы",
@@ -627,6 +710,11 @@ function parseFinancialDataFromText(text: string): FinancialData {
       "доход",
       "выручка от продаж"
     ], true),
+    // Cost of sales is shown in parentheses - stored as a positive amount, undefined if absent
+    costOfSales: absOrUndefined(lookupValue(dataMap, [
+      "себестоимость продаж",
+      "cost of sales"
+    ])),
     netIncome: findValue(dataMap, foundKeys, [
       "чистая прибыль убыток",
       "чистая прибыль",
@@ -650,6 +738,42 @@ function parseFinancialDataFromText(text: string): FinancialData {
       "прибыль до налогообложения",
       "profit before tax"
     ], true),
+    interestExpense: absOrUndefined(lookupValue(dataMap, [
+      "проценты к уплате",
+      "interest expense"
+    ])),
+    // Depreciation is only disclosed in the notes (costs by elements, 5640)
+    depreciation: absOrUndefined(lookupValue(dataMap, [
+      "амортизация",
+      "depreciation and amortization",
+      "depreciation"
+    ])),
+    // Cash flow statement (Form 4) - left undefined when the report has no Form 4
+    operatingCashFlow: lookupValue(dataMap, [
+      "сальдо денежных потоков от текущих операций",
+      "чистые денежные средства от текущей деятельности",
+      "operating cash flow"
+    ]),
+    investingCashFlow: lookupValue(dataMap, [
+      "сальдо денежных потоков от инвестиционных операций",
+      "чистые денежные средства от инвестиционной деятельности",
+      "investing cash flow"
+    ]),
+    financingCashFlow: lookupValue(dataMap, [
+      "сальдо денежных потоков от финансовых операций",
+      "чистые денежные средства от финансовой деятельности",
+      "financing cash flow"
+    ]),
+    netCashFlow: lookupValue(dataMap, [
+      "сальдо денежных потоков за отчетный период",
+      "сальдо денежных потоков за отчетный год",
+      "net cash flow"
+    ]),
+    capitalExpenditures: absOrUndefined(lookupValue(dataMap, [
+      "в связи с приобретением созданием модернизацией реконструкцией и подготовкой к использованию внеоборотных активов",
+      "приобретением созданием внеоборотных активов",
+      "capital expenditures"
+    ])),
     // Section I - Non-current assets details
     intangibleAssets: findValue(dataMap, foundKeys, [
       "нематериальные активы",
@@ -718,10 +842,11 @@ function parseFinancialDataFromText(text: string): FinancialData {
       "additional capital"
     ], true),
     // Section IV - Long-term liabilities details
-    borrowedFundsLongTerm: findValue(dataMap, foundKeys, [
+    // Undefined when 1410 is not itemized - the section IV total is used instead
+    borrowedFundsLongTerm: lookupValue(dataMap, [
       "заемные средства долгосрочные",
       "long term borrowed funds"
-    ], true),
+    ]),
     deferredTaxLiabilities: findValue(dataMap, foundKeys, [
       "отложенные налоговые обязательства",
       "deferred tax liabilities",
@@ -756,6 +881,18 @@ function parseFinancialDataFromText(text: string): FinancialData {
     ], true),
   };
 
+  // Standard forms have no "total liabilities" line - derive it from sections IV + V
+  if (financialData.totalLiabilities === 0) {
+    financialData.totalLiabilities = financialData.longTermDebt + financialData.currentLiabilities;
+  }
+
+  // Statement of changes in equity (Form 3)
+  const equityStatementLines = parseEquityStatementLines(nonEmptyLines);
+  if (Object.keys(equityStatementLines).length > 0) {
+    financialData.equityStatementLines = equityStatementLines;
+    console.log(`Форма 3: найдено ${Object.keys(equityStatementLines).length} строк движения капитала`);
+  }
+
   // Parse years from document headers
   // Common patterns: "На 31 декабря 2023 г.", "на 31.12.2023", "2023", "31.12.2023"
   const parsedYears: number[] = [];
@@ -823,6 +960,11 @@ function parseFinancialDataFromText(text: string): FinancialData {
   return financialData;
 }
 
+// Expenses and payments are shown in parentheses (parsed as negative) - stored as positive amounts
+function absOrUndefined(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : Math.abs(value);
+}
+
 /**
  * Find a value in the data map by checking multiple possible key names
  */
@@ -832,6 +974,30 @@ function findValue(
   possibleKeys: string[],
   optional: boolean = false
 ): number {
+  const value = lookupValue(dataMap, possibleKeys);
+  if (value !== undefined) {
+    return value;
+  }
+
+  if (optional) {
+    return 0;
+  }
+
+  const errorMsg = `Не найдено обязательное поле: "${possibleKeys[0]}".
+Попробуйте использовать одно из этих названий: ${possibleKeys.slice(0, 3).join(', ')}.
+Найденные поля в файле: ${foundKeys.slice(0, 15).join(', ')}${foundKeys.length > 15 ? '...' : ''}`;
+
+  throw new Error(errorMsg);
+}
+
+/**
+ * Look up a value by possible key names: exact matches first, then partial word matches
+ * Returns undefined when the line is absent (used for sections that may be missing entirely, e.g. Form 4)
+ */
+function lookupValue(
+  dataMap: Map<string, number>,
+  possibleKeys: string[]
+): number | undefined {
   // First try exact matches
   for (const key of possibleKeys) {
     const normalizedKey = normalizeKey(key);
@@ -841,12 +1007,13 @@ function findValue(
     }
   }
 
-  // Then try partial matches
+  // Then try partial matches (line-code keys only match exactly)
   for (const key of possibleKeys) {
     const normalizedSearchKey = normalizeKey(key);
     const words = normalizedSearchKey.split(' ').filter(w => w.length > 2);
 
     for (const [mapKey, value] of dataMap.entries()) {
+      if (codedLineKeys.has(mapKey)) continue;
       const allWordsPresent = words.every(word => mapKey.includes(word));
 
       if (allWordsPresent && words.length > 0) {
@@ -856,15 +1023,7 @@ function findValue(
     }
   }
 
-  if (optional) {
-    return 0;
-  }
-
-  const errorMsg = `Не найдено обязательное поле: "${possibleKeys[0]}".
-Попробуйте использовать одно из этих названий: ${possibleKeys.slice(0, 3).join(', ')}.
-Найденные поля в файле: ${foundKeys.slice(0, 15).join(', ')}${foundKeys.length > 15 ? '...' : ''}`;
-
-  throw new Error(errorMsg);
+  return undefined;
 }
 
 /**
@@ -873,13 +1032,16 @@ function findValue(
 export async function parseDocumentFile(buffer: Buffer, mimeType: string): Promise<FinancialData> {
   try {
     let text: string;
+    let ocrPages: OcrPageResult[] = [];
 
     if (mimeType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document") {
       console.log("Parsing DOCX file...");
       text = await extractTextFromDocx(buffer);
     } else if (mimeType === "application/pdf") {
       console.log("Parsing PDF file...");
-      text = await extractTextFromPdf(buffer);
+      const pdfResult = await extractTextFromPdf(buffer);
+      text = pdfResult.text;
+      ocrPages = pdfResult.ocrPages;
     } else {
       throw new Error("Unsupported document type");
     }
@@ -889,6 +1051,11 @@ export async function parseDocumentFile(buffer: Buffer, mimeType: string): Promi
     // Parse financial data from the extracted text
     const financialData = parseFinancialDataFromText(text);
 
+    // Surface per-page OCR confidence so the analyst can judge recognition quality
+    if (ocrPages.length > 0) {
+      financialData.ocrPages = ocrPages;
+    }
+
     return financialData;
   } catch (error) {
     if (error instanceof Error) {
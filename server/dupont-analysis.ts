@@ -0,0 +1,109 @@
+import type {
+  DuPontAnalysis,
+  DuPontChange,
+  DuPontFactorEffect,
+  DuPontPeriod,
+  FinancialData,
+  ReportingPeriod,
+} from "@shared/schema";
+
+type FactorKey = DuPontFactorEffect["factor"];
+
+const FACTOR_LABELS: Record<FactorKey, string> = {
+  netProfitMargin: "Рентабельность продаж",
+  assetTurnover: "Оборачиваемость активов",
+  equityMultiplier: "Мультипликатор капитала",
+  taxBurden: "Налоговая нагрузка",
+  interestBurden: "Процентная нагрузка",
+  operatingMargin: "Операционная маржа",
+};
+
+// Factor order matters for chain substitution: quality factors first, volume (leverage) last
+const THREE_FACTORS: FactorKey[] = ["netProfitMargin", "assetTurnover", "equityMultiplier"];
+const FIVE_FACTORS: FactorKey[] = ["taxBurden", "interestBurden", "operatingMargin", "assetTurnover", "equityMultiplier"];
+
+/**
+ * DuPont breakdown of one period; undefined when ROE cannot be decomposed
+ * (no revenue or net income, non-positive assets or equity)
+ */
+function decompose(year: number, data: FinancialData): DuPontPeriod | undefined {
+  const { netIncome, revenue, totalAssets, equity } = data;
+  if (netIncome === undefined || revenue === undefined || revenue <= 0 || totalAssets <= 0 || equity <= 0) {
+    return undefined;
+  }
+
+  const period: DuPontPeriod = {
+    year,
+    roe: netIncome / equity,
+    netProfitMargin: netIncome / revenue,
+    assetTurnover: revenue / totalAssets,
+    equityMultiplier: totalAssets / equity,
+  };
+
+  // EBIT = profit before tax (2300) + interest payable (2330)
+  const profitBeforeTax = data.profitBeforeTax;
+  if (profitBeforeTax !== undefined && profitBeforeTax !== 0) {
+    const ebit = profitBeforeTax + (data.interestExpense ?? 0);
+    if (ebit !== 0) {
+      period.taxBurden = netIncome / profitBeforeTax;
+      period.interestBurden = profitBeforeTax / ebit;
+      period.operatingMargin = ebit / revenue;
+    }
+  }
+
+  return period;
+}
+
+/**
+ * Chain substitution: factors are replaced with the current year values one by one,
+ * the effect of a factor is the change of the product at its step. Effects add up to the change exactly
+ */
+function substituteChain(previous: DuPontPeriod, current: DuPontPeriod, factors: FactorKey[]): DuPontFactorEffect[] | undefined {
+  const before = factors.map(factor => previous[factor]);
+  const after = factors.map(factor => current[factor]);
+  if (before.some(value => value === undefined) || after.some(value => value === undefined)) {
+    return undefined;
+  }
+
+  const values = (before as number[]).slice();
+  let product = values.reduce((result, value) => result * value, 1);
+
+  return factors.map((factor, index) => {
+    values[index] = after[index] as number;
+    const substituted = values.reduce((result, value) => result * value, 1);
+    const effect = substituted - product;
+    product = substituted;
+    return { factor, label: FACTOR_LABELS[factor], effect };
+  });
+}
+
+/**
+ * Three- and five-factor DuPont decomposition of ROE for every period and
+ * factor analysis of the ROE change between consecutive periods
+ * @param periods - Reporting periods, most recent first
+ */
+export function analyzeDuPont(periods: ReportingPeriod[]): DuPontAnalysis | undefined {
+  const decomposed = periods
+    .map(period => decompose(period.year, period.data))
+    .filter((period): period is DuPontPeriod => period !== undefined);
+
+  if (decomposed.length === 0) return undefined;
+
+  // decomposed[index + 1] is the closest earlier year with a decomposition
+  const changes: DuPontChange[] = [];
+  for (let index = 0; index < decomposed.length - 1; index++) {
+    const current = decomposed[index];
+    const previous = decomposed[index + 1];
+    changes.push({
+      fromYear: previous.year,
+      toYear: current.year,
+      roeChange: current.roe - previous.roe,
+      threeFactor: substituteChain(previous, current, THREE_FACTORS)!,
+      fiveFactor: substituteChain(previous, current, FIVE_FACTORS),
+    });
+  }
+
+  console.log(`✓ DuPont analysis: ${decomposed.length} periods, ${changes.length} factor analyses`);
+
+  return { periods: decomposed, changes };
+}
@@ -0,0 +1,114 @@
+import type { CapitalMovement, EquityStatementAnalysis, FinancialData, ReportingPeriod } from "@shared/schema";
+
+/**
+ * Build one year of capital movement from Form 3 lines
+ * @param lines - "Итого" column values by line code
+ * @param prefix - "33" for the reporting year, "32" for the previous year
+ * @param openingCode - line with equity at the beginning of the year (3200 / 3100)
+ * @param closingCode - line with equity at the end of the year (3300 / 3200)
+ */
+function buildMovement(
+  lines: Record<string, number>,
+  year: number,
+  prefix: string,
+  openingCode: string,
+  closingCode: string
+): CapitalMovement | null {
+  const line = (row: string): number | undefined => lines[`${prefix}${row}`];
+  // Decreases are printed in parentheses (parsed as negative) - use absolute amounts
+  const amount = (row: string): number => Math.abs(line(row) ?? 0);
+
+  const hasMovementLines = ["10", "11", "20", "21", "27"].some(row => line(row) !== undefined);
+  const openingEquity = lines[openingCode];
+  const closingEquity = lines[closingCode];
+  if (!hasMovementLines && (openingEquity === undefined || closingEquity === undefined)) {
+    return null;
+  }
+
+  const netIncome = amount("11") - amount("21");
+  const dividends = amount("27");
+  const capitalContributions = amount("14") + amount("15") - amount("24") - amount("25");
+  const revaluation = amount("12") - amount("22");
+  const itemized = netIncome - dividends + capitalContributions + revaluation;
+
+  // "Other" is whatever the itemized rows do not explain: prefer the opening/closing equity lines,
+  // then the increase/decrease totals, and fall back to the remaining itemized rows
+  let other: number;
+  if (openingEquity !== undefined && closingEquity !== undefined) {
+    other = closingEquity - openingEquity - itemized;
+  } else if (line("10") !== undefined || line("20") !== undefined) {
+    other = amount("10") - amount("20") + (line("30") ?? 0) + (line("40") ?? 0) - itemized;
+  } else {
+    other = amount("13") + amount("16") - amount("23") - amount("26");
+  }
+
+  return {
+    year,
+    openingEquity,
+    netIncome,
+    dividends,
+    capitalContributions,
+    revaluation,
+    other,
+    closingEquity,
+    dividendsExceedNetIncome: dividends > 0 && dividends > Math.max(netIncome, 0),
+  };
+}
+
+/**
+ * Analyze the statement of changes in equity (Form 3)
+ * Builds the capital movement table for the reporting and previous years and reconciles the sum
+ * of movements with the change in line 1300 between the reporting periods
+ * Returns undefined when the document has no Form 3
+ */
+export function analyzeEquityStatement(
+  data: FinancialData,
+  periods: ReportingPeriod[],
+  reportingYear: number
+): EquityStatementAnalysis | undefined {
+  const lines = data.equityStatementLines;
+  if (!lines || Object.keys(lines).length === 0) {
+    return undefined;
+  }
+
+  const movements = [
+    buildMovement(lines, reportingYear, "33", "3200", "3300"),
+    buildMovement(lines, reportingYear - 1, "32", "3100", "3200"),
+  ].filter((movement): movement is CapitalMovement => movement !== null);
+
+  if (movements.length === 0) {
+    return undefined;
+  }
+
+  // Reconcile against the balance sheet: equity (1300) at the end of the year minus the year before
+  const equityByYear = new Map<number, number>();
+  periods.forEach(period => equityByYear.set(period.year, period.data.equity));
+
+  movements.forEach(movement => {
+    const closing = equityByYear.get(movement.year);
+    const opening = equityByYear.get(movement.year - 1);
+    if (closing === undefined || opening === undefined) return;
+
+    const movementTotal = movement.netIncome - movement.dividends + movement.capitalContributions + movement.revaluation + movement.other;
+    movement.balanceSheetChange = closing - opening;
+    movement.reconciliationDifference = movementTotal - movement.balanceSheetChange;
+    // Same 1% tolerance as the accounting equation check, at least one unit for rounding
+    const tolerance = Math.max(Math.abs(closing) * 0.01, 1);
+    movement.reconciled = Math.abs(movement.reconciliationDifference) <= tolerance;
+
+    if (!movement.reconciled) {
+      console.warn(`⚠️ Движение капитала за ${movement.year} г. не сходится с изменением строки 1300: разница ${movement.reconciliationDifference.toFixed(2)}`);
+    }
+  });
+
+  const dividendsExceedNetIncome = movements.some(movement => movement.dividendsExceedNetIncome);
+  if (dividendsExceedNetIncome) {
+    console.warn("⚠️ Выплаченные дивиденды превышают чистую прибыль");
+  }
+
+  return {
+    movements,
+    netAssets: lines["3600"],
+    dividendsExceedNetIncome,
+  };
+}
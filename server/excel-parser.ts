@@ -1,11 +1,15 @@
 import * as XLSX from "xlsx";
 import type { FinancialData } from "@shared/schema";
 import { financialDataSchema } from "@shared/schema";
+import { codeToFieldMap, codedLineKeys, equityStatementCodes } from "./reporting-codes";
+import { findOkvedCode } from "./okved";
+import { findCompanyIdentifiers, findCompanyName } from "./company-identifiers";
 
 /**
  * Normalize a key by removing extra spaces, punctuation, and converting to lowercase
+ * (keys of the parsed data maps; the analysis pipeline looks up the yearly data with it)
  */
-function normalizeKey(key: string): string {
+export function normalizeKey(key: string): string {
   return key
     .toLowerCase()
     .replace(/[^\p{L}\p{N}\s]/gu, '') // Remove punctuation but keep letters, numbers, spaces
@@ -13,161 +17,482 @@ function normalizeKey(key: string): string {
     .trim();
 }
 
+/**
+ * Parse a numeric cell value, handling both numeric cells and text cells:
+ * - Thousands separators (spaces, non-breaking spaces)
+ * - Parentheses for negative numbers: (123) -> -123
+ * - Dash placeholders ("-", "—") used in РСБУ forms for zero values
+ */
+function parseCellValue(cell: unknown): number | null {
+  if (typeof cell === "number") {
+    return isNaN(cell) ? null : cell;
+  }
+  if (typeof cell !== "string") {
+    return null;
+  }
+
+  let cleaned = cell.trim();
+  if (!cleaned) return null;
+  if (/^[-–—]$/.test(cleaned)) return 0;
+
+  const isNegative = cleaned.startsWith('(') && cleaned.endsWith(')');
+  if (isNegative) {
+    cleaned = cleaned.slice(1, -1).trim();
+  }
+
+  cleaned = cleaned.replace(/[\s\u00A0\u202F]/g, '').replace(',', '.');
+
+  if (!/^[-+]?\d+(\.\d+)?$/.test(cleaned)) {
+    return null;
+  }
+
+  const value = parseFloat(cleaned);
+  return isNegative ? -value : value;
+}
+
+/**
+ * Extract reporting years from a header row cell
+ * Handles "На 31 декабря 2023 г.", "За Январь - Декабрь 2023 г.", "31.12.2023", "2023"
+ */
+function extractYearFromCell(cell: unknown): number | null {
+  if (cell === null || cell === undefined) return null;
+  const match = String(cell).match(/\b(20\d{2})\b/);
+  if (!match) return null;
+  const year = parseInt(match[1]);
+  return year >= 2015 && year <= 2030 ? year : null;
+}
+
+/**
+ * Layout of a sheet with a standard РСБУ form:
+ * | Пояснения | Наименование показателя | Код | 2023 | 2022 | 2021 |
+ */
+interface CodedSheetLayout {
+  codeColumn: number;
+  firstDataRow: number;
+  periodColumns: number[]; // Ordered from the most recent period
+  periodYears: (number | null)[]; // Year for each period column (null if not found in headers)
+}
+
+/**
+ * Locate the line-code column and the period columns of a sheet
+ * Returns null if the sheet does not contain line codes (1110…2400)
+ */
+function detectCodedSheetLayout(rows: any[][]): CodedSheetLayout | null {
+  const isLineCode = (cell: unknown) => {
+    if (cell === null || cell === undefined) return false;
+    const text = String(cell).trim();
+    return /^\d{4}$/.test(text) && codeToFieldMap.has(text);
+  };
+
+  // Count known line codes per column - the code column has the most of them
+  const codeCounts = new Map<number, number>();
+  let firstDataRow = -1;
+  rows.forEach((row, rowIndex) => {
+    if (!row) return;
+    row.forEach((cell, colIndex) => {
+      if (isLineCode(cell)) {
+        codeCounts.set(colIndex, (codeCounts.get(colIndex) || 0) + 1);
+        if (firstDataRow === -1) firstDataRow = rowIndex;
+      }
+    });
+  });
+
+  let codeColumn = -1;
+  let maxCount = 0;
+  codeCounts.forEach((count, colIndex) => {
+    if (count > maxCount) {
+      maxCount = count;
+      codeColumn = colIndex;
+    }
+  });
+
+  // Require several codes to avoid mistaking a stray number for a code column
+  if (codeColumn === -1 || maxCount < 3) {
+    return null;
+  }
+
+  // Header rows: from the "Код" header cell (if any) down to the first data row
+  let headerStart = Math.max(0, firstDataRow - 3);
+  for (let i = firstDataRow - 1; i >= Math.max(0, firstDataRow - 10); i--) {
+    const cell = rows[i]?.[codeColumn];
+    if (cell !== null && cell !== undefined && normalizeKey(String(cell)).startsWith("код")) {
+      headerStart = i;
+      break;
+    }
+  }
+
+  // Period columns are to the right of the code column; years come from header cells
+  const yearByColumn = new Map<number, number>();
+  for (let i = headerStart; i < firstDataRow; i++) {
+    const row = rows[i];
+    if (!row) continue;
+    row.forEach((cell, colIndex) => {
+      if (colIndex <= codeColumn || yearByColumn.has(colIndex)) return;
+      const year = extractYearFromCell(cell);
+      if (year !== null) {
+        yearByColumn.set(colIndex, year);
+      }
+    });
+  }
+
+  let periodColumns: number[] = [];
+  let periodYears: (number | null)[] = [];
+
+  if (yearByColumn.size > 0) {
+    // One column per year (the first one wins), newest year first
+    const columnByYear = new Map<number, number>();
+    yearByColumn.forEach((year, colIndex) => {
+      const existing = columnByYear.get(year);
+      if (existing === undefined || colIndex < existing) {
+        columnByYear.set(year, colIndex);
+      }
+    });
+    const years = Array.from(columnByYear.keys()).sort((a, b) => b - a).slice(0, 3);
+    periodColumns = years.map(year => columnByYear.get(year)!);
+    periodYears = years;
+  } else {
+    // No dated headers: take up to 3 numeric columns right after the code column
+    const width = Math.max(...rows.slice(firstDataRow).map(row => (row ? row.length : 0)));
+    for (let colIndex = codeColumn + 1; colIndex < width && periodColumns.length < 3; colIndex++) {
+      const hasNumbers = rows.slice(firstDataRow).some(row => row && isLineCode(row[codeColumn]) && parseCellValue(row[colIndex]) !== null);
+      if (hasNumbers) {
+        periodColumns.push(colIndex);
+        periodYears.push(null);
+      }
+    }
+  }
+
+  if (periodColumns.length === 0) {
+    return null;
+  }
+
+  return { codeColumn, firstDataRow, periodColumns, periodYears };
+}
+
+/**
+ * Extract the statement of changes in equity (Form 3) from a sheet
+ * Section 1 has one column per capital component and the "Итого" column last, so the last numeric
+ * cell of a row is taken; line 3600 (net assets) has date columns and the first value is taken
+ */
+function parseEquityStatementRows(rows: any[][]): Record<string, number> {
+  const isEquityCode = (cell: unknown) =>
+    cell !== null && cell !== undefined && equityStatementCodes.has(String(cell).trim());
+
+  // Find the code column the same way as for Form 1/2: the column with the most known codes
+  const codeCounts = new Map<number, number>();
+  rows.forEach(row => {
+    row?.forEach((cell, colIndex) => {
+      if (isEquityCode(cell)) {
+        codeCounts.set(colIndex, (codeCounts.get(colIndex) || 0) + 1);
+      }
+    });
+  });
+
+  let codeColumn = -1;
+  let maxCount = 0;
+  codeCounts.forEach((count, colIndex) => {
+    if (count > maxCount) {
+      maxCount = count;
+      codeColumn = colIndex;
+    }
+  });
+
+  const lines: Record<string, number> = {};
+  if (codeColumn === -1 || maxCount < 3) {
+    return lines;
+  }
+
+  rows.forEach(row => {
+    if (!row || !isEquityCode(row[codeColumn])) return;
+    const code = String(row[codeColumn]).trim();
+    if (lines[code] !== undefined) return;
+
+    const values = row.slice(codeColumn + 1)
+      .map(cell => parseCellValue(cell))
+      .filter((value): value is number => value !== null);
+    if (values.length > 0) {
+      lines[code] = code === '3600' ? values[0] : values[values.length - 1];
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Find reporting years in the first rows of a sheet without line codes
+ * Common patterns: "На 31 декабря 2023 г.", "на 31.12.2023", "2023"
+ */
+function parseYearsFromHeaders(jsonData: any[][]): number[] {
+  const parsedYears: number[] = [];
+
+  for (let i = 0; i < Math.min(jsonData.length, 20); i++) {
+    const row = jsonData[i];
+    if (!row) continue;
+    
+    // Check each cell in the row for year patterns
+    const rowText = row.map(String).join(' ');
+    
+    // Pattern for "На 31 декабря 2023 г." or similar
+    const datePattern = /(?:на\s+)?(?:31|30)[\s.]?(?:декабря|12)[\s.]?(20\d{2})/gi;
+    const years: number[] = [];
+    let match: RegExpExecArray | null;
+    
+    while ((match = datePattern.exec(rowText)) !== null) {
+      const year = parseInt(match[1]);
+      if (year >= 2015 && year <= 2030 && !years.includes(year)) {
+        years.push(year);
+      }
+    }
+    
+    if (years.length >= 2) {
+      years.sort((a, b) => b - a);
+      parsedYears.push(...years);
+      console.log(`Found years from Excel headers: ${years.join(', ')}`);
+      break;
+    }
+    
+    // Try simple year pattern
+    if (parsedYears.length === 0) {
+      const yearMatches = rowText.match(/\b(20\d{2})\b/g);
+      if (yearMatches && yearMatches.length >= 2) {
+        const simpleYears = yearMatches
+          .map(m => parseInt(m))
+          .filter((y, idx, arr) => arr.indexOf(y) === idx)
+          .filter(y => y >= 2015 && y <= 2030)
+          .sort((a, b) => b - a);
+        
+        if (simpleYears.length >= 2) {
+          parsedYears.push(...simpleYears);
+          console.log(`Found years from Excel column headers: ${simpleYears.join(', ')}`);
+          break;
+        }
+      }
+    }
+  }
+
+  return parsedYears;
+}
+
+// Organization details are above the statements (ГИР БО: a separate "Сведения об организации" sheet)
+const HEADER_ROW_LIMIT = 40;
+
+/**
+ * Header cells of every sheet as text lines, row by row: a label cell is followed by its value
+ * cell ("ИНН" then "4703124060"), the same order as the lines of a DOCX export
+ */
+function getHeaderLines(sheets: { rows: any[][] }[]): string[] {
+  return sheets.flatMap(sheet => sheet.rows
+    .slice(0, HEADER_ROW_LIMIT)
+    .flatMap(row => (row ?? []).map(cell => String(cell ?? "").trim()).filter(text => text)));
+}
+
 /**
  * Parse an Excel file and extract financial data
- * Expects the Excel file to have specific row structure with financial items
+ * Supports two workbook layouts:
+ * 1. Standard РСБУ forms (Форма 1/Форма 2, possibly on separate sheets) with a "Код" column
+ *    and up to three period columns - values are detected by line code, years by header dates
+ * 2. Simple two-column format: [Item Name, Value]
  */
 export function parseExcelFile(buffer: Buffer): FinancialData {
   try {
     // Read the Excel file from buffer
     const workbook = XLSX.read(buffer, { type: "buffer" });
 
-    // Get the first sheet
-    const sheetName = workbook.SheetNames[0];
-    if (!sheetName) {
+    if (workbook.SheetNames.length === 0) {
       throw new Error("Excel файл не содержит листов");
     }
 
-    const worksheet = workbook.Sheets[sheetName];
-
-    // Convert sheet to JSON
-    const jsonData: any[] = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
+    // Convert every sheet to rows of cells
+    const sheets = workbook.SheetNames.map(name => ({
+      name,
+      rows: XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[name], { header: 1, defval: null }),
+    }));
 
-    if (!jsonData || jsonData.length < 2) {
+    if (!sheets.some(sheet => sheet.rows.length >= 2)) {
       throw new Error("Excel файл содержит недостаточно данных");
     }
 
-    // Parse the data based on expected structure
-    // This assumes a simple two-column format: [Item Name, Value]
+    // dataMap stores the most recent period, yearMaps store all periods (same as document parser)
     const dataMap = new Map<string, number>();
+    const yearMaps = [
+      new Map<string, number>(), // Year 1 (most recent)
+      new Map<string, number>(), // Year 2
+      new Map<string, number>(), // Year 3
+    ];
     const foundKeys: string[] = []; // Track what keys we found for better error messages
 
-    for (let i = 0; i < jsonData.length; i++) {
-      const row = jsonData[i];
-      if (row && row.length >= 2) {
-        const rawKey = String(row[0]).trim();
-        const key = normalizeKey(rawKey);
-        const value = parseFloat(row[1]);
+    // Strategy 1: Standard forms with line codes on any sheet
+    const codedSheets = sheets
+      .map(sheet => ({ ...sheet, layout: detectCodedSheetLayout(sheet.rows) }))
+      .filter(sheet => sheet.layout !== null);
 
-        if (key && !isNaN(value)) {
-          dataMap.set(key, value);
-          foundKeys.push(rawKey);
+    // Align periods across sheets by year (balance sheet has 3 dates, P&L only 2)
+    const allYears = codedSheets
+      .flatMap(sheet => sheet.layout!.periodYears)
+      .filter((year): year is number => year !== null)
+      .filter((year, idx, arr) => arr.indexOf(year) === idx)
+      .sort((a, b) => b - a)
+      .slice(0, 3);
+
+    for (const sheet of codedSheets) {
+      const layout = sheet.layout!;
+      console.log(`Лист "${sheet.name}": столбец кодов ${layout.codeColumn + 1}, периодов ${layout.periodColumns.length}${layout.periodYears[0] ? ` (${layout.periodYears.join(', ')})` : ''}`);
+
+      for (let i = layout.firstDataRow; i < sheet.rows.length; i++) {
+        const row = sheet.rows[i];
+        if (!row) continue;
+
+        const code = String(row[layout.codeColumn] ?? '').trim();
+        const fieldName = codeToFieldMap.get(code);
+        if (!fieldName) continue;
+
+        const normalizedKey = normalizeKey(fieldName);
+        // Same code-to-name rule as the document parser: the first occurrence wins
+        // (only 1600 and 1700 share a key, both hold the balance total)
+        if (dataMap.has(normalizedKey)) continue;
+
+        let hasValue = false;
+        layout.periodColumns.forEach((colIndex, periodIndex) => {
+          const value = parseCellValue(row[colIndex]);
+          if (value === null) return;
+
+          const year = layout.periodYears[periodIndex];
+          const yearIndex = year !== null && allYears.includes(year) ? allYears.indexOf(year) : periodIndex;
+          yearMaps[yearIndex].set(normalizedKey, value);
+          if (yearIndex === 0) {
+            dataMap.set(normalizedKey, value);
+          }
+          hasValue = true;
+        });
+
+        if (hasValue) {
+          foundKeys.push(`${fieldName} (код ${code})`);
         }
       }
     }
 
-    // Log found keys for debugging
-    console.log('Найдены следующие поля в Excel:', foundKeys);
+    let parsedYears: number[] = allYears;
 
-    // Parse years from Excel headers
-    // Common patterns: "На 31 декабря 2023 г.", "на 31.12.2023", "2023"
-    const parsedYears: number[] = [];
-    
-    for (let i = 0; i < Math.min(jsonData.length, 20); i++) {
-      const row = jsonData[i];
-      if (!row) continue;
-      
-      // Check each cell in the row for year patterns
-      const rowText = row.map(String).join(' ');
-      
-      // Pattern for "На 31 декабря 2023 г." or similar
-      const dateMatches = rowText.matchAll(/(?:на\s+)?(?:31|30)[\s.]?(?:декабря|12)[\s.]?(20\d{2})/gi);
-      const years: number[] = [];
-      
-      for (const match of dateMatches) {
-        const year = parseInt(match[1]);
-        if (year >= 2015 && year <= 2030 && !years.includes(year)) {
-          years.push(year);
+    // Form 3 (statement of changes in equity) may be on any sheet
+    const equityStatementLines: Record<string, number> = {};
+    for (const sheet of sheets) {
+      const sheetLines = parseEquityStatementRows(sheet.rows);
+      Object.keys(sheetLines).forEach(code => {
+        if (equityStatementLines[code] === undefined) {
+          equityStatementLines[code] = sheetLines[code];
         }
-      }
-      
-      if (years.length >= 2) {
-        years.sort((a, b) => b - a);
-        parsedYears.push(...years);
-        console.log(`Found years from Excel headers: ${years.join(', ')}`);
-        break;
-      }
-      
-      // Try simple year pattern
-      if (parsedYears.length === 0) {
-        const yearMatches = rowText.match(/\b(20\d{2})\b/g);
-        if (yearMatches && yearMatches.length >= 2) {
-          const simpleYears = [...new Set(yearMatches.map(m => parseInt(m)))]
-            .filter(y => y >= 2015 && y <= 2030)
-            .sort((a, b) => b - a);
-          
-          if (simpleYears.length >= 2) {
-            parsedYears.push(...simpleYears);
-            console.log(`Found years from Excel column headers: ${simpleYears.join(', ')}`);
-            break;
+      });
+    }
+    if (Object.keys(equityStatementLines).length > 0) {
+      console.log(`Форма 3: найдено ${Object.keys(equityStatementLines).length} строк движения капитала`);
+    }
+
+    // Strategy 2: Simple two-column format [Item Name, Value] on any sheet
+    if (foundKeys.length === 0) {
+      for (const sheet of sheets) {
+        for (const row of sheet.rows) {
+          if (row && row.length >= 2 && row[0] !== null) {
+            const rawKey = String(row[0]).trim();
+            const key = normalizeKey(rawKey);
+            const value = parseCellValue(row[1]);
+
+            if (key && value !== null) {
+              dataMap.set(key, value);
+              foundKeys.push(rawKey);
+            }
           }
         }
       }
+
+      parsedYears = parseYearsFromHeaders(sheets[0].rows);
     }
 
+    // Standard forms omit zero lines: a line missing from a coded sheet is 0, same as in the ФНС parser.
+    // Free-form tables still have to name every required item
+    const isCodedLayout = codedSheets.length > 0 && foundKeys.length > 0;
+
+    // Log found keys for debugging
+    console.log('Найдены следующие поля в Excel:', foundKeys);
+    console.log(`Yearly data maps: ${yearMaps.map((m, i) => `Year ${i + 1}: ${m.size} fields`).join(', ')}`);
+
     // Map the parsed data to our FinancialData structure
-    // Support multiple possible naming conventions
+    // Support multiple possible naming conventions (line-code keys from reporting-codes first)
+    // Company details from the header cells (same rules as for document text)
+    const headerLines = getHeaderLines(sheets);
+    const okved = findOkvedCode(headerLines);
+    const companyName = findCompanyName(headerLines);
+    const { inn, ogrn } = findCompanyIdentifiers(headerLines);
+    if (okved || companyName || inn || ogrn) {
+      console.log(`Found company details: ${[companyName, inn && `ИНН ${inn}`, ogrn && `ОГРН ${ogrn}`, okved && `ОКВЭД ${okved}`].filter(Boolean).join(', ')}`);
+    }
+
     const financialData: FinancialData = {
-      parsedYears: parsedYears.length > 0 ? parsedYears : undefined,
+      okved,
+      companyName,
+      inn,
+      ogrn,
       currentAssets: findValue(dataMap, foundKeys, [
+        "итого по разделу ii",
         "оборотные активы",
         "оборотные активы всего",
         "current assets",
         "текущие активы",
-        "ii оборотные активы",
-        "итого по разделу ii"
+        "ii оборотные активы"
       ]),
       cashAndEquivalents: findValue(dataMap, foundKeys, [
-        "денежные средства",
         "денежные средства и денежные эквиваленты",
+        "денежные средства",
         "cash and equivalents",
         "денежные средства и эквиваленты",
         "cash",
         "деньги"
-      ]),
+      ], isCodedLayout),
       shortTermInvestments: findValue(dataMap, foundKeys, [
+        "финансовые вложения исключая денежные эквиваленты",
         "краткосрочные инвестиции",
         "краткосрочные финансовые вложения",
         "short term investments",
         "финансовые вложения",
         "кфв"
-      ]),
+      ], isCodedLayout),
       accountsReceivable: findValue(dataMap, foundKeys, [
         "дебиторская задолженность",
         "accounts receivable",
         "дебиторы",
         "дебиторка"
-      ]),
+      ], isCodedLayout),
       inventory: findValue(dataMap, foundKeys, [
         "запасы",
         "inventory",
         "товарно материальные запасы",
         "товарноматериальные запасы",
         "тмз"
-      ]),
+      ], isCodedLayout),
       totalAssets: findValue(dataMap, foundKeys, [
+        "баланс",
         "всего активов",
         "активы всего",
         "total assets",
         "активы",
-        "баланс",
         "итого активов"
       ]),
       currentLiabilities: findValue(dataMap, foundKeys, [
+        "итого по разделу v",
         "краткосрочные обязательства",
         "краткосрочные обязательства всего",
         "current liabilities",
         "текущие обязательства",
-        "v краткосрочные обязательства",
-        "итого по разделу v"
-      ]),
+        "v краткосрочные обязательства"
+      ], isCodedLayout),
       shortTermDebt: findValue(dataMap, foundKeys, [
+        "заемные средства краткосрочные",
         "краткосрочный долг",
         "краткосрочные займы",
         "short term debt",
         "краткосрочные кредиты",
-        "займы и кредиты"
-      ]),
+        "займы и кредиты",
+        "заемные средства"
+      ], isCodedLayout),
       totalLiabilities: findValue(dataMap, foundKeys, [
         "всего обязательств",
         "обязательства всего",
@@ -175,29 +500,34 @@ export function parseExcelFile(buffer: Buffer): FinancialData {
         "обязательства",
         "пассивы",
         "итого обязательств"
-      ]),
+      ], true),
       equity: findValue(dataMap, foundKeys, [
+        "итого по разделу iii",
         "собственный капитал",
         "капитал и резервы",
         "equity",
         "капитал",
         "собственные средства",
-        "iii капитал и резервы",
-        "итого по разделу iii"
+        "iii капитал и резервы"
       ]),
       longTermDebt: findValue(dataMap, foundKeys, [
+        "итого по разделу iv",
         "долгосрочный долг",
         "долгосрочные займы",
         "long term debt",
         "долгосрочные обязательства",
         "долгосрочные кредиты"
-      ]),
+      ], isCodedLayout),
       revenue: findValue(dataMap, foundKeys, [
         "выручка",
         "revenue",
         "доход",
         "выручка от продаж"
       ], true),
+      costOfSales: lookupValue(dataMap, [
+        "себестоимость продаж",
+        "cost of sales"
+      ]),
       netIncome: findValue(dataMap, foundKeys, [
         "чистая прибыль",
         "чистая прибыль убыток",
@@ -206,6 +536,7 @@ export function parseExcelFile(buffer: Buffer): FinancialData {
         "чп"
       ], true),
       operatingIncome: findValue(dataMap, foundKeys, [
+        "прибыль убыток от продаж",
         "операционная прибыль",
         "operating income",
         "прибыль от продаж",
@@ -221,12 +552,184 @@ export function parseExcelFile(buffer: Buffer): FinancialData {
         "прибыль до налогообложения",
         "profit before tax"
       ], true),
+      interestExpense: lookupValue(dataMap, [
+        "проценты к уплате",
+        "interest expense"
+      ]),
+      // Depreciation is only disclosed in the notes (costs by elements, 5640)
+      depreciation: lookupValue(dataMap, [
+        "амортизация",
+        "depreciation and amortization",
+        "depreciation"
+      ]),
+      // Cash flow statement (Form 4) - undefined when the workbook has no Form 4 sheet
+      operatingCashFlow: lookupValue(dataMap, [
+        "сальдо денежных потоков от текущих операций",
+        "денежные потоки от текущих операций",
+        "operating cash flow"
+      ]),
+      investingCashFlow: lookupValue(dataMap, [
+        "сальдо денежных потоков от инвестиционных операций",
+        "денежные потоки от инвестиционных операций",
+        "investing cash flow"
+      ]),
+      financingCashFlow: lookupValue(dataMap, [
+        "сальдо денежных потоков от финансовых операций",
+        "денежные потоки от финансовых операций",
+        "financing cash flow"
+      ]),
+      netCashFlow: lookupValue(dataMap, [
+        "сальдо денежных потоков за отчетный период",
+        "сальдо денежных потоков за отчетный год",
+        "net cash flow"
+      ]),
+      capitalExpenditures: lookupValue(dataMap, [
+        "в связи с приобретением созданием модернизацией реконструкцией и подготовкой к использованию внеоборотных активов",
+        "приобретение внеоборотных активов",
+        "capital expenditures",
+        "capex"
+      ]),
+      // Section I - Non-current assets details
+      intangibleAssets: findValue(dataMap, foundKeys, [
+        "нематериальные активы",
+        "intangible assets",
+        "нма"
+      ], true),
+      rdResults: findValue(dataMap, foundKeys, [
+        "результаты исследований и разработок",
+        "research and development results",
+        "ниокр"
+      ], true),
+      intangibleExplorationAssets: findValue(dataMap, foundKeys, [
+        "нематериальные поисковые активы",
+        "intangible exploration assets"
+      ], true),
+      tangibleExplorationAssets: findValue(dataMap, foundKeys, [
+        "материальные поисковые активы",
+        "tangible exploration assets"
+      ], true),
+      fixedAssets: findValue(dataMap, foundKeys, [
+        "основные средства",
+        "fixed assets",
+        "ос"
+      ], true),
+      profitableInvestmentsInTangibleAssets: findValue(dataMap, foundKeys, [
+        "доходные вложения в материальные ценности",
+        "profitable investments in tangible assets"
+      ], true),
+      financialInvestments: findValue(dataMap, foundKeys, [
+        "финансовые вложения",
+        "financial investments",
+        "долгосрочные финансовые вложения"
+      ], true),
+      deferredTaxAssets: findValue(dataMap, foundKeys, [
+        "отложенные налоговые активы",
+        "deferred tax assets",
+        "она"
+      ], true),
+      otherNonCurrentAssets: findValue(dataMap, foundKeys, [
+        "прочие внеоборотные активы",
+        "other non current assets"
+      ], true),
+      // Section II - Current assets details
+      otherCurrentAssets: findValue(dataMap, foundKeys, [
+        "прочие оборотные активы",
+        "other current assets"
+      ], true),
+      // Section III - Capital and reserves details
+      authorizedCapital: findValue(dataMap, foundKeys, [
+        "уставный капитал складочный капитал уставный фонд вклады товарищей",
+        "уставный капитал",
+        "authorized capital"
+      ], true),
+      retainedEarnings: findValue(dataMap, foundKeys, [
+        "нераспределенная прибыль непокрытый убыток",
+        "нераспределенная прибыль",
+        "retained earnings"
+      ], true),
+      revaluationReserve: findValue(dataMap, foundKeys, [
+        "переоценка внеоборотных активов",
+        "revaluation reserve"
+      ], true),
+      additionalCapital: findValue(dataMap, foundKeys, [
+        "добавочный капитал без переоценки",
+        "добавочный капитал",
+        "additional capital"
+      ], true),
+      // Section IV - Long-term liabilities details
+      // Undefined when 1410 is not itemized - the section IV total is used instead
+      borrowedFundsLongTerm: lookupValue(dataMap, [
+        "заемные средства долгосрочные",
+        "long term borrowed funds"
+      ]),
+      deferredTaxLiabilities: findValue(dataMap, foundKeys, [
+        "отложенные налоговые обязательства",
+        "deferred tax liabilities",
+        "оно"
+      ], true),
+      estimatedLiabilities: findValue(dataMap, foundKeys, [
+        "оценочные обязательства",
+        "estimated liabilities"
+      ], true),
+      otherLongTermLiabilities: findValue(dataMap, foundKeys, [
+        "прочие долгосрочные обязательства",
+        "прочие обязательства",
+        "other long term liabilities"
+      ], true),
+      // Section V - Current liabilities details
+      accountsPayable: findValue(dataMap, foundKeys, [
+        "кредиторская задолженность",
+        "accounts payable",
+        "кредиторы"
+      ], true),
+      deferredIncome: findValue(dataMap, foundKeys, [
+        "доходы будущих периодов",
+        "deferred income"
+      ], true),
+      estimatedLiabilitiesShortTerm: findValue(dataMap, foundKeys, [
+        "оценочные обязательства краткосрочные",
+        "short term estimated liabilities"
+      ], true),
+      otherCurrentLiabilities: findValue(dataMap, foundKeys, [
+        "прочие краткосрочные обязательства",
+        "other current liabilities"
+      ], true),
     };
 
+    if (Object.keys(equityStatementLines).length > 0) {
+      financialData.equityStatementLines = equityStatementLines;
+    }
+
+    // Cost of sales and Form 4 payments are shown in parentheses - store them as positive amounts
+    if (financialData.costOfSales !== undefined) {
+      financialData.costOfSales = Math.abs(financialData.costOfSales);
+    }
+    if (financialData.interestExpense !== undefined) {
+      financialData.interestExpense = Math.abs(financialData.interestExpense);
+    }
+    if (financialData.depreciation !== undefined) {
+      financialData.depreciation = Math.abs(financialData.depreciation);
+    }
+    if (financialData.capitalExpenditures !== undefined) {
+      financialData.capitalExpenditures = Math.abs(financialData.capitalExpenditures);
+    }
+
+    // Standard forms have no "total liabilities" line - derive it from sections IV + V
+    if (financialData.totalLiabilities === 0) {
+      financialData.totalLiabilities = financialData.longTermDebt + financialData.currentLiabilities;
+    }
+
     // Validate the parsed data using Zod schema
     const validatedData = financialDataSchema.parse(financialData);
 
-    return validatedData;
+    // Multi-year data is not part of the Zod schema - attach it after validation
+    return {
+      ...validatedData,
+      yearlyData: yearMaps.slice(1).filter(m => m.size > 0),
+      reportingYearData: dataMap,
+      codedLayout: codedSheets.length > 0,
+      parsedYears: parsedYears.length > 0 ? parsedYears : undefined,
+    };
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Ошибка парсинга Excel файла: ${error.message}`);
@@ -245,6 +748,31 @@ function findValue(
   possibleKeys: string[],
   optional: boolean = false
 ): number {
+  const value = lookupValue(dataMap, possibleKeys);
+  if (value !== undefined) {
+    return value;
+  }
+
+  if (optional) {
+    return 0;
+  }
+
+  // Provide helpful error message with what was found
+  const errorMsg = `Не найдено обязательное поле: "${possibleKeys[0]}". 
+Попробуйте использовать одно из этих названий: ${possibleKeys.slice(0, 3).join(', ')}.
+Найденные поля в файле: ${foundKeys.slice(0, 10).join(', ')}${foundKeys.length > 10 ? '...' : ''}`;
+
+  throw new Error(errorMsg);
+}
+
+/**
+ * Look up a value by possible key names without failing when it is absent
+ * Returns undefined for missing lines, so optional statements (Form 4) stay undefined instead of 0
+ */
+function lookupValue(
+  dataMap: Map<string, number>,
+  possibleKeys: string[]
+): number | undefined {
   // First try exact matches
   for (const key of possibleKeys) {
     const normalizedKey = normalizeKey(key);
@@ -258,8 +786,9 @@ function findValue(
     const normalizedSearchKey = normalizeKey(key);
     const words = normalizedSearchKey.split(' ');
 
-    // Look for keys that contain all the words from our search term
+    // Look for keys that contain all the words from our search term (line-code keys only match exactly)
     for (const [mapKey, value] of dataMap.entries()) {
+      if (codedLineKeys.has(mapKey)) continue;
       const allWordsPresent = words.every(word => 
         word.length > 2 && mapKey.includes(word)
       );
@@ -271,16 +800,7 @@ function findValue(
     }
   }
 
-  if (optional) {
-    return 0;
-  }
-
-  // Provide helpful error message with what was found
-  const errorMsg = `Не найдено обязательное поле: "${possibleKeys[0]}". 
-Попробуйте использовать одно из этих названий: ${possibleKeys.slice(0, 3).join(', ')}.
-Найденные поля в файле: ${foundKeys.slice(0, 10).join(', ')}${foundKeys.length > 10 ? '...' : ''}`;
-
-  throw new Error(errorMsg);
+  return undefined;
 }
 
 /**
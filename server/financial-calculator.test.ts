@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as XLSX from "xlsx";
+import { parseExcelFile } from "./excel-parser";
+import { calculateFinancialRatios, evaluateRatios, validateAndNormalizeFinancialData } from "./financial-calculator";
+
+// Balance sheet and income statement in the standard form layout (name, code, reporting year)
+function buildStatementWorkbook(lines: [string, string, number][]): Buffer {
+  const rows = [
+    ["Наименование показателя", "Код", "На 31 декабря 2024 г."],
+    ...lines,
+  ];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), "Баланс");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+describe("debt service ratios", () => {
+  // Borrowings in both sections: 1410 = 400 long-term, 1510 = 100 short-term
+  const workbook = buildStatementWorkbook([
+    ["Основные средства", "1150", 900],
+    ["Итого по разделу I", "1100", 900],
+    ["Запасы", "1210", 200],
+    ["Дебиторская задолженность", "1230", 150],
+    ["Денежные средства и денежные эквиваленты", "1250", 50],
+    ["Итого по разделу II", "1200", 400],
+    ["БАЛАНС", "1600", 1300],
+    ["Уставный капитал", "1310", 10],
+    ["Итого по разделу III", "1300", 600],
+    ["Заемные средства", "1410", 400],
+    ["Итого по разделу IV", "1400", 400],
+    ["Заемные средства", "1510", 100],
+    ["Кредиторская задолженность", "1520", 200],
+    ["Итого по разделу V", "1500", 300],
+    ["Выручка", "2110", 2000],
+    ["Себестоимость продаж", "2120", -1500],
+    ["Валовая прибыль (убыток)", "2100", 500],
+    ["Прибыль (убыток) от продаж", "2200", 300],
+    ["Проценты к уплате", "2330", -50],
+    ["Прибыль (убыток) до налогообложения", "2300", 200],
+    ["Чистая прибыль (убыток)", "2400", 160],
+  ]);
+
+  it("keeps short-term and long-term borrowings apart", () => {
+    const data = parseExcelFile(workbook);
+    assert.equal(data.shortTermDebt, 100);
+    assert.equal(data.borrowedFundsLongTerm, 400);
+    assert.equal(data.longTermDebt, 400);
+    assert.equal(data.interestExpense, 50);
+  });
+
+  it("calculates net debt, EBITDA and DSCR from 1410 and 1510", () => {
+    const ratios = calculateFinancialRatios(validateAndNormalizeFinancialData(parseExcelFile(workbook)));
+
+    assert.equal(ratios.ebitda, 250); // 2300 + 2330
+    assert.equal(ratios.netDebt, 450); // 1410 + 1510 - 1250
+    assert.equal(ratios.netDebtToEbitda, 1.8);
+    assert.equal(ratios.interestCoverage, 5);
+    assert.equal(ratios.debtServiceCoverage?.toFixed(3), "1.667"); // 250 / (50 + 100)
+  });
+
+  it("rates the ratios against the default benchmark profile", () => {
+    const evaluated = evaluateRatios(calculateFinancialRatios(validateAndNormalizeFinancialData(parseExcelFile(workbook))));
+
+    assert.equal(evaluated.netDebtToEbitda?.status, "good");
+    assert.equal(evaluated.interestCoverage?.status, "excellent");
+    assert.equal(evaluated.debtServiceCoverage?.status, "excellent");
+  });
+});
+
+describe("borrowed funds", () => {
+  // Section IV holds only deferred tax liabilities: 1410 is reported as 0
+  const workbook = buildStatementWorkbook([
+    ["Основные средства", "1150", 900],
+    ["Итого по разделу I", "1100", 900],
+    ["Запасы", "1210", 200],
+    ["Дебиторская задолженность", "1230", 150],
+    ["Денежные средства и денежные эквиваленты", "1250", 50],
+    ["Итого по разделу II", "1200", 400],
+    ["БАЛАНС", "1600", 1300],
+    ["Итого по разделу III", "1300", 600],
+    ["Заемные средства", "1410", 0],
+    ["Отложенные налоговые обязательства", "1420", 400],
+    ["Итого по разделу IV", "1400", 400],
+    ["Заемные средства", "1510", 100],
+    ["Кредиторская задолженность", "1520", 200],
+    ["Итого по разделу V", "1500", 300],
+    ["Выручка", "2110", 2000],
+    ["Прибыль (убыток) до налогообложения", "2300", 200],
+    ["Чистая прибыль (убыток)", "2400", 160],
+  ]);
+
+  it("does not replace a reported 1410 of 0 with the section IV total", () => {
+    const data = parseExcelFile(workbook);
+    assert.equal(data.borrowedFundsLongTerm, 0);
+
+    const ratios = calculateFinancialRatios(validateAndNormalizeFinancialData(data));
+    assert.equal(ratios.netDebt, 50); // 1510 - 1250
+  });
+});
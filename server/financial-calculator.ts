@@ -1,4 +1,15 @@
-import type { FinancialData, FinancialRatios, RatioWithStatus, RatioStatus } from "@shared/schema";
+import type {
+  BenchmarkRatioKey,
+  FinancialData,
+  FinancialRatios,
+  FinancialStabilityAssessment,
+  FinancialStabilityType,
+  RatioStatus,
+  RatioThreshold,
+  RatioThresholds,
+  RatioWithStatus,
+} from "@shared/schema";
+import { DEFAULT_THRESHOLDS } from "./benchmarks";
 
 /**
  * Validate and normalize financial data to ensure accounting equation holds:
@@ -36,10 +47,49 @@ export function validateAndNormalizeFinancialData(data: FinancialData): Financia
   };
 }
 
+// Days in a year used for turnover periods (DSO, DIO, DPO)
+const DAYS_IN_YEAR = 365;
+
+export const FINANCIAL_STABILITY_LABELS: Record<FinancialStabilityType, string> = {
+  absolute: "Абсолютная финансовая устойчивость",
+  normal: "Нормальная финансовая устойчивость",
+  unstable: "Неустойчивое финансовое состояние",
+  crisis: "Кризисное финансовое состояние",
+};
+
+/**
+ * Type of financial stability by the three-component indicator S = (S1, S2, S3):
+ * whether inventory is covered by own working capital (СОС), by own and long-term sources (СДИ)
+ * and by all normal sources including short-term borrowings (ОИЗ).
+ * (1, 1, 1) - absolute, (0, 1, 1) - normal, (0, 0, 1) - unstable, (0, 0, 0) - crisis
+ */
+function assessFinancialStability(data: FinancialData, ownWorkingCapital: number): FinancialStabilityAssessment {
+  const inventory = data.inventory ?? 0;
+  const longTermSources = ownWorkingCapital + (data.longTermDebt ?? 0);
+  const totalSources = longTermSources + (data.shortTermDebt ?? 0);
+
+  const surpluses = [ownWorkingCapital, longTermSources, totalSources].map(source => source - inventory);
+  const indicator = surpluses.map(surplus => (surplus >= 0 ? 1 : 0));
+
+  // Sources are cumulative, so the first covered component determines the type
+  const type: FinancialStabilityType = indicator[0]
+    ? "absolute"
+    : indicator[1]
+      ? "normal"
+      : indicator[2]
+        ? "unstable"
+        : "crisis";
+
+  return { type, inventory, ownWorkingCapital, longTermSources, totalSources, surpluses, indicator };
+}
+
 /**
  * Calculate all financial ratios from the provided financial data
+ * @param data - Financial data for the period
+ * @param previousData - Data of the previous period (if available): activity ratios then use
+ *                       average balances (beginning + end of year) / 2 instead of year-end balances
  */
-export function calculateFinancialRatios(data: FinancialData): FinancialRatios {
+export function calculateFinancialRatios(data: FinancialData, previousData?: FinancialData): FinancialRatios {
   // Liquidity Ratios
   const currentRatio = data.currentLiabilities > 0 
     ? data.currentAssets / data.currentLiabilities 
@@ -73,11 +123,20 @@ export function calculateFinancialRatios(data: FinancialData): FinancialRatios {
   // Working Capital
   const workingCapital = data.currentAssets - data.currentLiabilities;
 
+  // Own working capital (СОС): equity left after financing non-current assets
+  const ownWorkingCapital = data.equity - (data.totalAssets - data.currentAssets);
+
+  const workingCapitalSufficiency = data.currentAssets > 0
+    ? ownWorkingCapital / data.currentAssets
+    : undefined;
+
   // Equity Maneuverability (optional)
   const equityManeuverability = data.equity > 0
-    ? (data.equity - (data.totalAssets - data.currentAssets)) / data.equity
+    ? ownWorkingCapital / data.equity
     : undefined;
 
+  const financialStability = assessFinancialStability(data, ownWorkingCapital);
+
   // Profitability Ratios (if income statement data is available)
   const roa = data.netIncome !== undefined && data.totalAssets > 0
     ? data.netIncome / data.totalAssets
@@ -103,6 +162,80 @@ export function calculateFinancialRatios(data: FinancialData): FinancialRatios {
     ? data.netIncome / data.revenue
     : undefined;
 
+  // Activity Ratios (if revenue is available)
+  const average = (current: number | undefined, previous: number | undefined): number | undefined => {
+    if (current === undefined) return undefined;
+    return previous !== undefined ? (current + previous) / 2 : current;
+  };
+  const turnover = (flow: number | undefined, balance: number | undefined): number | undefined =>
+    flow !== undefined && flow > 0 && balance !== undefined && balance > 0 ? flow / balance : undefined;
+  const days = (turnoverRatio: number | undefined): number | undefined =>
+    turnoverRatio !== undefined ? DAYS_IN_YEAR / turnoverRatio : undefined;
+
+  // Inventory and payables are turned over at cost; fall back to revenue when cost of sales is not reported
+  const costBase = data.costOfSales !== undefined && data.costOfSales > 0 ? data.costOfSales : data.revenue;
+
+  const assetTurnover = turnover(data.revenue, average(data.totalAssets, previousData?.totalAssets));
+  const receivablesTurnover = turnover(data.revenue, average(data.accountsReceivable, previousData?.accountsReceivable));
+  const inventoryTurnover = turnover(costBase, average(data.inventory, previousData?.inventory));
+  const payablesTurnover = turnover(costBase, average(data.accountsPayable, previousData?.accountsPayable));
+
+  const daysSalesOutstanding = days(receivablesTurnover);
+  const daysInventoryOutstanding = days(inventoryTurnover);
+  const daysPayablesOutstanding = days(payablesTurnover);
+
+  // A company without inventory (services) has a zero inventory period, not a missing one
+  const cashConversionCycle = daysSalesOutstanding !== undefined && daysPayablesOutstanding !== undefined && costBase !== undefined && costBase > 0
+    ? daysSalesOutstanding + (daysInventoryOutstanding ?? 0) - daysPayablesOutstanding
+    : undefined;
+
+  // Cash Flow Ratios (if cash flow statement data is available)
+  const operatingCashFlowRatio = data.operatingCashFlow !== undefined && data.currentLiabilities > 0
+    ? data.operatingCashFlow / data.currentLiabilities
+    : undefined;
+
+  const freeCashFlow = data.operatingCashFlow !== undefined
+    ? data.operatingCashFlow - (data.capitalExpenditures ?? 0)
+    : undefined;
+
+  // Borrowed funds: short-term (1510) + long-term (1410, or section IV total if not itemized)
+  const borrowedFunds = data.shortTermDebt + (data.borrowedFundsLongTerm ?? data.longTermDebt);
+  const cashDebtCoverage = data.operatingCashFlow !== undefined && borrowedFunds > 0
+    ? data.operatingCashFlow / borrowedFunds
+    : undefined;
+
+  // Only meaningful for a profitable year - the ratio flips sign with a loss
+  const qualityOfEarnings = data.operatingCashFlow !== undefined && data.netIncome !== undefined && data.netIncome > 0
+    ? data.operatingCashFlow / data.netIncome
+    : undefined;
+
+  // Debt service: EBIT = profit before tax (2300) + interest payable (2330),
+  // EBITDA adds depreciation when the notes (5640) are available
+  const interest = data.interestExpense ?? 0;
+  const ebit = data.profitBeforeTax !== undefined
+    ? data.profitBeforeTax + interest
+    : undefined;
+  const ebitda = ebit !== undefined
+    ? ebit + (data.depreciation ?? 0)
+    : undefined;
+
+  const netDebt = borrowedFunds - data.cashAndEquivalents - data.shortTermInvestments;
+
+  // A negative EBITDA makes the multiple meaningless
+  const netDebtToEbitda = ebitda !== undefined && ebitda > 0
+    ? netDebt / ebitda
+    : undefined;
+
+  const interestCoverage = ebit !== undefined && interest > 0
+    ? ebit / interest
+    : undefined;
+
+  // Debt service for the coming year: interest plus short-term borrowings due for repayment
+  const debtService = interest + data.shortTermDebt;
+  const debtServiceCoverage = ebitda !== undefined && debtService > 0
+    ? ebitda / debtService
+    : undefined;
+
   return {
     currentRatio,
     quickRatio,
@@ -112,20 +245,43 @@ export function calculateFinancialRatios(data: FinancialData): FinancialRatios {
     debtRatio,
     financialLeverageRatio,
     workingCapital,
+    ownWorkingCapital,
+    workingCapitalSufficiency,
     equityManeuverability,
+    financialStability,
     roa,
     roe,
     ros,
     grossProfitMargin,
     operatingProfitMargin,
     netProfitMargin,
+    assetTurnover,
+    receivablesTurnover,
+    inventoryTurnover,
+    payablesTurnover,
+    daysSalesOutstanding,
+    daysInventoryOutstanding,
+    daysPayablesOutstanding,
+    cashConversionCycle,
+    operatingCashFlowRatio,
+    freeCashFlow,
+    cashDebtCoverage,
+    qualityOfEarnings,
+    ebit,
+    ebitda,
+    netDebt,
+    netDebtToEbitda,
+    interestCoverage,
+    debtServiceCoverage,
   };
 }
 
 /**
  * Evaluate the status of each ratio based on industry benchmarks
+ * @param thresholds - Thresholds of the benchmark profile selected for the company's OKVED
+ *                     (see resolveBenchmarkProfile); the default profile is used when not provided
  */
-export function evaluateRatios(ratios: FinancialRatios): {
+export function evaluateRatios(ratios: FinancialRatios, thresholds: RatioThresholds = DEFAULT_THRESHOLDS): {
   currentRatio: RatioWithStatus;
   quickRatio: RatioWithStatus;
   cashRatio: RatioWithStatus;
@@ -134,60 +290,77 @@ export function evaluateRatios(ratios: FinancialRatios): {
   debtRatio: RatioWithStatus;
   financialLeverageRatio: RatioWithStatus;
   workingCapital: RatioWithStatus;
+  ownWorkingCapital: RatioWithStatus;
+  workingCapitalSufficiency?: RatioWithStatus;
+  equityManeuverability?: RatioWithStatus;
   roa?: RatioWithStatus;
   roe?: RatioWithStatus;
   ros?: RatioWithStatus;
   grossProfitMargin?: RatioWithStatus;
   operatingProfitMargin?: RatioWithStatus;
   netProfitMargin?: RatioWithStatus;
+  assetTurnover?: RatioWithStatus;
+  receivablesTurnover?: RatioWithStatus;
+  inventoryTurnover?: RatioWithStatus;
+  payablesTurnover?: RatioWithStatus;
+  daysSalesOutstanding?: RatioWithStatus;
+  daysInventoryOutstanding?: RatioWithStatus;
+  daysPayablesOutstanding?: RatioWithStatus;
+  cashConversionCycle?: RatioWithStatus;
+  operatingCashFlowRatio?: RatioWithStatus;
+  freeCashFlow?: RatioWithStatus;
+  cashDebtCoverage?: RatioWithStatus;
+  qualityOfEarnings?: RatioWithStatus;
+  ebitda?: RatioWithStatus;
+  netDebtToEbitda?: RatioWithStatus;
+  interestCoverage?: RatioWithStatus;
+  debtServiceCoverage?: RatioWithStatus;
 } {
+  const rate = (key: BenchmarkRatioKey, value: number): Pick<RatioWithStatus, "status" | "benchmark"> => ({
+    status: getRatioStatus(value, thresholds[key], thresholds[key].reverse),
+    benchmark: formatBenchmark(key, thresholds[key]),
+  });
+
   return {
     currentRatio: {
       value: ratios.currentRatio,
-      status: getRatioStatus(ratios.currentRatio, { excellent: 2.5, good: 2.0, warning: 1.5 }),
-      benchmark: "≥ 2.0",
+      ...rate("currentRatio", ratios.currentRatio),
       description: "Способность покрыть краткосрочные обязательства оборотными активами",
       formula: "Кт.л. = ОА / КО"
     },
     quickRatio: {
       value: ratios.quickRatio,
-      status: getRatioStatus(ratios.quickRatio, { excellent: 1.5, good: 1.0, warning: 0.8 }),
-      benchmark: "≥ 1.0",
+      ...rate("quickRatio", ratios.quickRatio),
       description: "Способность покрыть обязательства ликвидными активами",
       formula: "Кб.л. = (ОА - Запасы) / КО"
     },
     cashRatio: {
       value: ratios.cashRatio,
-      status: getRatioStatus(ratios.cashRatio, { excellent: 0.5, good: 0.2, warning: 0.1 }),
-      benchmark: "≥ 0.2",
+      ...rate("cashRatio", ratios.cashRatio),
       description: "Способность погасить обязательства только за счет денежных средств",
       formula: "Ка.л. = (ДС + КФВ) / КО"
     },
     debtToEquityRatio: {
       value: ratios.debtToEquityRatio,
-      status: getRatioStatus(ratios.debtToEquityRatio, { excellent: 0.5, good: 1.0, warning: 1.5 }, true),
-      benchmark: "< 1.0",
+      ...rate("debtToEquityRatio", ratios.debtToEquityRatio),
       description: "Соотношение заемного капитала к собственному",
       formula: "Кз/с = Обязательства / СК"
     },
     equityRatio: {
       value: ratios.equityRatio,
-      status: getRatioStatus(ratios.equityRatio, { excellent: 0.6, good: 0.5, warning: 0.4 }),
-      benchmark: "≥ 0.5",
+      ...rate("equityRatio", ratios.equityRatio),
       description: "Доля собственного капитала в общей сумме активов",
       formula: "Кавт = СК / Активы"
     },
     debtRatio: {
       value: ratios.debtRatio,
-      status: getRatioStatus(ratios.debtRatio, { excellent: 0.4, good: 0.5, warning: 0.6 }, true),
-      benchmark: "< 0.5",
+      ...rate("debtRatio", ratios.debtRatio),
       description: "Доля заемных средств в общей структуре капитала",
       formula: "Кз = Обязательства / Активы"
     },
     financialLeverageRatio: {
       value: ratios.financialLeverageRatio,
-      status: getRatioStatus(ratios.financialLeverageRatio, { excellent: 1.5, good: 2.0, warning: 2.5 }, true),
-      benchmark: "< 2.0",
+      ...rate("financialLeverageRatio", ratios.financialLeverageRatio),
       description: "Отношение всех активов к собственному капиталу",
       formula: "Кф.р. = Активы / СК"
     },
@@ -198,11 +371,33 @@ export function evaluateRatios(ratios: FinancialRatios): {
       description: "Разница между оборотными активами и текущими обязательствами",
       formula: "СОК = ОА - КО"
     },
+    ownWorkingCapital: {
+      value: ratios.ownWorkingCapital,
+      status: ratios.ownWorkingCapital > 0 ? "good" : "critical",
+      benchmark: "> 0",
+      description: "Собственные оборотные средства - часть собственного капитала, вложенная в оборотные активы",
+      formula: "СОС = СК - ВА"
+    },
+    ...(ratios.workingCapitalSufficiency !== undefined && {
+      workingCapitalSufficiency: {
+        value: ratios.workingCapitalSufficiency,
+        ...rate("workingCapitalSufficiency", ratios.workingCapitalSufficiency),
+        description: "Обеспеченность собственными оборотными средствами - доля оборотных активов, сформированная за счет собственного капитала",
+        formula: "Косс = СОС / ОА"
+      }
+    }),
+    ...(ratios.equityManeuverability !== undefined && {
+      equityManeuverability: {
+        value: ratios.equityManeuverability,
+        ...rate("equityManeuverability", ratios.equityManeuverability),
+        description: "Маневренность собственного капитала - доля собственного капитала, вложенная в оборотные активы",
+        formula: "Км = СОС / СК"
+      }
+    }),
     ...(ratios.roa !== undefined && {
       roa: {
         value: ratios.roa,
-        status: getRatioStatus(ratios.roa, { excellent: 0.15, good: 0.10, warning: 0.05 }),
-        benchmark: "≥ 0.10",
+        ...rate("roa", ratios.roa),
         description: "Рентабельность активов - эффективность использования активов для генерации прибыли",
         formula: "ROA = Чистая прибыль / Активы"
       }
@@ -210,8 +405,7 @@ export function evaluateRatios(ratios: FinancialRatios): {
     ...(ratios.roe !== undefined && {
       roe: {
         value: ratios.roe,
-        status: getRatioStatus(ratios.roe, { excellent: 0.20, good: 0.15, warning: 0.10 }),
-        benchmark: "≥ 0.15",
+        ...rate("roe", ratios.roe),
         description: "Рентабельность собственного капитала - доход на инвестиции акционеров",
         formula: "ROE = Чистая прибыль / Собственный капитал"
       }
@@ -219,8 +413,7 @@ export function evaluateRatios(ratios: FinancialRatios): {
     ...(ratios.ros !== undefined && {
       ros: {
         value: ratios.ros,
-        status: getRatioStatus(ratios.ros, { excellent: 0.15, good: 0.10, warning: 0.05 }),
-        benchmark: "≥ 0.10",
+        ...rate("ros", ratios.ros),
         description: "Рентабельность продаж (по чистой прибыли) - доля чистой прибыли в выручке",
         formula: "ROS = Чистая прибыль / Выручка"
       }
@@ -228,8 +421,7 @@ export function evaluateRatios(ratios: FinancialRatios): {
     ...(ratios.grossProfitMargin !== undefined && {
       grossProfitMargin: {
         value: ratios.grossProfitMargin,
-        status: getRatioStatus(ratios.grossProfitMargin, { excellent: 0.40, good: 0.30, warning: 0.20 }),
-        benchmark: "≥ 0.30",
+        ...rate("grossProfitMargin", ratios.grossProfitMargin),
         description: "Рентабельность по валовой прибыли - доля валовой прибыли в выручке",
         formula: "GPM = Валовая прибыль / Выручка"
       }
@@ -237,8 +429,7 @@ export function evaluateRatios(ratios: FinancialRatios): {
     ...(ratios.operatingProfitMargin !== undefined && {
       operatingProfitMargin: {
         value: ratios.operatingProfitMargin,
-        status: getRatioStatus(ratios.operatingProfitMargin, { excellent: 0.20, good: 0.15, warning: 0.10 }),
-        benchmark: "≥ 0.15",
+        ...rate("operatingProfitMargin", ratios.operatingProfitMargin),
         description: "Рентабельность по прибыли от продаж - доля операционной прибыли в выручке",
         formula: "OPM = Прибыль от продаж / Выручка"
       }
@@ -246,11 +437,140 @@ export function evaluateRatios(ratios: FinancialRatios): {
     ...(ratios.netProfitMargin !== undefined && {
       netProfitMargin: {
         value: ratios.netProfitMargin,
-        status: getRatioStatus(ratios.netProfitMargin, { excellent: 0.15, good: 0.10, warning: 0.05 }),
-        benchmark: "≥ 0.10",
+        ...rate("netProfitMargin", ratios.netProfitMargin),
         description: "Рентабельность по чистой прибыли - доля чистой прибыли в выручке",
         formula: "NPM = Чистая прибыль / Выручка"
       }
+    }),
+    ...(ratios.assetTurnover !== undefined && {
+      assetTurnover: {
+        value: ratios.assetTurnover,
+        ...rate("assetTurnover", ratios.assetTurnover),
+        description: "Оборачиваемость активов - сколько выручки приносит каждый рубль активов",
+        formula: "Коб.а = Выручка / Ср. активы"
+      }
+    }),
+    ...(ratios.receivablesTurnover !== undefined && {
+      receivablesTurnover: {
+        value: ratios.receivablesTurnover,
+        ...rate("receivablesTurnover", ratios.receivablesTurnover),
+        description: "Оборачиваемость дебиторской задолженности - число оборотов за год",
+        formula: "Коб.дз = Выручка / Ср. ДЗ"
+      }
+    }),
+    ...(ratios.inventoryTurnover !== undefined && {
+      inventoryTurnover: {
+        value: ratios.inventoryTurnover,
+        ...rate("inventoryTurnover", ratios.inventoryTurnover),
+        description: "Оборачиваемость запасов - число оборотов запасов за год",
+        formula: "Коб.з = Себестоимость / Ср. запасы"
+      }
+    }),
+    ...(ratios.payablesTurnover !== undefined && {
+      payablesTurnover: {
+        value: ratios.payablesTurnover,
+        ...rate("payablesTurnover", ratios.payablesTurnover),
+        description: "Оборачиваемость кредиторской задолженности - скорость расчетов с поставщиками",
+        formula: "Коб.кз = Себестоимость / Ср. КЗ"
+      }
+    }),
+    ...(ratios.daysSalesOutstanding !== undefined && {
+      daysSalesOutstanding: {
+        value: ratios.daysSalesOutstanding,
+        ...rate("daysSalesOutstanding", ratios.daysSalesOutstanding),
+        description: "Средний срок погашения дебиторской задолженности покупателями",
+        formula: "DSO = 365 / Коб.дз"
+      }
+    }),
+    ...(ratios.daysInventoryOutstanding !== undefined && {
+      daysInventoryOutstanding: {
+        value: ratios.daysInventoryOutstanding,
+        ...rate("daysInventoryOutstanding", ratios.daysInventoryOutstanding),
+        description: "Средний срок хранения запасов до их продажи",
+        formula: "DIO = 365 / Коб.з"
+      }
+    }),
+    ...(ratios.daysPayablesOutstanding !== undefined && {
+      daysPayablesOutstanding: {
+        value: ratios.daysPayablesOutstanding,
+        ...rate("daysPayablesOutstanding", ratios.daysPayablesOutstanding),
+        description: "Средний срок оплаты счетов поставщиков",
+        formula: "DPO = 365 / Коб.кз"
+      }
+    }),
+    ...(ratios.cashConversionCycle !== undefined && {
+      cashConversionCycle: {
+        value: ratios.cashConversionCycle,
+        ...rate("cashConversionCycle", ratios.cashConversionCycle),
+        description: "Финансовый цикл - период между оплатой поставщикам и получением денег от покупателей",
+        formula: "ЦДС = DSO + DIO - DPO"
+      }
+    }),
+    ...(ratios.operatingCashFlowRatio !== undefined && {
+      operatingCashFlowRatio: {
+        value: ratios.operatingCashFlowRatio,
+        ...rate("operatingCashFlowRatio", ratios.operatingCashFlowRatio),
+        description: "Покрытие краткосрочных обязательств денежным потоком от текущих операций",
+        formula: "Кдп = ДПтек / КО"
+      }
+    }),
+    ...(ratios.freeCashFlow !== undefined && {
+      freeCashFlow: {
+        value: ratios.freeCashFlow,
+        status: ratios.freeCashFlow > 0 ? "good" : "critical",
+        benchmark: "> 0",
+        description: "Денежный поток от текущих операций после капитальных вложений",
+        formula: "FCF = ДПтек - Капвложения"
+      }
+    }),
+    ...(ratios.cashDebtCoverage !== undefined && {
+      cashDebtCoverage: {
+        value: ratios.cashDebtCoverage,
+        ...rate("cashDebtCoverage", ratios.cashDebtCoverage),
+        description: "Покрытие заемных средств денежным потоком от текущих операций",
+        formula: "Кпд = ДПтек / Заемные средства"
+      }
+    }),
+    ...(ratios.qualityOfEarnings !== undefined && {
+      qualityOfEarnings: {
+        value: ratios.qualityOfEarnings,
+        ...rate("qualityOfEarnings", ratios.qualityOfEarnings),
+        description: "Качество прибыли - доля чистой прибыли, подтвержденная денежным потоком",
+        formula: "Ккп = ДПтек / Чистая прибыль"
+      }
+    }),
+    ...(ratios.ebitda !== undefined && {
+      ebitda: {
+        value: ratios.ebitda,
+        status: ratios.ebitda > 0 ? "good" : "critical",
+        benchmark: "> 0",
+        description: "Прибыль до вычета процентов, налогов и амортизации - операционный денежный потенциал для обслуживания долга",
+        formula: "EBITDA = Прибыль до налогообложения + Проценты к уплате + Амортизация"
+      }
+    }),
+    ...(ratios.netDebtToEbitda !== undefined && {
+      netDebtToEbitda: {
+        value: ratios.netDebtToEbitda,
+        ...rate("netDebtToEbitda", ratios.netDebtToEbitda),
+        description: "Долговая нагрузка - за сколько лет компания погасит чистый долг из EBITDA",
+        formula: "ЧД/EBITDA = (Заемные средства - ДС - КФВ) / EBITDA"
+      }
+    }),
+    ...(ratios.interestCoverage !== undefined && {
+      interestCoverage: {
+        value: ratios.interestCoverage,
+        ...rate("interestCoverage", ratios.interestCoverage),
+        description: "Покрытие процентов - во сколько раз операционная прибыль превышает проценты к уплате",
+        formula: "ICR = EBIT / Проценты к уплате"
+      }
+    }),
+    ...(ratios.debtServiceCoverage !== undefined && {
+      debtServiceCoverage: {
+        value: ratios.debtServiceCoverage,
+        ...rate("debtServiceCoverage", ratios.debtServiceCoverage),
+        description: "Покрытие обслуживания долга - достаточность EBITDA для уплаты процентов и погашения краткосрочных кредитов",
+        formula: "DSCR = EBITDA / (Проценты к уплате + Краткосрочные кредиты)"
+      }
     })
   };
 }
@@ -279,6 +599,25 @@ function getRatioStatus(
   }
 }
 
+// Ratios measured in days and in shares of revenue/capital - used to format the benchmark string
+const dayRatios: BenchmarkRatioKey[] = ["daysSalesOutstanding", "daysInventoryOutstanding", "daysPayablesOutstanding", "cashConversionCycle"];
+const percentRatios: BenchmarkRatioKey[] = ["roa", "roe", "ros", "grossProfitMargin", "operatingProfitMargin", "netProfitMargin"];
+
+/**
+ * Format the benchmark string shown next to a ratio ("≥ 2.0", "< 0.5", "≤ 45 дн.") from the "good" threshold
+ */
+function formatBenchmark(key: BenchmarkRatioKey, threshold: RatioThreshold): string {
+  if (dayRatios.includes(key)) {
+    return `≤ ${threshold.good} дн.`;
+  }
+  const value = percentRatios.includes(key)
+    ? threshold.good.toFixed(2)
+    : Number.isInteger(threshold.good)
+      ? threshold.good >= 5 ? String(threshold.good) : threshold.good.toFixed(1)
+      : String(threshold.good);
+  return threshold.reverse ? `< ${value}` : `≥ ${value}`;
+}
+
 // Dictionary of abbreviations used in formulas
 const abbreviations = {
   "ДС": "Денежные средства",
@@ -293,5 +632,26 @@ const abbreviations = {
   "Кавт": "Коэффициент автономии (доля собственного капитала)",
   "Кз": "Коэффициент финансовой зависимости (доля заемного капитала)",
   "Кф.р.": "Коэффициент финансового риска (финансовый рычаг)",
-  "СОК": "Сумма оборотных средств (рабочий капитал)"
+  "СОК": "Сумма оборотных средств (рабочий капитал)",
+  "СОС": "Собственные оборотные средства",
+  "ВА": "Внеоборотные активы",
+  "Косс": "Коэффициент обеспеченности собственными оборотными средствами",
+  "Км": "Коэффициент маневренности собственного капитала",
+  "Коб.а": "Коэффициент оборачиваемости активов",
+  "Коб.дз": "Коэффициент оборачиваемости дебиторской задолженности",
+  "Коб.з": "Коэффициент оборачиваемости запасов",
+  "Коб.кз": "Коэффициент оборачиваемости кредиторской задолженности",
+  "ДЗ": "Дебиторская задолженность",
+  "КЗ": "Кредиторская задолженность",
+  "ЦДС": "Цикл денежных средств (финансовый цикл)",
+  "ДПтек": "Сальдо денежных потоков от текущих операций (стр. 4100)",
+  "FCF": "Свободный денежный поток",
+  "Кдп": "Коэффициент покрытия обязательств денежным потоком",
+  "Кпд": "Коэффициент покрытия долга денежным потоком",
+  "Ккп": "Коэффициент качества прибыли",
+  "EBIT": "Прибыль до уплаты процентов и налогов",
+  "EBITDA": "Прибыль до уплаты процентов, налогов и амортизации",
+  "ЧД": "Чистый долг (заемные средства за вычетом денежных средств и КФВ)",
+  "ICR": "Коэффициент покрытия процентов",
+  "DSCR": "Коэффициент покрытия обслуживания долга"
 };
\ No newline at end of file
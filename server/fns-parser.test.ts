@@ -0,0 +1,112 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { parseFnsReportFile } from "./fns-parser";
+
+const fixture = (name: string) => fs.readFileSync(path.join(import.meta.dirname, "fixtures", name));
+
+// Both fixtures hold the same statement: reporting year 2024 with 2023 and 2022 comparatives
+// (the XML parser drops the quotes of the organization name)
+const statements = [
+  { format: "ФНС XML", companyName: "ООО Ромашка", data: () => parseFnsReportFile(fixture("fns-report.xml"), "application/xml") },
+  { format: "ГИР БО JSON", companyName: 'ООО "Ромашка"', data: () => parseFnsReportFile(fixture("girbo-report.json"), "application/json") },
+];
+
+for (const { format, companyName, data } of statements) {
+  describe(format, () => {
+    it("reads the company details", () => {
+      const result = data();
+      assert.equal(result.companyName, companyName);
+      assert.equal(result.inn, "7707083893");
+      assert.equal(result.okved, "46.90");
+    });
+
+    it("maps line codes to the reporting year fields", () => {
+      const result = data();
+      assert.equal(result.totalAssets, 1300); // 1600
+      assert.equal(result.currentAssets, 400); // 1200
+      assert.equal(result.fixedAssets, 870); // 1150
+      assert.equal(result.financialInvestments, 30); // 1170, long-term
+      assert.equal(result.shortTermInvestments, 20); // 1240, short-term
+      assert.equal(result.cashAndEquivalents, 50); // 1250
+      assert.equal(result.equity, 600); // 1300
+      assert.equal(result.longTermDebt, 400); // 1400
+      assert.equal(result.borrowedFundsLongTerm, 400); // 1410
+      assert.equal(result.shortTermDebt, 100); // 1510
+      assert.equal(result.accountsPayable, 200); // 1520
+      assert.equal(result.currentLiabilities, 300); // 1500
+      assert.equal(result.totalLiabilities, 700); // 1400 + 1500
+      assert.equal(result.revenue, 2000); // 2110
+      assert.equal(result.netIncome, 160); // 2400
+    });
+
+    it("stores expenses as positive amounts", () => {
+      const result = data();
+      assert.equal(result.costOfSales, 1500);
+      assert.equal(result.interestExpense, 50);
+    });
+
+    it("reads the three year columns", () => {
+      const result = data();
+      assert.deepEqual(result.parsedYears, [2024, 2023, 2022]);
+      assert.equal(result.yearlyData?.length, 2);
+      assert.equal(result.reportingYearData?.get("заемные средства краткосрочные"), 100);
+      assert.equal(result.reportingYearData?.get("заемные средства долгосрочные"), 400);
+
+      const [previous, beforePrevious] = result.yearlyData!;
+      assert.equal(previous.get("баланс"), 1210);
+      assert.equal(previous.get("заемные средства краткосрочные"), 110);
+      assert.equal(previous.get("заемные средства долгосрочные"), 390);
+      assert.equal(previous.get("выручка"), 1800);
+      assert.equal(beforePrevious.get("баланс"), 1120);
+      assert.equal(beforePrevious.get("заемные средства краткосрочные"), 120);
+      assert.equal(beforePrevious.get("заемные средства долгосрочные"), 370);
+      // The income statement has no column for the year before previous
+      assert.equal(beforePrevious.has("выручка"), false);
+    });
+  });
+}
+
+describe("ГИР БО JSON with several reports", () => {
+  it("uses the most recent report", () => {
+    const result = parseFnsReportFile(fixture("girbo-report.json"), "application/json");
+    assert.equal(result.parsedYears?.[0], 2024);
+    assert.equal(result.revenue, 2000);
+  });
+
+  it("accepts a single report without the content wrapper", () => {
+    const json = JSON.parse(fixture("girbo-report.json").toString("utf-8"));
+    const result = parseFnsReportFile(Buffer.from(JSON.stringify(json.content[1])), "application/json");
+    assert.equal(result.totalAssets, 1300);
+    assert.equal(result.ogrn, "1027700132195");
+  });
+
+  it("defaults omitted balance sheet lines to 0", () => {
+    // The 2023 report of the fixture only has section totals and line 1510
+    const json = JSON.parse(fixture("girbo-report.json").toString("utf-8"));
+    const result = parseFnsReportFile(Buffer.from(JSON.stringify(json.content[0])), "application/json");
+    assert.equal(result.shortTermDebt, 110);
+    assert.equal(result.cashAndEquivalents, 0);
+    assert.equal(result.shortTermInvestments, 0);
+    assert.equal(result.accountsReceivable, 0);
+    assert.equal(result.inventory, 0);
+    assert.equal(result.longTermDebt, 0);
+  });
+});
+
+describe("invalid statements", () => {
+  it("rejects a file without balance sheet lines", () => {
+    assert.throws(
+      () => parseFnsReportFile(Buffer.from(JSON.stringify({ content: [{ period: "2024", financialResult: { current2110: 1 } }] })), "application/json"),
+      /не найдены строки бухгалтерского баланса/
+    );
+  });
+
+  it("rejects a JSON file without reports", () => {
+    assert.throws(
+      () => parseFnsReportFile(Buffer.from(JSON.stringify({ content: [] })), "application/json"),
+      /не найдено ни одного отчёта/
+    );
+  });
+});
@@ -0,0 +1,396 @@
+import type { FinancialData } from "@shared/schema";
+import { financialDataSchema } from "@shared/schema";
+import { codeToFieldMap, codeToFinancialField, equityStatementCodes } from "./reporting-codes";
+
+/**
+ * Line values extracted from a machine-readable statement
+ * values[0] = reporting year, values[1] = previous year, values[2] = year before previous
+ */
+interface StatementLines {
+  lines: Map<string, (number | undefined)[]>;
+  equityLines: Record<string, number>; // Form 3 "Итого" column by line code
+  year?: number;
+  okved?: string;
+  companyName?: string;
+  inn?: string;
+  ogrn?: string;
+}
+
+/**
+ * Parse a numeric value of a statement line (ФНС XML attributes are plain integers,
+ * ГИР БО JSON values are numbers or null)
+ */
+function parseLineValue(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return isNaN(value) ? undefined : value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = parseFloat(value.replace(/[\s\u00A0]/g, '').replace(',', '.'));
+    return isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+function setLineValue(statement: StatementLines, code: string, periodIndex: number, value: number | undefined) {
+  if (value === undefined) return;
+  if (!statement.lines.has(code)) {
+    statement.lines.set(code, []);
+  }
+  statement.lines.get(code)![periodIndex] = value;
+}
+
+// ─────────────────────────────────────────────────────────────────────
+// ФНС XML (формат 5.0x, КНД 0710099)
+// ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Element names of the ФНС XML format mapped to line codes
+ * Elements with the same name in different sections are qualified with the parent element
+ */
+const xmlElementToCode: Record<string, string> = {
+  // Form 1 - Assets
+  "Актив": "1600",
+  "ВнеОбА": "1100",
+  "НематАкт": "1110",
+  "РезИсслРазр": "1120",
+  "НеМатПоискАкт": "1130",
+  "МатПоискАкт": "1140",
+  "ОснСр": "1150",
+  "ДохВлМатЦен": "1160",
+  "ВнеОбА/ФинВлож": "1170",
+  "ОтлНалАкт": "1180",
+  "ПрочВнеОбА": "1190",
+  "ОбА": "1200",
+  "Запасы": "1210",
+  "НДСПриобрЦен": "1220",
+  "ДебЗад": "1230",
+  "ОбА/ФинВлож": "1240",
+  "ДенежнСр": "1250",
+  "ПрочОбА": "1260",
+  // Form 1 - Liabilities
+  "Пассив": "1700",
+  "КапРез": "1300",
+  "УставКапитал": "1310",
+  "ПереоцВнеОбА": "1340",
+  "ДобКапитал": "1350",
+  "РезКапитал": "1360",
+  "НераспПриб": "1370",
+  "ДолгосрОбяз": "1400",
+  "ДолгосрОбяз/ЗаемСредств": "1410",
+  "ОтлНалОбяз": "1420",
+  "ДолгосрОбяз/ОценОбяз": "1430",
+  "ДолгосрОбяз/ПрочОбяз": "1450",
+  "КраткосрОбяз": "1500",
+  "КраткосрОбяз/ЗаемСредств": "1510",
+  "КредитЗадолж": "1520",
+  "ДоходБудущ": "1530",
+  "КраткосрОбяз/ОценОбяз": "1540",
+  "КраткосрОбяз/ПрочОбяз": "1550",
+  // Form 2 - Income statement
+  "Выруч": "2110",
+  "СебестПрод": "2120",
+  "ВаловаяПрибыль": "2100",
+  "КомРасход": "2210",
+  "УпрРасход": "2220",
+  "ПрибПрод": "2200",
+  "ДоходОтУчаст": "2310",
+  "ПроцПолуч": "2320",
+  "ПроцУпл": "2330",
+  "ПрочДоход": "2340",
+  "ПрочРасход": "2350",
+  "ПрибУбДоНал": "2300",
+  "ТекНалПриб": "2410",
+  "ЧистПрибУб": "2400",
+};
+
+// Value attributes: reporting year, previous year, year before previous
+const xmlValueAttributes: [string, number][] = [
+  ["СумОтч", 0],
+  ["СумПрдщ", 1],
+  ["СумПред", 1],
+  ["СумПрдшв", 2],
+];
+
+/**
+ * Decode file bytes using the encoding declared in the XML prolog
+ * ФНС files are usually windows-1251, ГИР БО JSON is UTF-8
+ */
+function decodeText(buffer: Buffer): string {
+  const prolog = buffer.subarray(0, 200).toString("latin1");
+  const encodingMatch = prolog.match(/encoding=["']([^"']+)["']/i);
+  const encoding = encodingMatch ? encodingMatch[1].toLowerCase() : "utf-8";
+  try {
+    return new TextDecoder(encoding).decode(buffer);
+  } catch {
+    return buffer.toString("utf-8");
+  }
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function parseXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Parse ФНС XML statement (Бухгалтерская (финансовая) отчётность)
+ * The format only carries data in attributes, so a tag scanner with a parent stack is enough
+ */
+function parseFnsXml(xml: string): StatementLines {
+  const statement: StatementLines = { lines: new Map(), equityLines: {} };
+  const tagPattern = /<(\/?)([^\s>\/?!]+)([^>]*?)(\/?)>/g;
+  const stack: string[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(xml)) !== null) {
+    const [, closing, name, attributeSource, selfClosing] = match;
+
+    if (closing) {
+      const index = stack.lastIndexOf(name);
+      if (index !== -1) stack.length = index;
+      continue;
+    }
+
+    const attributes = parseXmlAttributes(attributeSource);
+    const parent = stack[stack.length - 1];
+
+    // Document and company attributes
+    if (attributes["ОтчетГод"] && !statement.year) {
+      statement.year = parseInt(attributes["ОтчетГод"]);
+    }
+    if ((attributes["ОКВЭД2"] || attributes["ОКВЭД"]) && !statement.okved) {
+      statement.okved = attributes["ОКВЭД2"] || attributes["ОКВЭД"];
+    }
+    if (attributes["НаимОрг"] && !statement.companyName) {
+      statement.companyName = attributes["НаимОрг"].replace(/["«»]/g, '').trim();
+    }
+    if ((attributes["ИННЮЛ"] || attributes["ИННФЛ"]) && !statement.inn) {
+      statement.inn = attributes["ИННЮЛ"] || attributes["ИННФЛ"];
+    }
+
+    // Line code: explicit code attribute or a known element name
+    const code = attributes["Код"] || attributes["КодСтр"]
+      || xmlElementToCode[`${parent}/${name}`]
+      || xmlElementToCode[name];
+
+    if (code && /^\d{4}$/.test(code)) {
+      for (const [attribute, periodIndex] of xmlValueAttributes) {
+        if (attributes[attribute] !== undefined) {
+          setLineValue(statement, code, periodIndex, parseLineValue(attributes[attribute]));
+        }
+      }
+
+      // Form 3 rows carry one attribute per capital component and the total in "Итог"
+      const total = parseLineValue(attributes["Итог"]);
+      if (equityStatementCodes.has(code) && total !== undefined) {
+        statement.equityLines[code] = total;
+      }
+    }
+
+    if (!selfClosing) {
+      stack.push(name);
+    }
+  }
+
+  return statement;
+}
+
+// ─────────────────────────────────────────────────────────────────────
+// ГИР БО JSON (bo.nalog.ru)
+// ─────────────────────────────────────────────────────────────────────
+
+const jsonPeriodPrefixes: [string, number][] = [
+  ["current", 0],
+  ["previous", 1],
+  ["beforePrevious", 2],
+];
+
+type JsonObject = Record<string, unknown>;
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Text fields of the export may come as strings or numbers (ИНН, ОГРН, year)
+function jsonText(value: unknown): string | undefined {
+  if (typeof value === "string" && value.trim()) return value.trim();
+  if (typeof value === "number") return String(value);
+  return undefined;
+}
+
+/**
+ * Parse ГИР БО JSON export
+ * Line values are stored as keys like "current1600", "previous2110", "beforePrevious1300"
+ * in the "balance" and "financialResult" sections; the export may contain several reports
+ * (one per year), in which case the most recent one is used
+ */
+function parseGirBoJson(json: unknown): StatementLines {
+  const reports = (Array.isArray(json)
+    ? json
+    : isJsonObject(json) && Array.isArray(json.content)
+      ? json.content
+      : [json]
+  ).filter(isJsonObject);
+
+  if (reports.length === 0) {
+    throw new Error("В файле ГИР БО не найдено ни одного отчёта");
+  }
+
+  const reportYear = (report: JsonObject): number => parseInt(jsonText(report.period ?? report.year) ?? "0") || 0;
+  const report = [...reports].sort((a, b) => reportYear(b) - reportYear(a))[0];
+
+  const statement: StatementLines = { lines: new Map(), equityLines: {} };
+  if (reportYear(report) > 0) {
+    statement.year = reportYear(report);
+  }
+
+  const organization = [report.organization, report.company].find(isJsonObject);
+  if (organization) {
+    statement.companyName = jsonText(organization.shortName) || jsonText(organization.fullName);
+    const okved = organization.okved2 ?? organization.okved;
+    statement.okved = isJsonObject(okved) ? jsonText(okved.id ?? okved.code) : jsonText(okved);
+    statement.inn = jsonText(organization.inn);
+    statement.ogrn = jsonText(organization.ogrn);
+  }
+
+  // Walk the whole report: line keys may be nested in different sections
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!isJsonObject(node)) return;
+    for (const [key, value] of Object.entries(node)) {
+      const lineMatch = key.match(/^(current|previous|beforePrevious)(\d{4})$/);
+      if (lineMatch) {
+        const periodIndex = jsonPeriodPrefixes.find(([prefix]) => prefix === lineMatch[1])![1];
+        setLineValue(statement, lineMatch[2], periodIndex, parseLineValue(value));
+      } else {
+        visit(value);
+      }
+    }
+  };
+  visit(report);
+
+  return statement;
+}
+
+// ─────────────────────────────────────────────────────────────────────
+// Mapping to FinancialData
+// ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Build FinancialData from line values
+ * Current year goes to the main fields, all periods go to yearlyData keyed by the same
+ * normalized names the document parser uses, so /api/analyze builds periods the same way
+ */
+function statementToFinancialData(statement: StatementLines): FinancialData {
+  const { lines } = statement;
+
+  if (!lines.has("1600") && !lines.has("1200")) {
+    throw new Error("В файле не найдены строки бухгалтерского баланса (коды 1200, 1600)");
+  }
+
+  const periodValue = (code: string, periodIndex: number): number | undefined => lines.get(code)?.[periodIndex];
+
+  const data: Record<string, number | string | undefined> = {
+    okved: statement.okved,
+    companyName: statement.companyName,
+    inn: statement.inn,
+    ogrn: statement.ogrn,
+  };
+  for (const [code, field] of Object.entries(codeToFinancialField)) {
+    const value = periodValue(code, 0);
+    if (value !== undefined) {
+      data[field] = value;
+    }
+  }
+
+  // Cost of sales (2120), interest payable (2330), depreciation (5640) and payments for
+  // non-current assets (4221) may be reported as negative amounts
+  for (const field of ["costOfSales", "interestExpense", "depreciation", "capitalExpenditures"] as const) {
+    if (typeof data[field] === "number") {
+      data[field] = Math.abs(data[field] as number);
+    }
+  }
+
+  // Required fields that may be absent (zero lines are often omitted from reports)
+  for (const field of ["cashAndEquivalents", "shortTermInvestments", "accountsReceivable", "inventory", "shortTermDebt", "longTermDebt", "currentLiabilities"] as const) {
+    if (data[field] === undefined) data[field] = 0;
+  }
+  data.totalLiabilities = (data.longTermDebt as number) + (data.currentLiabilities as number);
+
+  // Form 3: totals by line code, net assets (3600) come with the regular period attributes
+  const equityStatementLines: Record<string, number> = { ...statement.equityLines };
+  const netAssets = periodValue("3600", 0);
+  if (netAssets !== undefined && equityStatementLines["3600"] === undefined) {
+    equityStatementLines["3600"] = netAssets;
+  }
+
+  const validatedData = financialDataSchema.parse({
+    ...data,
+    equityStatementLines: Object.keys(equityStatementLines).length > 0 ? equityStatementLines : undefined,
+  });
+
+  // Historical periods: yearMaps keyed by line names from codeToFieldMap (already normalized,
+  // the same keys the Excel and document parsers use)
+  const yearMaps = [0, 1, 2].map(periodIndex => {
+    const yearMap = new Map<string, number>();
+    codeToFieldMap.forEach((fieldName, code) => {
+      const value = periodValue(code, periodIndex);
+      if (value !== undefined) {
+        yearMap.set(fieldName, value);
+      }
+    });
+    return yearMap;
+  });
+
+  const parsedYears = statement.year
+    ? [statement.year, statement.year - 1, statement.year - 2]
+    : undefined;
+
+  console.log(`ФНС отчётность: ${lines.size} строк, год ${statement.year ?? 'не указан'}, периодов ${yearMaps.filter(m => m.size > 0).length}`);
+
+  return {
+    ...validatedData,
+    yearlyData: yearMaps.slice(1).filter(m => m.size > 0),
+    reportingYearData: yearMaps[0],
+    codedLayout: true,
+    parsedYears,
+  };
+}
+
+/**
+ * Parse a machine-readable financial statement file:
+ * - ФНС XML format of Бухгалтерская (финансовая) отчётность (КНД 0710099)
+ * - JSON exported from ГИР БО (bo.nalog.ru)
+ */
+export function parseFnsReportFile(buffer: Buffer, mimeType: string): FinancialData {
+  try {
+    const text = decodeText(buffer).replace(/^\uFEFF/, '').trim();
+    const isJson = mimeType === "application/json" || text.startsWith("{") || text.startsWith("[");
+
+    const statement = isJson ? parseGirBoJson(JSON.parse(text)) : parseFnsXml(text);
+
+    return statementToFinancialData(statement);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Ошибка парсинга файла отчётности ФНС: ${error.message}`);
+    }
+    throw new Error("Не удалось прочитать файл отчётности ФНС. Проверьте формат данных.");
+  }
+}
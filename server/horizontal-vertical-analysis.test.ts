@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { FinancialData, ReportingPeriod } from "@shared/schema";
+import { analyzeHorizontalVertical } from "./horizontal-vertical-analysis";
+
+const reportingYear: FinancialData = {
+  currentAssets: 400,
+  cashAndEquivalents: 50,
+  shortTermInvestments: 0,
+  accountsReceivable: 150,
+  inventory: 200,
+  totalAssets: 1300,
+  currentLiabilities: 300,
+  shortTermDebt: 100,
+  totalLiabilities: 700,
+  equity: 600,
+  longTermDebt: 400,
+};
+
+// Fields of the previous year copied from the reporting year, as for a name-based layout
+const periods = [
+  { year: 2024, data: reportingYear },
+  { year: 2023, data: { ...reportingYear, currentAssets: 300, totalAssets: 1200, currentLiabilities: 200 } },
+] as ReportingPeriod[];
+
+// Parsed lines by normalized name (reporting-codes.ts): 1510 is blank in 2023
+const parsedLines = [
+  new Map([["итого по разделу ii", 400], ["баланс", 1300], ["итого по разделу v", 300], ["заемные средства краткосрочные", 100]]),
+  new Map([["итого по разделу ii", 300], ["баланс", 1200], ["итого по разделу v", 200]]),
+];
+
+describe("horizontal analysis", () => {
+  it("reads a line missing from a coded layout as 0, not the FinancialData field", () => {
+    const analysis = analyzeHorizontalVertical(periods, parsedLines, true);
+    const shortTermBorrowings = analysis?.lines.find(line => line.code === "1510");
+
+    assert.deepEqual(shortTermBorrowings?.values, [100, 0]);
+    assert.equal(shortTermBorrowings?.changes[0].absolute, 100);
+    // No income statement in the file - its lines stay empty
+    assert.equal(analysis?.lines.some(line => line.statement === "income"), false);
+  });
+
+  it("falls back to the FinancialData fields for a layout parsed by line names", () => {
+    const analysis = analyzeHorizontalVertical(periods, parsedLines);
+
+    assert.deepEqual(analysis?.lines.find(line => line.code === "1510")?.values, [100, 100]);
+  });
+});
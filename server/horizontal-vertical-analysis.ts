@@ -0,0 +1,165 @@
+import type {
+  FinancialData,
+  HorizontalVerticalAnalysis,
+  LineItemChange,
+  LineItemDynamics,
+  ReportingPeriod,
+} from "@shared/schema";
+import { codeToFieldMap, codeToFinancialField } from "./reporting-codes";
+
+interface LineItemDefinition {
+  code: string;
+  label: string;
+  statement: LineItemDynamics["statement"];
+  bold?: boolean;
+  adverseGrowth?: boolean;
+  key?: string; // Lines without a FinancialData field (see lineKey)
+  derive?: (data: FinancialData) => number | undefined; // Value when the statement has no such line
+}
+
+// Every line of the balance sheet and the income statement in the order of the forms.
+// Values are read from the parsed lines of each period, so previous years have the same detail as
+// the reporting year; FinancialData fields are the fallback for statements parsed by line names
+const LINE_ITEMS: LineItemDefinition[] = [
+  { code: "1110", label: "Нематериальные активы", statement: "balance" },
+  { code: "1120", label: "Результаты исследований и разработок", statement: "balance" },
+  { code: "1130", label: "Нематериальные поисковые активы", statement: "balance" },
+  { code: "1140", label: "Материальные поисковые активы", statement: "balance" },
+  { code: "1150", label: "Основные средства", statement: "balance" },
+  { code: "1160", label: "Доходные вложения в материальные ценности", statement: "balance" },
+  { code: "1170", label: "Финансовые вложения (долгосрочные)", statement: "balance" },
+  { code: "1180", label: "Отложенные налоговые активы", statement: "balance" },
+  { code: "1190", label: "Прочие внеоборотные активы", statement: "balance" },
+  { code: "1100", label: "Внеоборотные активы", statement: "balance", bold: true, key: "nonCurrentAssets", derive: data => data.totalAssets - data.currentAssets },
+  { code: "1210", label: "Запасы", statement: "balance" },
+  { code: "1220", label: "НДС по приобретенным ценностям", statement: "balance" },
+  { code: "1230", label: "Дебиторская задолженность", statement: "balance" },
+  { code: "1240", label: "Финансовые вложения (краткосрочные)", statement: "balance" },
+  { code: "1250", label: "Денежные средства и эквиваленты", statement: "balance" },
+  { code: "1260", label: "Прочие оборотные активы", statement: "balance" },
+  { code: "1200", label: "Оборотные активы", statement: "balance", bold: true },
+  { code: "1600", label: "Баланс", statement: "balance", bold: true },
+  { code: "1310", label: "Уставный капитал", statement: "balance" },
+  { code: "1340", label: "Переоценка внеоборотных активов", statement: "balance" },
+  { code: "1350", label: "Добавочный капитал (без переоценки)", statement: "balance" },
+  { code: "1360", label: "Резервный капитал", statement: "balance" },
+  { code: "1370", label: "Нераспределенная прибыль (непокрытый убыток)", statement: "balance" },
+  { code: "1300", label: "Капитал и резервы", statement: "balance", bold: true },
+  { code: "1410", label: "Заемные средства (долгосрочные)", statement: "balance", adverseGrowth: true },
+  { code: "1420", label: "Отложенные налоговые обязательства", statement: "balance", adverseGrowth: true },
+  { code: "1430", label: "Оценочные обязательства (долгосрочные)", statement: "balance", adverseGrowth: true },
+  { code: "1450", label: "Прочие долгосрочные обязательства", statement: "balance", adverseGrowth: true },
+  { code: "1400", label: "Долгосрочные обязательства", statement: "balance", bold: true, adverseGrowth: true },
+  { code: "1510", label: "Заемные средства (краткосрочные)", statement: "balance", adverseGrowth: true },
+  { code: "1520", label: "Кредиторская задолженность", statement: "balance", adverseGrowth: true },
+  { code: "1530", label: "Доходы будущих периодов", statement: "balance" },
+  { code: "1540", label: "Оценочные обязательства (краткосрочные)", statement: "balance", adverseGrowth: true },
+  { code: "1550", label: "Прочие краткосрочные обязательства", statement: "balance", adverseGrowth: true },
+  { code: "1500", label: "Краткосрочные обязательства", statement: "balance", bold: true, adverseGrowth: true },
+  { code: "2110", label: "Выручка", statement: "income", bold: true },
+  { code: "2120", label: "Себестоимость продаж", statement: "income", adverseGrowth: true },
+  { code: "2100", label: "Валовая прибыль (убыток)", statement: "income" },
+  { code: "2210", label: "Коммерческие расходы", statement: "income", adverseGrowth: true },
+  { code: "2220", label: "Управленческие расходы", statement: "income", adverseGrowth: true },
+  { code: "2200", label: "Прибыль (убыток) от продаж", statement: "income" },
+  { code: "2310", label: "Доходы от участия в других организациях", statement: "income" },
+  { code: "2320", label: "Проценты к получению", statement: "income" },
+  { code: "2330", label: "Проценты к уплате", statement: "income", adverseGrowth: true },
+  { code: "2340", label: "Прочие доходы", statement: "income" },
+  { code: "2350", label: "Прочие расходы", statement: "income", adverseGrowth: true },
+  { code: "2300", label: "Прибыль (убыток) до налогообложения", statement: "income" },
+  { code: "2410", label: "Текущий налог на прибыль", statement: "income", adverseGrowth: true },
+  { code: "2400", label: "Чистая прибыль (убыток)", statement: "income", bold: true },
+];
+
+// FinancialData field of the line, line<code> for lines that only exist in the parsed data
+function lineKey(item: LineItemDefinition): string {
+  return item.key ?? codeToFinancialField[item.code] ?? `line${item.code}`;
+}
+
+// Whether the parsed lines of a period include any line of the statement (the form is in the file)
+function hasStatementLines(parsedLines: Map<string, number>, statement: LineItemDynamics["statement"]): boolean {
+  return LINE_ITEMS.some(item => item.statement === statement && parsedLines.has(codeToFieldMap.get(item.code) ?? ""));
+}
+
+function getLineValue(item: LineItemDefinition, data: FinancialData, parsedLines?: Map<string, number>, codedLayout?: boolean): number | undefined {
+  const parsedValue = parsedLines?.get(codeToFieldMap.get(item.code) ?? "");
+  let value: number | undefined;
+  if (codedLayout && parsedLines) {
+    // Lines read by code: a line missing from a form of the period is blank there. FinancialData
+    // fields are not used - for previous years they may hold the reporting year values
+    value = parsedValue ?? (hasStatementLines(parsedLines, item.statement) ? 0 : undefined);
+  } else {
+    const field = codeToFinancialField[item.code];
+    const fieldValue = field !== undefined ? data[field] : undefined;
+    value = parsedValue
+      ?? (typeof fieldValue === "number" ? fieldValue : undefined)
+      ?? item.derive?.(data);
+  }
+
+  // Expenses are shown in parentheses in the income statement, FinancialData keeps them positive
+  return value !== undefined && item.statement === "income" && item.adverseGrowth ? Math.abs(value) : value;
+}
+
+/**
+ * Horizontal and vertical analysis of the balance sheet and the income statement
+ * Horizontal: absolute and relative change of every line between consecutive periods.
+ * Vertical: every balance sheet line as a share of total assets (1600), every income statement
+ * line as a share of revenue (2110). Lines that are empty in all periods are skipped
+ * @param periods - Reporting periods, most recent first
+ * @param parsedLines - Parsed statement lines of each period by normalized line name
+ *                      (FinancialData.reportingYearData, then yearlyData), same order as periods
+ * @param codedLayout - The lines were read by line code (FinancialData.codedLayout)
+ */
+export function analyzeHorizontalVertical(
+  periods: ReportingPeriod[],
+  parsedLines: (Map<string, number> | undefined)[] = [],
+  codedLayout = false
+): HorizontalVerticalAnalysis | undefined {
+  if (periods.length === 0) return undefined;
+
+  const years = periods.map(period => period.year);
+
+  const lines: LineItemDynamics[] = LINE_ITEMS
+    .map(item => {
+      const values = periods.map((period, index) => getLineValue(item, period.data, parsedLines[index], codedLayout));
+
+      const shares = periods.map((period, index) => {
+        const value = values[index];
+        const base = item.statement === "balance" ? period.data.totalAssets : period.data.revenue;
+        return value !== undefined && base ? value / base : undefined;
+      });
+
+      // periods[index + 1] is the year before periods[index]
+      const changes: LineItemChange[] = [];
+      for (let index = 0; index < periods.length - 1; index++) {
+        const current = values[index];
+        const previous = values[index + 1];
+        if (current === undefined || previous === undefined) continue;
+
+        changes.push({
+          fromYear: years[index + 1],
+          toYear: years[index],
+          absolute: current - previous,
+          percent: previous !== 0 ? (current - previous) / Math.abs(previous) : undefined,
+        });
+      }
+
+      return {
+        key: lineKey(item),
+        code: item.code,
+        label: item.label,
+        statement: item.statement,
+        bold: item.bold,
+        adverseGrowth: item.adverseGrowth,
+        values,
+        shares,
+        changes,
+      };
+    })
+    .filter(line => line.values.some(value => value !== undefined && value !== 0));
+
+  console.log(`✓ Horizontal and vertical analysis: ${lines.length} lines, ${years.length} periods`);
+
+  return { years, lines };
+}
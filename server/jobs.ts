@@ -0,0 +1,179 @@
+import { randomUUID } from "crypto";
+import type { AnalysisJob, AnalysisJobPreview, AnalysisJobStage } from "@shared/schema";
+import { AnalysisCancelledError, runAnalysisPipeline, type UploadedFile } from "./analysis-pipeline";
+
+// Progress and description of every pipeline stage (the progress is reached when the stage starts)
+const STAGES: Record<AnalysisJobStage, { progress: number; label: string }> = {
+  queued: { progress: 0, label: "Ожидание в очереди..." },
+  parsing: { progress: 10, label: "Парсинг данных из документа..." },
+  normalizing: { progress: 20, label: "Проверка и нормализация данных..." },
+  periods: { progress: 30, label: "Формирование отчётных периодов..." },
+  ratios: { progress: 40, label: "Расчёт финансовых коэффициентов и рейтинга..." },
+  models: { progress: 50, label: "Расчёт моделей банкротства и движения капитала..." },
+  ai: { progress: 60, label: "Генерация AI анализа..." },
+  saving: { progress: 95, label: "Сохранение результатов..." },
+  done: { progress: 100, label: "Анализ завершён" },
+};
+
+// Jobs running at the same time; the rest wait in the queue (the AI step dominates the duration)
+const MAX_CONCURRENT_JOBS = Math.max(1, parseInt(process.env.ANALYSIS_CONCURRENCY || "2", 10) || 2);
+
+// Finished jobs (with their results) are kept for status requests, then removed
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+type JobListener = (job: AnalysisJob) => void;
+
+interface JobEntry {
+  job: AnalysisJob;
+  file?: UploadedFile; // Released when the job starts
+  controller: AbortController;
+  listeners: Set<JobListener>;
+}
+
+const jobs = new Map<string, JobEntry>();
+const queue: string[] = [];
+let runningJobs = 0;
+
+export function isJobFinished(job: AnalysisJob): boolean {
+  return job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+}
+
+function updateJob(entry: JobEntry, changes: Partial<AnalysisJob>) {
+  entry.job = { ...entry.job, ...changes, updatedAt: new Date().toISOString() };
+  entry.listeners.forEach(listener => listener(entry.job));
+
+  if (isJobFinished(entry.job)) {
+    entry.listeners.clear();
+    setTimeout(() => jobs.delete(entry.job.id), FINISHED_JOB_TTL_MS).unref();
+  }
+}
+
+function setStage(entry: JobEntry, stage: AnalysisJobStage) {
+  if (isJobFinished(entry.job)) return;
+  updateJob(entry, { stage, stageLabel: STAGES[stage].label, progress: STAGES[stage].progress });
+}
+
+// Report sections of the AI stage: the progress moves from the AI stage towards saving with every written section
+const REPORT_SECTION_COUNT = 7;
+
+function setPreview(entry: JobEntry, preview: AnalysisJobPreview) {
+  if (isJobFinished(entry.job)) return;
+  const written = Object.values(preview.reportSections).filter(section => section !== undefined).length;
+  const progress = STAGES.ai.progress + Math.round((STAGES.saving.progress - STAGES.ai.progress) * written / REPORT_SECTION_COUNT);
+  updateJob(entry, { preview, progress: Math.min(progress, STAGES.saving.progress - 1) });
+}
+
+async function runJob(entry: JobEntry) {
+  const file = entry.file!;
+  entry.file = undefined;
+  updateJob(entry, { status: "running" });
+
+  try {
+    const outcome = await runAnalysisPipeline(
+      file,
+      stage => setStage(entry, stage),
+      entry.controller.signal,
+      preview => setPreview(entry, preview)
+    );
+    if (isJobFinished(entry.job)) return; // Cancelled while the result was being saved
+    updateJob(entry, {
+      status: "completed",
+      stage: "done",
+      stageLabel: STAGES.done.label,
+      progress: 100,
+      preview: undefined,
+      analysisId: outcome.id,
+      company: outcome.company,
+      result: outcome.result,
+    });
+    console.log(`✓ Analysis job ${entry.job.id} completed`);
+  } catch (error) {
+    if (error instanceof AnalysisCancelledError || entry.controller.signal.aborted) {
+      // The job is already marked as cancelled by cancelAnalysisJob
+      console.log(`Analysis job ${entry.job.id} stopped after cancellation`);
+      return;
+    }
+    console.error(`Error processing analysis job ${entry.job.id}:`, error);
+    updateJob(entry, {
+      status: "failed",
+      preview: undefined,
+      error: error instanceof Error ? error.message : "Произошла ошибка при обработке файла",
+    });
+  }
+}
+
+function startQueuedJobs() {
+  while (runningJobs < MAX_CONCURRENT_JOBS && queue.length > 0) {
+    const entry = jobs.get(queue.shift()!);
+    if (!entry || entry.job.status !== "queued") continue;
+
+    runningJobs++;
+    runJob(entry).finally(() => {
+      runningJobs--;
+      startQueuedJobs();
+    });
+  }
+}
+
+/**
+ * Put an uploaded file into the analysis queue; the job runs in the background
+ */
+export function createAnalysisJob(file: UploadedFile): AnalysisJob {
+  const now = new Date().toISOString();
+  const entry: JobEntry = {
+    job: {
+      id: randomUUID(),
+      fileName: file.originalname,
+      status: "queued",
+      stage: "queued",
+      stageLabel: STAGES.queued.label,
+      progress: 0,
+      createdAt: now,
+      updatedAt: now,
+    },
+    file,
+    controller: new AbortController(),
+    listeners: new Set(),
+  };
+
+  jobs.set(entry.job.id, entry);
+  queue.push(entry.job.id);
+  console.log(`✓ Analysis job ${entry.job.id} queued: ${file.originalname}`);
+
+  // Started on the next tick, so the caller gets the job in the queued state
+  setImmediate(startQueuedJobs);
+  return entry.job;
+}
+
+export function getAnalysisJob(id: string): AnalysisJob | undefined {
+  return jobs.get(id)?.job;
+}
+
+/**
+ * Cancel a queued or running job. A running job stops at the next stage boundary
+ * (the AI request is aborted right away). Returns undefined for an unknown job
+ */
+export function cancelAnalysisJob(id: string): AnalysisJob | undefined {
+  const entry = jobs.get(id);
+  if (!entry) return undefined;
+  if (isJobFinished(entry.job)) return entry.job;
+
+  entry.controller.abort();
+  entry.file = undefined;
+  updateJob(entry, { status: "cancelled", preview: undefined, error: "Анализ отменён пользователем" });
+  console.log(`✓ Analysis job ${id} cancelled`);
+  return entry.job;
+}
+
+/**
+ * Subscribe to job updates. Returns the unsubscribe function, or undefined for an unknown job
+ */
+export function subscribeToAnalysisJob(id: string, listener: JobListener): (() => void) | undefined {
+  const entry = jobs.get(id);
+  if (!entry) return undefined;
+
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
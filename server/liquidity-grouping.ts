@@ -0,0 +1,100 @@
+import type {
+  FinancialData,
+  LiquidityBalanceType,
+  LiquidityGroupingPeriod,
+  ReportingPeriod,
+} from "@shared/schema";
+
+export const LIQUIDITY_BALANCE_LABELS: Record<LiquidityBalanceType, string> = {
+  absolute: "Абсолютно ликвидный баланс",
+  normal: "Нормальная ликвидность",
+  insufficient: "Недостаточная ликвидность",
+  crisis: "Кризисное состояние",
+};
+
+/**
+ * Split the balance sheet into asset groups by liquidity and liability groups by maturity.
+ * Previous periods carry the main lines only, so every group falls back to the section totals:
+ * the groups always add up to the balance total (1600 = 1700)
+ */
+function buildGroups(data: FinancialData): { assets: number[]; liabilities: number[] } {
+  // A1 - most liquid assets, A2 - quickly realizable, A3 - slowly realizable, A4 - hard to realize
+  const a1 = (data.cashAndEquivalents ?? 0) + (data.shortTermInvestments ?? 0);
+  const a2 = data.accountsReceivable ?? 0;
+  const a3 = Math.max(0, data.currentAssets - a1 - a2);
+  const a4 = data.totalAssets - data.currentAssets;
+
+  // Deferred income (1530) is treated as own funds, short-term provisions (1540) as long-term
+  const deferredIncome = data.deferredIncome ?? 0;
+  const estimated = data.estimatedLiabilitiesShortTerm ?? 0;
+
+  // P1 - most urgent liabilities, P2 - short-term, P3 - long-term, P4 - permanent
+  const p2 = data.accountsPayable !== undefined
+    ? Math.max(0, data.currentLiabilities - data.accountsPayable - deferredIncome - estimated)
+    : (data.shortTermDebt ?? 0) + (data.otherCurrentLiabilities ?? 0);
+  const p1 = data.accountsPayable ?? Math.max(0, data.currentLiabilities - p2 - deferredIncome - estimated);
+  const p3 = (data.longTermDebt ?? 0) + estimated;
+  const p4 = data.equity + deferredIncome;
+
+  return { assets: [a1, a2, a3, a4], liabilities: [p1, p2, p3, p4] };
+}
+
+/**
+ * Balance liquidity type:
+ * absolute - all four inequalities hold;
+ * normal - shortage of A1 is covered by A2 (A1 + A2 ≥ P1 + P2) and A3 ≥ P3;
+ * insufficient - only one of the current (A1 + A2 ≥ P1 + P2) and prospective (A3 ≥ P3) conditions holds;
+ * crisis - neither holds
+ */
+function classifyBalance(inequalities: boolean[], currentLiquidity: number, prospectiveLiquidity: number): LiquidityBalanceType {
+  if (inequalities.every(Boolean)) return "absolute";
+
+  const currentCovered = currentLiquidity >= 0;
+  const prospectiveCovered = prospectiveLiquidity >= 0;
+  if (currentCovered && prospectiveCovered) return "normal";
+  if (currentCovered || prospectiveCovered) return "insufficient";
+  return "crisis";
+}
+
+/**
+ * Liquidity analysis by grouping the balance sheet (A1–A4 against P1–P4)
+ * Checks A1 ≥ P1, A2 ≥ P2, A3 ≥ P3, A4 ≤ P4 for every period, classifies the balance
+ * and computes current ((A1 + A2) - (P1 + P2)) and prospective (A3 - P3) liquidity
+ * @param periods - Reporting periods, most recent first
+ */
+export function analyzeLiquidityGrouping(periods: ReportingPeriod[]): LiquidityGroupingPeriod[] | undefined {
+  if (periods.length === 0) return undefined;
+
+  const result = periods.map(period => {
+    const { assets, liabilities } = buildGroups(period.data);
+    const [a1, a2, a3] = assets;
+    const [p1, p2, p3] = liabilities;
+
+    const surplus = assets.map((value, index) => value - liabilities[index]);
+    const inequalities = [a1 >= p1, a2 >= p2, a3 >= p3, assets[3] <= liabilities[3]];
+
+    const currentLiquidity = (a1 + a2) - (p1 + p2);
+    const prospectiveLiquidity = a3 - p3;
+
+    const weightedLiabilities = p1 + 0.5 * p2 + 0.3 * p3;
+    const generalLiquidityRatio = weightedLiabilities > 0
+      ? (a1 + 0.5 * a2 + 0.3 * a3) / weightedLiabilities
+      : undefined;
+
+    return {
+      year: period.year,
+      assets,
+      liabilities,
+      surplus,
+      inequalities,
+      balanceType: classifyBalance(inequalities, currentLiquidity, prospectiveLiquidity),
+      currentLiquidity,
+      prospectiveLiquidity,
+      generalLiquidityRatio,
+    };
+  });
+
+  console.log(`✓ Liquidity grouping: ${result[0].year} balance is ${result[0].balanceType}`);
+
+  return result;
+}
@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { FinancialData } from "@shared/schema";
+import { runLoanStressTest } from "./loan-stress-test";
+import { DEFAULT_THRESHOLDS } from "./benchmarks";
+
+// Borrowings in both sections: 1410 = 400 long-term, 1510 = 100 short-term; EBITDA 250, interest 50
+const data: FinancialData = {
+  currentAssets: 400,
+  cashAndEquivalents: 50,
+  shortTermInvestments: 0,
+  accountsReceivable: 150,
+  inventory: 200,
+  totalAssets: 1300,
+  currentLiabilities: 300,
+  shortTermDebt: 100,
+  totalLiabilities: 700,
+  equity: 600,
+  longTermDebt: 400,
+  borrowedFundsLongTerm: 400,
+  accountsPayable: 200,
+  revenue: 2000,
+  costOfSales: 1500,
+  grossProfit: 500,
+  operatingIncome: 300,
+  interestExpense: 50,
+  profitBeforeTax: 200,
+  netIncome: 160,
+};
+
+describe("loan stress test", () => {
+  it("splits the loan between short-term and long-term borrowings", () => {
+    const result = runLoanStressTest(data, undefined, { amount: 120, termMonths: 24, annualRate: 10, amortization: "linear", purpose: "workingCapital" }, DEFAULT_THRESHOLDS);
+
+    assert.equal(result.ebitda, 250);
+    assert.equal(result.proFormaData.shortTermDebt, 160); // 1510 + principal due in the first year
+    assert.equal(result.proFormaData.borrowedFundsLongTerm, 460); // 1410 + the rest
+    assert.equal(result.proFormaData.currentLiabilities, 360);
+    assert.equal(result.proFormaData.inventory, 320);
+  });
+
+  it("keeps the base ratios of the reporting period", () => {
+    const result = runLoanStressTest(data, undefined, { amount: 100, termMonths: 12, annualRate: 12, amortization: "bullet", purpose: "investment" }, DEFAULT_THRESHOLDS);
+
+    assert.equal(result.baseRatios.netDebtToEbitda?.value, 1.8);
+    assert.equal(result.baseRatios.debtServiceCoverage?.value.toFixed(3), "1.667");
+    assert.ok(result.maxSustainableLoan > 0);
+  });
+});
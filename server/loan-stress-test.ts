@@ -0,0 +1,234 @@
+import type {
+  FinancialData,
+  LoanCovenantCheck,
+  LoanCovenants,
+  LoanScheduleYear,
+  LoanStressTestRequest,
+  LoanStressTestResult,
+  RatioThresholds,
+} from "@shared/schema";
+import { calculateFinancialRatios, evaluateRatios } from "./financial-calculator";
+
+type LoanTerms = Omit<LoanStressTestRequest, "covenants">;
+
+// Profit tax rate (art. 284 of the Tax Code from 2025) - interest is deductible
+const PROFIT_TAX_RATE = 0.25;
+
+const COVENANT_LABELS: Record<keyof LoanCovenants, string> = {
+  minDebtServiceCoverage: "DSCR по графику платежей",
+  maxNetDebtToEbitda: "Чистый долг / EBITDA",
+  minInterestCoverage: "Покрытие процентов (ICR)",
+};
+
+/**
+ * Monthly repayment schedule aggregated by loan year
+ * @param existingInterest - Interest payable on the current debt (2330), added to the debt service of every year:
+ *                           current borrowings are assumed to be refinanced, only the new loan is repaid
+ */
+function buildSchedule(loan: LoanTerms, ebitda: number, existingInterest: number): LoanScheduleYear[] {
+  const monthlyRate = loan.annualRate / 100 / 12;
+  const annuityPayment = monthlyRate > 0
+    ? loan.amount * monthlyRate / (1 - Math.pow(1 + monthlyRate, -loan.termMonths))
+    : loan.amount / loan.termMonths;
+
+  const schedule: LoanScheduleYear[] = [];
+  let balance = loan.amount;
+
+  for (let month = 1; month <= loan.termMonths; month++) {
+    const interest = balance * monthlyRate;
+    let principal: number;
+    if (loan.amortization === "annuity") {
+      principal = annuityPayment - interest;
+    } else if (loan.amortization === "linear") {
+      principal = loan.amount / loan.termMonths;
+    } else {
+      principal = month === loan.termMonths ? balance : 0;
+    }
+    // The last payment closes the rounding remainder
+    if (month === loan.termMonths) principal = balance;
+    balance -= principal;
+
+    const yearIndex = Math.ceil(month / 12) - 1;
+    if (!schedule[yearIndex]) {
+      schedule[yearIndex] = { year: yearIndex + 1, payment: 0, principal: 0, interest: 0, balance: 0, debtService: existingInterest };
+    }
+    const year = schedule[yearIndex];
+    year.principal += principal;
+    year.interest += interest;
+    year.payment += principal + interest;
+    year.debtService += principal + interest;
+    year.balance = Math.max(balance, 0);
+  }
+
+  schedule.forEach(year => {
+    year.debtServiceCoverage = year.debtService > 0 ? ebitda / year.debtService : undefined;
+  });
+
+  return schedule;
+}
+
+/**
+ * Balance sheet and income statement after the disbursement: the proceeds are spent on the purpose
+ * (inventory for working capital, fixed assets for an investment loan), the principal due within
+ * 12 months is a short-term borrowing (1510), the rest a long-term one (1410). The first year interest
+ * is added to 2330 and reduces the profit; the balance is taken at the disbursement, so equity is unchanged
+ */
+function buildProFormaData(data: FinancialData, loan: LoanTerms, firstYear: LoanScheduleYear): FinancialData {
+  const { yearlyData, reportingYearData, ocrPages, ...balance } = data;
+  const shortTermPart = firstYear.principal;
+  const longTermPart = loan.amount - shortTermPart;
+  const interest = firstYear.interest;
+
+  const proForma: FinancialData = {
+    ...balance,
+    totalAssets: data.totalAssets + loan.amount,
+    shortTermDebt: data.shortTermDebt + shortTermPart,
+    currentLiabilities: data.currentLiabilities + shortTermPart,
+    longTermDebt: data.longTermDebt + longTermPart,
+    totalLiabilities: data.totalLiabilities + loan.amount,
+    interestExpense: (data.interestExpense ?? 0) + interest,
+  };
+
+  if (data.borrowedFundsLongTerm !== undefined) {
+    proForma.borrowedFundsLongTerm = data.borrowedFundsLongTerm + longTermPart;
+  }
+
+  if (loan.purpose === "investment") {
+    if (data.fixedAssets !== undefined) {
+      proForma.fixedAssets = data.fixedAssets + loan.amount;
+    }
+  } else {
+    proForma.currentAssets = data.currentAssets + loan.amount;
+    proForma.inventory = data.inventory + loan.amount;
+  }
+
+  if (data.profitBeforeTax !== undefined) {
+    proForma.profitBeforeTax = data.profitBeforeTax - interest;
+  }
+  if (data.netIncome !== undefined) {
+    proForma.netIncome = data.netIncome - interest * (1 - PROFIT_TAX_RATE);
+  }
+
+  return proForma;
+}
+
+/**
+ * Pro-forma ratios, schedule and covenant checks for one loan amount
+ */
+function testLoan(data: FinancialData, previousData: FinancialData | undefined, loan: LoanTerms, covenants: LoanCovenants, thresholds: RatioThresholds, ebitda: number) {
+  const schedule = buildSchedule(loan, ebitda, data.interestExpense ?? 0);
+  const proFormaData = buildProFormaData(data, loan, schedule[0]);
+  const proFormaRatios = calculateFinancialRatios(proFormaData, previousData);
+
+  const coverages = schedule
+    .map(year => year.debtServiceCoverage)
+    .filter((value): value is number => value !== undefined);
+  const minDebtServiceCoverage = coverages.length > 0 ? Math.min(...coverages) : undefined;
+
+  // Without debt service or interest the coverage covenants cannot be breached;
+  // without a positive EBITDA the leverage covenant always is
+  const covenantChecks: LoanCovenantCheck[] = [
+    {
+      covenant: "minDebtServiceCoverage",
+      label: COVENANT_LABELS.minDebtServiceCoverage,
+      limit: covenants.minDebtServiceCoverage,
+      value: minDebtServiceCoverage,
+      passed: minDebtServiceCoverage === undefined || minDebtServiceCoverage >= covenants.minDebtServiceCoverage,
+    },
+    {
+      covenant: "maxNetDebtToEbitda",
+      label: COVENANT_LABELS.maxNetDebtToEbitda,
+      limit: covenants.maxNetDebtToEbitda,
+      value: proFormaRatios.netDebtToEbitda,
+      passed: proFormaRatios.netDebtToEbitda !== undefined && proFormaRatios.netDebtToEbitda <= covenants.maxNetDebtToEbitda,
+    },
+    {
+      covenant: "minInterestCoverage",
+      label: COVENANT_LABELS.minInterestCoverage,
+      limit: covenants.minInterestCoverage,
+      value: proFormaRatios.interestCoverage,
+      passed: proFormaRatios.interestCoverage === undefined || proFormaRatios.interestCoverage >= covenants.minInterestCoverage,
+    },
+  ];
+
+  return {
+    schedule,
+    proFormaData,
+    proFormaRatios: evaluateRatios(proFormaRatios, thresholds),
+    minDebtServiceCoverage,
+    covenantChecks,
+    passed: covenantChecks.every(check => check.passed),
+  };
+}
+
+/**
+ * Largest loan on the same terms that meets every covenant. The debt service and net debt grow
+ * with the amount, so the covenants hold below some limit: it is bracketed by doubling and bisected
+ */
+function findMaxSustainableLoan(data: FinancialData, previousData: FinancialData | undefined, loan: LoanTerms, covenants: LoanCovenants, thresholds: RatioThresholds, ebitda: number): number {
+  const passes = (amount: number) => testLoan(data, previousData, { ...loan, amount }, covenants, thresholds, ebitda).passed;
+
+  if (ebitda <= 0 || !passes(1)) return 0;
+
+  let low = 1;
+  let high = Math.max(loan.amount, ebitda);
+  for (let step = 0; step < 60 && passes(high); step++) {
+    low = high;
+    high *= 2;
+  }
+
+  for (let step = 0; step < 60 && high - low > 1; step++) {
+    const middle = (low + high) / 2;
+    if (passes(middle)) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  return Math.floor(low);
+}
+
+/**
+ * Stress test of a proposed loan: rebuilds the statements after the disbursement, reruns the ratios,
+ * computes DSCR over the repayment schedule and the maximum loan that keeps the covenants
+ * @param data - Reporting period data of the analysis
+ * @param previousData - Previous period data (average balances of the activity ratios)
+ * @param thresholds - Benchmark profile thresholds: statuses and the default covenants
+ */
+export function runLoanStressTest(
+  data: FinancialData,
+  previousData: FinancialData | undefined,
+  request: LoanStressTestRequest,
+  thresholds: RatioThresholds
+): LoanStressTestResult {
+  const baseRatios = calculateFinancialRatios(data, previousData);
+  if (baseRatios.ebitda === undefined) {
+    throw new Error("Для стресс-теста нужна прибыль до налогообложения (стр. 2300) отчета о финансовых результатах");
+  }
+  const ebitda = baseRatios.ebitda;
+
+  const { covenants: covenantOverrides, ...loan } = request;
+  const covenants: LoanCovenants = {
+    minDebtServiceCoverage: covenantOverrides?.minDebtServiceCoverage ?? thresholds.debtServiceCoverage.good,
+    maxNetDebtToEbitda: covenantOverrides?.maxNetDebtToEbitda ?? thresholds.netDebtToEbitda.good,
+    minInterestCoverage: covenantOverrides?.minInterestCoverage ?? thresholds.interestCoverage.good,
+  };
+
+  const tested = testLoan(data, previousData, loan, covenants, thresholds, ebitda);
+  const maxSustainableLoan = findMaxSustainableLoan(data, previousData, loan, covenants, thresholds, ebitda);
+
+  return {
+    loan,
+    covenants,
+    ebitda,
+    proFormaData: tested.proFormaData,
+    baseRatios: evaluateRatios(baseRatios, thresholds),
+    proFormaRatios: tested.proFormaRatios,
+    schedule: tested.schedule,
+    minDebtServiceCoverage: tested.minDebtServiceCoverage,
+    covenantChecks: tested.covenantChecks,
+    passed: tested.passed,
+    maxSustainableLoan,
+  };
+}
@@ -0,0 +1,62 @@
+import type { FinancialData, NetAssetsPeriod, ReportingPeriod } from "@shared/schema";
+
+/**
+ * Net assets by the Ministry of Finance order № 84н from the section totals:
+ * assets (1600) less long-term (1400) and short-term (1500) liabilities,
+ * deferred income (1530) is not a liability for this purpose
+ */
+export function calculateNetAssets(data: FinancialData): number {
+  return data.totalAssets - data.longTermDebt - (data.currentLiabilities - (data.deferredIncome ?? 0));
+}
+
+/**
+ * Net assets of every period compared with the authorized capital (1310)
+ * Below the capital in one year - warning; two years in a row or non-positive net assets - critical
+ * (art. 30 of the LLC law, art. 35 of the JSC law: the capital must be reduced or the company liquidated).
+ * The capital rarely changes, so a previous year without line 1310 uses the reporting year value
+ * @param periods - Reporting periods, most recent first
+ */
+export function analyzeNetAssets(periods: ReportingPeriod[]): NetAssetsPeriod[] | undefined {
+  if (periods.length === 0) return undefined;
+
+  const reportingCapital = periods[0].data.authorizedCapital;
+
+  const values = periods.map(period => {
+    const netAssets = calculateNetAssets(period.data);
+    const authorizedCapital = period.data.authorizedCapital ?? reportingCapital;
+    return {
+      year: period.year,
+      netAssets,
+      authorizedCapital,
+      excess: authorizedCapital !== undefined ? netAssets - authorizedCapital : undefined,
+    };
+  });
+
+  // values[index + 1] is the year before values[index]
+  const result: NetAssetsPeriod[] = values.map((value, index) => {
+    const previous = values[index + 1];
+    const belowCapital = value.excess !== undefined && value.excess < 0;
+    const previousBelowCapital = previous?.excess !== undefined && previous.excess < 0;
+
+    if (value.netAssets <= 0) {
+      return { ...value, status: "critical", message: `Чистые активы отрицательные (${value.netAssets.toLocaleString("ru-RU")}): признак неплатежеспособности, требуется решение о ликвидации или восстановлении капитала` };
+    }
+    if (belowCapital && previousBelowCapital) {
+      return { ...value, status: "critical", message: `Чистые активы ниже уставного капитала второй год подряд (${value.netAssets.toLocaleString("ru-RU")} < ${value.authorizedCapital!.toLocaleString("ru-RU")}): обязательно уменьшение уставного капитала или ликвидация` };
+    }
+    if (belowCapital) {
+      return { ...value, status: "warning", message: `Чистые активы ниже уставного капитала (${value.netAssets.toLocaleString("ru-RU")} < ${value.authorizedCapital!.toLocaleString("ru-RU")})` };
+    }
+    return {
+      ...value,
+      status: "good",
+      message: value.authorizedCapital !== undefined
+        ? "Чистые активы превышают уставный капитал"
+        : "Уставный капитал не указан, сравнение не выполнено",
+    };
+  });
+
+  console.log(`✓ Net assets: ${result[0].netAssets.toFixed(2)} (${result[0].status})`);
+
+  return result;
+}
@@ -0,0 +1,31 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findOkvedCode } from "./okved";
+
+describe("OKVED code of a statement header", () => {
+  it("takes the code from the line after the ГИР БО label", () => {
+    const lines = [
+      "Организационно-правовая форма (по ОКОПФ)",
+      "12267 Непубличные акционерные общества",
+      "Вид экономической деятельности по ОКВЭД 2",
+      "71.12.2",
+      "Местонахождение (адрес)",
+    ];
+    assert.equal(findOkvedCode(lines), "71.12.2");
+  });
+
+  it("takes the code between the wrapped label lines of a ГИР БО PDF", () => {
+    assert.equal(findOkvedCode(["Вид экономической деятельности по", "47.11", "ОКВЭД 2", "142432, Московская область"]), "47.11");
+  });
+
+  it("skips the edition number on the label line", () => {
+    assert.equal(findOkvedCode(["Код по ОКВЭД 2 46.51"]), "46.51");
+    assert.equal(findOkvedCode(["ОКВЭД: 46,51"]), "46.51");
+    assert.equal(findOkvedCode(["по ОКВЭД 20.14"]), "20.14");
+  });
+
+  it("ignores a label without a known code", () => {
+    assert.equal(findOkvedCode(["Вид экономической деятельности по ОКВЭД 2", "Местонахождение (адрес)"]), undefined);
+    assert.equal(findOkvedCode(["ОКВЭД 00.00"]), undefined);
+  });
+});
@@ -0,0 +1,145 @@
+import type { OkvedEntry, OkvedLevel, OkvedLookup } from "@shared/schema";
+import okvedFile from "./okved2.json";
+
+// Bundled OKVED 2 directory (ОК 029-2014) down to groups ("46.51"); classification never goes to the AI
+export const OKVED_VERSION: string = okvedFile.version;
+
+const codeNames = okvedFile.codes as Record<string, string>;
+
+// Section of every class ("46" → G)
+const sectionByClass = new Map<string, OkvedEntry>();
+const sectionEntries: OkvedEntry[] = okvedFile.sections.map(section => {
+  const entry: OkvedEntry = { code: section.code, name: section.name, level: "section" };
+  section.classes.forEach(okvedClass => sectionByClass.set(okvedClass, entry));
+  return entry;
+});
+
+// Codes are sorted explicitly: object keys like "10" are integer-like and lose the file order
+const codeEntries: OkvedEntry[] = Object.keys(codeNames)
+  .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  .map(code => ({ code, name: codeNames[code], level: getCodeLevel(code) }));
+
+const LEVEL_ORDER: OkvedLevel[] = ["section", "class", "subclass", "group"];
+
+const SEARCH_LIMIT = 20;
+
+function getCodeLevel(code: string): OkvedLevel {
+  if (code.length === 2) return "class";
+  return code.length === 4 ? "subclass" : "group";
+}
+
+/**
+ * Bring a code as written in documents ("ОКВЭД 2: 46,51", " g ") to the directory format ("46.51", "G")
+ * @returns Undefined when the text is not an OKVED code
+ */
+export function normalizeOkvedCode(raw: string): string | undefined {
+  const code = raw
+    .trim()
+    .replace(/^ОКВЭД\s*(2(?!\d)|ред\.?\s*2)?\s*[:\-–—]?\s*/i, "")
+    .replace(/,/g, ".")
+    .replace(/\s+/g, "")
+    .toUpperCase();
+
+  if (/^[A-U]$/.test(code)) return code;
+  return /^\d{2}(\.\d{1,2}){0,2}$/.test(code) ? code : undefined;
+}
+
+/**
+ * Find the activity code in the header lines of a statement: "Код по ОКВЭД: 46.51", "ОКВЭД 2 46.51",
+ * or "Вид экономической деятельности по ОКВЭД 2" with the code on the next line (ГИР БО exports;
+ * in their PDF the code sits between the wrapped label lines, i.e. on the line before "ОКВЭД 2").
+ * The edition number "2" is not a code: a candidate is accepted only when it resolves in the directory
+ */
+export function findOkvedCode(lines: string[]): string | undefined {
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/(?:оквэд|okved)(?:\s*(?:2(?![\d.,])|ред\.?\s*2))?\s*[:\-–—]?\s*(.*)$/i);
+    if (!match) continue;
+
+    const candidates = [match[1], lines[i + 1] ?? "", lines[i - 1] ?? ""].map(text => text.trim().split(/\s+/)[0]);
+    for (const candidate of candidates) {
+      const code = normalizeOkvedCode(candidate);
+      if (code && lookupOkved(code)) return code;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve an OKVED 2 code or section letter in the directory
+ * Codes finer than a group ("46.51.1", "46.51.12") resolve to the deepest known level
+ * @returns Undefined when the code is malformed or its class does not exist
+ */
+export function lookupOkved(raw: string): OkvedLookup | undefined {
+  const code = normalizeOkvedCode(raw);
+  if (!code) return undefined;
+
+  if (/^[A-U]$/.test(code)) {
+    const section = sectionEntries.find(entry => entry.code === code)!;
+    return { code, entry: section, exact: true, path: [section] };
+  }
+
+  const section = sectionByClass.get(code.slice(0, 2));
+  if (!section) return undefined;
+
+  // Class, subclass and group the code belongs to ("46", "46.5", "46.51"); every code of the file has its parent
+  const path: OkvedEntry[] = [section];
+  [2, 4, 5].forEach(length => {
+    const prefix = code.slice(0, length);
+    if (code.length >= length && codeNames[prefix]) {
+      path.push({ code: prefix, name: codeNames[prefix], level: getCodeLevel(prefix) });
+    }
+  });
+
+  const entry = path[path.length - 1];
+  return { code, entry, exact: entry.code === code, path };
+}
+
+/**
+ * OKVED 2 section letter for a code like "47.11"
+ */
+export function getOkvedSection(okved: string): string | undefined {
+  return lookupOkved(okved)?.path[0].code;
+}
+
+/**
+ * One-line description of the activity for reports and prompts:
+ * "ОКВЭД 46.51 - Торговля оптовая компьютерами... (раздел G: Торговля оптовая и розничная...)";
+ * a code finer than the directory is described by its deepest known level
+ */
+export function describeOkved(lookup: OkvedLookup): string {
+  const section = lookup.path[0];
+  const activity = lookup.exact
+    ? `ОКВЭД ${lookup.code} - ${lookup.entry.name}`
+    : `ОКВЭД ${lookup.code} (входит в ${lookup.entry.code} - ${lookup.entry.name})`;
+  return lookup.entry.level === "section" ? `Раздел ${section.code} ОКВЭД - ${section.name}` : `${activity} (раздел ${section.code}: ${section.name})`;
+}
+
+/**
+ * Search the directory by code prefix ("46.5") or by words of the name ("оптовая компьютер")
+ * Name matches are ordered from the broadest level down, then by code
+ */
+export function searchOkved(query: string, limit = SEARCH_LIMIT): OkvedEntry[] {
+  const text = query.trim();
+  if (!text) return [];
+
+  const code = normalizeOkvedCode(text);
+  if (code && /^[A-U]$/.test(code)) {
+    const section = lookupOkved(code)!.entry;
+    const classes = codeEntries.filter(entry => entry.level === "class" && sectionByClass.get(entry.code) === section);
+    return [section, ...classes].slice(0, limit);
+  }
+  if (/^\d[\d.,]*$/.test(text)) {
+    const prefix = text.replace(/,/g, ".");
+    return codeEntries.filter(entry => entry.code.startsWith(prefix)).slice(0, limit);
+  }
+
+  const normalize = (value: string) => value.toLowerCase().replace(/ё/g, "е");
+  const words = normalize(text).split(/\s+/);
+  return [...sectionEntries, ...codeEntries]
+    .filter(entry => {
+      const name = normalize(entry.name);
+      return words.every(word => name.includes(word));
+    })
+    .sort((a, b) => LEVEL_ORDER.indexOf(a.level) - LEVEL_ORDER.indexOf(b.level))
+    .slice(0, limit);
+}
@@ -1,91 +1,256 @@
-import OpenAI from "openai";
-import type { FinancialData, FinancialRatios, BankCreditReport } from "@shared/schema";
+import type { z } from "zod";
+import type { FinancialData, FinancialRatios, BankCreditReport, CreditRating, CreditReportDraft, CreditReportSection, CreditReportValidation, FinancialAnalysisResult, GeneratedCreditReport, NetAssetsPeriod, RatioWithStatus } from "@shared/schema";
+import { bankCreditReportSchema } from "@shared/schema";
+import { FINANCIAL_STABILITY_LABELS } from "./financial-calculator";
+import { STATUS_LABELS } from "./credit-rating";
+import { getAnalysisProvider, type AnalysisProvider, type ChatMessage, type CompletionRequest } from "./analysis-provider";
+import { describeOkved, lookupOkved } from "./okved";
+import { checkReportFacts, collectReportFacts, REPORT_SECTION_LABELS } from "./report-fact-check";
+import { PartialJsonReader } from "./partial-json";
 
-// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-// Reference: javascript_openai blueprint integration
+/**
+ * Rule-based results the credit report builds on besides the raw ratios
+ */
+export interface AnalysisContext {
+  // Ratios with statuses and norms of the company's benchmark profile
+  evaluatedRatios: FinancialAnalysisResult["ratios"];
+  // Net assets against the authorized capital by period, most recent first
+  netAssets?: NetAssetsPeriod[];
+}
 
-let openai: OpenAI | null = null;
+// Prompt line for an evaluated ratio: value, configured norm and status
+function formatRatioLine(label: string, ratio: RatioWithStatus | undefined): string {
+  return ratio ? `\n- ${label}: ${ratio.value.toFixed(2)} (норма ${ratio.benchmark}, ${STATUS_LABELS[ratio.status]})` : '';
+}
 
-function getOpenAIClient(): OpenAI | null {
-  if (!process.env.OPENAI_API_KEY) {
-    return null;
-  }
-  if (!openai) {
-    openai = new OpenAI({ 
-      apiKey: process.env.OPENAI_API_KEY 
-    });
-  }
-  return openai;
+// The benchmark string is the "good" threshold, so a ratio is within the norm when rated good or better
+function meetsNorm(ratio: RatioWithStatus | undefined): boolean {
+  return ratio?.status === "excellent" || ratio?.status === "good";
 }
 
+// Fallback report wording for a ratio against its configured norm
+function describeNorm(ratio: RatioWithStatus): string {
+  if (meetsNorm(ratio)) return `(соответствует норме ${ratio.benchmark})`;
+  return ratio.status === "warning"
+    ? `(не соответствует норме ${ratio.benchmark}, но приемлемо)`
+    : `(значительно отклоняется от нормы ${ratio.benchmark})`;
+}
+
+// A response that does not match the report schema is sent back to the model once with the list of problems
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// The AI request is aborted once the provider sends nothing for this long (a streamed response
+// restarts the timer with every chunk, so a long report is not cut off while it is being written)
+const AI_INACTIVITY_TIMEOUT_MS = 30000;
+
 /**
- * Get sector name from OKVED code using OpenAI
+ * Run an AI request with its own abort signal: aborted on the inactivity timeout and when the job is cancelled
+ * @param request - Gets the signal to pass to the provider and `touch` to call on every received chunk
  */
-async function getOkvedSectorName(okvedCode: string): Promise<string> {
-  const client = getOpenAIClient();
-  if (!client) {
-    return `Отрасль по ОКВЭД ${okvedCode}`;
-  }
+async function withInactivityTimeout<T>(
+  request: (signal: AbortSignal, touch: () => void) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  let rejectAborted: (error: Error) => void = () => {};
+  const aborted = new Promise<never>((_, reject) => { rejectAborted = reject; });
+
+  const abort = (error: Error) => {
+    controller.abort(error);
+    rejectAborted(error);
+  };
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => abort(new Error(`AI provider timeout: no response for ${AI_INACTIVITY_TIMEOUT_MS / 1000} seconds`)), AI_INACTIVITY_TIMEOUT_MS);
+  };
+  const onCancel = () => abort(new Error("AI request cancelled"));
 
+  if (signal?.aborted) onCancel();
+  signal?.addEventListener("abort", onCancel);
+  touch();
   try {
-    const response = await client.chat.completions.create({
-      model: "gpt-5",
-      messages: [
-        {
-          role: "system",
-          content: "Вы эксперт по классификации ОКВЭД 2 (Общероссийский классификатор видов экономической деятельности). Предоставляйте точные названия видов деятельности."
-        },
-        {
-          role: "user",
-          content: `Какой вид экономической деятельности соответствует коду ОКВЭД 2: ${okvedCode}? Ответьте кратко, только название отрасли без дополнительных объяснений. Формат ответа: "ОКВЭД ${okvedCode} - [Название отрасли]"`
-        }
-      ],
-      max_completion_tokens: 100,
-    });
+    // The race settles right away even with a provider that does not stop on the signal
+    return await Promise.race([request(controller.signal, touch), aborted]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onCancel);
+  }
+}
+
+/**
+ * Stream the response, passing the members of the JSON object on as soon as the model closes them
+ */
+async function streamCreditReport(
+  provider: AnalysisProvider,
+  request: CompletionRequest,
+  onPartial: (partial: any) => void,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const reader = new PartialJsonReader(["financialCondition"]);
+  const { content } = await withInactivityTimeout((requestSignal, touch) => provider.stream(request, text => {
+    touch();
+    const partial = reader.push(text);
+    if (partial) onPartial(partial);
+  }, requestSignal), signal);
+  return content.trim() || null;
+}
 
-    const content = response.choices[0]?.message?.content?.trim();
-    if (content) {
-      return content;
+/**
+ * Request the credit report JSON, asking the model to fix a response that fails bankCreditReportSchema
+ * @param onPartial - Streams the first response and gets its complete members while it is written
+ *                    (a repaired response is not streamed, so sections already shown do not disappear)
+ * @returns The last parsed response (may still be invalid, sections are then checked one by one)
+ *          or null when no JSON object came back
+ */
+async function requestCreditReport(
+  provider: AnalysisProvider,
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+  onPartial?: (partial: any) => void
+): Promise<{ result: any; repairAttempts: number }> {
+  const conversation = [...messages];
+  let result: any = null;
+  let repairAttempts = 0;
+
+  while (true) {
+    const request: CompletionRequest = { task: "credit-report", messages: conversation, json: true, maxTokens: 4096 };
+    const content = onPartial && repairAttempts === 0
+      ? await streamCreditReport(provider, request, onPartial, signal)
+      : await withInactivityTimeout(requestSignal => provider.complete(request, requestSignal), signal);
+    if (!content) {
+      return { result, repairAttempts };
     }
-    return `Отрасль по ОКВЭД ${okvedCode}`;
-  } catch (error) {
-    console.error("Error getting OKVED sector name:", error);
-    return `Отрасль по ОКВЭД ${okvedCode}`;
+
+    let issues: string;
+    try {
+      const parsed = JSON.parse(content);
+      if (parsed && typeof parsed === "object") {
+        result = parsed;
+      }
+      const validation = bankCreditReportSchema.safeParse(parsed);
+      if (validation.success) {
+        return { result, repairAttempts };
+      }
+      issues = validation.error.issues.map(issue => `${issue.path.join(".") || "ответ"}: ${issue.message}`).join("; ");
+    } catch {
+      issues = "ответ не является корректным JSON";
+    }
+
+    if (repairAttempts >= MAX_REPAIR_ATTEMPTS) {
+      return { result, repairAttempts };
+    }
+    repairAttempts++;
+    console.warn(`⚠️ AI credit report does not match the schema (${issues}), asking the model to fix it`);
+    conversation.push(
+      { role: "assistant", content },
+      { role: "user", content: `Ответ не соответствует требуемой структуре: ${issues}. Верни полный исправленный JSON того же формата без пояснений.` }
+    );
   }
 }
 
+// Put the rule-based text in place of a section of the AI report
+function replaceSection(report: GeneratedCreditReport, fallback: BankCreditReport, section: CreditReportSection): void {
+  switch (section) {
+    case "industrySector":
+      report.industrySector = fallback.industrySector;
+      break;
+    case "liquidity":
+    case "stability":
+    case "profitability":
+      report.financialCondition[section] = fallback.financialCondition[section];
+      break;
+    case "strengths":
+    case "weaknesses":
+      report[section] = fallback[section];
+      break;
+    case "recommendations":
+      report.recommendations = fallback.recommendations;
+      break;
+  }
+}
+
+/**
+ * Sections of a partial response that pass their schema and the fact check, as the final report would keep them
+ */
+function draftSections(partial: any, fallback: BankCreditReport, facts: number[]): CreditReportDraft {
+  const shape = bankCreditReportSchema.shape;
+  const conditionShape = shape.financialCondition.shape;
+  const valid = <T extends z.ZodTypeAny>(schema: T, value: unknown): z.infer<T> | undefined => {
+    const parsed = schema.safeParse(value);
+    return parsed.success ? parsed.data : undefined;
+  };
+
+  const draft: CreditReportDraft = {
+    industrySector: valid(shape.industrySector, partial.industrySector),
+    liquidity: valid(conditionShape.liquidity, partial.financialCondition?.liquidity),
+    stability: valid(conditionShape.stability, partial.financialCondition?.stability),
+    profitability: valid(conditionShape.profitability, partial.financialCondition?.profitability),
+    strengths: valid(shape.strengths, partial.strengths),
+    weaknesses: valid(shape.weaknesses, partial.weaknesses),
+    recommendations: valid(shape.recommendations, partial.recommendations),
+  };
+
+  // Sections not written yet are filled with the rule-based text only to run the check and are skipped by it
+  const missing = (Object.keys(REPORT_SECTION_LABELS) as CreditReportSection[]).filter(section => draft[section] === undefined);
+  const report: GeneratedCreditReport = {
+    industrySector: draft.industrySector ?? fallback.industrySector,
+    financialCondition: {
+      liquidity: draft.liquidity ?? fallback.financialCondition.liquidity,
+      stability: draft.stability ?? fallback.financialCondition.stability,
+      profitability: draft.profitability ?? fallback.financialCondition.profitability,
+    },
+    strengths: draft.strengths ?? fallback.strengths,
+    weaknesses: draft.weaknesses ?? fallback.weaknesses,
+    recommendations: draft.recommendations ?? fallback.recommendations,
+  };
+  checkReportFacts(report, facts, missing).severeSections.forEach(section => {
+    draft[section] = undefined;
+  });
+
+  return draft;
+}
+
+/**
+ * Generate the bank credit report
+ * @param creditRating - Rule-based rating: the report takes its risk level and credit decision from it,
+ *                       the AI only explains the rating and never assigns its own
+ * @param context - Evaluated ratios and net assets
+ * @param signal - Aborts the AI request when the analysis job is cancelled
+ * @param onDraft - Streams the response: called with the checked sections every time the model finishes one
+ */
 export async function generateFinancialAnalysis(
   data: FinancialData,
-  ratios: FinancialRatios
+  ratios: FinancialRatios,
+  creditRating: CreditRating,
+  context: AnalysisContext,
+  signal?: AbortSignal,
+  onDraft?: (draft: CreditReportDraft) => void
 ): Promise<BankCreditReport> {
+  const { evaluatedRatios, netAssets } = context;
   try {
-    // Check if OpenAI API key is available
-    if (!process.env.OPENAI_API_KEY) {
-      console.warn("OPENAI_API_KEY not configured, using fallback analysis");
-      return generateFallbackAnalysis(data, ratios);
+    const provider = getAnalysisProvider();
+    if (!provider) {
+      console.warn("AI provider not configured, using fallback analysis");
+      return generateFallbackAnalysis(data, ratios, creditRating, context);
     }
 
-    console.log('Starting AI analysis with OpenAI API...');
+    console.log(`Starting AI analysis with ${provider.name} provider (${provider.model})...`);
     
-    // Get full sector name from OKVED code with timeout
-    let okvedInfo = '';
-    let sectorName = '';
-    if (data.okved) {
-      try {
-        console.log(`Fetching OKVED sector name for code: ${data.okved}`);
-        sectorName = await Promise.race([
-          getOkvedSectorName(data.okved),
-          new Promise<string>((_, reject) => 
-            setTimeout(() => reject(new Error('OKVED lookup timeout')), 10000)
-          )
-        ]);
-        okvedInfo = `\n- ${sectorName}`;
-        console.log(`OKVED sector resolved: ${sectorName}`);
-      } catch (error) {
-        console.warn(`OKVED lookup failed or timed out, using code as-is:`, error);
-        sectorName = `Отрасль по ОКВЭД ${data.okved}`;
-        okvedInfo = `\n- ${sectorName}`;
+    // Sector from the bundled OKVED 2 directory, the model is never asked to classify
+    const okved = data.okved ? lookupOkved(data.okved) : undefined;
+    let okvedInfo: string;
+    let sectorName: string;
+    if (okved) {
+      sectorName = `ОКВЭД ${okved.code} - ${okved.entry.name}`;
+      okvedInfo = `\n- ${describeOkved(okved)}`;
+      if (okved.path.length > 2) {
+        okvedInfo += `\n- Классификация ОКВЭД 2: ${okved.path.map(entry => `${entry.code} ${entry.name}`).join(' → ')}`;
       }
+      console.log(`OKVED sector resolved: ${sectorName}`);
+    } else if (data.okved) {
+      sectorName = `Отрасль по ОКВЭД ${data.okved}`;
+      okvedInfo = `\n- ${sectorName} (код не найден в справочнике ОКВЭД 2)`;
     } else {
       sectorName = "Отрасль не указана";
       okvedInfo = "\n- Отрасль не указана в документах";
@@ -99,6 +264,40 @@ export async function generateFinancialAnalysis(
 
 ПОКАЗАТЕЛИ РЕНТАБЕЛЬНОСТИ:${ratios.roa ? `\n- ROA (рентабельность активов): ${(ratios.roa * 100).toFixed(2)}%` : ''}${ratios.roe ? `\n- ROE (рентабельность капитала): ${(ratios.roe * 100).toFixed(2)}%` : ''}${ratios.ros ? `\n- ROS (рентабельность продаж): ${(ratios.ros * 100).toFixed(2)}%` : ''}${ratios.grossProfitMargin ? `\n- Валовая рентабельность: ${(ratios.grossProfitMargin * 100).toFixed(2)}%` : ''}${ratios.netProfitMargin ? `\n- Чистая рентабельность: ${(ratios.netProfitMargin * 100).toFixed(2)}%` : ''}` : '';
 
+    const cashFlowInfo = ratios.operatingCashFlowRatio !== undefined || ratios.freeCashFlow !== undefined ? `
+
+ПОКАЗАТЕЛИ ДЕНЕЖНЫХ ПОТОКОВ (ФОРМА 4):${data.operatingCashFlow !== undefined ? `\n- Сальдо денежных потоков от текущих операций: ${data.operatingCashFlow.toLocaleString()}` : ''}${data.investingCashFlow !== undefined ? `\n- Сальдо денежных потоков от инвестиционных операций: ${data.investingCashFlow.toLocaleString()}` : ''}${data.financingCashFlow !== undefined ? `\n- Сальдо денежных потоков от финансовых операций: ${data.financingCashFlow.toLocaleString()}` : ''}${formatRatioLine('Покрытие краткосрочных обязательств денежным потоком', evaluatedRatios.operatingCashFlowRatio)}${ratios.freeCashFlow !== undefined ? `\n- Свободный денежный поток: ${ratios.freeCashFlow.toLocaleString()}` : ''}${formatRatioLine('Покрытие заемных средств денежным потоком', evaluatedRatios.cashDebtCoverage)}${formatRatioLine('Качество прибыли (денежный поток / чистая прибыль)', evaluatedRatios.qualityOfEarnings)}` : '';
+
+    const stability = ratios.financialStability;
+    const stabilityInfo = `
+
+ТИП ФИНАНСОВОЙ УСТОЙЧИВОСТИ (трехкомпонентный показатель, рассчитан):
+- ${FINANCIAL_STABILITY_LABELS[stability.type]}, S = (${stability.indicator.join(', ')})
+- Излишек (+) / недостаток (-) СОС для покрытия запасов: ${stability.surpluses[0].toLocaleString()}
+- Излишек (+) / недостаток (-) собственных и долгосрочных источников: ${stability.surpluses[1].toLocaleString()}
+- Излишек (+) / недостаток (-) общей величины основных источников: ${stability.surpluses[2].toLocaleString()}`;
+
+    const currentNetAssets = netAssets?.[0];
+    const netAssetsInfo = currentNetAssets ? `
+
+ЧИСТЫЕ АКТИВЫ:
+- Чистые активы: ${currentNetAssets.netAssets.toLocaleString()}${currentNetAssets.authorizedCapital !== undefined ? `\n- Уставный капитал: ${currentNetAssets.authorizedCapital.toLocaleString()}` : ''}
+- ${currentNetAssets.message}` : '';
+
+    // Norms come from the benchmark profile of the company's industry
+    const debtServiceInfo = ratios.ebitda !== undefined ? `
+
+ДОЛГОВАЯ НАГРУЗКА И ОБСЛУЖИВАНИЕ ДОЛГА:${data.interestExpense !== undefined ? `\n- Проценты к уплате: ${data.interestExpense.toLocaleString()}` : ''}${ratios.ebit !== undefined ? `\n- EBIT: ${ratios.ebit.toLocaleString()}` : ''}
+- EBITDA: ${ratios.ebitda.toLocaleString()}${data.depreciation === undefined ? ' (амортизация не раскрыта, EBITDA = EBIT)' : ''}
+- Чистый долг: ${ratios.netDebt.toLocaleString()}${formatRatioLine('Чистый долг / EBITDA', evaluatedRatios.netDebtToEbitda)}${formatRatioLine('Покрытие процентов (EBIT / проценты)', evaluatedRatios.interestCoverage)}${formatRatioLine('DSCR (EBITDA / (проценты + краткосрочные кредиты))', evaluatedRatios.debtServiceCoverage)}` : '';
+
+    const ratingInfo = `
+
+КРЕДИТНЫЙ РЕЙТИНГ (рассчитан по методике банка, изменять нельзя):
+- Рейтинг: ${creditRating.grade} (${creditRating.score.toFixed(1)} баллов из 100)
+- Уровень риска: ${creditRating.riskLevel}
+- Кредитное решение: ${creditRating.creditDecision}${creditRating.factors.map(factor => `\n- ${factor.name} (вес ${(factor.weight * 100).toFixed(0)}%): ${factor.score.toFixed(0)} баллов — ${factor.explanation}`).join('')}`;
+
     const prompt = `Вы финансовый аналитик-эксперт, специализирующийся на оценке кредитоспособности юридических лиц. Подготовьте детальный банковский кредитный отчет о финансовом состоянии компании.${companyInfo}${okvedInfo}
 
 ФИНАНСОВЫЕ ДАННЫЕ:
@@ -113,15 +312,9 @@ export async function generateFinancialAnalysis(
 - Собственный капитал: ${data.equity.toLocaleString()}
 - Долгосрочный долг: ${data.longTermDebt.toLocaleString()}${revenueInfo}${netIncomeInfo}
 
-РАССЧИТАННЫЕ КОЭФФИЦИЕНТЫ:
-- Коэффициент текущей ликвидности: ${ratios.currentRatio.toFixed(2)} (норма ≥ 2.0)
-- Коэффициент быстрой ликвидности: ${ratios.quickRatio.toFixed(2)} (норма ≥ 1.0)
-- Коэффициент абсолютной ликвидности: ${ratios.cashRatio.toFixed(2)} (норма ≥ 0.2)
-- Коэффициент автономии: ${ratios.equityRatio.toFixed(2)} (норма ≥ 0.5)
-- Коэффициент задолженности: ${ratios.debtRatio.toFixed(2)} (норма < 0.5)
-- Соотношение долга к капиталу: ${ratios.debtToEquityRatio.toFixed(2)} (норма < 1.0)
-- Финансовый рычаг: ${ratios.financialLeverageRatio.toFixed(2)}
-- Оборотный капитал: ${ratios.workingCapital.toLocaleString()}${profitabilityInfo}
+РАССЧИТАННЫЕ КОЭФФИЦИЕНТЫ:${formatRatioLine('Коэффициент текущей ликвидности', evaluatedRatios.currentRatio)}${formatRatioLine('Коэффициент быстрой ликвидности', evaluatedRatios.quickRatio)}${formatRatioLine('Коэффициент абсолютной ликвидности', evaluatedRatios.cashRatio)}${formatRatioLine('Коэффициент автономии', evaluatedRatios.equityRatio)}${formatRatioLine('Коэффициент задолженности', evaluatedRatios.debtRatio)}${formatRatioLine('Соотношение долга к капиталу', evaluatedRatios.debtToEquityRatio)}${formatRatioLine('Финансовый рычаг', evaluatedRatios.financialLeverageRatio)}
+- Оборотный капитал: ${ratios.workingCapital.toLocaleString()}
+- Собственные оборотные средства (СОС): ${ratios.ownWorkingCapital.toLocaleString()}${formatRatioLine('Коэффициент обеспеченности СОС', evaluatedRatios.workingCapitalSufficiency)}${formatRatioLine('Коэффициент маневренности собственного капитала', evaluatedRatios.equityManeuverability)}${stabilityInfo}${netAssetsInfo}${debtServiceInfo}${profitabilityInfo}${cashFlowInfo}${ratingInfo}
 
 ТРЕБУЕТСЯ БАНКОВСКИЙ КРЕДИТНЫЙ ОТЧЕТ В ФОРМАТЕ JSON:
 {
@@ -135,7 +328,7 @@ export async function generateFinancialAnalysis(
       "conclusion": "Краткий вывод об уровне ликвидности (1 предложение)"
     },
     "stability": {
-      "analysis": "Детальный анализ финансовой устойчивости: коэффициент автономии ${ratios.equityRatio.toFixed(2)}, соотношение долга к капиталу ${ratios.debtToEquityRatio.toFixed(2)}, финансовый рычаг ${ratios.financialLeverageRatio.toFixed(2)}, оценка зависимости от заемных средств",
+      "analysis": "Детальный анализ финансовой устойчивости: коэффициент автономии ${ratios.equityRatio.toFixed(2)}, соотношение долга к капиталу ${ratios.debtToEquityRatio.toFixed(2)}, финансовый рычаг ${ratios.financialLeverageRatio.toFixed(2)}, обеспеченность запасов источниками финансирования и тип финансовой устойчивости (${FINANCIAL_STABILITY_LABELS[stability.type].toLowerCase()}), оценка зависимости от заемных средств",
       "conclusion": "Краткий вывод о финансовой устойчивости (1 предложение)"
     },
     "profitability": {
@@ -147,10 +340,10 @@ export async function generateFinancialAnalysis(
   "weaknesses": ["массив из 3-5 слабых сторон или рисков с указанием показателей"],
   "recommendations": {
     "items": ["массив из 4-6 конкретных рекомендаций для улучшения кредитоспособности"],
-    "creditDecision": "Одобрить / Отклонить / Условно одобрить (БЕЗ ИСПОЛЬЗОВАНИЯ ЭМОДЗИ)",
-    "comment": "Общая оценка кредитоспособности и условия кредитования (2-3 предложения)"
+    "creditDecision": "${creditRating.creditDecision}",
+    "comment": "Обоснование рейтинга ${creditRating.grade} по факторам и условия кредитования (2-3 предложения)"
   },
-  "riskLevel": "low/medium/high"
+  "riskLevel": "${creditRating.riskLevel}"
 }
 
 ВАЖНО: НЕ ИСПОЛЬЗУЙ ЭМОДЗИ В ОТВЕТЕ. Используй только текст.
@@ -159,168 +352,219 @@ export async function generateFinancialAnalysis(
 - Все анализы должны содержать конкретные числовые показатели из предоставленных данных
 - Стиль должен быть профессиональным, как в банковском кредитном заключении
 - В разделе ликвидности обязательно упомянуть все три коэффициента и их соответствие нормам
-- В разделе устойчивости обязательно оценить структуру капитала и уровень долговой нагрузки
-- Кредитное решение должно логически следовать из анализа всех разделов
+- В разделе устойчивости обязательно оценить структуру капитала и уровень долговой нагрузки, указать рассчитанный тип финансовой устойчивости и не менять его
+- Если чистые активы ниже уставного капитала или отрицательные, обязательно указать это среди слабых сторон
+- Если рассчитаны показатели долговой нагрузки, оценить их в разделе устойчивости относительно указанных норм
+- Кредитное решение, уровень риска и рейтинг уже определены методикой банка: не присваивай другой рейтинг и не противоречь ему, объясни его через факторы
 - Весь анализ строго на русском языке`;
 
-    console.log('Sending request to OpenAI API...');
-    
-    const client = getOpenAIClient();
-    if (!client) {
-      console.warn("OpenAI client not available, using fallback");
-      return generateFallbackAnalysis(data, ratios);
-    }
-    
-    // Add timeout to OpenAI API call (30 seconds)
-    const response = await Promise.race([
-      client.chat.completions.create({
-        model: "gpt-5",
-        messages: [
-          {
-            role: "system",
-            content: "Вы опытный финансовый аналитик. Предоставляйте точный, профессиональный анализ в формате JSON."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" },
-        max_completion_tokens: 4096,
-      }),
-      new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('OpenAI API timeout after 30 seconds')), 30000)
-      )
-    ]) as Awaited<ReturnType<typeof openai.chat.completions.create>>;
-
-    console.log('Received response from OpenAI API');
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      console.warn("Empty response from OpenAI, using fallback");
-      return generateFallbackAnalysis(data, ratios);
+    const fallback = generateFallbackAnalysis(data, ratios, creditRating, context);
+    // Numbers the model cites must match the calculation; sections with too many unconfirmed ones are replaced
+    const facts = collectReportFacts({ data, ratios, creditRating, netAssets, evaluatedRatios });
+
+    let lastDraft = "";
+    // Drafts stop once the response is complete: the final report (or the fallback) replaces them
+    let responseComplete = false;
+    const onPartial = onDraft && ((partial: any) => {
+      if (responseComplete || signal?.aborted) return;
+      const draft = draftSections(partial, fallback, facts);
+      const serialized = JSON.stringify(draft);
+      if (serialized === lastDraft) return;
+      lastDraft = serialized;
+      onDraft(draft);
+    });
+
+    console.log(`Sending request to the AI provider${onDraft ? " (streaming)" : ""}...`);
+
+    const { result, repairAttempts } = await requestCreditReport(provider, [
+      {
+        role: "system",
+        content: "Вы опытный финансовый аналитик. Предоставляйте точный, профессиональный анализ в формате JSON."
+      },
+      {
+        role: "user",
+        content: prompt
+      }
+    ], signal, onPartial).finally(() => {
+      responseComplete = true;
+    });
+
+    console.log('Received response from the AI provider');
+
+    if (!result) {
+      console.warn("Empty or unparsable response from the AI provider, using fallback");
+      return generateFallbackAnalysis(data, ratios, creditRating, context);
     }
 
-    console.log('Parsing OpenAI response...');
-    const result = JSON.parse(content);
-
-    // Validate and sanitize the response with strict BankCreditReport schema
-    const validated: BankCreditReport = {
-      industrySector: {
-        description: result.industrySector?.description && typeof result.industrySector.description === "string"
-          ? result.industrySector.description
-          : (sectorName || "Отрасль не указана"),
-        marketConditions: result.industrySector?.marketConditions && typeof result.industrySector.marketConditions === "string"
-          ? result.industrySector.marketConditions
-          : ""
+    // Each section is validated on its own: a section still broken after the repair is taken
+    // from the rule-based report, the rest of the AI text is kept
+    const replacedSections: CreditReportValidation["replacedSections"] = [];
+    const pick = <T extends z.ZodTypeAny>(section: CreditReportSection, schema: T, value: unknown, fallbackValue: z.infer<T>): z.infer<T> => {
+      const parsed = schema.safeParse(value);
+      if (parsed.success) return parsed.data;
+      replacedSections.push({ section, reason: "invalid" });
+      return fallbackValue;
+    };
+
+    const shape = bankCreditReportSchema.shape;
+    const conditionShape = shape.financialCondition.shape;
+    const report: GeneratedCreditReport = {
+      industrySector: pick("industrySector", shape.industrySector, result.industrySector, fallback.industrySector),
+      financialCondition: {
+        liquidity: pick("liquidity", conditionShape.liquidity, result.financialCondition?.liquidity, fallback.financialCondition.liquidity),
+        stability: pick("stability", conditionShape.stability, result.financialCondition?.stability, fallback.financialCondition.stability),
+        profitability: pick("profitability", conditionShape.profitability, result.financialCondition?.profitability, fallback.financialCondition.profitability),
       },
+      strengths: pick("strengths", shape.strengths, result.strengths, fallback.strengths),
+      weaknesses: pick("weaknesses", shape.weaknesses, result.weaknesses, fallback.weaknesses),
+      recommendations: pick("recommendations", shape.recommendations, result.recommendations, fallback.recommendations),
+    };
+
+    const { checkedNumbers, mismatches, severeSections } = checkReportFacts(report, facts, replacedSections.map(replaced => replaced.section));
+    if (mismatches.length > 0) {
+      console.warn(`⚠️ AI credit report cites ${mismatches.length} of ${checkedNumbers} numbers not found in the calculation: ${mismatches.map(mismatch => mismatch.cited).join(", ")}`);
+    }
+    severeSections.forEach(section => {
+      replaceSection(report, fallback, section);
+      replacedSections.push({ section, reason: "facts" });
+    });
+    if (replacedSections.length > 0) {
+      console.warn(`⚠️ AI credit report sections replaced with the rule-based text: ${replacedSections.map(replaced => `${replaced.section} (${replaced.reason})`).join(", ")}`);
+    }
+
+    // Only values the model actually returned are compared: a missing field is not a disagreement
+    const returnedRiskLevel = result.riskLevel;
+    const returnedDecision = result.recommendations?.creditDecision;
+    if ((returnedRiskLevel !== undefined && returnedRiskLevel !== creditRating.riskLevel)
+      || (returnedDecision !== undefined && returnedDecision !== creditRating.creditDecision)) {
+      console.warn(`⚠️ AI response disagreed with the credit rating (${returnedRiskLevel ?? "-"} / ${returnedDecision ?? "-"}), rating values are used`);
+    }
+
+    return {
+      industrySector: report.industrySector,
       financialCondition: {
-        liquidity: {
-          analysis: result.financialCondition?.liquidity?.analysis && typeof result.financialCondition.liquidity.analysis === "string"
-            ? result.financialCondition.liquidity.analysis
-            : `Коэффициент текущей ликвидности: ${ratios.currentRatio.toFixed(2)} (норма ≥ 2.0), быстрой ликвидности: ${ratios.quickRatio.toFixed(2)} (норма ≥ 1.0), абсолютной ликвидности: ${ratios.cashRatio.toFixed(2)} (норма ≥ 0.2).`,
-          conclusion: result.financialCondition?.liquidity?.conclusion && typeof result.financialCondition.liquidity.conclusion === "string"
-            ? result.financialCondition.liquidity.conclusion
-            : ratios.currentRatio >= 2.0 ? "Ликвидность на высоком уровне" : ratios.currentRatio >= 1.0 ? "Ликвидность удовлетворительная" : "Ликвидность требует улучшения"
-        },
-        stability: {
-          analysis: result.financialCondition?.stability?.analysis && typeof result.financialCondition.stability.analysis === "string"
-            ? result.financialCondition.stability.analysis
-            : `Коэффициент автономии: ${ratios.equityRatio.toFixed(2)} (норма ≥ 0.5), соотношение долга к капиталу: ${ratios.debtToEquityRatio.toFixed(2)} (норма < 1.0), финансовый рычаг: ${ratios.financialLeverageRatio.toFixed(2)}.`,
-          conclusion: result.financialCondition?.stability?.conclusion && typeof result.financialCondition.stability.conclusion === "string"
-            ? result.financialCondition.stability.conclusion
-            : ratios.equityRatio >= 0.5 ? "Финансовая устойчивость высокая" : ratios.equityRatio >= 0.3 ? "Финансовая устойчивость средняя" : "Финансовая устойчивость низкая"
-        },
-        profitability: {
-          analysis: result.financialCondition?.profitability?.analysis && typeof result.financialCondition.profitability.analysis === "string"
-            ? result.financialCondition.profitability.analysis
-            : ratios.roa || ratios.roe || ratios.ros 
-              ? `Показатели рентабельности: ${ratios.roa ? `ROA ${(ratios.roa * 100).toFixed(2)}%, ` : ''}${ratios.roe ? `ROE ${(ratios.roe * 100).toFixed(2)}%, ` : ''}${ratios.ros ? `ROS ${(ratios.ros * 100).toFixed(2)}%` : ''}.`
-              : "Данные о прибыльности отсутствуют в предоставленной отчетности",
-          conclusion: result.financialCondition?.profitability?.conclusion && typeof result.financialCondition.profitability.conclusion === "string"
-            ? result.financialCondition.profitability.conclusion
-            : ratios.roa || ratios.roe || ratios.ros 
-              ? "Рентабельность требует дополнительной оценки"
-              : "Невозможно оценить без данных о прибыли"
-        }
+        liquidity: report.financialCondition.liquidity,
+        stability: { ...report.financialCondition.stability, stabilityType: stability.type },
+        profitability: report.financialCondition.profitability,
       },
-      strengths: Array.isArray(result.strengths) && result.strengths.length > 0
-        ? result.strengths.filter((s: any) => typeof s === "string")
-        : ["Финансовая отчетность предоставлена и проанализирована"],
-      weaknesses: Array.isArray(result.weaknesses) && result.weaknesses.length > 0
-        ? result.weaknesses.filter((w: any) => typeof w === "string")
-        : ["Требуется дополнительный анализ для полной оценки"],
+      strengths: report.strengths,
+      weaknesses: report.weaknesses,
       recommendations: {
-        items: Array.isArray(result.recommendations?.items) && result.recommendations.items.length > 0
-          ? result.recommendations.items.filter((r: any) => typeof r === "string")
-          : ["Рекомендуется регулярный мониторинг финансовых показателей"],
-        creditDecision: result.recommendations?.creditDecision && typeof result.recommendations.creditDecision === "string"
-          ? result.recommendations.creditDecision
-          : determineRiskLevel(ratios) === "low" ? "Одобрить" : determineRiskLevel(ratios) === "high" ? "Отклонить" : "Условно одобрить",
-        comment: result.recommendations?.comment && typeof result.recommendations.comment === "string"
-          ? result.recommendations.comment
-          : "Решение основано на текущих финансовых показателях и требует дополнительной проверки обеспечения"
+        ...report.recommendations,
+        // The decision always comes from the rating, whatever the model returned
+        creditDecision: creditRating.creditDecision,
       },
-      riskLevel: ["low", "medium", "high"].includes(result.riskLevel) 
-        ? result.riskLevel 
-        : determineRiskLevel(ratios)
+      riskLevel: creditRating.riskLevel,
+      creditRating,
+      validation: { repairAttempts, checkedNumbers, mismatches, replacedSections },
     };
-
-    return validated;
   } catch (error) {
-    console.error("Error generating AI analysis:", error);
-    console.warn("Falling back to rule-based analysis");
+    // A cancelled job is stopped by the pipeline right after this step, the fallback is never shown
+    if (!signal?.aborted) {
+      console.error("Error generating AI analysis:", error);
+      console.warn("Falling back to rule-based analysis");
+    }
     
     // Return fallback analysis instead of throwing
-    return generateFallbackAnalysis(data, ratios);
+    return generateFallbackAnalysis(data, ratios, creditRating, context);
   }
 }
 
 /**
- * Generate a fallback analysis based on rules when OpenAI is unavailable
+ * Generate a fallback analysis based on rules when the AI provider is unavailable
  */
-function generateFallbackAnalysis(data: FinancialData, ratios: FinancialRatios): BankCreditReport {
-  const riskLevel = determineRiskLevel(ratios);
+function generateFallbackAnalysis(data: FinancialData, ratios: FinancialRatios, creditRating: CreditRating, context: AnalysisContext): BankCreditReport {
+  const { evaluatedRatios, netAssets } = context;
+  const riskLevel = creditRating.riskLevel;
+  const okved = data.okved ? lookupOkved(data.okved) : undefined;
   
   const strengths: string[] = [];
   const weaknesses: string[] = [];
   const recommendationItems: string[] = [];
 
+  // Ratios are judged by their status against the norms of the benchmark profile
+  const { currentRatio, quickRatio, cashRatio, equityRatio, debtToEquityRatio } = evaluatedRatios;
+
   // Analyze liquidity
-  if (ratios.currentRatio >= 2.0) {
-    strengths.push(`Отличная текущая ликвидность (коэффициент ${ratios.currentRatio.toFixed(2)}), предприятие способно погашать краткосрочные обязательства`);
-  } else if (ratios.currentRatio >= 1.0) {
-    strengths.push(`Удовлетворительная текущая ликвидность (коэффициент ${ratios.currentRatio.toFixed(2)})`);
+  if (currentRatio.status === "excellent") {
+    strengths.push(`Отличная текущая ликвидность (коэффициент ${currentRatio.value.toFixed(2)}), предприятие способно погашать краткосрочные обязательства`);
+  } else if (currentRatio.status === "good") {
+    strengths.push(`Удовлетворительная текущая ликвидность (коэффициент ${currentRatio.value.toFixed(2)}, норма ${currentRatio.benchmark})`);
   } else {
-    weaknesses.push(`Низкая текущая ликвидность (коэффициент ${ratios.currentRatio.toFixed(2)} ниже нормы)`);
-    recommendationItems.push("Увеличить оборотные активы или сократить краткосрочные обязательства для улучшения ликвидности");
+    weaknesses.push(`Низкая текущая ликвидность (коэффициент ${currentRatio.value.toFixed(2)} ниже нормы ${currentRatio.benchmark})`);
+    if (currentRatio.status === "critical") {
+      recommendationItems.push("Увеличить оборотные активы или сократить краткосрочные обязательства для улучшения ликвидности");
+    }
   }
 
   // Analyze quick ratio
-  if (ratios.quickRatio >= 1.0) {
-    strengths.push(`Высокая быстрая ликвидность (коэффициент ${ratios.quickRatio.toFixed(2)}), достаточно ликвидных активов для покрытия текущих обязательств`);
-  } else if (ratios.quickRatio < 0.7) {
-    weaknesses.push(`Недостаточная быстрая ликвидность (коэффициент ${ratios.quickRatio.toFixed(2)})`);
+  if (meetsNorm(quickRatio)) {
+    strengths.push(`Высокая быстрая ликвидность (коэффициент ${quickRatio.value.toFixed(2)}), достаточно ликвидных активов для покрытия текущих обязательств`);
+  } else if (quickRatio.status === "critical") {
+    weaknesses.push(`Недостаточная быстрая ликвидность (коэффициент ${quickRatio.value.toFixed(2)}, норма ${quickRatio.benchmark})`);
   }
 
   // Analyze financial stability
-  if (ratios.equityRatio >= 0.5) {
-    strengths.push(`Высокая финансовая независимость (коэффициент автономии ${ratios.equityRatio.toFixed(2)}), низкая зависимость от заемных средств`);
-  } else if (ratios.equityRatio >= 0.3) {
-    strengths.push(`Средняя финансовая устойчивость (коэффициент автономии ${ratios.equityRatio.toFixed(2)})`);
+  if (meetsNorm(equityRatio)) {
+    strengths.push(`Высокая финансовая независимость (коэффициент автономии ${equityRatio.value.toFixed(2)}), низкая зависимость от заемных средств`);
+  } else if (equityRatio.status === "warning") {
+    strengths.push(`Средняя финансовая устойчивость (коэффициент автономии ${equityRatio.value.toFixed(2)})`);
   } else {
-    weaknesses.push(`Низкий коэффициент автономии (${ratios.equityRatio.toFixed(2)}), высокая зависимость от заемных средств`);
+    weaknesses.push(`Низкий коэффициент автономии (${equityRatio.value.toFixed(2)}, норма ${equityRatio.benchmark}), высокая зависимость от заемных средств`);
     recommendationItems.push("Укрепить капитальную базу компании для повышения финансовой устойчивости");
   }
 
+  // Three-component type of financial stability
+  const stabilityType = ratios.financialStability.type;
+  const stabilityLabel = FINANCIAL_STABILITY_LABELS[stabilityType];
+  if (stabilityType === "absolute" || stabilityType === "normal") {
+    strengths.push(`${stabilityLabel}: запасы покрыты ${stabilityType === "absolute" ? "собственными оборотными средствами" : "собственными и долгосрочными источниками"}`);
+  } else {
+    weaknesses.push(`${stabilityLabel}: для покрытия запасов не хватает ${stabilityType === "unstable" ? "собственных и долгосрочных источников, используются краткосрочные кредиты" : "всех нормальных источников финансирования"} (недостаток ${Math.abs(ratios.financialStability.surpluses[stabilityType === "unstable" ? 1 : 2]).toLocaleString()})`);
+    recommendationItems.push("Увеличить собственные оборотные средства или привлечь долгосрочное финансирование для покрытия запасов");
+  }
+
+  // Net assets below the authorized capital are a legal risk for LLC/JSC
+  const currentNetAssets = netAssets?.[0];
+  if (currentNetAssets && currentNetAssets.status !== "good") {
+    weaknesses.push(currentNetAssets.message);
+    if (currentNetAssets.status === "critical") {
+      recommendationItems.push("Восстановить чистые активы до размера уставного капитала (вклады в имущество, покрытие убытков) либо уменьшить уставный капитал");
+    }
+  }
+
   // Analyze debt levels
-  if (ratios.debtToEquityRatio < 1.0) {
-    strengths.push(`Умеренная долговая нагрузка (соотношение долга к капиталу ${ratios.debtToEquityRatio.toFixed(2)})`);
-  } else if (ratios.debtToEquityRatio >= 2.0) {
-    weaknesses.push(`Высокая долговая нагрузка (соотношение долга к капиталу ${ratios.debtToEquityRatio.toFixed(2)})`);
+  if (meetsNorm(debtToEquityRatio)) {
+    strengths.push(`Умеренная долговая нагрузка (соотношение долга к капиталу ${debtToEquityRatio.value.toFixed(2)})`);
+  } else if (debtToEquityRatio.status === "critical") {
+    weaknesses.push(`Высокая долговая нагрузка (соотношение долга к капиталу ${debtToEquityRatio.value.toFixed(2)}, норма ${debtToEquityRatio.benchmark})`);
     recommendationItems.push("Рассмотреть возможность снижения долговой нагрузки");
   }
 
+  // Debt service against the norms of the benchmark profile
+  const { netDebtToEbitda, interestCoverage, debtServiceCoverage } = evaluatedRatios;
+  if (ratios.ebitda !== undefined && ratios.ebitda <= 0) {
+    weaknesses.push(`Отрицательная EBITDA (${ratios.ebitda.toLocaleString()}): операционная прибыль не позволяет обслуживать долг`);
+  } else if (netDebtToEbitda) {
+    if (netDebtToEbitda.value <= 0) {
+      strengths.push("Денежные средства превышают заемные средства (чистый долг отсутствует)");
+    } else if (netDebtToEbitda.status === "excellent" || netDebtToEbitda.status === "good") {
+      strengths.push(`Приемлемая долговая нагрузка: чистый долг / EBITDA ${netDebtToEbitda.value.toFixed(2)} (норма ${netDebtToEbitda.benchmark})`);
+    } else {
+      weaknesses.push(`Высокая долговая нагрузка: чистый долг / EBITDA ${netDebtToEbitda.value.toFixed(2)} (норма ${netDebtToEbitda.benchmark})`);
+      recommendationItems.push("Не наращивать долговую нагрузку до снижения отношения чистого долга к EBITDA до нормы");
+    }
+  }
+  if (interestCoverage && interestCoverage.status === "critical") {
+    weaknesses.push(`Операционной прибыли недостаточно для уплаты процентов: покрытие процентов ${interestCoverage.value.toFixed(2)} (норма ${interestCoverage.benchmark})`);
+  } else if (interestCoverage && interestCoverage.status === "excellent") {
+    strengths.push(`Высокое покрытие процентов операционной прибылью (${interestCoverage.value.toFixed(2)})`);
+  }
+  if (debtServiceCoverage && (debtServiceCoverage.status === "warning" || debtServiceCoverage.status === "critical")) {
+    weaknesses.push(`EBITDA не обеспечивает обслуживание долга с запасом: DSCR ${debtServiceCoverage.value.toFixed(2)} (норма ${debtServiceCoverage.benchmark})`);
+    recommendationItems.push("Рефинансировать краткосрочные кредиты в долгосрочные для снижения нагрузки по обслуживанию долга");
+  }
+
   // Analyze working capital
   if (ratios.workingCapital > 0) {
     strengths.push(`Положительный оборотный капитал (${ratios.workingCapital.toLocaleString()}) обеспечивает финансовую гибкость`);
@@ -330,18 +574,40 @@ function generateFallbackAnalysis(data: FinancialData, ratios: FinancialRatios):
   }
 
   // Analyze profitability if available
-  if (ratios.roa && ratios.roa > 0.05) {
+  if (ratios.roa && ratios.roa > 0 && evaluatedRatios.roa?.status !== "critical") {
     strengths.push(`Положительная рентабельность активов (ROA ${(ratios.roa * 100).toFixed(2)}%)`);
   } else if (ratios.roa && ratios.roa < 0) {
     weaknesses.push(`Отрицательная рентабельность активов (ROA ${(ratios.roa * 100).toFixed(2)}%)`);
   }
 
+  // Analyze cash flows if the cash flow statement is available
+  if (data.operatingCashFlow !== undefined) {
+    if (data.operatingCashFlow > 0 && ratios.operatingCashFlowRatio !== undefined && meetsNorm(evaluatedRatios.operatingCashFlowRatio)) {
+      strengths.push(`Положительный денежный поток от текущих операций (${data.operatingCashFlow.toLocaleString()}) покрывает ${(ratios.operatingCashFlowRatio * 100).toFixed(0)}% краткосрочных обязательств`);
+    } else if (data.operatingCashFlow <= 0) {
+      weaknesses.push(`Отрицательный денежный поток от текущих операций (${data.operatingCashFlow.toLocaleString()}), текущая деятельность не генерирует денежные средства`);
+      recommendationItems.push("Сократить сроки оборота дебиторской задолженности и запасов для восстановления операционного денежного потока");
+    }
+  }
+
+  if (ratios.freeCashFlow !== undefined && ratios.freeCashFlow < 0 && data.operatingCashFlow !== undefined && data.operatingCashFlow > 0) {
+    weaknesses.push(`Отрицательный свободный денежный поток (${ratios.freeCashFlow.toLocaleString()}), капитальные вложения финансируются за счет внешних источников`);
+  }
+
+  if (ratios.cashDebtCoverage !== undefined && meetsNorm(evaluatedRatios.cashDebtCoverage)) {
+    strengths.push(`Денежный поток от текущих операций покрывает ${(ratios.cashDebtCoverage * 100).toFixed(0)}% заемных средств`);
+  }
+
+  if (ratios.qualityOfEarnings !== undefined && evaluatedRatios.qualityOfEarnings?.status === "critical") {
+    weaknesses.push(`Низкое качество прибыли: денежный поток от текущих операций составляет ${(ratios.qualityOfEarnings * 100).toFixed(0)}% чистой прибыли`);
+  }
+
   // Add general recommendations
   if (recommendationItems.length === 0) {
     recommendationItems.push("Продолжать мониторинг финансовых показателей для поддержания стабильности");
   }
   recommendationItems.push("Обеспечить своевременное предоставление финансовой отчетности");
-  recommendationItems.push("Поддерживать коэффициент текущей ликвидности не ниже 1.5");
+  recommendationItems.push(`Поддерживать коэффициент текущей ликвидности в пределах нормы (${currentRatio.benchmark})`);
 
   // Ensure we have minimum required items
   if (strengths.length === 0) {
@@ -351,36 +617,39 @@ function generateFallbackAnalysis(data: FinancialData, ratios: FinancialRatios):
     weaknesses.push("Требуется дополнительный анализ отраслевых рисков");
   }
 
-  // Determine credit decision
-  let creditDecision: string;
+  // Credit decision follows the rating
+  const creditDecision = creditRating.creditDecision;
+  const ratingSummary = `Кредитный рейтинг ${creditRating.grade} (${creditRating.score.toFixed(1)} баллов из 100).`;
   let creditComment: string;
   
   if (riskLevel === "low") {
-    creditDecision = "Одобрить";
-    creditComment = `Компания демонстрирует устойчивое финансовое положение с коэффициентом текущей ликвидности ${ratios.currentRatio.toFixed(2)} и коэффициентом автономии ${ratios.equityRatio.toFixed(2)}. Кредитные риски оцениваются как низкие.`;
+    creditComment = `${ratingSummary} Компания демонстрирует устойчивое финансовое положение с коэффициентом текущей ликвидности ${ratios.currentRatio.toFixed(2)} и коэффициентом автономии ${ratios.equityRatio.toFixed(2)}. Кредитные риски оцениваются как низкие.`;
   } else if (riskLevel === "medium") {
-    creditDecision = "Условно одобрить";
-    creditComment = `Финансовое состояние компании оценивается как удовлетворительное. Рекомендуется кредитование с дополнительным обеспечением и регулярным мониторингом показателей ликвидности и финансовой устойчивости.`;
+    creditComment = `${ratingSummary} Финансовое состояние компании оценивается как удовлетворительное. Рекомендуется кредитование с дополнительным обеспечением и регулярным мониторингом показателей ликвидности и финансовой устойчивости.`;
   } else {
-    creditDecision = "Отклонить";
-    creditComment = `Финансовые показатели компании указывают на высокие кредитные риски. Коэффициенты ликвидности и финансовой устойчивости ниже нормативных значений. Рекомендуется отклонить кредитную заявку до улучшения финансового положения.`;
+    creditComment = `${ratingSummary} Финансовые показатели компании указывают на высокие кредитные риски. Коэффициенты ликвидности и финансовой устойчивости ниже нормативных значений. Рекомендуется отклонить кредитную заявку до улучшения финансового положения.`;
   }
 
   // Build liquidity analysis
-  const liquidityAnalysis = `Коэффициент текущей ликвидности составляет ${ratios.currentRatio.toFixed(2)} ${ratios.currentRatio >= 2.0 ? '(выше нормы ≥2.0)' : ratios.currentRatio >= 1.0 ? '(ниже нормы, но приемлемо)' : '(значительно ниже нормы)'}, быстрой ликвидности ${ratios.quickRatio.toFixed(2)} ${ratios.quickRatio >= 1.0 ? '(соответствует норме)' : '(ниже нормы ≥1.0)'}, абсолютной ликвидности ${ratios.cashRatio.toFixed(2)} ${ratios.cashRatio >= 0.2 ? '(соответствует норме)' : '(ниже нормы ≥0.2)'}. ${ratios.workingCapital > 0 ? `Положительный оборотный капитал ${ratios.workingCapital.toLocaleString()} обеспечивает способность погашать текущие обязательства.` : 'Отрицательный оборотный капитал свидетельствует о проблемах с краткосрочной платежеспособностью.'}`;
+  const liquidityAnalysis = `Коэффициент текущей ликвидности составляет ${currentRatio.value.toFixed(2)} ${describeNorm(currentRatio)}, быстрой ликвидности ${quickRatio.value.toFixed(2)} ${describeNorm(quickRatio)}, абсолютной ликвидности ${cashRatio.value.toFixed(2)} ${describeNorm(cashRatio)}. ${ratios.workingCapital > 0 ? `Положительный оборотный капитал ${ratios.workingCapital.toLocaleString()} обеспечивает способность погашать текущие обязательства.` : 'Отрицательный оборотный капитал свидетельствует о проблемах с краткосрочной платежеспособностью.'}`;
+
+  // Add cash flow coverage to the liquidity analysis when Form 4 is available
+  const cashFlowLiquidity = evaluatedRatios.operatingCashFlowRatio
+    ? ` Денежный поток от текущих операций покрывает краткосрочные обязательства на ${evaluatedRatios.operatingCashFlowRatio.value.toFixed(2)} ${describeNorm(evaluatedRatios.operatingCashFlowRatio)}${ratios.freeCashFlow !== undefined ? `, свободный денежный поток ${ratios.freeCashFlow.toLocaleString()}` : ''}.`
+    : '';
 
-  const liquidityConclusion = ratios.currentRatio >= 2.0 && ratios.quickRatio >= 1.0 
+  const liquidityConclusion = meetsNorm(currentRatio) && meetsNorm(quickRatio)
     ? "Ликвидность на высоком уровне, компания способна своевременно погашать обязательства"
-    : ratios.currentRatio >= 1.0 
+    : currentRatio.status !== "critical" 
       ? "Ликвидность удовлетворительная, требуется мониторинг"
       : "Ликвидность низкая, существуют риски невыполнения обязательств";
 
   // Build stability analysis
-  const stabilityAnalysis = `Коэффициент автономии ${ratios.equityRatio.toFixed(2)} ${ratios.equityRatio >= 0.5 ? '(выше нормы ≥0.5)' : '(ниже нормативного значения)'}, соотношение долга к капиталу ${ratios.debtToEquityRatio.toFixed(2)} ${ratios.debtToEquityRatio < 1.0 ? '(в пределах нормы <1.0)' : '(превышает норму)'}, финансовый рычаг ${ratios.financialLeverageRatio.toFixed(2)}. Доля заемных средств составляет ${(ratios.debtRatio * 100).toFixed(1)}% от общей суммы активов.`;
+  const stabilityAnalysis = `Коэффициент автономии ${equityRatio.value.toFixed(2)} ${describeNorm(equityRatio)}, соотношение долга к капиталу ${debtToEquityRatio.value.toFixed(2)} ${describeNorm(debtToEquityRatio)}, финансовый рычаг ${ratios.financialLeverageRatio.toFixed(2)}. Доля заемных средств составляет ${(ratios.debtRatio * 100).toFixed(1)}% от общей суммы активов. Собственные оборотные средства ${ratios.ownWorkingCapital.toLocaleString()}${evaluatedRatios.workingCapitalSufficiency ? `, коэффициент обеспеченности СОС ${evaluatedRatios.workingCapitalSufficiency.value.toFixed(2)} ${describeNorm(evaluatedRatios.workingCapitalSufficiency)}` : ''}${evaluatedRatios.equityManeuverability ? `, коэффициент маневренности ${evaluatedRatios.equityManeuverability.value.toFixed(2)} ${describeNorm(evaluatedRatios.equityManeuverability)}` : ''}. Трехкомпонентный показатель S = (${ratios.financialStability.indicator.join(', ')}): ${stabilityLabel.toLowerCase()}.`;
 
-  const stabilityConclusion = ratios.equityRatio >= 0.5 
+  const stabilityConclusion = meetsNorm(equityRatio)
     ? "Финансовая устойчивость высокая, компания финансово независима"
-    : ratios.equityRatio >= 0.3 
+    : equityRatio.status === "warning" 
       ? "Финансовая устойчивость средняя, умеренная зависимость от кредиторов"
       : "Финансовая устойчивость низкая, высокая зависимость от заемных средств";
 
@@ -395,7 +664,7 @@ function generateFallbackAnalysis(data: FinancialData, ratios: FinancialRatios):
     if (ratios.ros) metrics.push(`ROS ${(ratios.ros * 100).toFixed(2)}%`);
     
     profitabilityAnalysis = `Показатели рентабельности: ${metrics.join(', ')}. ${ratios.roa && ratios.roa > 0 ? 'Компания генерирует прибыль от использования активов.' : 'Рентабельность требует улучшения.'}`;
-    profitabilityConclusion = ratios.roa && ratios.roa > 0.05 
+    profitabilityConclusion = ratios.roa && ratios.roa > 0 && evaluatedRatios.roa?.status !== "critical" 
       ? "Рентабельность на приемлемом уровне"
       : ratios.roa && ratios.roa > 0 
         ? "Рентабельность низкая, требуется оптимизация"
@@ -407,19 +676,22 @@ function generateFallbackAnalysis(data: FinancialData, ratios: FinancialRatios):
 
   return {
     industrySector: {
-      description: data.okved 
+      description: okved
+        ? `Компания осуществляет деятельность в соответствии с ${describeOkved(okved)}. Для детальной оценки отраслевых рисков требуется дополнительная информация о рынке и конкурентах.`
+        : data.okved
         ? `Компания осуществляет деятельность в соответствии с ОКВЭД ${data.okved}. Для детальной оценки отраслевых рисков требуется дополнительная информация о рынке и конкурентах.`
         : "Информация об отрасли не указана в документах. Рекомендуется предоставить данные о виде экономической деятельности (ОКВЭД) для оценки отраслевых рисков.",
       marketConditions: ""
     },
     financialCondition: {
       liquidity: {
-        analysis: liquidityAnalysis,
+        analysis: liquidityAnalysis + cashFlowLiquidity,
         conclusion: liquidityConclusion
       },
       stability: {
         analysis: stabilityAnalysis,
-        conclusion: stabilityConclusion
+        conclusion: stabilityConclusion,
+        stabilityType
       },
       profitability: {
         analysis: profitabilityAnalysis,
@@ -433,35 +705,7 @@ function generateFallbackAnalysis(data: FinancialData, ratios: FinancialRatios):
       creditDecision,
       comment: creditComment
     },
-    riskLevel
+    riskLevel,
+    creditRating,
   };
 }
-
-/**
- * Determine risk level based on financial ratios
- */
-function determineRiskLevel(ratios: FinancialRatios): "low" | "medium" | "high" {
-  let score = 0;
-
-  // Good liquidity
-  if (ratios.currentRatio >= 2.0) score += 2;
-  else if (ratios.currentRatio >= 1.5) score += 1;
-  else if (ratios.currentRatio < 1.0) score -= 2;
-
-  // Good equity ratio
-  if (ratios.equityRatio >= 0.6) score += 2;
-  else if (ratios.equityRatio >= 0.5) score += 1;
-  else if (ratios.equityRatio < 0.3) score -= 2;
-
-  // Low debt
-  if (ratios.debtRatio < 0.3) score += 1;
-  else if (ratios.debtRatio > 0.6) score -= 1;
-
-  // Positive working capital
-  if (ratios.workingCapital > 0) score += 1;
-  else score -= 2;
-
-  if (score >= 4) return "low";
-  if (score <= 0) return "high";
-  return "medium";
-}
@@ -0,0 +1,84 @@
+/**
+ * Reads a JSON object while the model is still writing it and returns the members that are already complete.
+ * Members of the nested objects named in `nested` (e.g. "financialCondition") are returned one by one as well,
+ * the nested object then holds only its finished members
+ */
+export class PartialJsonReader {
+  private text = "";
+  private position = 0;
+  private start = -1; // Position of the opening brace of the object
+  private stack: string[] = []; // Open objects and arrays
+  private keys: string[] = []; // Key each open object or array is the value of
+  private inString = false;
+  private escaped = false;
+  private stringStart = 0;
+  private lastString = "";
+  // End of the last complete member and the brackets that close the text there
+  private cut?: { end: number; closing: string };
+  private parsedEnd = -1;
+
+  constructor(private readonly nested: string[] = []) {}
+
+  /**
+   * Add the next piece of the response
+   * @returns The complete members when new ones were finished by this piece, otherwise undefined
+   */
+  push(piece: string): Record<string, unknown> | undefined {
+    this.text += piece;
+
+    for (; this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === "\"") {
+          this.inString = false;
+          this.lastString = this.text.slice(this.stringStart + 1, this.position);
+        }
+        continue;
+      }
+
+      if (char === "\"") {
+        this.inString = true;
+        this.stringStart = this.position;
+      } else if (char === "{" || char === "[") {
+        if (this.stack.length === 0) {
+          if (char !== "{") continue;
+          this.start = this.position;
+        }
+        this.stack.push(char);
+        this.keys.push(this.lastString);
+      } else if (char === "}" || char === "]") {
+        if (this.stack.length === 0) continue;
+        this.stack.pop();
+        this.keys.pop();
+        // The whole object, or the value of a member it is cut at, is closed
+        if (this.stack.length === 0 || this.isCutLevel()) this.markCut(this.position + 1);
+      } else if (char === "," && this.isCutLevel()) {
+        this.markCut(this.position);
+      }
+    }
+
+    if (!this.cut || this.cut.end === this.parsedEnd) return undefined;
+    this.parsedEnd = this.cut.end;
+    try {
+      return JSON.parse(this.text.slice(this.start, this.cut.end) + this.cut.closing);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Members are cut off inside the object itself and inside the nested objects of interest
+  private isCutLevel(): boolean {
+    if (this.stack.length === 1) return true;
+    return this.stack.length === 2 && this.stack[1] === "{" && this.nested.includes(this.keys[1]);
+  }
+
+  private markCut(end: number) {
+    const closing = this.stack.slice().reverse().map(bracket => (bracket === "{" ? "}" : "]")).join("");
+    this.cut = { end, closing };
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import JSZip from "jszip";
+import { expandBatchFiles, MAX_BATCH_FILES } from "./portfolio";
+
+async function buildArchive(files: Record<string, Buffer | string>): Promise<Buffer> {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([name, content]) => zip.file(name, content));
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+// Replace the uncompressed size in the local and central directory headers, as a zip bomb does
+function forgeUncompressedSize(archive: Buffer, size: number): Buffer {
+  const forged = Buffer.from(archive);
+  for (let offset = 0; offset < forged.length - 4; offset++) {
+    const signature = forged.readUInt32LE(offset);
+    if (signature === 0x04034b50) forged.writeUInt32LE(size, offset + 22);
+    if (signature === 0x02014b50) forged.writeUInt32LE(size, offset + 24);
+  }
+  return forged;
+}
+
+function asUpload(buffer: Buffer) {
+  return { originalname: "reports.zip", mimetype: "application/zip", size: buffer.length, buffer };
+}
+
+describe("batch archive unpacking", () => {
+  it("stops at the batch file limit", async () => {
+    const files = Object.fromEntries(Array.from({ length: MAX_BATCH_FILES + 10 }, (_, index) => [`report-${index}.xml`, "<Файл/>"]));
+    const { accepted, rejected } = await expandBatchFiles([asUpload(await buildArchive(files))]);
+
+    assert.equal(accepted.length, MAX_BATCH_FILES);
+    assert.equal(rejected.length, 1);
+    assert.match(rejected[0].error, /не распаковано файлов архива — 10$/);
+  });
+
+  it("rejects an entry larger than 10 MB without keeping it", async () => {
+    const archive = await buildArchive({ "large.xml": Buffer.alloc(11 * 1024 * 1024), "small.json": "{}" });
+    const { accepted, rejected } = await expandBatchFiles([asUpload(archive)]);
+
+    assert.deepEqual(accepted.map(file => file.originalname), ["reports.zip/small.json"]);
+    assert.deepEqual(rejected, [{ fileName: "reports.zip/large.xml", error: "Размер файла превышает 10 МБ" }]);
+  });
+
+  it("stops inflating an entry whose declared size is forged", async () => {
+    const archive = forgeUncompressedSize(await buildArchive({ "bomb.xml": Buffer.alloc(24 * 1024 * 1024) }), 1024);
+    const { accepted, rejected } = await expandBatchFiles([asUpload(archive)]);
+
+    assert.equal(accepted.length, 0);
+    assert.deepEqual(rejected, [{ fileName: "reports.zip/bomb.xml", error: "Размер файла превышает 10 МБ" }]);
+  });
+});
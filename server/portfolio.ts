@@ -0,0 +1,302 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import JSZip from "jszip";
+import type {
+  BatchAnalysis,
+  BatchFileResult,
+  CreditRatingGrade,
+  FinancialAnalysisResult,
+  PortfolioBorrower,
+  PortfolioSummary,
+} from "@shared/schema";
+import type { UploadedFile } from "./analysis-pipeline";
+import { createAnalysisJob, isJobFinished, subscribeToAnalysisJob } from "./jobs";
+import { storage } from "./storage";
+
+// Files of one batch after unpacking the archives
+export const MAX_BATCH_FILES = 50;
+
+// Same limit as for a single upload
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Batches are kept for status requests, the analyses themselves are in storage
+const BATCH_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Number of borrowers in the worst liquidity list
+const WORST_LIQUIDITY_COUNT = 5;
+
+export const ZIP_MIME_TYPES = ["application/zip", "application/x-zip-compressed", "application/x-zip"];
+
+// Files inside an archive have no mimetype, it is taken from the extension
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".xls": "application/vnd.ms-excel",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".pdf": "application/pdf",
+  ".xml": "application/xml",
+  ".json": "application/json",
+};
+
+const GRADE_ORDER: CreditRatingGrade[] = ["A+", "A", "B+", "B", "C+", "C", "D"];
+
+interface BatchEntry {
+  id: string;
+  files: BatchFileResult[];
+  fileNames: Map<string, string>; // analysisId → file name, for the portfolio borrowers
+  createdAt: string;
+}
+
+const batches = new Map<string, BatchEntry>();
+
+function isZipFile(file: UploadedFile): boolean {
+  return ZIP_MIME_TYPES.includes(file.mimetype) || path.extname(file.originalname).toLowerCase() === ".zip";
+}
+
+// JSZip internals: the sizes from the archive directory and the inflate stream that can be paused
+// (the public nodeStream keeps inflating into its buffer after a pause)
+interface ZipEntryInternals {
+  _data?: { uncompressedSize?: number };
+  internalStream(type: "nodebuffer"): JSZip.JSZipStreamHelper<Buffer>;
+}
+
+/**
+ * Inflate an archive entry up to the size limit: the size declared in the archive is checked first,
+ * and inflating stops as soon as the data exceeds the limit (the declared size may be forged)
+ * @returns Null when the entry is larger than MAX_FILE_SIZE
+ */
+function inflateZipEntry(entry: JSZip.JSZipObject): Promise<Buffer | null> {
+  const internals = entry as JSZip.JSZipObject & ZipEntryInternals;
+  const declaredSize = internals._data?.uncompressedSize;
+  if (declaredSize !== undefined && declaredSize > MAX_FILE_SIZE) return Promise.resolve(null);
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = internals.internalStream("nodebuffer");
+    stream
+      .on("data", chunk => {
+        size += chunk.length;
+        if (size > MAX_FILE_SIZE) {
+          stream.pause();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on("error", reject)
+      .on("end", () => resolve(Buffer.concat(chunks)))
+      .resume();
+  });
+}
+
+/**
+ * Unpack ZIP archives of a batch upload. Files with unsupported extensions, oversized files
+ * and service entries (folders, __MACOSX) are returned as rejected with the reason.
+ * Unpacking stops at MAX_BATCH_FILES: entries over the limit are not inflated
+ */
+export async function expandBatchFiles(files: UploadedFile[]): Promise<{
+  accepted: UploadedFile[];
+  rejected: { fileName: string; error: string }[];
+}> {
+  const accepted: UploadedFile[] = [];
+  const rejected: { fileName: string; error: string }[] = [];
+
+  for (const file of files) {
+    if (!isZipFile(file)) {
+      accepted.push(file);
+      continue;
+    }
+
+    let archive: JSZip;
+    try {
+      archive = await JSZip.loadAsync(file.buffer);
+    } catch (error) {
+      rejected.push({ fileName: file.originalname, error: "Не удалось распаковать ZIP-архив" });
+      continue;
+    }
+
+    const entries = Object.values(archive.files)
+      .filter(entry => !entry.dir && !entry.name.startsWith("__MACOSX/") && !path.basename(entry.name).startsWith("."));
+
+    let unpacked = 0;
+    for (const entry of entries) {
+      if (accepted.length >= MAX_BATCH_FILES) {
+        rejected.push({
+          fileName: file.originalname,
+          error: `Превышено максимальное количество файлов в пакете (${MAX_BATCH_FILES}): не распаковано файлов архива — ${entries.length - unpacked}`,
+        });
+        break;
+      }
+      unpacked++;
+
+      const fileName = `${file.originalname}/${entry.name}`;
+      const mimetype = EXTENSION_MIME_TYPES[path.extname(entry.name).toLowerCase()];
+      if (!mimetype) {
+        rejected.push({ fileName, error: "Неподдерживаемый формат файла" });
+        continue;
+      }
+
+      const buffer = await inflateZipEntry(entry);
+      if (!buffer) {
+        rejected.push({ fileName, error: "Размер файла превышает 10 МБ" });
+        continue;
+      }
+
+      accepted.push({ originalname: fileName, mimetype, size: buffer.length, buffer });
+    }
+    console.log(`✓ ZIP archive ${file.originalname} unpacked: ${unpacked} of ${entries.length} files`);
+  }
+
+  return { accepted, rejected };
+}
+
+/**
+ * Create a batch: unpack archives and queue every file as an analysis job
+ * Concurrency is bounded by the job queue (ANALYSIS_CONCURRENCY)
+ */
+export async function createBatchAnalysis(files: UploadedFile[]): Promise<BatchAnalysis> {
+  const { accepted, rejected } = await expandBatchFiles(files);
+  if (accepted.length === 0 && rejected.length === 0) {
+    throw new Error("Архивы не содержат файлов для анализа");
+  }
+
+  const entry: BatchEntry = {
+    id: randomUUID(),
+    files: [],
+    fileNames: new Map(),
+    createdAt: new Date().toISOString(),
+  };
+
+  accepted.forEach((file, index) => {
+    if (index >= MAX_BATCH_FILES) {
+      entry.files.push({
+        fileName: file.originalname,
+        status: "failed",
+        progress: 0,
+        error: `Превышено максимальное количество файлов в пакете (${MAX_BATCH_FILES})`,
+      });
+      return;
+    }
+
+    const job = createAnalysisJob(file);
+    const record: BatchFileResult = { fileName: file.originalname, jobId: job.id, status: job.status, progress: job.progress };
+    entry.files.push(record);
+
+    const unsubscribe = subscribeToAnalysisJob(job.id, current => {
+      record.status = current.status;
+      record.progress = current.progress;
+      record.error = current.error;
+      if (current.status === "completed" && current.result) {
+        record.analysisId = current.analysisId;
+        record.companyName = current.result.data.companyName;
+        record.inn = current.result.data.inn;
+        record.creditGrade = current.result.aiAnalysis.creditRating?.grade;
+        entry.fileNames.set(current.analysisId!, file.originalname);
+      }
+      if (isJobFinished(current)) {
+        unsubscribe?.();
+      }
+    });
+  });
+
+  rejected.forEach(file => entry.files.push({ ...file, status: "failed", progress: 0 }));
+
+  batches.set(entry.id, entry);
+  setTimeout(() => batches.delete(entry.id), BATCH_TTL_MS).unref();
+  console.log(`✓ Batch ${entry.id} created: ${Math.min(accepted.length, MAX_BATCH_FILES)} files queued, ${entry.files.length - Math.min(accepted.length, MAX_BATCH_FILES)} rejected`);
+
+  return (await getBatchAnalysis(entry.id))!;
+}
+
+/**
+ * Batch status with per-file results and the portfolio summary of the analyses completed so far
+ */
+export async function getBatchAnalysis(id: string): Promise<BatchAnalysis | undefined> {
+  const entry = batches.get(id);
+  if (!entry) return undefined;
+
+  const completed = await Promise.all(
+    entry.files
+      .filter(file => file.analysisId)
+      .map(async file => ({
+        analysisId: file.analysisId!,
+        fileName: entry.fileNames.get(file.analysisId!) ?? file.fileName,
+        analysis: await storage.getAnalysis(file.analysisId!),
+      }))
+  );
+  const analyses = completed.filter(
+    (item): item is { analysisId: string; fileName: string; analysis: FinancialAnalysisResult } => item.analysis !== undefined
+  );
+
+  return {
+    id: entry.id,
+    status: entry.files.every(file => file.status === "completed" || file.status === "failed" || file.status === "cancelled")
+      ? "completed"
+      : "running",
+    files: entry.files.map(file => ({ ...file })),
+    summary: buildPortfolioSummary(analyses),
+    createdAt: entry.createdAt,
+  };
+}
+
+/**
+ * Portfolio summary: rating and risk distribution, borrowers with the weakest liquidity
+ * and aggregate exposure (sums of the reporting-period balance sheets)
+ */
+export function buildPortfolioSummary(
+  analyses: { analysisId: string; fileName: string; analysis: FinancialAnalysisResult }[]
+): PortfolioSummary {
+  const borrowers: PortfolioBorrower[] = analyses.map(({ analysisId, fileName, analysis }) => ({
+    analysisId,
+    fileName,
+    companyName: analysis.data.companyName,
+    inn: analysis.data.inn,
+    creditGrade: analysis.aiAnalysis.creditRating?.grade,
+    creditScore: analysis.aiAnalysis.creditRating?.score,
+    riskLevel: analysis.aiAnalysis.riskLevel,
+    currentRatio: analysis.ratios.currentRatio.value,
+    quickRatio: analysis.ratios.quickRatio.value,
+    debtRatio: analysis.ratios.debtRatio.value,
+    totalAssets: analysis.data.totalAssets,
+    totalDebt: analysis.data.shortTermDebt + analysis.data.longTermDebt,
+    revenue: analysis.data.revenue ?? 0,
+  }));
+
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  const scores = borrowers
+    .map(borrower => borrower.creditScore)
+    .filter((score): score is number => score !== undefined);
+
+  const ratingDistribution = GRADE_ORDER.map(grade => ({
+    grade,
+    count: borrowers.filter(borrower => borrower.creditGrade === grade).length,
+  }));
+
+  const riskDistribution = { low: 0, medium: 0, high: 0 };
+  borrowers.forEach(borrower => riskDistribution[borrower.riskLevel]++);
+
+  const totalAssets = sum(analyses.map(({ analysis }) => analysis.data.totalAssets));
+  const totalLiabilities = sum(analyses.map(({ analysis }) => analysis.data.totalLiabilities));
+  const totalDebt = sum(borrowers.map(borrower => borrower.totalDebt));
+  const highRiskDebt = sum(borrowers.filter(borrower => borrower.riskLevel === "high").map(borrower => borrower.totalDebt));
+
+  return {
+    borrowers: borrowers.length,
+    averageScore: scores.length > 0 ? sum(scores) / scores.length : undefined,
+    ratingDistribution,
+    riskDistribution,
+    worstLiquidity: [...borrowers]
+      .sort((a, b) => a.currentRatio - b.currentRatio)
+      .slice(0, WORST_LIQUIDITY_COUNT),
+    exposure: {
+      totalAssets,
+      totalLiabilities,
+      totalEquity: sum(analyses.map(({ analysis }) => analysis.data.equity)),
+      totalDebt,
+      totalRevenue: sum(borrowers.map(borrower => borrower.revenue)),
+      debtRatio: totalAssets > 0 ? totalLiabilities / totalAssets : 0,
+      highRiskDebtShare: totalDebt > 0 ? highRiskDebt / totalDebt : 0,
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { FinancialData, GeneratedCreditReport } from "@shared/schema";
+import { calculateFinancialRatios, evaluateRatios } from "./financial-calculator";
+import { calculateCreditRating } from "./credit-rating";
+import { checkReportFacts, collectReportFacts } from "./report-fact-check";
+import { generateFinancialAnalysis } from "./openai";
+import { FixtureProvider, setAnalysisProvider } from "./analysis-provider";
+
+// Current ratio 400 / 300 = 1.33, quick ratio (400 - 200) / 300 = 0.67
+const data: FinancialData = {
+  currentAssets: 400,
+  cashAndEquivalents: 50,
+  shortTermInvestments: 0,
+  accountsReceivable: 150,
+  inventory: 200,
+  totalAssets: 1300,
+  currentLiabilities: 300,
+  shortTermDebt: 100,
+  totalLiabilities: 700,
+  equity: 600,
+  longTermDebt: 400,
+  revenue: 2000,
+  netIncome: 160,
+};
+
+const ratios = calculateFinancialRatios(data);
+const evaluatedRatios = evaluateRatios(ratios);
+const creditRating = calculateCreditRating(evaluatedRatios, [{ year: 2024, data, ratios: evaluatedRatios, financialStability: ratios.financialStability }]);
+
+// The liquidity ratios below are made up, the stability section cites the calculation
+const report: GeneratedCreditReport = {
+  industrySector: { description: "Оптовая торговля" },
+  financialCondition: {
+    liquidity: {
+      analysis: "Коэффициент текущей ликвидности составляет 2,85, быстрой ликвидности — 1,74, абсолютной ликвидности — 0,93.",
+      conclusion: "Ликвидность высокая",
+    },
+    stability: {
+      analysis: "Коэффициент текущей ликвидности 1,33 при собственном капитале 600 и активах 1 300.",
+      conclusion: "Устойчивость приемлемая",
+    },
+    profitability: { analysis: "Чистая прибыль 160 при выручке 2 000.", conclusion: "Рентабельность умеренная" },
+  },
+  strengths: ["Положительная чистая прибыль"],
+  weaknesses: ["Высокая доля заемных средств"],
+  recommendations: { items: ["Контролировать долговую нагрузку"], comment: "Решение по методике банка" },
+};
+
+describe("report fact check", () => {
+  after(() => {
+    setAnalysisProvider(null);
+  });
+
+  it("flags ratios missing from the calculated values", () => {
+    const facts = collectReportFacts({ data, ratios, creditRating, evaluatedRatios });
+    const { mismatches, severeSections } = checkReportFacts(report, facts);
+
+    assert.deepEqual(mismatches.map(mismatch => mismatch.cited), ["2,85", "1,74", "0,93"]);
+    assert.deepEqual(severeSections, ["liquidity"]);
+  });
+
+  it("replaces the section with a hallucinated ratio by the rule-based text", async () => {
+    setAnalysisProvider(new FixtureProvider({ "credit-report": report }));
+    const analysis = await generateFinancialAnalysis(data, ratios, creditRating, { evaluatedRatios });
+
+    assert.deepEqual(analysis.validation?.replacedSections, [{ section: "liquidity", reason: "facts" }]);
+    assert.doesNotMatch(analysis.financialCondition.liquidity.analysis, /2,85/);
+    assert.equal(analysis.financialCondition.stability.analysis, report.financialCondition.stability.analysis);
+  });
+});
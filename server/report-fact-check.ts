@@ -0,0 +1,183 @@
+import type {
+  CreditRating,
+  CreditReportFactMismatch,
+  CreditReportSection,
+  FinancialAnalysisResult,
+  FinancialData,
+  FinancialRatios,
+  GeneratedCreditReport,
+  NetAssetsPeriod,
+} from "@shared/schema";
+import { codeToFieldMap } from "./reporting-codes";
+
+// A number written in the report text
+interface CitedNumber {
+  raw: string;
+  value: number; // Absolute value as written, without the unit
+  decimals: number;
+  percent: boolean;
+  scale: number; // 1000 for "тыс.", 1e6 for "млн", 1e9 for "млрд"
+  index: number;
+}
+
+// Integer part with space or comma thousands groups ("1 234 567", "1,234,567") or plain digits,
+// a fraction after a comma or a dot, then an optional percent sign or тыс./млн/млрд.
+// A comma followed by exactly three digits is read as a thousands separator
+const NUMBER_PATTERN = /(\d{1,3}(?:[ \u00a0\u202f]\d{3})+(?!\d)|\d{1,3}(?:,\d{3})+(?![\d])|\d+)(?:[.,](\d+))?(\s?%|\s?(?:тыс|млн|млрд)\.?)?/g;
+
+const SCALES: Record<string, number> = { "тыс": 1e3, "млн": 1e6, "млрд": 1e9 };
+
+// Section names for the text report and the log
+export const REPORT_SECTION_LABELS: Record<CreditReportSection, string> = {
+  industrySector: "Состояние отрасли",
+  liquidity: "Ликвидность",
+  stability: "Финансовая устойчивость",
+  profitability: "Рентабельность",
+  strengths: "Сильные стороны",
+  weaknesses: "Слабые стороны",
+  recommendations: "Рекомендации",
+};
+
+// Numbers closer than 1% to a calculated value are accepted on top of the rounding of the cited figure
+const RELATIVE_TOLERANCE = 0.01;
+
+// A section is replaced when at least two of its numbers and at least a third of them are unconfirmed
+const SEVERE_MISMATCH_COUNT = 2;
+const SEVERE_MISMATCH_SHARE = 1 / 3;
+
+/**
+ * Numbers written in the text; a number glued to letters or to another number (codes, dates) is skipped
+ */
+export function extractNumbers(text: string): CitedNumber[] {
+  const numbers: CitedNumber[] = [];
+  NUMBER_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = NUMBER_PATTERN.exec(text)) !== null) {
+    const previous = text[match.index - 1];
+    if (previous && /[\wА-Яа-яЁё.,]/.test(previous)) continue;
+
+    const [raw, integerPart, fraction, unit] = match;
+    const scaleKey = unit?.trim().replace(".", "");
+    numbers.push({
+      raw: raw.trim(),
+      value: parseFloat(`${integerPart.replace(/[ \u00a0\u202f,]/g, "")}.${fraction ?? "0"}`),
+      decimals: fraction?.length ?? 0,
+      percent: unit?.trim() === "%",
+      scale: scaleKey && SCALES[scaleKey] ? SCALES[scaleKey] : 1,
+      index: match.index,
+    });
+  }
+
+  return numbers;
+}
+
+// Small counts ("4-6 рисков"), years and line codes are not figures to check
+function isCheckable(cited: CitedNumber): boolean {
+  if (cited.percent || cited.scale > 1 || cited.decimals > 0) return true;
+  if (cited.value <= 10) return false;
+  if (cited.value >= 1900 && cited.value <= 2100) return false;
+  return !codeToFieldMap.has(String(cited.value));
+}
+
+/**
+ * Whether the cited number matches a known value: percents are compared as written and as a share,
+ * amounts with тыс./млн/млрд in units and in thousands (the statements are usually in thousands of rubles).
+ * Signs are ignored - the text says "убыток 1 200" for -1 200
+ */
+function isConfirmed(cited: CitedNumber, facts: number[]): boolean {
+  const rounding = 0.5 * Math.pow(10, -cited.decimals);
+  const multipliers = cited.percent ? [1, 0.01] : cited.scale > 1 ? [cited.scale, cited.scale / 1000] : [1];
+
+  return facts.some(fact => {
+    const expected = Math.abs(fact);
+    return multipliers.some(multiplier =>
+      Math.abs(expected - cited.value * multiplier) <= Math.max(rounding * multiplier, expected * RELATIVE_TOLERANCE) + 1e-9
+    );
+  });
+}
+
+/**
+ * Values the report may cite, all taken from the calculation: the period data, the ratios, the rating
+ * and its factors, net assets and the norms of the evaluated ratios. Other numbers of the prompt
+ * (the rating scale, the response template) are not facts about the company
+ */
+export function collectReportFacts(sources: {
+  data: FinancialData;
+  ratios: FinancialRatios;
+  creditRating: CreditRating;
+  netAssets?: NetAssetsPeriod[];
+  evaluatedRatios?: FinancialAnalysisResult["ratios"];
+}): number[] {
+  const { data, ratios, creditRating, netAssets, evaluatedRatios } = sources;
+  const numeric = (values: unknown[]) => values.filter((value): value is number => typeof value === "number" && Number.isFinite(value));
+
+  const stability = ratios.financialStability;
+  return [
+    ...numeric(Object.values(data)),
+    ...numeric(Object.values(ratios)),
+    ...numeric([stability.inventory, stability.ownWorkingCapital, stability.longTermSources, stability.totalSources, ...stability.surpluses]),
+    creditRating.score,
+    ...creditRating.factors.flatMap(factor => [factor.score, factor.weight * 100]),
+    ...numeric((netAssets ?? []).flatMap(period => [period.netAssets, period.authorizedCapital, period.excess])),
+    // Profitability ratios may be cited as percents without the sign ("ROA 15,2")
+    ...numeric(Object.values(ratios)).map(value => value * 100),
+    ...Object.values(evaluatedRatios ?? {}).flatMap(ratio => extractNumbers(ratio?.benchmark ?? "").map(number => number.value)),
+  ];
+}
+
+// Texts of the fact-checked sections; the sector description relies on market knowledge, not on the statements
+function sectionTexts(report: GeneratedCreditReport): Record<Exclude<CreditReportSection, "industrySector">, string[]> {
+  const { liquidity, stability, profitability } = report.financialCondition;
+  return {
+    liquidity: [liquidity.analysis, liquidity.conclusion],
+    stability: [stability.analysis, stability.conclusion],
+    profitability: [profitability.analysis, profitability.conclusion],
+    strengths: report.strengths,
+    weaknesses: report.weaknesses,
+    recommendations: [...report.recommendations.items, report.recommendations.comment],
+  };
+}
+
+/**
+ * Compare every number cited in the report with the calculated values
+ * @param skipSections - Sections not written by the model (already replaced with the rule-based text)
+ * @returns Unconfirmed numbers and the sections where they are too many to keep the text
+ */
+export function checkReportFacts(
+  report: GeneratedCreditReport,
+  facts: number[],
+  skipSections: CreditReportSection[] = []
+): { checkedNumbers: number; mismatches: CreditReportFactMismatch[]; severeSections: CreditReportSection[] } {
+  const mismatches: CreditReportFactMismatch[] = [];
+  const severeSections: CreditReportSection[] = [];
+  let checkedNumbers = 0;
+
+  const texts = sectionTexts(report);
+  (Object.keys(texts) as (keyof typeof texts)[]).forEach(section => {
+    if (skipSections.includes(section)) return;
+
+    let sectionChecked = 0;
+    let sectionMismatches = 0;
+    texts[section].forEach(text => {
+      extractNumbers(text).filter(isCheckable).forEach(cited => {
+        sectionChecked++;
+        if (isConfirmed(cited, facts)) return;
+
+        sectionMismatches++;
+        mismatches.push({
+          section,
+          cited: cited.raw,
+          context: text.slice(Math.max(0, cited.index - 40), cited.index + cited.raw.length + 40).trim(),
+        });
+      });
+    });
+
+    checkedNumbers += sectionChecked;
+    if (sectionMismatches >= SEVERE_MISMATCH_COUNT && sectionMismatches / sectionChecked >= SEVERE_MISMATCH_SHARE) {
+      severeSections.push(section);
+    }
+  });
+
+  return { checkedNumbers, mismatches, severeSections };
+}
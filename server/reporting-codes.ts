@@ -0,0 +1,170 @@
+import type { FinancialData } from "@shared/schema";
+
+/**
+ * Standard line codes of Russian accounting statements (РСБУ, приказ Минфина № 66н)
+ * Maps each line code to the normalized field name used as a key in parsed data maps,
+ * so every parser (DOCX/PDF text, Excel, ФНС) stores values under the same keys.
+ * Lines with the same name in different sections (1410/1510, 1430/1540) get distinct keys
+ */
+export const codeToFieldMap = new Map<string, string>([
+  // Balance sheet codes (Form 1)
+  ['1250', 'денежные средства и денежные эквиваленты'],
+  ['1240', 'финансовые вложения исключая денежные эквиваленты'],
+  ['1230', 'дебиторская задолженность'],
+  ['1220', 'налог на добавленную стоимость'],
+  ['1210', 'запасы'],
+  ['1260', 'прочие оборотные активы'],
+  ['1200', 'итого по разделу ii'],
+  ['1100', 'итого по разделу i'],
+  ['1110', 'нематериальные активы'],
+  ['1120', 'результаты исследований и разработок'],
+  ['1130', 'нематериальные поисковые активы'],
+  ['1140', 'материальные поисковые активы'],
+  ['1150', 'основные средства'],
+  ['1160', 'доходные вложения в материальные ценности'],
+  ['1170', 'финансовые вложения'],
+  ['1180', 'отложенные налоговые активы'],
+  ['1190', 'прочие внеоборотные активы'],
+  ['1300', 'итого по разделу iii'],
+  ['1310', 'уставный капитал'],
+  ['1340', 'переоценка внеоборотных активов'],
+  ['1350', 'добавочный капитал без переоценки'],
+  ['1360', 'резервный капитал'],
+  ['1370', 'нераспределенная прибыль'],
+  ['1400', 'итого по разделу iv'],
+  ['1410', 'заемные средства долгосрочные'],
+  ['1420', 'отложенные налоговые обязательства'],
+  ['1430', 'оценочные обязательства'],
+  ['1450', 'прочие долгосрочные обязательства'],
+  ['1500', 'итого по разделу v'],
+  ['1510', 'заемные средства краткосрочные'],
+  ['1520', 'кредиторская задолженность'],
+  ['1530', 'доходы будущих периодов'],
+  ['1540', 'оценочные обязательства краткосрочные'],
+  ['1550', 'прочие краткосрочные обязательства'],
+  ['1600', 'баланс'],
+  ['1700', 'баланс'],
+  // Income statement codes (Form 2) - P&L items
+  ['2110', 'выручка'],
+  ['2120', 'себестоимость продаж'],
+  ['2100', 'валовая прибыль убыток'],
+  ['2210', 'коммерческие расходы'],
+  ['2220', 'управленческие расходы'],
+  ['2200', 'прибыль убыток от продаж'],
+  ['2310', 'доходы от участия в других организациях'],
+  ['2320', 'проценты к получению'],
+  ['2330', 'проценты к уплате'],
+  ['2340', 'прочие доходы'],
+  ['2350', 'прочие расходы'],
+  ['2300', 'прибыль убыток до налогообложения'],
+  ['2410', 'текущий налог на прибыль'],
+  ['2400', 'чистая прибыль убыток'],
+  // Cash flow statement codes (Form 4)
+  ['4100', 'сальдо денежных потоков от текущих операций'],
+  ['4221', 'в связи с приобретением созданием модернизацией реконструкцией и подготовкой к использованию внеоборотных активов'],
+  ['4200', 'сальдо денежных потоков от инвестиционных операций'],
+  ['4300', 'сальдо денежных потоков от финансовых операций'],
+  ['4400', 'сальдо денежных потоков за отчетный период'],
+  // Notes to the statements - costs by elements
+  ['5640', 'амортизация'],
+]);
+
+/**
+ * Keys of values read by line code. Parsers match them by exact name only: a partial match
+ * would take a line of another section (e.g. 1410 for "заемные средства" when 1510 is absent)
+ */
+export const codedLineKeys = new Set(codeToFieldMap.values());
+
+/**
+ * Direct mapping of line codes to FinancialData fields
+ * Used by parsers of machine-readable statements (ФНС XML, ГИР БО JSON) where every value
+ * comes with its line code, so no name matching is needed
+ */
+export const codeToFinancialField: Record<string, keyof FinancialData> = {
+  // Form 1 - Balance sheet
+  '1110': 'intangibleAssets',
+  '1120': 'rdResults',
+  '1130': 'intangibleExplorationAssets',
+  '1140': 'tangibleExplorationAssets',
+  '1150': 'fixedAssets',
+  '1160': 'profitableInvestmentsInTangibleAssets',
+  '1170': 'financialInvestments',
+  '1180': 'deferredTaxAssets',
+  '1190': 'otherNonCurrentAssets',
+  '1200': 'currentAssets',
+  '1210': 'inventory',
+  '1230': 'accountsReceivable',
+  '1240': 'shortTermInvestments',
+  '1250': 'cashAndEquivalents',
+  '1260': 'otherCurrentAssets',
+  '1300': 'equity',
+  '1310': 'authorizedCapital',
+  '1340': 'revaluationReserve',
+  '1350': 'additionalCapital',
+  '1370': 'retainedEarnings',
+  '1400': 'longTermDebt',
+  '1410': 'borrowedFundsLongTerm',
+  '1420': 'deferredTaxLiabilities',
+  '1430': 'estimatedLiabilities',
+  '1450': 'otherLongTermLiabilities',
+  '1500': 'currentLiabilities',
+  '1510': 'shortTermDebt',
+  '1520': 'accountsPayable',
+  '1530': 'deferredIncome',
+  '1540': 'estimatedLiabilitiesShortTerm',
+  '1550': 'otherCurrentLiabilities',
+  '1600': 'totalAssets',
+  // Form 2 - Income statement
+  '2110': 'revenue',
+  '2120': 'costOfSales',
+  '2100': 'grossProfit',
+  '2200': 'operatingIncome',
+  '2330': 'interestExpense',
+  '2300': 'profitBeforeTax',
+  '2400': 'netIncome',
+  // Form 4 - Cash flow statement
+  '4100': 'operatingCashFlow',
+  '4200': 'investingCashFlow',
+  '4221': 'capitalExpenditures',
+  '4300': 'financingCashFlow',
+  '4400': 'netCashFlow',
+  // Notes - costs by elements
+  '5640': 'depreciation',
+};
+
+/**
+ * Rows of section 1 of the statement of changes in equity (Form 3)
+ * Each row exists for the previous year (32xx) and the reporting year (33xx)
+ */
+const equityMovementRows: [string, string][] = [
+  ['10', 'увеличение капитала всего'],
+  ['11', 'чистая прибыль'],
+  ['12', 'переоценка имущества'],
+  ['13', 'доходы относящиеся непосредственно на увеличение капитала'],
+  ['14', 'дополнительный выпуск акций'],
+  ['15', 'увеличение номинальной стоимости акций'],
+  ['16', 'реорганизация юридического лица'],
+  ['20', 'уменьшение капитала всего'],
+  ['21', 'убыток'],
+  ['22', 'переоценка имущества'],
+  ['23', 'расходы относящиеся непосредственно на уменьшение капитала'],
+  ['24', 'уменьшение номинальной стоимости акций'],
+  ['25', 'уменьшение количества акций'],
+  ['26', 'реорганизация юридического лица'],
+  ['27', 'дивиденды'],
+  ['30', 'изменение добавочного капитала'],
+  ['40', 'изменение резервного капитала'],
+];
+
+/**
+ * Line codes of the statement of changes in equity (Form 3)
+ * Values are read from the "Итого" column, except 3600 (net assets) which is read for the reporting date
+ */
+export const equityStatementCodes = new Map<string, string>([
+  ['3100', 'величина капитала на 31 декабря года предшествующего предыдущему'],
+  ...equityMovementRows.map(([row, name]): [string, string] => [`32${row}`, name]),
+  ['3200', 'величина капитала на 31 декабря предыдущего года'],
+  ...equityMovementRows.map(([row, name]): [string, string] => [`33${row}`, name]),
+  ['3300', 'величина капитала на 31 декабря отчетного года'],
+  ['3600', 'чистые активы'],
+]);
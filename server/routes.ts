@@ -2,11 +2,37 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import { storage } from "./storage";
-import { parseExcelFile, generateSampleTemplate } from "./excel-parser";
-import { parseDocumentFile } from "./document-parser";
-import { calculateFinancialRatios, evaluateRatios, validateAndNormalizeFinancialData } from "./financial-calculator";
-import { generateFinancialAnalysis } from "./openai";
-import type { FinancialAnalysisResult, ReportingPeriod, FinancialData } from "@shared/schema";
+import { generateSampleTemplate } from "./excel-parser";
+import { buildCompanyTimeline } from "./companies";
+import { cancelAnalysisJob, createAnalysisJob, getAnalysisJob, isJobFinished, subscribeToAnalysisJob } from "./jobs";
+import { createBatchAnalysis, getBatchAnalysis, MAX_BATCH_FILES, ZIP_MIME_TYPES } from "./portfolio";
+import { LIQUIDITY_BALANCE_LABELS } from "./liquidity-grouping";
+import { FINANCIAL_STABILITY_LABELS } from "./financial-calculator";
+import { runLoanStressTest } from "./loan-stress-test";
+import { getAnalysisProvider } from "./analysis-provider";
+import { answerAnalysisQuestion } from "./analysis-chat";
+import { REPORT_SECTION_LABELS } from "./report-fact-check";
+import { lookupOkved, normalizeOkvedCode, OKVED_VERSION, searchOkved } from "./okved";
+import {
+  listBenchmarkProfiles,
+  overrideBenchmarkProfile,
+  resetBenchmarkProfile,
+  resolveBenchmarkProfile,
+  BENCHMARK_PROFILES_VERSION,
+} from "./benchmarks";
+import type { AnalysisChatEvent, AnalysisJob, FinancialAnalysisResult } from "@shared/schema";
+import { analysisChatRequestSchema, benchmarkProfileOverrideSchema, loanStressTestSchema } from "@shared/schema";
+
+const allowedMimes = [
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/pdf",
+  // ФНС XML and ГИР БО JSON statements
+  "application/xml",
+  "text/xml",
+  "application/json",
+];
 
 // Configure multer for file upload (in-memory storage)
 const upload = multer({
@@ -15,17 +41,26 @@ const upload = multer({
     fileSize: 10 * 1024 * 1024, // 10MB max file size
   },
   fileFilter: (req, file, cb) => {
-    const allowedMimes = [
-      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-      "application/vnd.ms-excel",
-      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-      "application/pdf",
-    ];
-
     if (allowedMimes.includes(file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error("Только Excel (.xlsx, .xls), Word (.docx) и PDF файлы разрешены"));
+      cb(new Error("Только Excel (.xlsx, .xls), Word (.docx), PDF и файлы отчётности ФНС (.xml, .json) разрешены"));
+    }
+  },
+});
+
+// Batch upload: the same formats plus ZIP archives with them
+const batchUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB max per file (archives)
+    files: MAX_BATCH_FILES,
+  },
+  fileFilter: (req, file, cb) => {
+    if (allowedMimes.includes(file.mimetype) || ZIP_MIME_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Только Excel (.xlsx, .xls), Word (.docx), PDF, файлы отчётности ФНС (.xml, .json) и ZIP-архивы разрешены"));
     }
   },
 });
@@ -103,10 +138,130 @@ function generateTextReport(result: FinancialAnalysisResult): string {
     report += '\n';
   }
 
+  if (result.data.operatingCashFlow !== undefined || result.data.netCashFlow !== undefined) {
+    report += `───────────────────────────────────────────────────────────────────────
+ОТЧЁТ О ДВИЖЕНИИ ДЕНЕЖНЫХ СРЕДСТВ
+───────────────────────────────────────────────────────────────────────
+
+`;
+    if (result.data.operatingCashFlow !== undefined) {
+      report += `Сальдо от текущих операций            ${formatCurrency(result.data.operatingCashFlow)}\n`;
+    }
+    if (result.data.investingCashFlow !== undefined) {
+      report += `Сальдо от инвестиционных операций     ${formatCurrency(result.data.investingCashFlow)}\n`;
+    }
+    if (result.data.financingCashFlow !== undefined) {
+      report += `Сальдо от финансовых операций         ${formatCurrency(result.data.financingCashFlow)}\n`;
+    }
+    if (result.data.netCashFlow !== undefined) {
+      report += `Сальдо денежных потоков за период     ${formatCurrency(result.data.netCashFlow)}\n`;
+    }
+    report += '\n';
+  }
+
+  if (result.equityStatement) {
+    report += `───────────────────────────────────────────────────────────────────────
+ДВИЖЕНИЕ КАПИТАЛА (ФОРМА 3)
+───────────────────────────────────────────────────────────────────────
+`;
+    for (const movement of result.equityStatement.movements) {
+      report += `
+${movement.year} год:
+`;
+      if (movement.openingEquity !== undefined) {
+        report += `  Капитал на начало года              ${formatCurrency(movement.openingEquity)}\n`;
+      }
+      report += `  Чистая прибыль (убыток)             ${formatCurrency(movement.netIncome)}\n`;
+      report += `  Дивиденды                           ${formatCurrency(-movement.dividends)}\n`;
+      report += `  Взносы в капитал                    ${formatCurrency(movement.capitalContributions)}\n`;
+      report += `  Переоценка                          ${formatCurrency(movement.revaluation)}\n`;
+      report += `  Прочие изменения                    ${formatCurrency(movement.other)}\n`;
+      if (movement.closingEquity !== undefined) {
+        report += `  Капитал на конец года               ${formatCurrency(movement.closingEquity)}\n`;
+      }
+      if (movement.balanceSheetChange !== undefined) {
+        report += `  Изменение строки 1300 баланса       ${formatCurrency(movement.balanceSheetChange)}    [${movement.reconciled ? 'СХОДИТСЯ' : 'РАСХОЖДЕНИЕ ' + formatCurrency(movement.reconciliationDifference ?? 0)}]\n`;
+      }
+      if (movement.dividendsExceedNetIncome) {
+        report += `  ⚠ Дивиденды превышают чистую прибыль\n`;
+      }
+    }
+    if (result.equityStatement.netAssets !== undefined) {
+      report += `\nЧистые активы                         ${formatCurrency(result.equityStatement.netAssets)}\n`;
+    }
+    report += '\n';
+  }
+
+  if (result.netAssets && result.netAssets.length > 0) {
+    report += `───────────────────────────────────────────────────────────────────────
+ЧИСТЫЕ АКТИВЫ И УСТАВНЫЙ КАПИТАЛ
+───────────────────────────────────────────────────────────────────────
+`;
+    for (const period of result.netAssets) {
+      report += `
+${period.year} год:
+  Чистые активы                       ${formatCurrency(period.netAssets)}
+`;
+      if (period.authorizedCapital !== undefined) {
+        report += `  Уставный капитал                    ${formatCurrency(period.authorizedCapital)}\n`;
+      }
+      if (period.excess !== undefined) {
+        report += `  Превышение (+) / недостаток (-)     ${formatCurrency(period.excess)}\n`;
+      }
+      report += `  [${period.status.toUpperCase()}] ${period.message}\n`;
+    }
+    report += '\n';
+  }
+
+  const dynamics = result.horizontalVerticalAnalysis;
+  if (dynamics && dynamics.years.length >= 2) {
+    report += `───────────────────────────────────────────────────────────────────────
+ГОРИЗОНТАЛЬНЫЙ И ВЕРТИКАЛЬНЫЙ АНАЛИЗ (${dynamics.years[1]} → ${dynamics.years[0]})
+───────────────────────────────────────────────────────────────────────
+
+`;
+    for (const line of dynamics.lines) {
+      const value = line.values[0];
+      if (value === undefined) continue;
+      const share = line.shares[0] !== undefined ? `${(line.shares[0] * 100).toFixed(1)}%` : "—";
+      const change = line.changes[0];
+      const changeText = change
+        ? `${change.absolute >= 0 ? "+" : ""}${formatCurrency(change.absolute)}${change.percent !== undefined ? ` (${change.percent >= 0 ? "+" : ""}${(change.percent * 100).toFixed(1)}%)` : ""}`
+        : "—";
+      report += `${`${line.label} (${line.code})`.padEnd(46)}${formatCurrency(value)}  доля ${share}  изм. ${changeText}\n`;
+    }
+    report += '\n';
+  }
+
+  const grouping = result.liquidityGrouping?.[0];
+  if (grouping) {
+    report += `───────────────────────────────────────────────────────────────────────
+ЛИКВИДНОСТЬ БАЛАНСА (${grouping.year})
+───────────────────────────────────────────────────────────────────────
+
+`;
+    const inequalitySigns = ['≥', '≥', '≥', '≤'];
+    grouping.assets.forEach((asset, index) => {
+      const liability = grouping.liabilities[index];
+      report += `А${index + 1} ${formatCurrency(asset).padStart(22)}   ${inequalitySigns[index]}   П${index + 1} ${formatCurrency(liability).padStart(22)}    излишек/недостаток ${formatCurrency(grouping.surplus[index])}    [${grouping.inequalities[index] ? 'ВЫПОЛНЯЕТСЯ' : 'НЕ ВЫПОЛНЯЕТСЯ'}]\n`;
+    });
+    report += `
+Тип баланса: ${LIQUIDITY_BALANCE_LABELS[grouping.balanceType]}
+Текущая ликвидность (А1+А2)-(П1+П2)   ${formatCurrency(grouping.currentLiquidity)}
+Перспективная ликвидность (А3-П3)     ${formatCurrency(grouping.prospectiveLiquidity)}
+`;
+    if (grouping.generalLiquidityRatio !== undefined) {
+      report += `Общий показатель ликвидности          ${formatRatio(grouping.generalLiquidityRatio)}    [${grouping.generalLiquidityRatio >= 1 ? 'НОРМА' : 'НИЖЕ НОРМЫ'}]\n`;
+    }
+    report += '\n';
+  }
+
   report += `───────────────────────────────────────────────────────────────────────
 ФИНАНСОВЫЕ КОЭФФИЦИЕНТЫ
 ───────────────────────────────────────────────────────────────────────
-
+${result.benchmarkProfile ? `
+Нормативы: ${result.benchmarkProfile.name} (версия ${result.benchmarkProfile.version}${result.benchmarkProfile.overridden ? ', изменены' : ''})
+${result.benchmarkProfile.okved ? `Вид деятельности: ${result.benchmarkProfile.okved.code} ${result.benchmarkProfile.okved.name}\n` : ''}` : ''}
 КОЭФФИЦИЕНТЫ ЛИКВИДНОСТИ:
   Текущей ликвидности            ${formatRatio(result.ratios.currentRatio.value)}    [${result.ratios.currentRatio.status.toUpperCase()}]
   Быстрой ликвидности            ${formatRatio(result.ratios.quickRatio.value)}    [${result.ratios.quickRatio.status.toUpperCase()}]
@@ -122,6 +277,48 @@ function generateTextReport(result: FinancialAnalysisResult): string {
   Соотношение долга к капиталу   ${formatRatio(result.ratios.debtToEquityRatio.value)}    [${result.ratios.debtToEquityRatio.status.toUpperCase()}]
 `;
 
+  // Own working capital and the three-component type of financial stability
+  const stability = result.periods?.[0]?.financialStability;
+  if (result.ratios.ownWorkingCapital || stability) {
+    report += `
+ОБЕСПЕЧЕННОСТЬ СОБСТВЕННЫМИ ОБОРОТНЫМИ СРЕДСТВАМИ:`;
+
+    if (result.ratios.ownWorkingCapital) {
+      report += `\n  Собственные оборотные средства ${formatCurrency(result.ratios.ownWorkingCapital.value)}    [${result.ratios.ownWorkingCapital.status.toUpperCase()}]`;
+    }
+    if (result.ratios.workingCapitalSufficiency) {
+      report += `\n  Обеспеченность СОС             ${formatRatio(result.ratios.workingCapitalSufficiency.value)}    [${result.ratios.workingCapitalSufficiency.status.toUpperCase()}]`;
+    }
+    if (result.ratios.equityManeuverability) {
+      report += `\n  Маневренность собств. капитала ${formatRatio(result.ratios.equityManeuverability.value)}    [${result.ratios.equityManeuverability.status.toUpperCase()}]`;
+    }
+    if (stability) {
+      report += `\n  Излишек/недостаток СОС         ${formatCurrency(stability.surpluses[0])}`;
+      report += `\n  Излишек/недостаток СДИ         ${formatCurrency(stability.surpluses[1])}`;
+      report += `\n  Излишек/недостаток ОИЗ         ${formatCurrency(stability.surpluses[2])}`;
+      report += `\n  Тип финансовой устойчивости    ${FINANCIAL_STABILITY_LABELS[stability.type]}, S = (${stability.indicator.join(', ')})`;
+    }
+    report += '\n';
+  }
+
+  // Debt service ratios (need profit before tax from the income statement)
+  if (result.ratios.ebitda) {
+    report += `
+ДОЛГОВАЯ НАГРУЗКА:
+  EBITDA                         ${formatCurrency(result.ratios.ebitda.value)}    [${result.ratios.ebitda.status.toUpperCase()}]`;
+
+    if (result.ratios.netDebtToEbitda) {
+      report += `\n  Чистый долг / EBITDA           ${formatRatio(result.ratios.netDebtToEbitda.value)}    [${result.ratios.netDebtToEbitda.status.toUpperCase()}]`;
+    }
+    if (result.ratios.interestCoverage) {
+      report += `\n  Покрытие процентов (ICR)       ${formatRatio(result.ratios.interestCoverage.value)}    [${result.ratios.interestCoverage.status.toUpperCase()}]`;
+    }
+    if (result.ratios.debtServiceCoverage) {
+      report += `\n  Покрытие обслуживания (DSCR)   ${formatRatio(result.ratios.debtServiceCoverage.value)}    [${result.ratios.debtServiceCoverage.status.toUpperCase()}]`;
+    }
+    report += '\n';
+  }
+
   // Add profitability ratios if available
   if (result.ratios.roa || result.ratios.roe || result.ratios.grossProfitMargin || result.ratios.operatingProfitMargin || result.ratios.netProfitMargin) {
     report += `
@@ -148,6 +345,104 @@ function generateTextReport(result: FinancialAnalysisResult): string {
     report += '\n';
   }
 
+  // DuPont decomposition of ROE and factor analysis of its change
+  const duPont = result.duPontAnalysis;
+  if (duPont) {
+    const formatPoints = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)} п.п.`;
+    report += `
+АНАЛИЗ ROE ПО МОДЕЛИ ДЮПОНА:`;
+
+    for (const period of duPont.periods) {
+      report += `\n  ${period.year}: ROE ${(period.roe * 100).toFixed(2)}% = ${(period.netProfitMargin * 100).toFixed(2)}% × ${formatRatio(period.assetTurnover)} × ${formatRatio(period.equityMultiplier)}`;
+      if (period.taxBurden !== undefined && period.interestBurden !== undefined && period.operatingMargin !== undefined) {
+        report += `  (ЧП/ПДН ${formatRatio(period.taxBurden)} × ПДН/EBIT ${formatRatio(period.interestBurden)} × EBIT/Выручка ${(period.operatingMargin * 100).toFixed(2)}%)`;
+      }
+    }
+
+    for (const change of duPont.changes) {
+      report += `\n\n  Изменение ROE ${change.fromYear} → ${change.toYear}: ${formatPoints(change.roeChange)}`;
+      for (const effect of change.fiveFactor ?? change.threeFactor) {
+        report += `\n    ${effect.label.padEnd(30)} ${formatPoints(effect.effect)}`;
+      }
+    }
+    report += '\n';
+  }
+
+  // Add activity ratios if revenue was available
+  if (result.ratios.assetTurnover || result.ratios.receivablesTurnover || result.ratios.cashConversionCycle) {
+    report += `
+ДЕЛОВАЯ АКТИВНОСТЬ:`;
+
+    if (result.ratios.assetTurnover) {
+      report += `\n  Оборачиваемость активов            ${formatRatio(result.ratios.assetTurnover.value)}    [${result.ratios.assetTurnover.status.toUpperCase()}]`;
+    }
+    if (result.ratios.receivablesTurnover) {
+      report += `\n  Оборачиваемость ДЗ                 ${formatRatio(result.ratios.receivablesTurnover.value)}    [${result.ratios.receivablesTurnover.status.toUpperCase()}]`;
+    }
+    if (result.ratios.inventoryTurnover) {
+      report += `\n  Оборачиваемость запасов            ${formatRatio(result.ratios.inventoryTurnover.value)}    [${result.ratios.inventoryTurnover.status.toUpperCase()}]`;
+    }
+    if (result.ratios.payablesTurnover) {
+      report += `\n  Оборачиваемость КЗ                 ${formatRatio(result.ratios.payablesTurnover.value)}    [${result.ratios.payablesTurnover.status.toUpperCase()}]`;
+    }
+    if (result.ratios.daysSalesOutstanding) {
+      report += `\n  Период оборота ДЗ (DSO)            ${result.ratios.daysSalesOutstanding.value.toFixed(0)} дн.    [${result.ratios.daysSalesOutstanding.status.toUpperCase()}]`;
+    }
+    if (result.ratios.daysInventoryOutstanding) {
+      report += `\n  Период оборота запасов (DIO)       ${result.ratios.daysInventoryOutstanding.value.toFixed(0)} дн.    [${result.ratios.daysInventoryOutstanding.status.toUpperCase()}]`;
+    }
+    if (result.ratios.daysPayablesOutstanding) {
+      report += `\n  Период оборота КЗ (DPO)            ${result.ratios.daysPayablesOutstanding.value.toFixed(0)} дн.    [${result.ratios.daysPayablesOutstanding.status.toUpperCase()}]`;
+    }
+    if (result.ratios.cashConversionCycle) {
+      report += `\n  Финансовый цикл (CCC)              ${result.ratios.cashConversionCycle.value.toFixed(0)} дн.    [${result.ratios.cashConversionCycle.status.toUpperCase()}]`;
+    }
+    report += '\n';
+  }
+
+  // Add cash flow ratios if Form 4 was available
+  if (result.ratios.operatingCashFlowRatio || result.ratios.freeCashFlow || result.ratios.cashDebtCoverage || result.ratios.qualityOfEarnings) {
+    report += `
+ПОКАЗАТЕЛИ ДЕНЕЖНЫХ ПОТОКОВ:`;
+
+    if (result.ratios.operatingCashFlowRatio) {
+      report += `\n  Покрытие обязательств денежным потоком ${formatRatio(result.ratios.operatingCashFlowRatio.value)}    [${result.ratios.operatingCashFlowRatio.status.toUpperCase()}]`;
+    }
+    if (result.ratios.freeCashFlow) {
+      report += `\n  Свободный денежный поток           ${formatCurrency(result.ratios.freeCashFlow.value)}    [${result.ratios.freeCashFlow.status.toUpperCase()}]`;
+    }
+    if (result.ratios.cashDebtCoverage) {
+      report += `\n  Покрытие долга денежным потоком    ${formatRatio(result.ratios.cashDebtCoverage.value)}    [${result.ratios.cashDebtCoverage.status.toUpperCase()}]`;
+    }
+    if (result.ratios.qualityOfEarnings) {
+      report += `\n  Качество прибыли (OCF / ЧП)        ${formatRatio(result.ratios.qualityOfEarnings.value)}    [${result.ratios.qualityOfEarnings.status.toUpperCase()}]`;
+    }
+    report += '\n';
+  }
+
+  if (result.bankruptcyModels && result.bankruptcyModels.length > 0) {
+    const probabilityLabels: Record<string, string> = {
+      minimal: 'МИНИМАЛЬНАЯ',
+      low: 'НИЗКАЯ',
+      medium: 'СРЕДНЯЯ',
+      high: 'ВЫСОКАЯ',
+      very_high: 'ОЧЕНЬ ВЫСОКАЯ',
+    };
+    report += `
+───────────────────────────────────────────────────────────────────────
+МОДЕЛИ ПРОГНОЗИРОВАНИЯ БАНКРОТСТВА
+───────────────────────────────────────────────────────────────────────
+`;
+    for (const model of result.bankruptcyModels) {
+      report += `
+${model.name}: ${model.score.toFixed(3)}    [ВЕРОЯТНОСТЬ: ${probabilityLabels[model.probability]}]
+  ${model.formula}
+  ${model.inputs.map(input => `${input.code} = ${input.value.toFixed(3)}`).join('; ')}
+  ${model.thresholds}
+`;
+    }
+  }
+
   report += `
 ───────────────────────────────────────────────────────────────────────
 AI АНАЛИЗ (БАНКОВСКИЙ КРЕДИТНЫЙ ОТЧЁТ)
@@ -171,6 +466,10 @@ ${result.aiAnalysis.financialCondition.profitability.analysis}
 
 УРОВЕНЬ РИСКА: ${result.aiAnalysis.riskLevel.toUpperCase()}
 
+КРЕДИТНЫЙ РЕЙТИНГ: ${result.aiAnalysis.creditRating.grade} (${result.aiAnalysis.creditRating.score.toFixed(1)} баллов из 100)
+${result.aiAnalysis.creditRating.factors.map(f => `  ${f.name} (вес ${(f.weight * 100).toFixed(0)}%): ${f.score.toFixed(0)} баллов → ${f.contribution.toFixed(1)}\n    ${f.explanation}`).join('\n')}
+Шкала: ${result.aiAnalysis.creditRating.scale.map(item => `${item.grade} ≥ ${item.minScore}`).join(', ')}
+
 СИЛЬНЫЕ СТОРОНЫ:
 ${result.aiAnalysis.strengths.map((s, i) => `  ${i + 1}. ${s}`).join('\n')}
 
@@ -183,7 +482,17 @@ ${result.aiAnalysis.recommendations.items.map((r, i) => `  ${i + 1}. ${r}`).join
 КРЕДИТНОЕ РЕШЕНИЕ:
 ${result.aiAnalysis.recommendations.creditDecision}
 ${result.aiAnalysis.recommendations.comment ? '\nКомментарий: ' + result.aiAnalysis.recommendations.comment : ''}
+`;
 
+  const validation = result.aiAnalysis.validation;
+  if (validation) {
+    report += `
+ПРОВЕРКА ОТЧЁТА: проверено чисел ${validation.checkedNumbers}, не подтверждено расчётом ${validation.mismatches.length}${validation.repairAttempts > 0 ? `, повторных запросов к модели ${validation.repairAttempts}` : ''}
+${validation.mismatches.map(m => `  ⚠️ ${m.cited}: «…${m.context}…»`).join('\n')}${validation.replacedSections.length > 0 ? `\nЗаменены расчётным текстом: ${validation.replacedSections.map(item => REPORT_SECTION_LABELS[item.section]).join(', ')}` : ''}
+`;
+  }
+
+  report += `
 ═══════════════════════════════════════════════════════════════════════
 Конец отчёта
 ═══════════════════════════════════════════════════════════════════════
@@ -193,194 +502,127 @@ ${result.aiAnalysis.recommendations.comment ? '\nКомментарий: ' + res
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // POST /api/analyze - Upload and analyze Excel file
+  // POST /api/analyze - Upload a file and queue its analysis
+  // Returns the job at once; progress is streamed by GET /api/jobs/:id/events
   app.post("/api/analyze", upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ 
-          error: "Файл не загружен. Пожалуйста, загрузите файл Excel (.xlsx, .xls), Word (.docx) или PDF." 
+          error: "Файл не загружен. Пожалуйста, загрузите файл Excel (.xlsx, .xls), Word (.docx), PDF или отчётность ФНС (.xml, .json)." 
         });
       }
 
-      console.log(`Processing file: ${req.file.originalname} (${req.file.size} bytes, ${req.file.mimetype})`);
-
-      // Step 1: Parse file based on type
-      let financialData;
-
-      if (
-        req.file.mimetype === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
-        req.file.mimetype === "application/vnd.ms-excel"
-      ) {
-        financialData = parseExcelFile(req.file.buffer);
-        console.log("✓ Excel file parsed successfully");
-      } else if (
-        req.file.mimetype === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
-        req.file.mimetype === "application/pdf"
-      ) {
-        financialData = await parseDocumentFile(req.file.buffer, req.file.mimetype);
-        console.log("✓ Document file parsed successfully");
-      } else {
-        throw new Error("Неподдерживаемый формат файла");
+      const job = createAnalysisJob(req.file);
+
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        job,
+      });
+    } catch (error) {
+      console.error("Error queuing analysis:", error);
+      res.status(500).json({ 
+        error: "Не удалось поставить файл в очередь на анализ" 
+      });
+    }
+  });
+
+  // GET /api/jobs/:id - Analysis job status (with the result once completed)
+  app.get("/api/jobs/:id", (req, res) => {
+    const job = getAnalysisJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ 
+        error: "Задача анализа не найдена" 
+      });
+    }
+
+    res.json({
+      success: true,
+      job,
+    });
+  });
+
+  // GET /api/jobs/:id/events - Server-Sent Events with job updates
+  // Every event carries the whole job; the stream ends when the job is completed, failed or cancelled
+  app.get("/api/jobs/:id/events", (req, res) => {
+    const job = getAnalysisJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ 
+        error: "Задача анализа не найдена" 
+      });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    const send = (current: AnalysisJob) => {
+      res.write(`event: ${current.status}\ndata: ${JSON.stringify(current)}\n\n`);
+      if (isJobFinished(current)) {
+        res.end();
       }
+    };
 
-      // Step 2: Validate and normalize financial data
-      const normalizedData = validateAndNormalizeFinancialData(financialData);
-      console.log("✓ Financial data validated and normalized");
-
-      // Step 3: Calculate financial ratios
-      const ratios = calculateFinancialRatios(normalizedData);
-      console.log("✓ Financial ratios calculated");
-
-      // Step 4: Evaluate ratios and assign status
-      const evaluatedRatios = evaluateRatios(ratios);
-      console.log("✓ Ratios evaluated");
-
-      // Step 5: Generate AI analysis
-      const aiAnalysis = await generateFinancialAnalysis(normalizedData, ratios);
-      console.log("✓ AI analysis generated");
-
-      // Step 6: Create historical periods from parsed multi-year data
-      const periods: ReportingPeriod[] = [];
-
-      // Use parsed years from document headers, or fallback to current year calculation
-      const parsedYears = financialData.parsedYears;
-      const fallbackYear = new Date().getFullYear();
-      
-      // Get years for each period (from document or calculated)
-      const getYearForPeriod = (periodIndex: number): number => {
-        if (parsedYears && parsedYears[periodIndex] !== undefined) {
-          return parsedYears[periodIndex];
-        }
-        return fallbackYear - periodIndex;
-      };
-
-      // Check if we have multi-year data from the parser
-      // yearlyData contains ONLY historical years (current year excluded in parser)
-      // So yearlyData.length >= 1 means we have current + 1 historical = 2 years minimum
-      const hasMultiYearData = financialData.yearlyData && financialData.yearlyData.length >= 1;
-      
-      if (hasMultiYearData) {
-        console.log(`Found multi-year data: ${financialData.yearlyData!.length} additional years`);
-        if (parsedYears) {
-          console.log(`Using parsed years from document: ${parsedYears.join(', ')}`);
-        }
-        
-        // Create periods for each year (current + 2 previous years)
-        for (let i = 0; i < 3; i++) {
-          const year = getYearForPeriod(i);
-          let yearData: FinancialData;
-          
-          if (i === 0) {
-            // Current year - use normalized data
-            yearData = normalizedData;
-          } else {
-            // Previous years - build from yearlyData maps
-            const yearMap = financialData.yearlyData![i - 1];
-            
-            // Helper to get value from yearMap with same normalization as parser
-            // Returns undefined if not found (not 0, to distinguish from actual 0 values)
-            const getYearValue = (keys: string[]): number | undefined => {
-              for (const key of keys) {
-                const normalizedKey = key.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
-                if (yearMap.has(normalizedKey)) {
-                  return yearMap.get(normalizedKey)!;
-                }
-              }
-              return undefined;
-            };
-            
-            // Helper to get balance sheet value with fallback to current year
-            // (balance sheet items can use fallback as they're cumulative)
-            const getBalanceValue = (keys: string[], fallback: number): number => {
-              const value = getYearValue(keys);
-              return value !== undefined ? value : fallback;
-            };
-            
-            // Helper to get P&L value WITHOUT fallback (each year should have its own P&L)
-            const getPnLValue = (keys: string[]): number | undefined => {
-              return getYearValue(keys);
-            };
-            
-            // Build FinancialData for this year using yearMap
-            // Balance sheet items use fallback, P&L items do NOT use fallback
-            yearData = {
-              okved: normalizedData.okved,
-              companyName: normalizedData.companyName,
-              // Balance sheet items - use fallback to current year if not found
-              currentAssets: getBalanceValue(["итого по разделу ii", "оборотные активы"], normalizedData.currentAssets),
-              cashAndEquivalents: getBalanceValue(["денежные средства и денежные эквиваленты", "денежные средства"], normalizedData.cashAndEquivalents),
-              shortTermInvestments: getBalanceValue(["финансовые вложения"], normalizedData.shortTermInvestments),
-              accountsReceivable: getBalanceValue(["дебиторская задолженность"], normalizedData.accountsReceivable),
-              inventory: getBalanceValue(["запасы"], normalizedData.inventory),
-              totalAssets: getBalanceValue(["баланс", "активы"], normalizedData.totalAssets),
-              currentLiabilities: getBalanceValue(["итого по разделу v", "краткосрочные обязательства"], normalizedData.currentLiabilities),
-              shortTermDebt: getBalanceValue(["заемные средства"], normalizedData.shortTermDebt),
-              totalLiabilities: getBalanceValue(["обязательства"], normalizedData.totalLiabilities),
-              equity: getBalanceValue(["итого по разделу iii", "капитал и резервы"], normalizedData.equity),
-              longTermDebt: getBalanceValue(["итого по разделу iv", "долгосрочные обязательства"], normalizedData.longTermDebt),
-              // P&L items - do NOT use fallback (each year has its own P&L values)
-              // Include all normalized variants to match document-parser storage
-              revenue: getPnLValue(["выручка", "выручка от продаж"]) ?? 0,
-              netIncome: getPnLValue(["чистая прибыль убыток", "чистая прибыль", "net income"]) ?? 0,
-              operatingIncome: getPnLValue(["прибыль убыток от продаж", "прибыль от продаж", "операционная прибыль", "operating income"]) ?? 0,
-              grossProfit: getPnLValue(["валовая прибыль убыток", "валовая прибыль", "gross profit"]) ?? 0,
-              profitBeforeTax: getPnLValue(["прибыль убыток до налогообложения", "прибыль до налогообложения", "profit before tax"]) ?? 0,
-            };
-            
-            console.log(`Year ${year} data: revenue=${yearData.revenue}, netIncome=${yearData.netIncome}, grossProfit=${yearData.grossProfit}, operatingIncome=${yearData.operatingIncome}`);
-          }
-
-          // Validate and calculate ratios for each year
-          const validatedYearData = validateAndNormalizeFinancialData(yearData);
-          const yearRatios = calculateFinancialRatios(validatedYearData);
-          const yearEvaluatedRatios = evaluateRatios(yearRatios);
-
-          periods.push({
-            year,
-            data: validatedYearData,
-            ratios: yearEvaluatedRatios,
-          });
-        }
-      } else {
-        console.log('No multi-year data found, creating single-year period');
-        // If no multi-year data, create just one period for the most recent year from document
-        const singleYear = getYearForPeriod(0);
-        const validatedYearData = validateAndNormalizeFinancialData(normalizedData);
-        const yearRatios = calculateFinancialRatios(validatedYearData);
-        const yearEvaluatedRatios = evaluateRatios(yearRatios);
-
-        periods.push({
-          year: singleYear,
-          data: validatedYearData,
-          ratios: yearEvaluatedRatios,
+    send(job);
+    if (isJobFinished(job)) return;
+
+    const unsubscribe = subscribeToAnalysisJob(job.id, send);
+    // Comment lines keep proxies from closing an idle stream during the AI step
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 15000);
+
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe?.();
+    });
+  });
+
+  // POST /api/jobs/:id/cancel - Cancel a queued or running analysis job
+  app.post("/api/jobs/:id/cancel", (req, res) => {
+    const job = cancelAnalysisJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ 
+        error: "Задача анализа не найдена" 
+      });
+    }
+
+    if (job.status !== "cancelled") {
+      return res.status(409).json({ 
+        error: "Задача анализа уже завершена",
+        job,
+      });
+    }
+
+    res.json({
+      success: true,
+      job,
+    });
+  });
+
+  // POST /api/batch-analyze - Upload many files and/or ZIP archives for a portfolio analysis
+  // Every file is queued as an analysis job; progress and the portfolio summary come from GET /api/batches/:id
+  app.post("/api/batch-analyze", batchUpload.array("files", MAX_BATCH_FILES), async (req, res) => {
+    try {
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      if (files.length === 0) {
+        return res.status(400).json({ 
+          error: "Файлы не загружены. Загрузите документы отчётности или ZIP-архив с ними." 
         });
       }
 
-      // Step 7: Create complete analysis result
-      const analysisResult: FinancialAnalysisResult = {
-        data: normalizedData,
-        ratios: evaluatedRatios,
-        periods, // Add historical periods for visualization
-        aiAnalysis,
-        timestamp: new Date().toISOString(),
-      };
-
-      // Step 7: Save analysis to storage
-      const saved = await storage.saveAnalysis(analysisResult);
-      console.log(`✓ Analysis saved with ID: ${saved.id}`);
-
-      // Return the complete analysis
-      const response = {
-        success: true,
-        id: saved.id,
-        result: analysisResult,
-      };
+      const batch = await createBatchAnalysis(files);
 
-      console.log(`Sending response to client, result size: ${JSON.stringify(response).length} bytes`);
-      res.json(response);
-      console.log(`✓ Response sent to client`);
+      res.status(202).json({
+        success: true,
+        batchId: batch.id,
+        batch,
+      });
     } catch (error) {
-      console.error("Error processing file:", error);
+      console.error("Error creating batch:", error);
 
       if (error instanceof Error) {
         res.status(400).json({ 
@@ -388,12 +630,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       } else {
         res.status(500).json({ 
-          error: "Произошла ошибка при обработке файла" 
+          error: "Не удалось поставить файлы в очередь на анализ" 
         });
       }
     }
   });
 
+  // GET /api/batches/:id - Batch status: per-file results and the portfolio summary
+  app.get("/api/batches/:id", async (req, res) => {
+    try {
+      const batch = await getBatchAnalysis(req.params.id);
+
+      if (!batch) {
+        return res.status(404).json({ 
+          error: "Пакет анализа не найден" 
+        });
+      }
+
+      res.json({
+        success: true,
+        batch,
+      });
+    } catch (error) {
+      console.error("Error retrieving batch:", error);
+      res.status(500).json({ 
+        error: "Не удалось получить результаты пакетного анализа" 
+      });
+    }
+  });
+
   // GET /api/analysis/:id - Get saved analysis by ID
   app.get("/api/analysis/:id", async (req, res) => {
     try {
@@ -418,6 +683,146 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // POST /api/analysis/:id/stress-test - Pro-forma ratios and debt capacity for a proposed loan
+  app.post("/api/analysis/:id/stress-test", async (req, res) => {
+    try {
+      const parsed = loanStressTestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: "Некорректные параметры кредита",
+          details: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`),
+        });
+      }
+
+      const analysis = await storage.getAnalysis(req.params.id);
+      if (!analysis) {
+        return res.status(404).json({ 
+          error: "Анализ не найден" 
+        });
+      }
+
+      // Current thresholds of the company's profile: covenants follow profile overrides
+      const { thresholds } = await resolveBenchmarkProfile(analysis.data.okved);
+      const result = runLoanStressTest(analysis.data, analysis.periods?.[1]?.data, parsed.data, thresholds);
+
+      res.json({
+        success: true,
+        result,
+      });
+    } catch (error) {
+      console.error("Error running loan stress test:", error);
+      res.status(400).json({ 
+        error: error instanceof Error ? error.message : "Не удалось выполнить стресс-тест кредита" 
+      });
+    }
+  });
+
+  // GET /api/analysis/:id/chat - Q&A chat history of the analysis
+  app.get("/api/analysis/:id/chat", async (req, res) => {
+    try {
+      const analysis = await storage.getAnalysis(req.params.id);
+      if (!analysis) {
+        return res.status(404).json({ 
+          error: "Анализ не найден" 
+        });
+      }
+
+      res.json({
+        success: true,
+        messages: await storage.getChatMessages(req.params.id),
+      });
+    } catch (error) {
+      console.error("Error retrieving chat history:", error);
+      res.status(500).json({ 
+        error: "Не удалось получить историю вопросов" 
+      });
+    }
+  });
+
+  // POST /api/analysis/:id/chat - Ask a question about the analysis
+  // The answer is streamed as Server-Sent Events: delta (text), tool (local calculation), done (saved answer) or error
+  app.post("/api/analysis/:id/chat", async (req, res) => {
+    const parsed = analysisChatRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        error: "Некорректный вопрос",
+        details: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`),
+      });
+    }
+
+    let analysis: FinancialAnalysisResult | undefined;
+    try {
+      analysis = await storage.getAnalysis(req.params.id);
+    } catch (error) {
+      console.error("Error retrieving analysis:", error);
+      return res.status(500).json({ 
+        error: "Не удалось получить анализ" 
+      });
+    }
+    if (!analysis) {
+      return res.status(404).json({ 
+        error: "Анализ не найден" 
+      });
+    }
+
+    if (!getAnalysisProvider()) {
+      return res.status(503).json({ 
+        error: "AI-провайдер не настроен: вопросы по анализу недоступны" 
+      });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    const send = (event: AnalysisChatEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    // A closed page stops the model; the question stays in the history without an answer
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+      const message = await answerAnalysisQuestion(req.params.id, analysis, parsed.data.message, send, controller.signal);
+      send({ type: "done", message });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Error answering analysis question:", error);
+      send({ type: "error", error: error instanceof Error ? error.message : "Не удалось получить ответ" });
+    }
+    res.end();
+  });
+
+  // DELETE /api/analysis/:id/chat - Clear the Q&A chat history of the analysis
+  app.delete("/api/analysis/:id/chat", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const analysis = await storage.getAnalysis(id);
+
+      if (!analysis) {
+        return res.status(404).json({ 
+          error: "Анализ не найден" 
+        });
+      }
+
+      const deleted = await storage.clearChatMessages(id);
+      res.json({
+        success: true,
+        deleted,
+      });
+    } catch (error) {
+      console.error("Error clearing chat history:", error);
+      res.status(500).json({ 
+        error: "Не удалось очистить историю вопросов" 
+      });
+    }
+  });
+
   // GET /api/analyses - Get all saved analyses
   app.get("/api/analyses", async (req, res) => {
     try {
@@ -436,6 +841,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/companies - Get all borrower companies
+  app.get("/api/companies", async (req, res) => {
+    try {
+      const companies = await storage.getAllCompanies();
+
+      res.json({
+        success: true,
+        count: companies.length,
+        results: companies,
+      });
+    } catch (error) {
+      console.error("Error retrieving companies:", error);
+      res.status(500).json({ 
+        error: "Не удалось получить список компаний" 
+      });
+    }
+  });
+
+  // GET /api/companies/:id - Get company by ID
+  app.get("/api/companies/:id", async (req, res) => {
+    try {
+      const company = await storage.getCompany(req.params.id);
+
+      if (!company) {
+        return res.status(404).json({ 
+          error: "Компания не найдена" 
+        });
+      }
+
+      res.json({
+        success: true,
+        result: company,
+      });
+    } catch (error) {
+      console.error("Error retrieving company:", error);
+      res.status(500).json({ 
+        error: "Не удалось получить компанию" 
+      });
+    }
+  });
+
+  // GET /api/companies/:id/analyses - Company analysis history and the multi-year timeline built from all uploads
+  app.get("/api/companies/:id/analyses", async (req, res) => {
+    try {
+      const company = await storage.getCompany(req.params.id);
+
+      if (!company) {
+        return res.status(404).json({ 
+          error: "Компания не найдена" 
+        });
+      }
+
+      const analyses = await storage.getCompanyAnalyses(company.id);
+
+      res.json({
+        success: true,
+        company,
+        count: analyses.length,
+        analyses: analyses.map(({ id, analysis }) => ({
+          id,
+          timestamp: analysis.timestamp,
+          years: (analysis.periods ?? []).map(period => period.year),
+          creditRating: analysis.aiAnalysis.creditRating,
+        })),
+        timeline: buildCompanyTimeline(analyses),
+      });
+    } catch (error) {
+      console.error("Error retrieving company analyses:", error);
+      res.status(500).json({ 
+        error: "Не удалось получить историю анализов компании" 
+      });
+    }
+  });
+
   // POST /api/download-report - Generate and download financial report
   app.post("/api/download-report", async (req, res) => {
     try {
@@ -488,12 +967,115 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/benchmarks - List industry benchmark profiles used for ratio statuses
+  app.get("/api/benchmarks", async (req, res) => {
+    try {
+      const profiles = await listBenchmarkProfiles();
+
+      res.json({
+        success: true,
+        version: BENCHMARK_PROFILES_VERSION,
+        profiles,
+      });
+    } catch (error) {
+      console.error("Error retrieving benchmark profiles:", error);
+      res.status(500).json({ 
+        error: "Не удалось получить профили нормативов" 
+      });
+    }
+  });
+
+  // PUT /api/benchmarks/:id - Override a benchmark profile (or create a custom one)
+  app.put("/api/benchmarks/:id", async (req, res) => {
+    try {
+      const parsed = benchmarkProfileOverrideSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: "Некорректный профиль нормативов",
+          details: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`),
+        });
+      }
+
+      const profile = await overrideBenchmarkProfile(req.params.id, parsed.data);
+
+      res.json({
+        success: true,
+        profile,
+      });
+    } catch (error) {
+      console.error("Error overriding benchmark profile:", error);
+      res.status(400).json({ 
+        error: error instanceof Error ? error.message : "Не удалось сохранить профиль нормативов" 
+      });
+    }
+  });
+
+  // DELETE /api/benchmarks/:id - Reset a profile to the JSON file version (custom profiles are removed)
+  app.delete("/api/benchmarks/:id", async (req, res) => {
+    try {
+      const removed = await resetBenchmarkProfile(req.params.id);
+
+      if (!removed) {
+        return res.status(404).json({ 
+          error: "Переопределение профиля не найдено" 
+        });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error resetting benchmark profile:", error);
+      res.status(500).json({ 
+        error: "Не удалось сбросить профиль нормативов" 
+      });
+    }
+  });
+
+  // GET /api/okved?q= - Search the OKVED 2 directory by code prefix or by words of the name
+  app.get("/api/okved", (req, res) => {
+    const query = typeof req.query.q === "string" ? req.query.q : "";
+    if (!query.trim()) {
+      return res.status(400).json({ 
+        error: "Укажите код или название вида деятельности в параметре q" 
+      });
+    }
+
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? ""), 10) || 20, 1), 100);
+    res.json({
+      success: true,
+      version: OKVED_VERSION,
+      results: searchOkved(query, limit),
+    });
+  });
+
+  // GET /api/okved/:code - Resolve an OKVED 2 code or section letter with its hierarchy
+  app.get("/api/okved/:code", (req, res) => {
+    if (!normalizeOkvedCode(req.params.code)) {
+      return res.status(400).json({ 
+        error: "Некорректный код ОКВЭД: ожидается буква раздела (A-U) или код вида 46, 46.5, 46.51" 
+      });
+    }
+
+    const lookup = lookupOkved(req.params.code);
+    if (!lookup) {
+      return res.status(404).json({ 
+        error: `Код ОКВЭД ${req.params.code} не найден в справочнике ОКВЭД 2` 
+      });
+    }
+
+    res.json({
+      success: true,
+      version: OKVED_VERSION,
+      ...lookup,
+    });
+  });
+
   // Health check endpoint
   app.get("/api/health", (req, res) => {
     res.json({ 
       status: "ok",
       timestamp: new Date().toISOString(),
       openai: !!process.env.OPENAI_API_KEY,
+      aiProvider: getAnalysisProvider()?.name ?? null,
     });
   });
 
@@ -0,0 +1,74 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { connectPglite } from "./db";
+import { DbStorage } from "./storage";
+import { runAnalysisPipeline } from "./analysis-pipeline";
+import { setAnalysisProvider } from "./analysis-provider";
+import type { FinancialAnalysisResult } from "@shared/schema";
+
+// DbStorage against the embedded PGlite stand-in, started from another working directory
+// so that the migrations are found relative to the module
+describe("DbStorage on PGlite", () => {
+  let storage: DbStorage;
+  let analysis: FinancialAnalysisResult;
+
+  before(async () => {
+    const cwd = process.cwd();
+    process.chdir(os.tmpdir());
+    try {
+      storage = new DbStorage(connectPglite());
+      await storage.getAllAnalyses();
+    } finally {
+      process.chdir(cwd);
+    }
+
+    // Rule-based report, no AI requests from tests
+    setAnalysisProvider(null);
+    const buffer = fs.readFileSync(path.join(import.meta.dirname, "fixtures", "fns-report.xml"));
+    // The pipeline matched the company in the default in-memory storage, so its id is not kept
+    const { result } = await runAnalysisPipeline({ originalname: "fns-report.xml", mimetype: "application/xml", size: buffer.length, buffer });
+    analysis = { ...result, companyId: undefined };
+  });
+
+  it("saves and reads back an analysis", async () => {
+    const { id } = await storage.saveAnalysis(analysis);
+    const saved = await storage.getAnalysis(id);
+
+    assert.ok(saved);
+    assert.equal(saved.data.companyName, analysis.data.companyName);
+    assert.equal(saved.data.totalAssets, 1300);
+    assert.equal(saved.ratios.currentRatio.value, analysis.ratios.currentRatio.value);
+    assert.equal(saved.ratios.currentRatio.benchmark, analysis.ratios.currentRatio.benchmark);
+    assert.equal(saved.periods?.length, analysis.periods?.length);
+    assert.equal(saved.aiAnalysis.creditRating?.grade, analysis.aiAnalysis.creditRating?.grade);
+    assert.ok((await storage.getAllAnalyses()).some(item => item.data.companyName === analysis.data.companyName));
+  });
+
+  it("returns undefined for an unknown analysis", async () => {
+    assert.equal(await storage.getAnalysis("00000000-0000-0000-0000-000000000000"), undefined);
+  });
+
+  it("finds companies by ИНН and ОГРН", async () => {
+    const company = await storage.createCompany({ inn: "7707083893", ogrn: "1027700132195", name: 'ООО "Ромашка"' });
+
+    assert.equal((await storage.findCompanyByIdentifiers({ inn: "7707083893" }))?.id, company.id);
+    assert.equal((await storage.findCompanyByIdentifiers({ ogrn: "1027700132195" }))?.id, company.id);
+    assert.equal(await storage.findCompanyByIdentifiers({ inn: "0000000000" }), undefined);
+
+    const { id } = await storage.saveAnalysis({ ...analysis, companyId: company.id });
+    assert.deepEqual((await storage.getCompanyAnalyses(company.id)).map(item => item.id), [id]);
+  });
+
+  it("keeps the chat history of an analysis in order", async () => {
+    const { id } = await storage.saveAnalysis(analysis);
+    await storage.addChatMessage(id, { role: "user", content: "Какой рейтинг?" });
+    await storage.addChatMessage(id, { role: "assistant", content: "Рейтинг указан в отчёте" });
+
+    assert.deepEqual((await storage.getChatMessages(id)).map(message => message.role), ["user", "assistant"]);
+    assert.equal(await storage.clearChatMessages(id), 2);
+    assert.deepEqual(await storage.getChatMessages(id), []);
+  });
+});
@@ -1,20 +1,58 @@
-import type { FinancialAnalysisResult } from "@shared/schema";
+import type {
+  AnalysisChatMessage,
+  AnalysisChatMessageRow,
+  AnalysisPeriodRow,
+  AnalysisRatioRow,
+  AnalysisRow,
+  AiReportRow,
+  BenchmarkProfile,
+  Company,
+  CompanyRow,
+  FinancialAnalysisResult,
+  FinancialData,
+  RatioWithStatus,
+  ReportingPeriod,
+} from "@shared/schema";
+import { aiReports, analyses, analysisChatMessages, analysisPeriods, analysisRatios, benchmarkOverrides, companies } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { asc, eq, inArray, or } from "drizzle-orm";
+import { connectPglite, connectPostgres, type Database } from "./db";
 
 // Storage interface for financial analysis results
-// This is in-memory storage for the MVP - data is not persisted across restarts
+// MemStorage keeps data in memory only, DbStorage persists it in PostgreSQL (see createStorage)
 
 export interface IStorage {
   saveAnalysis(analysis: FinancialAnalysisResult): Promise<{ id: string; analysis: FinancialAnalysisResult }>;
   getAnalysis(id: string): Promise<FinancialAnalysisResult | undefined>;
   getAllAnalyses(): Promise<FinancialAnalysisResult[]>;
+  // Benchmark profiles changed through the API (replace profiles of the same id from the JSON file)
+  getBenchmarkOverrides(): Promise<BenchmarkProfile[]>;
+  saveBenchmarkOverride(profile: BenchmarkProfile): Promise<BenchmarkProfile>;
+  deleteBenchmarkOverride(id: string): Promise<boolean>;
+  // Borrower companies and their analyses (see server/companies.ts for matching uploads)
+  getCompany(id: string): Promise<Company | undefined>;
+  getAllCompanies(): Promise<Company[]>;
+  findCompanyByIdentifiers(identifiers: { inn?: string; ogrn?: string }): Promise<Company | undefined>;
+  createCompany(company: Omit<Company, "id" | "createdAt">): Promise<Company>;
+  updateCompany(id: string, changes: Partial<Omit<Company, "id" | "createdAt">>): Promise<Company | undefined>;
+  getCompanyAnalyses(companyId: string): Promise<{ id: string; analysis: FinancialAnalysisResult }[]>;
+  // Q&A chat history of an analysis, oldest message first (see server/analysis-chat.ts)
+  getChatMessages(analysisId: string): Promise<AnalysisChatMessage[]>;
+  addChatMessage(analysisId: string, message: Omit<AnalysisChatMessage, "id" | "createdAt">): Promise<AnalysisChatMessage>;
+  clearChatMessages(analysisId: string): Promise<number>;
 }
 
 export class MemStorage implements IStorage {
   private analyses: Map<string, FinancialAnalysisResult>;
+  private benchmarkOverrides: Map<string, BenchmarkProfile>;
+  private companies: Map<string, Company>;
+  private chatMessages: Map<string, AnalysisChatMessage[]>;
 
   constructor() {
     this.analyses = new Map();
+    this.benchmarkOverrides = new Map();
+    this.companies = new Map();
+    this.chatMessages = new Map();
   }
 
   async saveAnalysis(analysis: FinancialAnalysisResult): Promise<{ id: string; analysis: FinancialAnalysisResult }> {
@@ -30,6 +68,375 @@ export class MemStorage implements IStorage {
   async getAllAnalyses(): Promise<FinancialAnalysisResult[]> {
     return Array.from(this.analyses.values());
   }
+
+  async getBenchmarkOverrides(): Promise<BenchmarkProfile[]> {
+    return Array.from(this.benchmarkOverrides.values());
+  }
+
+  async saveBenchmarkOverride(profile: BenchmarkProfile): Promise<BenchmarkProfile> {
+    this.benchmarkOverrides.set(profile.id, profile);
+    return profile;
+  }
+
+  async deleteBenchmarkOverride(id: string): Promise<boolean> {
+    return this.benchmarkOverrides.delete(id);
+  }
+
+  async getCompany(id: string): Promise<Company | undefined> {
+    return this.companies.get(id);
+  }
+
+  async getAllCompanies(): Promise<Company[]> {
+    return Array.from(this.companies.values());
+  }
+
+  async findCompanyByIdentifiers(identifiers: { inn?: string; ogrn?: string }): Promise<Company | undefined> {
+    const all = Array.from(this.companies.values());
+    return (identifiers.inn ? all.find(company => company.inn === identifiers.inn) : undefined)
+      ?? (identifiers.ogrn ? all.find(company => company.ogrn === identifiers.ogrn) : undefined);
+  }
+
+  async createCompany(company: Omit<Company, "id" | "createdAt">): Promise<Company> {
+    const created: Company = { ...company, id: randomUUID(), createdAt: new Date().toISOString() };
+    this.companies.set(created.id, created);
+    return created;
+  }
+
+  async updateCompany(id: string, changes: Partial<Omit<Company, "id" | "createdAt">>): Promise<Company | undefined> {
+    const company = this.companies.get(id);
+    if (!company) return undefined;
+    const updated = { ...company, ...changes };
+    this.companies.set(id, updated);
+    return updated;
+  }
+
+  async getCompanyAnalyses(companyId: string): Promise<{ id: string; analysis: FinancialAnalysisResult }[]> {
+    return Array.from(this.analyses.entries())
+      .filter(([, analysis]) => analysis.companyId === companyId)
+      .map(([id, analysis]) => ({ id, analysis }));
+  }
+
+  async getChatMessages(analysisId: string): Promise<AnalysisChatMessage[]> {
+    return this.chatMessages.get(analysisId) ?? [];
+  }
+
+  async addChatMessage(analysisId: string, message: Omit<AnalysisChatMessage, "id" | "createdAt">): Promise<AnalysisChatMessage> {
+    const created: AnalysisChatMessage = { ...message, id: randomUUID(), createdAt: new Date().toISOString() };
+    this.chatMessages.set(analysisId, [...(this.chatMessages.get(analysisId) ?? []), created]);
+    return created;
+  }
+
+  async clearChatMessages(analysisId: string): Promise<number> {
+    const count = this.chatMessages.get(analysisId)?.length ?? 0;
+    this.chatMessages.delete(analysisId);
+    return count;
+  }
+}
+
+// Parsed line maps are parser internals (the periods and the statement dynamics hold the same data) and are not stored in the database
+function withoutParserData(data: FinancialData): FinancialData {
+  const { yearlyData, reportingYearData, ...rest } = data;
+  return rest;
+}
+
+type RatioSet = Record<string, RatioWithStatus>;
+
+function fromCompanyRow(row: CompanyRow): Company {
+  return {
+    id: row.id,
+    inn: row.inn ?? undefined,
+    ogrn: row.ogrn ?? undefined,
+    name: row.name ?? undefined,
+    okved: row.okved ?? undefined,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function fromChatMessageRow(row: AnalysisChatMessageRow): AnalysisChatMessage {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    toolCalls: row.toolCalls ?? undefined,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toRatioRows(analysisId: string, periodId: number | null, ratios: RatioSet) {
+  return Object.keys(ratios)
+    .filter(key => ratios[key] !== undefined)
+    .map(key => ({
+      analysisId,
+      periodId,
+      key,
+      value: ratios[key].value,
+      status: ratios[key].status,
+      benchmark: ratios[key].benchmark,
+      description: ratios[key].description,
+      formula: ratios[key].formula,
+    }));
+}
+
+function fromRatioRows(rows: AnalysisRatioRow[]): RatioSet {
+  const ratios: RatioSet = {};
+  rows.forEach(row => {
+    ratios[row.key] = {
+      value: row.value,
+      status: row.status,
+      benchmark: row.benchmark,
+      description: row.description,
+      formula: row.formula,
+    };
+  });
+  return ratios;
+}
+
+/**
+ * PostgreSQL storage: analyses, periods, ratios and AI reports in separate tables (shared/schema.ts)
+ * The connection is opened asynchronously, every method waits for it
+ */
+export class DbStorage implements IStorage {
+  constructor(private readonly connection: Promise<Database>) {}
+
+  async saveAnalysis(analysis: FinancialAnalysisResult): Promise<{ id: string; analysis: FinancialAnalysisResult }> {
+    const db = await this.connection;
+    const id = randomUUID();
+
+    await db.transaction(async (tx) => {
+      await tx.insert(analyses).values({
+        id,
+        companyId: analysis.companyId,
+        companyName: analysis.data.companyName,
+        okved: analysis.data.okved,
+        data: withoutParserData(analysis.data),
+        benchmarkProfile: analysis.benchmarkProfile,
+        bankruptcyModels: analysis.bankruptcyModels,
+        equityStatement: analysis.equityStatement,
+        horizontalVerticalAnalysis: analysis.horizontalVerticalAnalysis,
+        liquidityGrouping: analysis.liquidityGrouping,
+        netAssets: analysis.netAssets,
+        duPontAnalysis: analysis.duPontAnalysis,
+        timestamp: analysis.timestamp,
+      });
+
+      const ratioRows = toRatioRows(id, null, analysis.ratios as RatioSet);
+
+      const periods = analysis.periods ?? [];
+      for (let position = 0; position < periods.length; position++) {
+        const period = periods[position];
+        const [periodRow] = await tx.insert(analysisPeriods).values({
+          analysisId: id,
+          position,
+          year: period.year,
+          data: withoutParserData(period.data),
+          financialStability: period.financialStability,
+        }).returning({ id: analysisPeriods.id });
+        ratioRows.push(...toRatioRows(id, periodRow.id, period.ratios as RatioSet));
+      }
+
+      if (ratioRows.length > 0) {
+        await tx.insert(analysisRatios).values(ratioRows);
+      }
+
+      await tx.insert(aiReports).values({
+        analysisId: id,
+        riskLevel: analysis.aiAnalysis.riskLevel,
+        creditGrade: analysis.aiAnalysis.creditRating?.grade,
+        creditScore: analysis.aiAnalysis.creditRating?.score,
+        report: analysis.aiAnalysis,
+      });
+    });
+
+    return { id, analysis };
+  }
+
+  async getAnalysis(id: string): Promise<FinancialAnalysisResult | undefined> {
+    const db = await this.connection;
+    const rows = await db.select().from(analyses).where(eq(analyses.id, id));
+    if (rows.length === 0) return undefined;
+    const [result] = await this.assemble(rows);
+    return result?.analysis;
+  }
+
+  async getAllAnalyses(): Promise<FinancialAnalysisResult[]> {
+    const db = await this.connection;
+    const rows = await db.select().from(analyses).orderBy(asc(analyses.createdAt));
+    return (await this.assemble(rows)).map(entry => entry.analysis);
+  }
+
+  async getBenchmarkOverrides(): Promise<BenchmarkProfile[]> {
+    const db = await this.connection;
+    const rows = await db.select().from(benchmarkOverrides);
+    return rows.map(row => row.profile);
+  }
+
+  async saveBenchmarkOverride(profile: BenchmarkProfile): Promise<BenchmarkProfile> {
+    const db = await this.connection;
+    await db.insert(benchmarkOverrides)
+      .values({ id: profile.id, profile })
+      .onConflictDoUpdate({ target: benchmarkOverrides.id, set: { profile, updatedAt: new Date() } });
+    return profile;
+  }
+
+  async deleteBenchmarkOverride(id: string): Promise<boolean> {
+    const db = await this.connection;
+    const deleted = await db.delete(benchmarkOverrides)
+      .where(eq(benchmarkOverrides.id, id))
+      .returning({ id: benchmarkOverrides.id });
+    return deleted.length > 0;
+  }
+
+  async getCompany(id: string): Promise<Company | undefined> {
+    const db = await this.connection;
+    const [row] = await db.select().from(companies).where(eq(companies.id, id));
+    return row ? fromCompanyRow(row) : undefined;
+  }
+
+  async getAllCompanies(): Promise<Company[]> {
+    const db = await this.connection;
+    const rows = await db.select().from(companies).orderBy(asc(companies.createdAt));
+    return rows.map(fromCompanyRow);
+  }
+
+  async findCompanyByIdentifiers(identifiers: { inn?: string; ogrn?: string }): Promise<Company | undefined> {
+    const conditions = [
+      identifiers.inn ? eq(companies.inn, identifiers.inn) : undefined,
+      identifiers.ogrn ? eq(companies.ogrn, identifiers.ogrn) : undefined,
+    ].filter(condition => condition !== undefined);
+    if (conditions.length === 0) return undefined;
+
+    const db = await this.connection;
+    const rows = await db.select().from(companies).where(or(...conditions));
+    // ИНН takes priority when the identifiers point to different companies
+    const row = rows.find(candidate => identifiers.inn !== undefined && candidate.inn === identifiers.inn) ?? rows[0];
+    return row ? fromCompanyRow(row) : undefined;
+  }
+
+  async createCompany(company: Omit<Company, "id" | "createdAt">): Promise<Company> {
+    const db = await this.connection;
+    const [row] = await db.insert(companies).values(company).returning();
+    return fromCompanyRow(row);
+  }
+
+  async updateCompany(id: string, changes: Partial<Omit<Company, "id" | "createdAt">>): Promise<Company | undefined> {
+    const db = await this.connection;
+    const [row] = await db.update(companies).set(changes).where(eq(companies.id, id)).returning();
+    return row ? fromCompanyRow(row) : undefined;
+  }
+
+  async getCompanyAnalyses(companyId: string): Promise<{ id: string; analysis: FinancialAnalysisResult }[]> {
+    const db = await this.connection;
+    const rows = await db.select().from(analyses)
+      .where(eq(analyses.companyId, companyId))
+      .orderBy(asc(analyses.createdAt));
+    return this.assemble(rows);
+  }
+
+  async getChatMessages(analysisId: string): Promise<AnalysisChatMessage[]> {
+    const db = await this.connection;
+    const rows = await db.select().from(analysisChatMessages)
+      .where(eq(analysisChatMessages.analysisId, analysisId))
+      .orderBy(asc(analysisChatMessages.createdAt));
+    return rows.map(fromChatMessageRow);
+  }
+
+  async addChatMessage(analysisId: string, message: Omit<AnalysisChatMessage, "id" | "createdAt">): Promise<AnalysisChatMessage> {
+    const db = await this.connection;
+    const [row] = await db.insert(analysisChatMessages).values({ ...message, analysisId }).returning();
+    return fromChatMessageRow(row);
+  }
+
+  async clearChatMessages(analysisId: string): Promise<number> {
+    const db = await this.connection;
+    const deleted = await db.delete(analysisChatMessages)
+      .where(eq(analysisChatMessages.analysisId, analysisId))
+      .returning({ id: analysisChatMessages.id });
+    return deleted.length;
+  }
+
+  /**
+   * Load periods, ratios and AI reports of the analysis rows and rebuild FinancialAnalysisResult
+   */
+  private async assemble(rows: AnalysisRow[]): Promise<{ id: string; analysis: FinancialAnalysisResult }[]> {
+    if (rows.length === 0) return [];
+    const db = await this.connection;
+    const ids = rows.map(row => row.id);
+
+    const [periodRows, ratioRows, reportRows] = await Promise.all([
+      db.select().from(analysisPeriods).where(inArray(analysisPeriods.analysisId, ids)).orderBy(asc(analysisPeriods.position)),
+      db.select().from(analysisRatios).where(inArray(analysisRatios.analysisId, ids)),
+      db.select().from(aiReports).where(inArray(aiReports.analysisId, ids)),
+    ]);
+
+    const periodsByAnalysis = new Map<string, AnalysisPeriodRow[]>();
+    periodRows.forEach(row => {
+      periodsByAnalysis.set(row.analysisId, [...(periodsByAnalysis.get(row.analysisId) ?? []), row]);
+    });
+    const ratiosByOwner = new Map<string, AnalysisRatioRow[]>();
+    ratioRows.forEach(row => {
+      const owner = row.periodId === null ? row.analysisId : `period:${row.periodId}`;
+      ratiosByOwner.set(owner, [...(ratiosByOwner.get(owner) ?? []), row]);
+    });
+    const reportByAnalysis = new Map<string, AiReportRow>();
+    reportRows.forEach(row => reportByAnalysis.set(row.analysisId, row));
+
+    return rows
+      .filter(row => reportByAnalysis.has(row.id))
+      .map(row => ({
+        id: row.id,
+        analysis: {
+          companyId: row.companyId ?? undefined,
+          data: row.data,
+          ratios: fromRatioRows(ratiosByOwner.get(row.id) ?? []) as FinancialAnalysisResult["ratios"],
+          periods: (periodsByAnalysis.get(row.id) ?? []).map(period => ({
+            year: period.year,
+            data: period.data,
+            ratios: fromRatioRows(ratiosByOwner.get(`period:${period.id}`) ?? []) as ReportingPeriod["ratios"],
+            financialStability: period.financialStability ?? undefined,
+          })),
+          benchmarkProfile: row.benchmarkProfile ?? undefined,
+          bankruptcyModels: row.bankruptcyModels ?? undefined,
+          equityStatement: row.equityStatement ?? undefined,
+          horizontalVerticalAnalysis: row.horizontalVerticalAnalysis ?? undefined,
+          liquidityGrouping: row.liquidityGrouping ?? undefined,
+          netAssets: row.netAssets ?? undefined,
+          duPontAnalysis: row.duPontAnalysis ?? undefined,
+          aiAnalysis: reportByAnalysis.get(row.id)!.report,
+          timestamp: row.timestamp,
+        },
+      }));
+  }
+}
+
+/**
+ * Select the storage by environment:
+ * STORAGE_DRIVER=memory   - in-memory storage (default without DATABASE_URL)
+ * STORAGE_DRIVER=postgres - PostgreSQL by DATABASE_URL (default when DATABASE_URL is set)
+ * STORAGE_DRIVER=pglite   - embedded PGlite, in memory or in PGLITE_DATA_DIR (local stand-in for tests)
+ */
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  // The server cannot work without its database: a failed connection or migration stops the process
+  const connectOrExit = (connection: Promise<Database>) => {
+    connection.catch((error) => {
+      console.error(`Failed to start ${driver} storage:`, error);
+      process.exit(1);
+    });
+    return connection;
+  };
+
+  switch (driver) {
+    case "memory":
+      console.log("Using in-memory storage - analyses are not persisted across restarts");
+      return new MemStorage();
+    case "postgres":
+      return new DbStorage(connectOrExit(connectPostgres()));
+    case "pglite":
+      return new DbStorage(connectOrExit(connectPglite(process.env.PGLITE_DATA_DIR)));
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}": expected memory, postgres or pglite`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -1,19 +1,37 @@
+import { sql } from "drizzle-orm";
+import { doublePrecision, index, integer, jsonb, pgTable, serial, text, timestamp, varchar } from "drizzle-orm/pg-core";
 import { z } from "zod";
 
+// OCR recognition result for a single scanned PDF page
+export interface OcrPageResult {
+  page: number; // 1-based page number in the PDF
+  confidence: number; // Tesseract mean word confidence, 0-100
+  characters: number; // Number of recognized characters
+}
+
 // Financial data from uploaded Excel file
 export interface FinancialData {
   // Company information
   okved?: string; // ОКВЭД 2 code for industry classification
   companyName?: string; // Company name if available
+  inn?: string; // ИНН (10 digits for organizations, 12 for entrepreneurs), validated by check digits
+  ogrn?: string; // ОГРН (13 digits) or ОГРНИП (15 digits)
   
   // Multi-year support: raw data for additional years (if available from document)
   // Index 0 = year -1, Index 1 = year -2
   yearlyData?: Map<string, number>[];
+  // Raw data of the reporting year by the same keys (includes lines without a FinancialData field)
+  reportingYearData?: Map<string, number>;
+  // Lines were read by line code (standard form layout): a line absent in a period is blank there (0)
+  codedLayout?: boolean;
   
   // Parsed years from document headers (e.g., [2023, 2022, 2021] from "На 31 декабря 2023 г.")
   // Index 0 = most recent year (current period), Index 1 = previous year, etc.
   parsedYears?: number[];
-  
+
+  // OCR results for scanned PDF pages (only set when text was recognized via OCR)
+  ocrPages?: OcrPageResult[];
+
   // Balance Sheet items
   currentAssets: number;
   cashAndEquivalents: number;
@@ -29,10 +47,23 @@ export interface FinancialData {
   
   // Income Statement items (optional for extended analysis)
   revenue?: number;
+  costOfSales?: number; // 2120 - cost of sales (positive amount)
   netIncome?: number;
   operatingIncome?: number;
   grossProfit?: number;
   profitBeforeTax?: number;
+  interestExpense?: number; // 2330 - interest payable (positive amount)
+  depreciation?: number; // 5640 - depreciation from the notes (costs by elements), positive amount
+
+  // Cash flow statement items (Form 4, optional)
+  operatingCashFlow?: number; // 4100 - net cash flow from operating activities
+  investingCashFlow?: number; // 4200 - net cash flow from investing activities
+  financingCashFlow?: number; // 4300 - net cash flow from financing activities
+  netCashFlow?: number; // 4400 - net cash flow for the period
+  capitalExpenditures?: number; // 4221 - payments for non-current assets (positive amount)
+
+  // Statement of changes in equity (Form 3, optional): "Итого" column by line code (3100…3600)
+  equityStatementLines?: Record<string, number>;
   
   // Detailed balance sheet line items (optional)
   // Section I - Non-current assets
@@ -88,10 +119,51 @@ export interface FinancialRatios {
   grossProfitMargin?: number; // Gross Profit Margin
   operatingProfitMargin?: number; // Operating Profit Margin (ROS based on operating income)
   netProfitMargin?: number; // Net Profit Margin
+
+  // Activity (turnover) ratios - average balances are used when the previous period is available
+  assetTurnover?: number; // Revenue / Average total assets
+  receivablesTurnover?: number; // Revenue / Average accounts receivable
+  inventoryTurnover?: number; // Cost of sales / Average inventory
+  payablesTurnover?: number; // Cost of sales / Average accounts payable
+  daysSalesOutstanding?: number; // DSO = 365 / Receivables turnover
+  daysInventoryOutstanding?: number; // DIO = 365 / Inventory turnover
+  daysPayablesOutstanding?: number; // DPO = 365 / Payables turnover
+  cashConversionCycle?: number; // CCC = DSO + DIO - DPO
+
+  // Cash flow ratios (only when Form 4 data is available)
+  operatingCashFlowRatio?: number; // Operating cash flow / Current liabilities
+  freeCashFlow?: number; // Operating cash flow - Capital expenditures
+  cashDebtCoverage?: number; // Operating cash flow / Borrowed funds
+  qualityOfEarnings?: number; // Operating cash flow / Net income
+
+  // Debt service (only when the income statement has profit before tax)
+  ebit?: number; // Profit before tax (2300) + Interest payable (2330)
+  ebitda?: number; // EBIT + Depreciation (5640, when disclosed)
+  netDebt: number; // Borrowed funds (1410 + 1510) - Cash (1250) - Short-term investments (1240)
+  netDebtToEbitda?: number; // Net debt / EBITDA, only for a positive EBITDA
+  interestCoverage?: number; // EBIT / Interest payable
+  debtServiceCoverage?: number; // DSCR = EBITDA / (Interest payable + Short-term borrowings 1510)
   
   // Additional ratios
   workingCapital: number;
-  equityManeuverability?: number;
+  ownWorkingCapital: number; // СОС = Equity (1300) - Non-current assets (1100)
+  workingCapitalSufficiency?: number; // СОС / Current assets
+  equityManeuverability?: number; // СОС / Equity
+  financialStability: FinancialStabilityAssessment;
+}
+
+// Type of financial stability by the three-component indicator
+export type FinancialStabilityType = "absolute" | "normal" | "unstable" | "crisis";
+
+// Coverage of inventory (1210) by own working capital, long-term and all normal sources of financing
+export interface FinancialStabilityAssessment {
+  type: FinancialStabilityType;
+  inventory: number;
+  ownWorkingCapital: number; // СОС = 1300 - 1100
+  longTermSources: number; // СДИ = СОС + 1400
+  totalSources: number; // ОИЗ = СДИ + 1510
+  surpluses: number[]; // ΔСОС, ΔСДИ, ΔОИЗ: every source minus inventory
+  indicator: number[]; // S = (S1, S2, S3): 1 when the matching surplus is ≥ 0
 }
 
 // Status indicators for ratios
@@ -105,6 +177,87 @@ export interface RatioWithStatus {
   formula: string;
 }
 
+// Ratios whose status is evaluated against benchmark thresholds
+// (working capital and free cash flow are only checked for a positive value)
+export const benchmarkRatioKeys = [
+  "currentRatio",
+  "quickRatio",
+  "cashRatio",
+  "debtToEquityRatio",
+  "equityRatio",
+  "debtRatio",
+  "financialLeverageRatio",
+  "workingCapitalSufficiency",
+  "equityManeuverability",
+  "roa",
+  "roe",
+  "ros",
+  "grossProfitMargin",
+  "operatingProfitMargin",
+  "netProfitMargin",
+  "assetTurnover",
+  "receivablesTurnover",
+  "inventoryTurnover",
+  "payablesTurnover",
+  "daysSalesOutstanding",
+  "daysInventoryOutstanding",
+  "daysPayablesOutstanding",
+  "cashConversionCycle",
+  "operatingCashFlowRatio",
+  "cashDebtCoverage",
+  "qualityOfEarnings",
+  "netDebtToEbitda",
+  "interestCoverage",
+  "debtServiceCoverage",
+] as const;
+
+export type BenchmarkRatioKey = typeof benchmarkRatioKeys[number];
+
+export interface RatioThreshold {
+  excellent: number;
+  good: number;
+  warning: number;
+  reverse?: boolean; // Lower values are better (debt ratios, turnover periods)
+}
+
+export type RatioThresholds = Record<BenchmarkRatioKey, RatioThreshold>;
+
+// Industry benchmark profile selected by OKVED section (letter) or class ("47", "62.01")
+export interface BenchmarkProfile {
+  id: string;
+  name: string;
+  description?: string;
+  okvedSections: string[];
+  okvedClasses: string[];
+  thresholds: Partial<RatioThresholds>; // Ratios not listed use the default profile
+}
+
+// OKVED 2 classifier levels: section "G" → class "46" → subclass "46.5" → group "46.51"
+export type OkvedLevel = "section" | "class" | "subclass" | "group";
+
+export interface OkvedEntry {
+  code: string;
+  name: string;
+  level: OkvedLevel;
+}
+
+// Code resolved in the bundled OKVED 2 directory
+export interface OkvedLookup {
+  code: string; // Normalized code as requested
+  entry: OkvedEntry; // Deepest level found: finer codes ("46.51.1") resolve to their group
+  exact: boolean; // The requested code itself is in the directory
+  path: OkvedEntry[]; // From the section down to entry
+}
+
+// Profile applied to an analysis
+export interface AppliedBenchmarkProfile {
+  id: string;
+  name: string;
+  version: string; // Version of the benchmark profiles file
+  overridden: boolean; // Profile was changed through the API
+  okved?: OkvedEntry; // Company activity the profile was selected by
+}
+
 // Reporting period with year-specific data and ratios
 export interface ReportingPeriod {
   year: number;
@@ -118,13 +271,188 @@ export interface ReportingPeriod {
     debtRatio: RatioWithStatus;
     financialLeverageRatio: RatioWithStatus;
     workingCapital: RatioWithStatus;
+    ownWorkingCapital?: RatioWithStatus;
+    workingCapitalSufficiency?: RatioWithStatus;
+    equityManeuverability?: RatioWithStatus;
     roa?: RatioWithStatus;
     roe?: RatioWithStatus;
     ros?: RatioWithStatus;
     grossProfitMargin?: RatioWithStatus;
     operatingProfitMargin?: RatioWithStatus;
     netProfitMargin?: RatioWithStatus;
+    assetTurnover?: RatioWithStatus;
+    receivablesTurnover?: RatioWithStatus;
+    inventoryTurnover?: RatioWithStatus;
+    payablesTurnover?: RatioWithStatus;
+    daysSalesOutstanding?: RatioWithStatus;
+    daysInventoryOutstanding?: RatioWithStatus;
+    daysPayablesOutstanding?: RatioWithStatus;
+    cashConversionCycle?: RatioWithStatus;
+    operatingCashFlowRatio?: RatioWithStatus;
+    freeCashFlow?: RatioWithStatus;
+    cashDebtCoverage?: RatioWithStatus;
+    qualityOfEarnings?: RatioWithStatus;
+    ebitda?: RatioWithStatus;
+    netDebtToEbitda?: RatioWithStatus;
+    interestCoverage?: RatioWithStatus;
+    debtServiceCoverage?: RatioWithStatus;
   };
+  // Three-component indicator of the year (not stored for earlier analyses)
+  financialStability?: FinancialStabilityAssessment;
+}
+
+// Bankruptcy prediction models
+export type BankruptcyZone = "safe" | "grey" | "distress";
+export type BankruptcyProbability = "minimal" | "low" | "medium" | "high" | "very_high";
+
+export interface BankruptcyModelInput {
+  code: string; // Factor name used in the model formula (X1, K2, Кз...)
+  label: string; // Human-readable description
+  value: number;
+  formula: string; // "X1 = СОК / Активы"
+}
+
+export interface BankruptcyModelResult {
+  id: string; // altman, altmanPrivate, altmanNonManufacturing, taffler, springate, zaitseva, savitskaya, igea
+  name: string;
+  description: string;
+  score: number;
+  formula: string; // Weighted sum of the factors
+  thresholds: string; // Zone boundaries as shown to the analyst
+  zone: BankruptcyZone;
+  probability: BankruptcyProbability;
+  inputs: BankruptcyModelInput[];
+}
+
+// Capital movement for one year from the statement of changes in equity (Form 3)
+export interface CapitalMovement {
+  year: number;
+  openingEquity?: number; // 3100 / 3200 - equity at the beginning of the year
+  netIncome: number; // 3211 / 3311 net profit minus 3221 / 3321 loss
+  dividends: number; // 3227 / 3327 (positive amount)
+  capitalContributions: number; // additional share issue and nominal value changes (3214, 3215, 3224, 3225)
+  revaluation: number; // 3212 / 3312 minus 3222 / 3322
+  other: number; // remaining movements (direct income/expenses, reorganization, unitemized part of totals)
+  closingEquity?: number; // 3200 / 3300 - equity at the end of the year
+  // Reconciliation against the balance sheet (line 1300)
+  balanceSheetChange?: number; // Change in line 1300 between periods
+  reconciliationDifference?: number; // Sum of movements minus balanceSheetChange
+  reconciled?: boolean; // Difference is within rounding tolerance
+  dividendsExceedNetIncome: boolean;
+}
+
+export interface EquityStatementAnalysis {
+  movements: CapitalMovement[]; // Most recent year first
+  netAssets?: number; // 3600 - net assets at the reporting date
+  dividendsExceedNetIncome: boolean; // Flag raised if dividends exceed net income in any year
+}
+
+// Change of a line item between two consecutive periods (horizontal analysis)
+export interface LineItemChange {
+  fromYear: number;
+  toYear: number;
+  absolute: number;
+  percent?: number; // Not set when the earlier value is zero
+}
+
+// One balance sheet or income statement line across the reporting periods
+export interface LineItemDynamics {
+  key: string; // FinancialData field (nonCurrentAssets is derived: 1600 - 1200), line<code> for lines without one
+  code: string; // Reporting line code
+  label: string;
+  statement: "balance" | "income";
+  bold?: boolean; // Section totals
+  adverseGrowth?: boolean; // Growth is unfavorable (liabilities, expenses): shown in red
+  values: (number | undefined)[]; // Same order as years
+  shares: (number | undefined)[]; // Vertical analysis: share of total assets (balance) or revenue (income)
+  changes: LineItemChange[]; // Horizontal analysis, most recent change first
+}
+
+export interface HorizontalVerticalAnalysis {
+  years: number[]; // Most recent first, like periods
+  lines: LineItemDynamics[];
+}
+
+// DuPont decomposition of ROE (year-end balances, so the factors multiply to ROE exactly)
+export interface DuPontPeriod {
+  year: number;
+  roe: number; // 2400 / 1300
+  netProfitMargin: number; // 2400 / 2110
+  assetTurnover: number; // 2110 / 1600
+  equityMultiplier: number; // 1600 / 1300
+  // Five-factor model: net profit margin = tax burden × interest burden × operating margin
+  taxBurden?: number; // 2400 / 2300
+  interestBurden?: number; // 2300 / EBIT
+  operatingMargin?: number; // EBIT / 2110, EBIT = 2300 + 2330
+}
+
+// Contribution of one factor to the ROE change (chain substitution)
+export interface DuPontFactorEffect {
+  factor: "netProfitMargin" | "assetTurnover" | "equityMultiplier" | "taxBurden" | "interestBurden" | "operatingMargin";
+  label: string;
+  effect: number; // Change of ROE in shares (0.01 = 1 п.п.)
+}
+
+export interface DuPontChange {
+  fromYear: number;
+  toYear: number;
+  roeChange: number;
+  threeFactor: DuPontFactorEffect[];
+  fiveFactor?: DuPontFactorEffect[]; // Only when both years have the five-factor breakdown
+}
+
+export interface DuPontAnalysis {
+  periods: DuPontPeriod[]; // Most recent first
+  changes: DuPontChange[]; // Between consecutive periods, most recent first
+}
+
+// Net assets compared with the authorized capital: LLC/JSC with net assets below it
+// for two years in a row must reduce the capital or liquidate
+export type NetAssetsStatus = "good" | "warning" | "critical";
+
+export interface NetAssetsPeriod {
+  year: number;
+  netAssets: number; // 1600 - 1400 - (1500 - 1530)
+  authorizedCapital?: number; // 1310
+  excess?: number; // Net assets - authorized capital
+  status: NetAssetsStatus;
+  message: string;
+}
+
+// Balance liquidity by asset groups A1–A4 and liability groups P1–P4
+export type LiquidityBalanceType = "absolute" | "normal" | "insufficient" | "crisis";
+
+export interface LiquidityGroupingPeriod {
+  year: number;
+  assets: number[]; // A1 most liquid (1240 + 1250), A2 receivables (1230), A3 other current assets, A4 non-current assets (1100)
+  liabilities: number[]; // P1 payables (1520), P2 short-term borrowings (1510 + 1550), P3 long-term (1400 + 1540), P4 equity (1300 + 1530)
+  surplus: number[]; // Ai - Pi: surplus (+) or shortfall (-) of every group
+  inequalities: boolean[]; // A1 ≥ P1, A2 ≥ P2, A3 ≥ P3, A4 ≤ P4
+  balanceType: LiquidityBalanceType;
+  currentLiquidity: number; // (A1 + A2) - (P1 + P2)
+  prospectiveLiquidity: number; // A3 - P3
+  generalLiquidityRatio?: number; // (A1 + 0.5A2 + 0.3A3) / (P1 + 0.5P2 + 0.3P3), norm ≥ 1
+}
+
+// Credit rating scale from the most to the least creditworthy borrower
+export type CreditRatingGrade = "A+" | "A" | "B+" | "B" | "C+" | "C" | "D";
+
+export interface CreditRatingFactor {
+  id: "liquidity" | "stability" | "profitability" | "activity" | "trend";
+  name: string;
+  weight: number; // Effective weight (0-1) after excluding factors without data
+  score: number; // Factor score on a 0-100 scale
+  contribution: number; // weight * score - points added to the total score
+  explanation: string; // Indicators the factor score is based on
+}
+
+export interface CreditRating {
+  grade: CreditRatingGrade;
+  score: number; // Weighted total on a 0-100 scale
+  riskLevel: "low" | "medium" | "high";
+  creditDecision: string; // Одобрить / Условно одобрить / Отклонить
+  factors: CreditRatingFactor[];
+  scale: { grade: CreditRatingGrade; minScore: number; description: string }[]; // Grade boundaries used
 }
 
 // Bank-style credit report structure
@@ -144,6 +472,7 @@ export interface BankCreditReport {
     stability: {
       analysis: string; // Detailed analysis with specific ratios
       conclusion: string; // Brief summary conclusion
+      stabilityType?: FinancialStabilityType; // Three-component indicator type, calculated (not generated)
     };
     profitability: {
       analysis: string; // Detailed analysis with specific ratios
@@ -163,9 +492,51 @@ export interface BankCreditReport {
   };
   
   riskLevel: "low" | "medium" | "high";
+
+  // 5. Rule-based credit rating; riskLevel and creditDecision above always follow it
+  creditRating: CreditRating;
+
+  // Schema validation and fact-checking of the AI response (not set for the rule-based report)
+  validation?: CreditReportValidation;
+}
+
+// Parts of the credit report that are validated and replaced with the rule-based text one by one
+export type CreditReportSection =
+  | "industrySector"
+  | "liquidity"
+  | "stability"
+  | "profitability"
+  | "strengths"
+  | "weaknesses"
+  | "recommendations";
+
+// Number cited by the model that matches none of the calculated values
+export interface CreditReportFactMismatch {
+  section: CreditReportSection;
+  cited: string; // As written in the report ("1,85", "12,4%", "3,2 млн")
+  context: string; // Surrounding text
+}
+
+export interface CreditReportValidation {
+  repairAttempts: number; // Requests to fix a response that did not match the schema
+  checkedNumbers: number;
+  mismatches: CreditReportFactMismatch[];
+  // Sections taken from the rule-based report: still invalid after the repair, or too many unconfirmed numbers
+  replacedSections: { section: CreditReportSection; reason: "invalid" | "facts" }[];
+}
+
+// Borrower company: analyses with the same ИНН/ОГРН are linked to one company
+export interface Company {
+  id: string;
+  inn?: string;
+  ogrn?: string;
+  name?: string;
+  okved?: string;
+  createdAt: string;
 }
 
 export interface FinancialAnalysisResult {
+  companyId?: string; // Company the upload was matched to (by ИНН, ОГРН or name)
   data: FinancialData;
   ratios: {
     currentRatio: RatioWithStatus;
@@ -176,6 +547,10 @@ export interface FinancialAnalysisResult {
     debtRatio: RatioWithStatus;
     financialLeverageRatio: RatioWithStatus;
     workingCapital: RatioWithStatus;
+    // Own working capital ratios (optional: not stored for earlier analyses)
+    ownWorkingCapital?: RatioWithStatus;
+    workingCapitalSufficiency?: RatioWithStatus;
+    equityManeuverability?: RatioWithStatus;
     // Profitability ratios (optional)
     roa?: RatioWithStatus;
     roe?: RatioWithStatus;
@@ -183,14 +558,219 @@ export interface FinancialAnalysisResult {
     grossProfitMargin?: RatioWithStatus;
     operatingProfitMargin?: RatioWithStatus;
     netProfitMargin?: RatioWithStatus;
+    // Activity ratios (optional)
+    assetTurnover?: RatioWithStatus;
+    receivablesTurnover?: RatioWithStatus;
+    inventoryTurnover?: RatioWithStatus;
+    payablesTurnover?: RatioWithStatus;
+    daysSalesOutstanding?: RatioWithStatus;
+    daysInventoryOutstanding?: RatioWithStatus;
+    daysPayablesOutstanding?: RatioWithStatus;
+    cashConversionCycle?: RatioWithStatus;
+    // Cash flow ratios (optional)
+    operatingCashFlowRatio?: RatioWithStatus;
+    freeCashFlow?: RatioWithStatus;
+    cashDebtCoverage?: RatioWithStatus;
+    qualityOfEarnings?: RatioWithStatus;
+    // Debt service ratios (optional)
+    ebitda?: RatioWithStatus;
+    netDebtToEbitda?: RatioWithStatus;
+    interestCoverage?: RatioWithStatus;
+    debtServiceCoverage?: RatioWithStatus;
   };
   // Historical periods (3 years of data)
   periods?: ReportingPeriod[];
+  // Industry benchmark profile used for ratio statuses
+  benchmarkProfile?: AppliedBenchmarkProfile;
+  // Bankruptcy prediction models (only when the income statement is available)
+  bankruptcyModels?: BankruptcyModelResult[];
+  // Capital movement from the statement of changes in equity (only when Form 3 is available)
+  equityStatement?: EquityStatementAnalysis;
+  // Horizontal (change between periods) and vertical (structure) analysis of the statements
+  horizontalVerticalAnalysis?: HorizontalVerticalAnalysis;
+  // Liquidity balance grouping A1–A4 / P1–P4 for every period, most recent first
+  liquidityGrouping?: LiquidityGroupingPeriod[];
+  // Net assets against the authorized capital for every period, most recent first
+  netAssets?: NetAssetsPeriod[];
+  // DuPont decomposition of ROE and factor analysis of its change between periods
+  duPontAnalysis?: DuPontAnalysis;
   // AI Analysis in bank credit report format
   aiAnalysis: BankCreditReport;
   timestamp: string;
 }
 
+// Asynchronous analysis job: POST /api/analyze returns the job, progress is streamed over SSE
+export type AnalysisJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export type AnalysisJobStage =
+  | "queued"
+  | "parsing"
+  | "normalizing"
+  | "periods"
+  | "ratios"
+  | "models"
+  | "ai"
+  | "saving"
+  | "done";
+
+// AI credit report sections streamed while the model writes them. Each one passed its schema and the fact check
+// on its own; the final report may still differ after a repair request or the check of the whole report
+export interface CreditReportDraft {
+  industrySector?: GeneratedCreditReport["industrySector"];
+  liquidity?: GeneratedCreditReport["financialCondition"]["liquidity"];
+  stability?: GeneratedCreditReport["financialCondition"]["stability"];
+  profitability?: GeneratedCreditReport["financialCondition"]["profitability"];
+  strengths?: string[];
+  weaknesses?: string[];
+  recommendations?: GeneratedCreditReport["recommendations"];
+}
+
+// Calculated part of the result, published before the AI report, and the report sections written so far
+export interface AnalysisJobPreview {
+  result: Omit<FinancialAnalysisResult, "aiAnalysis" | "timestamp">;
+  creditRating: CreditRating;
+  reportSections: CreditReportDraft;
+}
+
+export interface AnalysisJob {
+  id: string;
+  fileName: string;
+  status: AnalysisJobStatus;
+  stage: AnalysisJobStage;
+  stageLabel: string; // Stage description for the progress dialog
+  progress: number; // 0-100
+  error?: string;
+  // Set during the AI stage, removed when the job is finished
+  preview?: AnalysisJobPreview;
+  // Set when the job is completed
+  analysisId?: string;
+  company?: Company;
+  result?: FinancialAnalysisResult;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Batch upload: every file (or file from a ZIP archive) becomes an analysis job
+export interface BatchFileResult {
+  fileName: string;
+  jobId?: string; // Not set for files rejected before analysis (unsupported format)
+  status: AnalysisJobStatus;
+  progress: number;
+  error?: string;
+  analysisId?: string;
+  companyName?: string;
+  inn?: string;
+  creditGrade?: CreditRatingGrade;
+}
+
+export interface PortfolioBorrower {
+  analysisId: string;
+  fileName: string;
+  companyName?: string;
+  inn?: string;
+  creditGrade?: CreditRatingGrade;
+  creditScore?: number;
+  riskLevel: "low" | "medium" | "high";
+  currentRatio: number;
+  quickRatio: number;
+  debtRatio: number;
+  totalAssets: number;
+  totalDebt: number; // Short-term borrowings + long-term liabilities
+  revenue: number;
+}
+
+export interface PortfolioSummary {
+  borrowers: number;
+  averageScore?: number;
+  ratingDistribution: { grade: CreditRatingGrade; count: number }[];
+  riskDistribution: Record<PortfolioBorrower["riskLevel"], number>;
+  worstLiquidity: PortfolioBorrower[]; // Lowest current ratio first
+  exposure: {
+    totalAssets: number;
+    totalLiabilities: number;
+    totalEquity: number;
+    totalDebt: number;
+    totalRevenue: number;
+    debtRatio: number; // Aggregate liabilities / aggregate assets
+    highRiskDebtShare: number; // Share of the portfolio debt held by high-risk borrowers
+  };
+}
+
+export interface BatchAnalysis {
+  id: string;
+  status: "running" | "completed";
+  files: BatchFileResult[];
+  summary: PortfolioSummary;
+  createdAt: string;
+}
+
+// Proposed loan stress test: pro-forma ratios after the loan and the debt capacity under covenants
+export type LoanAmortizationType = "annuity" | "linear" | "bullet";
+export type LoanPurpose = "workingCapital" | "investment";
+
+// Covenant limits; not set in the request - the "good" thresholds of the benchmark profile
+export interface LoanCovenants {
+  minDebtServiceCoverage: number;
+  maxNetDebtToEbitda: number;
+  minInterestCoverage: number;
+}
+
+// Loan repayment aggregated by loan year (12 months from the disbursement)
+export interface LoanScheduleYear {
+  year: number; // 1, 2, ... from the disbursement
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number; // Outstanding principal at the end of the year
+  debtService: number; // Existing interest (2330) + loan payment
+  debtServiceCoverage?: number; // EBITDA / debt service
+}
+
+export interface LoanCovenantCheck {
+  covenant: keyof LoanCovenants;
+  label: string;
+  limit: number;
+  value?: number; // Not set when the ratio cannot be calculated (no interest, non-positive EBITDA)
+  passed: boolean;
+}
+
+export interface LoanStressTestResult {
+  loan: Omit<LoanStressTestRequest, "covenants">;
+  covenants: LoanCovenants;
+  ebitda: number;
+  proFormaData: FinancialData;
+  baseRatios: FinancialAnalysisResult["ratios"];
+  proFormaRatios: FinancialAnalysisResult["ratios"];
+  schedule: LoanScheduleYear[];
+  minDebtServiceCoverage?: number; // Lowest DSCR over the schedule
+  covenantChecks: LoanCovenantCheck[];
+  passed: boolean;
+  maxSustainableLoan: number; // Largest amount on the same terms that meets every covenant
+}
+
+// Local calculation the chat assistant ran to answer (see server/analysis-chat.ts)
+export interface AnalysisChatToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+  summary: string; // Short result for the chat, e.g. "Текущая ликвидность: 1.42 → 1.18"
+}
+
+// Question or answer of the Q&A chat over a saved analysis
+export interface AnalysisChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  toolCalls?: AnalysisChatToolCall[];
+  createdAt: string;
+}
+
+// Events streamed by POST /api/analysis/:id/chat
+export type AnalysisChatEvent =
+  | { type: "delta"; text: string }
+  | { type: "tool"; toolCall: AnalysisChatToolCall }
+  | { type: "done"; message: AnalysisChatMessage }
+  | { type: "error"; error: string };
+
 // Schema for file upload validation
 export const uploadFileSchema = z.object({
   filename: z.string(),
@@ -208,6 +788,8 @@ export const financialDataSchema = z.object({
   // Company information
   okved: z.string().optional(),
   companyName: z.string().optional(),
+  inn: z.string().optional(),
+  ogrn: z.string().optional(),
   
   currentAssets: z.number().positive(),
   cashAndEquivalents: z.number().nonnegative(),
@@ -221,10 +803,19 @@ export const financialDataSchema = z.object({
   equity: z.number().positive(),
   longTermDebt: z.number().nonnegative(),
   revenue: z.number().optional(),
+  costOfSales: z.number().optional(),
   netIncome: z.number().optional(),
   operatingIncome: z.number().optional(),
   grossProfit: z.number().optional(),
   profitBeforeTax: z.number().optional(),
+  interestExpense: z.number().optional(),
+  depreciation: z.number().optional(),
+  operatingCashFlow: z.number().optional(),
+  investingCashFlow: z.number().optional(),
+  financingCashFlow: z.number().optional(),
+  netCashFlow: z.number().optional(),
+  capitalExpenditures: z.number().optional(),
+  equityStatementLines: z.record(z.number()).optional(),
   // Detailed line items
   intangibleAssets: z.number().optional(),
   rdResults: z.number().optional(),
@@ -251,3 +842,169 @@ export const financialDataSchema = z.object({
 });
 
 export type InsertFinancialData = z.infer<typeof financialDataSchema>;
+
+// Benchmark profile threshold: values must be ordered from excellent to warning
+export const ratioThresholdSchema = z.object({
+  excellent: z.number(),
+  good: z.number(),
+  warning: z.number(),
+  reverse: z.boolean().optional(),
+}).refine(
+  (t) => t.reverse
+    ? t.excellent <= t.good && t.good <= t.warning
+    : t.excellent >= t.good && t.good >= t.warning,
+  "Пороги должны идти от excellent к warning (по убыванию, для reverse — по возрастанию)"
+);
+
+// Benchmark profile override sent to PUT /api/benchmarks/:id (all fields optional)
+export const benchmarkProfileOverrideSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  okvedSections: z.array(z.string().regex(/^[A-U]$/, "Раздел ОКВЭД - буква от A до U")).optional(),
+  okvedClasses: z.array(z.string().regex(/^\d{2}(\.\d{1,2}){0,2}$/, "Класс ОКВЭД в формате 47 или 47.11")).optional(),
+  thresholds: z.record(z.enum(benchmarkRatioKeys), ratioThresholdSchema).optional(),
+});
+
+export type BenchmarkProfileOverride = z.infer<typeof benchmarkProfileOverrideSchema>;
+
+// Credit report generated by the AI: riskLevel, creditDecision and stabilityType are optional,
+// they are always set from the rating and the calculation
+const creditReportTextSchema = z.object({
+  analysis: z.string().min(1),
+  conclusion: z.string().min(1),
+});
+
+export const bankCreditReportSchema = z.object({
+  industrySector: z.object({
+    description: z.string().min(1),
+    marketConditions: z.string().optional(),
+  }),
+  financialCondition: z.object({
+    liquidity: creditReportTextSchema,
+    stability: creditReportTextSchema,
+    profitability: creditReportTextSchema,
+  }),
+  strengths: z.array(z.string().min(1)).min(1),
+  weaknesses: z.array(z.string().min(1)).min(1),
+  recommendations: z.object({
+    items: z.array(z.string().min(1)).min(1),
+    creditDecision: z.string().optional(),
+    comment: z.string().min(1),
+  }),
+  riskLevel: z.string().optional(),
+});
+
+export type GeneratedCreditReport = z.infer<typeof bankCreditReportSchema>;
+
+// Proposed loan sent to POST /api/analysis/:id/stress-test
+export const loanStressTestSchema = z.object({
+  amount: z.number().positive("Сумма кредита должна быть больше нуля"),
+  termMonths: z.number().int().min(1).max(360, "Срок кредита - не более 360 месяцев"),
+  annualRate: z.number().min(0).max(100), // % per annum
+  amortization: z.enum(["annuity", "linear", "bullet"]),
+  purpose: z.enum(["workingCapital", "investment"]).default("workingCapital"),
+  covenants: z.object({
+    minDebtServiceCoverage: z.number().positive(),
+    maxNetDebtToEbitda: z.number().positive(),
+    minInterestCoverage: z.number().positive(),
+  }).partial().optional(),
+});
+
+export type LoanStressTestRequest = z.infer<typeof loanStressTestSchema>;
+
+// Question sent to POST /api/analysis/:id/chat
+export const analysisChatRequestSchema = z.object({
+  message: z.string().trim().min(1, "Введите вопрос").max(2000, "Вопрос не должен превышать 2000 символов"),
+});
+
+// ─── Database tables (used by DbStorage, migrations are generated into ./migrations) ───
+
+// Borrower companies identified by ИНН/ОГРН
+export const companies = pgTable("companies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  inn: text("inn").unique(),
+  ogrn: text("ogrn").unique(),
+  name: text("name"),
+  okved: text("okved"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Analysis header with the reporting period data and the parts stored as a whole
+export const analyses = pgTable("analyses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").references(() => companies.id, { onDelete: "set null" }),
+  companyName: text("company_name"),
+  okved: text("okved"),
+  data: jsonb("data").$type<FinancialData>().notNull(),
+  benchmarkProfile: jsonb("benchmark_profile").$type<AppliedBenchmarkProfile>(),
+  bankruptcyModels: jsonb("bankruptcy_models").$type<BankruptcyModelResult[]>(),
+  equityStatement: jsonb("equity_statement").$type<EquityStatementAnalysis>(),
+  horizontalVerticalAnalysis: jsonb("horizontal_vertical_analysis").$type<HorizontalVerticalAnalysis>(),
+  liquidityGrouping: jsonb("liquidity_grouping").$type<LiquidityGroupingPeriod[]>(),
+  netAssets: jsonb("net_assets").$type<NetAssetsPeriod[]>(),
+  duPontAnalysis: jsonb("dupont_analysis").$type<DuPontAnalysis>(),
+  timestamp: text("timestamp").notNull(), // ISO time of the analysis as returned to the client
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Reporting periods of an analysis (position 0 = reporting year, then previous years)
+export const analysisPeriods = pgTable("analysis_periods", {
+  id: serial("id").primaryKey(),
+  analysisId: varchar("analysis_id").notNull().references(() => analyses.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  year: integer("year").notNull(),
+  data: jsonb("data").$type<FinancialData>().notNull(),
+  financialStability: jsonb("financial_stability").$type<FinancialStabilityAssessment>(),
+}, (table) => [
+  index("analysis_periods_analysis_id_idx").on(table.analysisId),
+]);
+
+// Evaluated ratios: periodId is null for the ratios of the analysis itself
+export const analysisRatios = pgTable("analysis_ratios", {
+  id: serial("id").primaryKey(),
+  analysisId: varchar("analysis_id").notNull().references(() => analyses.id, { onDelete: "cascade" }),
+  periodId: integer("period_id").references(() => analysisPeriods.id, { onDelete: "cascade" }),
+  key: text("key").notNull(),
+  value: doublePrecision("value").notNull(),
+  status: text("status").$type<RatioStatus>().notNull(),
+  benchmark: text("benchmark").notNull(),
+  description: text("description").notNull(),
+  formula: text("formula").notNull(),
+}, (table) => [
+  index("analysis_ratios_analysis_id_idx").on(table.analysisId),
+]);
+
+// AI credit report with the rating fields extracted for querying
+export const aiReports = pgTable("ai_reports", {
+  analysisId: varchar("analysis_id").primaryKey().references(() => analyses.id, { onDelete: "cascade" }),
+  riskLevel: text("risk_level").$type<BankCreditReport["riskLevel"]>().notNull(),
+  creditGrade: text("credit_grade").$type<CreditRatingGrade>(),
+  creditScore: doublePrecision("credit_score"),
+  report: jsonb("report").$type<BankCreditReport>().notNull(),
+});
+
+// Benchmark profiles changed through the API
+export const benchmarkOverrides = pgTable("benchmark_overrides", {
+  id: text("id").primaryKey(),
+  profile: jsonb("profile").$type<BenchmarkProfile>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Q&A chat history of an analysis
+export const analysisChatMessages = pgTable("analysis_chat_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  analysisId: varchar("analysis_id").notNull().references(() => analyses.id, { onDelete: "cascade" }),
+  role: text("role").$type<AnalysisChatMessage["role"]>().notNull(),
+  content: text("content").notNull(),
+  toolCalls: jsonb("tool_calls").$type<AnalysisChatToolCall[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("analysis_chat_messages_analysis_id_idx").on(table.analysisId),
+]);
+
+export type CompanyRow = typeof companies.$inferSelect;
+export type AnalysisRow = typeof analyses.$inferSelect;
+export type AnalysisPeriodRow = typeof analysisPeriods.$inferSelect;
+export type AnalysisRatioRow = typeof analysisRatios.$inferSelect;
+export type AiReportRow = typeof aiReports.$inferSelect;
+export type AnalysisChatMessageRow = typeof analysisChatMessages.$inferSelect;
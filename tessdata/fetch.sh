@@ -0,0 +1,17 @@
+#!/bin/sh
+# Download the Tesseract language data used for OCR of scanned PDF statements (tessdata_fast LSTM models).
+# Run once at setup or deploy; OCR itself never goes to the network.
+set -e
+
+cd "$(dirname "$0")"
+TESSDATA_URL="${TESSDATA_URL:-https://github.com/tesseract-ocr/tessdata_fast/raw/main}"
+
+for language in rus eng; do
+  if [ -s "$language.traineddata" ]; then
+    echo "✓ $language.traineddata is already present"
+    continue
+  fi
+  curl -fL --retry 3 -o "$language.traineddata.part" "$TESSDATA_URL/$language.traineddata"
+  mv "$language.traineddata.part" "$language.traineddata"
+  echo "✓ $language.traineddata downloaded"
+done